@@ -0,0 +1,61 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { useHousehold } from "@/components/household-provider";
+import TransactionChangeLogList from "@/components/transaction-change-log-list";
+import { useCategories } from "@/hooks/use-categories";
+import { useHouseholdChangeLogs } from "@/hooks/use-transaction-change-logs";
+
+const PAGE_SIZE = 40;
+
+export default function ActivityPage() {
+  const { householdId } = useHousehold();
+  const { user } = useAuth();
+  const { categories } = useCategories(householdId);
+  const [maxItems, setMaxItems] = useState(PAGE_SIZE);
+  const { logs, loading } = useHouseholdChangeLogs(householdId, maxItems);
+
+  const categoryNameMap = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-2xl font-semibold">활동 기록</h1>
+        <p className="text-sm text-[color:rgba(45,38,34,0.7)]">
+          누가 언제 어떤 내역을 어떻게 고쳤는지 최근 것부터 보여줍니다.
+        </p>
+      </div>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4">
+        {loading && logs.length === 0 ? (
+          <p className="text-sm text-[color:rgba(45,38,34,0.6)]">불러오는 중...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-[color:rgba(45,38,34,0.6)]">
+            아직 수정한 내역이 없습니다.
+          </p>
+        ) : (
+          <>
+            <TransactionChangeLogList
+              logs={logs}
+              categoryNameMap={categoryNameMap}
+              currentUserId={user?.uid ?? null}
+              showTransactionLinks
+            />
+            {logs.length >= maxItems ? (
+              <button
+                type="button"
+                className="mt-4 w-full rounded-full border border-[var(--border)] px-4 py-2 text-sm text-[color:rgba(45,38,34,0.7)]"
+                onClick={() => setMaxItems((prev) => prev + PAGE_SIZE)}
+              >
+                더보기
+              </button>
+            ) : null}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
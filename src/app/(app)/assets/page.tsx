@@ -9,9 +9,13 @@ import {
   startOfMonth,
   subMonths,
 } from "date-fns";
-import { Timestamp } from "firebase/firestore";
+import { Timestamp, doc } from "firebase/firestore";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
+import TransactionRecurringSection, {
+  buildRecurrenceFormState,
+  parseRecurrenceForm,
+} from "@/components/transaction-recurring-section";
 import { useAccounts } from "@/hooks/use-accounts";
 import { useAccountHoldings } from "@/hooks/use-account-holdings";
 import { useAccountTrades } from "@/hooks/use-account-trades";
@@ -23,9 +27,16 @@ import {
   updateAccount,
   updateTransfer,
 } from "@/lib/accounts";
+import { transfersCol } from "@/lib/firebase/firestore";
 import { addInvestmentTrade } from "@/lib/investments";
+import {
+  createRecurringTransferRule,
+  deleteRecurringTransactionRule,
+} from "@/lib/recurring-transactions";
 import { formatKrw } from "@/lib/format";
 import { toMonthKey } from "@/lib/time";
+import { getTrashItemId } from "@/lib/trash";
+import { captureUndoState, recordUndoEntry, type UndoTarget } from "@/lib/undo-actions";
 import { useAccountGroups } from "@/hooks/use-account-groups";
 
 const ACCOUNT_TYPES = [
@@ -131,6 +142,16 @@ export default function AssetsPage() {
   const [transferDate, setTransferDate] = useState(() =>
     format(new Date(), "yyyy-MM-dd")
   );
+  const [isRecurringTransfer, setIsRecurringTransfer] = useState(false);
+  const [transferRecurrenceForm, setTransferRecurrenceForm] = useState(() =>
+    buildRecurrenceFormState(new Date())
+  );
+  const [transferRecurringStartDate, setTransferRecurringStartDate] = useState(
+    () => format(new Date(), "yyyy-MM-dd")
+  );
+  const [transferRecurringEndDate, setTransferRecurringEndDate] = useState("");
+  const [prependMonthToTransferMemo, setPrependMonthToTransferMemo] =
+    useState(false);
   const [tradeType, setTradeType] = useState<"buy" | "sell">("buy");
   const [tradeAmount, setTradeAmount] = useState("");
   const [tradeDate, setTradeDate] = useState(() =>
@@ -691,6 +712,18 @@ export default function AssetsPage() {
     }
   };
 
+  // Only balances are tracked on accounts, so renaming an account in between
+  // does not block undoing the transfer.
+  const getTransferUndoTargets = (
+    transferId: string,
+    accountIds: (string | null | undefined)[]
+  ): UndoTarget[] => [
+    `transfers/${transferId}`,
+    ...accountIds.flatMap((accountId) =>
+      accountId ? [{ path: `accounts/${accountId}`, fields: ["balance"] }] : []
+    ),
+  ];
+
   const handleAddTransfer = async () => {
     if (!householdId || !user) {
       return;
@@ -712,9 +745,40 @@ export default function AssetsPage() {
       setErrorMessage("출금/입금 계좌를 선택해주세요.");
       return;
     }
+    const recurrence = parseRecurrenceForm(transferRecurrenceForm);
+    const parsedRecurringStartDate = parseLocalDate(transferRecurringStartDate);
+    const parsedRecurringEndDate = transferRecurringEndDate
+      ? parseLocalDate(transferRecurringEndDate)
+      : null;
+    const shouldCreateRecurringRule = isRecurringTransfer && !editingTransferId;
+    if (shouldCreateRecurringRule && (!recurrence || !parsedRecurringStartDate)) {
+      setErrorMessage("자동 등록 시작일과 반복 주기를 확인해주세요.");
+      return;
+    }
+    if (
+      shouldCreateRecurringRule &&
+      parsedRecurringStartDate &&
+      parsedRecurringEndDate &&
+      parsedRecurringEndDate < parsedRecurringStartDate
+    ) {
+      setErrorMessage("자동 등록 종료일은 시작일 이후여야 합니다.");
+      return;
+    }
     setSaving(true);
+    let recurringRuleId: string | null = null;
+    let transferCreated = false;
     try {
       if (editingTransferId) {
+        const previous = transfers.find((transfer) => transfer.id === editingTransferId);
+        const undoCapture = await captureUndoState(
+          householdId,
+          getTransferUndoTargets(editingTransferId, [
+            previous?.fromAccountId,
+            previous?.toAccountId,
+            fromId,
+            toId,
+          ])
+        );
         await updateTransfer({
           householdId,
           transferId: editingTransferId,
@@ -724,9 +788,39 @@ export default function AssetsPage() {
           date: parsedDate,
           memo: transferMemo.trim(),
         });
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
+          kind: "transfer.update",
+          label: `이체 수정 · ${formatKrw(Number(cleaned))}`,
+        });
       } else {
+        if (shouldCreateRecurringRule && recurrence && parsedRecurringStartDate) {
+          const recurringRule = await createRecurringTransferRule({
+            householdId,
+            fromAccountId: fromId,
+            toAccountId: toId,
+            amount: Number(cleaned),
+            note: transferMemo.trim() || undefined,
+            prependMonthToNote: prependMonthToTransferMemo,
+            dayOfMonth:
+              recurrence.dayOfMonth ?? parsedRecurringStartDate.getDate(),
+            recurrence,
+            startDate: parsedRecurringStartDate,
+            endDate: parsedRecurringEndDate ?? undefined,
+            lastGeneratedDateKey: transferDate,
+            createdBy: user.uid,
+          });
+          recurringRuleId = recurringRule.id;
+        }
+        const transferId = doc(transfersCol(householdId)).id;
+        const undoCapture = await captureUndoState(
+          householdId,
+          getTransferUndoTargets(transferId, [fromId, toId])
+        );
         await addTransfer({
           householdId,
+          transferId,
           fromAccountId: fromId,
           toAccountId: toId,
           amount: Number(cleaned),
@@ -734,13 +828,29 @@ export default function AssetsPage() {
           memo: transferMemo.trim(),
           createdBy: user.uid,
         });
+        transferCreated = true;
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
+          kind: "transfer.create",
+          label: `이체 추가 · ${formatKrw(Number(cleaned))}`,
+          createdTargets: recurringRuleId
+            ? [`recurringTransactionRules/${recurringRuleId}`]
+            : [],
+        });
       }
       setEditingTransferId(null);
       setTransferAmount("");
       setTransferMemo("");
       setTransferDate(format(new Date(), "yyyy-MM-dd"));
+      setIsRecurringTransfer(false);
       setShowTransferSheet(false);
     } catch (error) {
+      if (recurringRuleId && !transferCreated) {
+        await deleteRecurringTransactionRule(householdId, recurringRuleId).catch(
+          () => undefined
+        );
+      }
       setErrorMessage(error instanceof Error ? error.message : "이체 실패");
     } finally {
       setSaving(false);
@@ -748,19 +858,34 @@ export default function AssetsPage() {
   };
 
   const handleDeleteTransfer = async () => {
-    if (!householdId || !editingTransferId) {
+    if (!householdId || !user || !editingTransferId) {
       return;
     }
-    const confirmed = window.confirm("이 이체 내역을 삭제할까요?");
+    const confirmed = window.confirm("이 이체 내역을 휴지통으로 옮길까요?");
     if (!confirmed) {
       return;
     }
     setSaving(true);
     setErrorMessage(null);
     try {
+      const transfer = transfers.find((item) => item.id === editingTransferId);
+      const undoCapture = await captureUndoState(householdId, [
+        ...getTransferUndoTargets(editingTransferId, [
+          transfer?.fromAccountId,
+          transfer?.toAccountId,
+        ]),
+        `trash/${getTrashItemId("transfer", editingTransferId)}`,
+      ]);
       await deleteTransfer({
         householdId,
         transferId: editingTransferId,
+        deletedBy: user.uid,
+      });
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "transfer.delete",
+        label: `이체 삭제${transfer ? ` · ${formatKrw(transfer.amount)}` : ""}`,
       });
       setShowTransferSheet(false);
       setEditingTransferId(null);
@@ -858,6 +983,11 @@ export default function AssetsPage() {
               setTransferAmount("");
               setTransferMemo("");
               setTransferDate(format(new Date(), "yyyy-MM-dd"));
+              setIsRecurringTransfer(false);
+              setTransferRecurrenceForm(buildRecurrenceFormState(new Date()));
+              setTransferRecurringStartDate(format(new Date(), "yyyy-MM-dd"));
+              setTransferRecurringEndDate("");
+              setPrependMonthToTransferMemo(false);
               setShowTransferSheet(true);
             }}
           >
@@ -1651,6 +1781,21 @@ export default function AssetsPage() {
                   className="mt-1 w-full rounded-xl border border-[var(--border)] px-3 py-2 text-sm"
                 />
               </div>
+              {editingTransferId ? null : (
+                <TransactionRecurringSection
+                  enabled={isRecurringTransfer}
+                  onEnabledChange={setIsRecurringTransfer}
+                  recurrence={transferRecurrenceForm}
+                  onRecurrenceChange={setTransferRecurrenceForm}
+                  startDate={transferRecurringStartDate}
+                  onStartDateChange={setTransferRecurringStartDate}
+                  endDate={transferRecurringEndDate}
+                  onEndDateChange={setTransferRecurringEndDate}
+                  prependMonthToNote={prependMonthToTransferMemo}
+                  onPrependMonthToNoteChange={setPrependMonthToTransferMemo}
+                  disabled={saving}
+                />
+              )}
               <div className="mt-2 flex gap-2">
                 {editingTransferId ? (
                   <button
@@ -4,7 +4,6 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   addMonths,
-  endOfMonth,
   format,
   startOfMonth,
 } from "date-fns";
@@ -13,12 +12,15 @@ import UndoToast from "@/components/undo-toast";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
 import { useCategories } from "@/hooks/use-categories";
-import { useTransactionsRange } from "@/hooks/use-transactions";
+import { useMonthlyAggregates } from "@/hooks/use-monthly-aggregates";
+import { useMonthlyTransactions } from "@/hooks/use-transactions";
 import { budgetsCol } from "@/lib/firebase/firestore";
 import { formatKrw } from "@/lib/format";
+import { getAggregateAmount } from "@/lib/monthly-aggregates";
 import { addNotification } from "@/lib/notifications";
 import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
-import type { Category, Transaction } from "@/types/ledger";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
+import type { Category, MonthlyAggregate } from "@/types/ledger";
 
 type RangeOption = 6 | 12;
 type ChartType = "bar" | "line";
@@ -65,13 +67,18 @@ function monthKeyToDate(monthKey: string) {
   return new Date(`${monthKey}-01T00:00:00`);
 }
 
+// The chart reads the maintained month totals instead of every record in the
+// range. Another member's entries in a personal category only count when they
+// were put on the budget, the same rule the month detail applies per record.
 function buildMonthPoints(
   endMonth: Date,
   range: RangeOption,
-  transactions: (Transaction & { id: string })[],
+  aggregates: MonthlyAggregate[],
   budgetCategoryIdSet: Set<string>,
   budgetScope: "common" | string,
-  categoryById: Map<string, { id: string; parentId?: string | null }>
+  categoryById: Map<string, { id: string; parentId?: string | null; personalOnly?: boolean }>,
+  personalCategoryIdSet: Set<string>,
+  currentUserId: string | null
 ): MonthPoint[] {
   const months: MonthPoint[] = [];
   for (let i = range - 1; i >= 0; i -= 1) {
@@ -82,40 +89,57 @@ function buildMonthPoints(
   const byKey = new Map(
     months.map((item) => [format(item.month, "yyyy-MM"), item])
   );
+  const scopedCategory =
+    budgetScope === "common" ? null : categoryById.get(budgetScope) ?? null;
 
-  transactions.forEach((tx) => {
-    const date = tx.date.toDate();
-    const key = format(date, "yyyy-MM");
-    const target = byKey.get(key);
+  aggregates.forEach((aggregate) => {
+    const target = byKey.get(aggregate.monthKey);
     if (!target) {
       return;
     }
-    if (tx.type === "income") {
-      target.income += tx.amount;
-      target.net += tx.amount;
-    } else if (tx.type === "expense") {
-      const expenseAmount = getEffectiveExpenseAmount(tx);
-      if (budgetScope === "common") {
-        if (budgetCategoryIdSet.has(tx.categoryId) && !tx.budgetApplied) {
+    Object.entries(aggregate.byCategoryCreator ?? {}).forEach(([categoryId, byCreator]) => {
+      Object.entries(byCreator).forEach(([creatorId, byType]) => {
+        const fullyVisible =
+          !currentUserId ||
+          !personalCategoryIdSet.has(categoryId) ||
+          creatorId === currentUserId;
+        if (budgetScope === "common") {
+          const income = getAggregateAmount(
+            byType,
+            "income",
+            fullyVisible ? "effective" : "budgetApplied"
+          );
+          const expense = getAggregateAmount(
+            byType,
+            "expense",
+            fullyVisible && !budgetCategoryIdSet.has(categoryId)
+              ? "effective"
+              : "budgetApplied"
+          );
+          target.income += income;
+          target.expense += expense;
+          target.net += income - expense;
           return;
         }
-      } else {
-        const category = categoryById.get(tx.categoryId);
+        const category = categoryById.get(categoryId);
         if (!category) {
           return;
         }
         if (category.id !== budgetScope && category.parentId !== budgetScope) {
           return;
         }
-      }
-      if (budgetScope !== "common" && tx.budgetApplied) {
-        target.income += expenseAmount;
-        target.net += expenseAmount;
-      } else {
-        target.expense += expenseAmount;
-        target.net -= expenseAmount;
-      }
-    }
+        if (scopedCategory?.personalOnly && creatorId !== currentUserId) {
+          return;
+        }
+        const applied = getAggregateAmount(byType, "expense", "budgetApplied");
+        const spent = fullyVisible
+          ? getAggregateAmount(byType, "expense", "effective") - applied
+          : 0;
+        target.income += applied;
+        target.expense += spent;
+        target.net += applied - spent;
+      });
+    });
   });
 
   return months;
@@ -178,15 +202,10 @@ export default function BudgetPage() {
   const lastNotifiedLoadKey = useRef<string | null>(null);
 
   const endMonth = useMemo(() => startOfMonth(new Date()), []);
-  const rangeStart = useMemo(
-    () => startOfMonth(addMonths(endMonth, -(range - 1))),
-    [endMonth, range]
-  );
-  const rangeEnd = useMemo(() => endOfMonth(endMonth), [endMonth]);
-  const { transactions, loading } = useTransactionsRange(
+  const { aggregates, loading } = useMonthlyAggregates(
     householdId,
-    rangeStart,
-    rangeEnd
+    format(addMonths(endMonth, -(range - 1)), "yyyy-MM"),
+    format(endMonth, "yyyy-MM")
   );
   const categoriesWithId = categories as CategoryWithId[];
   const personalCategoryIdSet = useMemo(() => {
@@ -386,18 +405,63 @@ export default function BudgetPage() {
       document.body.style.touchAction = prevTouchAction;
     };
   }, [isBudgetSheetOpen, isCategorySelectOpen]);
+  const monthPoints = useMemo(
+    () =>
+      buildMonthPoints(
+        endMonth,
+        range,
+        aggregates,
+        budgetCategoryIdSet,
+        effectiveBudgetScope,
+        categoryById,
+        personalCategoryIdSet,
+        user?.uid ?? null
+      ),
+    [
+      endMonth,
+      range,
+      aggregates,
+      budgetCategoryIdSet,
+      effectiveBudgetScope,
+      categoryById,
+      personalCategoryIdSet,
+      user,
+    ]
+  );
+
+  const initialMonthKey = useMemo(() => format(endMonth, "yyyy-MM"), [endMonth]);
+  const [selectedMonthKey, setSelectedMonthKey] = useState(initialMonthKey);
+  const effectiveSelectedMonthKey = useMemo(() => {
+    if (monthPoints.length === 0) {
+      return selectedMonthKey;
+    }
+    const keys = new Set(monthPoints.map((point) => format(point.month, "yyyy-MM")));
+    if (keys.has(selectedMonthKey)) {
+      return selectedMonthKey;
+    }
+    return format(monthPoints[monthPoints.length - 1].month, "yyyy-MM");
+  }, [monthPoints, selectedMonthKey]);
+  const selectedMonthDate = useMemo(
+    () => new Date(`${effectiveSelectedMonthKey}-01T00:00:00`),
+    [effectiveSelectedMonthKey]
+  );
+  const { transactions } = useMonthlyTransactions(householdId, effectiveSelectedMonthKey);
+  const transactionLines = useMemo(
+    () => transactions.filter((tx) => !tx.refundOf).flatMap(expandTransactionSplits),
+    [transactions]
+  );
   const scopedTransactions = useMemo(() => {
     const currentUserId = user?.uid ?? null;
     if (!currentUserId || personalCategoryIdSet.size === 0) {
-      return transactions;
+      return transactionLines;
     }
-    return transactions.filter(
+    return transactionLines.filter(
       (tx) =>
         !personalCategoryIdSet.has(tx.categoryId) ||
         tx.createdBy === currentUserId ||
         Boolean(tx.budgetApplied)
     );
-  }, [personalCategoryIdSet, transactions, user]);
+  }, [personalCategoryIdSet, transactionLines, user]);
   const visibleTransactions = useMemo(() => {
     return scopedTransactions.filter((tx) => {
       if (effectiveBudgetScope === "common") {
@@ -436,43 +500,6 @@ export default function BudgetPage() {
     user,
   ]);
 
-  const monthPoints = useMemo(
-    () =>
-      buildMonthPoints(
-        endMonth,
-        range,
-        visibleTransactions,
-        budgetCategoryIdSet,
-        effectiveBudgetScope,
-        categoryById
-      ),
-    [
-      endMonth,
-      range,
-      visibleTransactions,
-      budgetCategoryIdSet,
-      effectiveBudgetScope,
-      categoryById,
-    ]
-  );
-
-  const initialMonthKey = useMemo(() => format(endMonth, "yyyy-MM"), [endMonth]);
-  const [selectedMonthKey, setSelectedMonthKey] = useState(initialMonthKey);
-  const effectiveSelectedMonthKey = useMemo(() => {
-    if (monthPoints.length === 0) {
-      return selectedMonthKey;
-    }
-    const keys = new Set(monthPoints.map((point) => format(point.month, "yyyy-MM")));
-    if (keys.has(selectedMonthKey)) {
-      return selectedMonthKey;
-    }
-    return format(monthPoints[monthPoints.length - 1].month, "yyyy-MM");
-  }, [monthPoints, selectedMonthKey]);
-  const selectedMonthDate = useMemo(
-    () => new Date(`${effectiveSelectedMonthKey}-01T00:00:00`),
-    [effectiveSelectedMonthKey]
-  );
-
   const maxAbs = useMemo(
     () => Math.max(1, ...monthPoints.map((point) => Math.abs(point.net))),
     [monthPoints]
@@ -535,8 +562,7 @@ export default function BudgetPage() {
           return false;
         }
       }
-      const key = format(tx.date.toDate(), "yyyy-MM");
-      return key === effectiveSelectedMonthKey;
+      return true;
     });
   }, [
     effectiveSelectedMonthKey,
@@ -1588,9 +1614,9 @@ export default function BudgetPage() {
                       표시할 내역이 없습니다.
                     </div>
                   ) : (
-                    detailTransactions.map((tx) => (
+                    detailTransactions.map((tx, index) => (
                       <button
-                        key={tx.id}
+                        key={`${tx.id}-${index}`}
                         type="button"
                         onClick={() => router.push(`/transactions/${tx.id}`)}
                         className="flex w-full items-center justify-between rounded-2xl border border-[var(--border)] px-4 py-3 text-left"
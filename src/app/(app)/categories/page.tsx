@@ -30,7 +30,9 @@ import {
 import type { DraggableAttributes } from "@dnd-kit/core";
 import { CSS } from "@dnd-kit/utilities";
 import { getDoc, onSnapshot } from "firebase/firestore";
+import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
+import TagManagementSection from "@/components/tag-management-section";
 import { useCategories } from "@/hooks/use-categories";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
 import { useSubjects } from "@/hooks/use-subjects";
@@ -43,8 +45,10 @@ import {
 } from "@/lib/payment-methods";
 import { addSubject, deleteSubject, updateSubject } from "@/lib/subjects";
 import {
+  listTransactionIdsBySubject,
   updateTransactionsSubjectName,
 } from "@/lib/transactions";
+import { captureUndoState, recordUndoEntry } from "@/lib/undo-actions";
 import type { Transaction } from "@/types/ledger";
 
 type CategoryType = "income" | "expense" | "transfer";
@@ -210,6 +214,7 @@ const TAB_ITEMS: { key: TabKey; label: string }[] = [
 ];
 
 export default function CategoriesPage() {
+  const { user } = useAuth();
   const { householdId, displayName, spouseRole } = useHousehold();
   const { categories, loading: categoriesLoading } = useCategories(householdId);
   const { subjects, loading: subjectsLoading } = useSubjects(householdId);
@@ -242,16 +247,19 @@ export default function CategoriesPage() {
   const [editingPersonalOnly, setEditingPersonalOnly] = useState(false);
   const [editingOwner, setEditingOwner] = useState<PaymentOwner>("our");
   const [editingGoal, setEditingGoal] = useState("");
+  const [editingCardSuffix, setEditingCardSuffix] = useState("");
   const [usageState, setUsageState] = useState<{
     householdId: string | null;
     categoryCounts: Record<string, number>;
     subjectCounts: Record<string, number>;
     paymentCounts: Record<string, number>;
+    tagCounts: Record<string, number>;
   }>({
     householdId: null,
     categoryCounts: {},
     subjectCounts: {},
     paymentCounts: {},
+    tagCounts: {},
   });
   const [isCleanupMode, setIsCleanupMode] = useState(false);
   const [cleanupSearch, setCleanupSearch] = useState("");
@@ -325,6 +333,12 @@ export default function CategoriesPage() {
     }
     return usageState.paymentCounts;
   }, [householdId, usageState]);
+  const tagUsageCounts = useMemo(() => {
+    if (usageState.householdId !== householdId) {
+      return {};
+    }
+    return usageState.tagCounts;
+  }, [householdId, usageState]);
   const getLinkedTransactionCount = (paymentMethodId: string) =>
     paymentMethodUsageCounts[paymentMethodId] ?? 0;
 
@@ -376,8 +390,12 @@ export default function CategoriesPage() {
       const categoryCounts: Record<string, number> = {};
       const subjectCounts: Record<string, number> = {};
       const paymentCounts: Record<string, number> = {};
+      const tagCounts: Record<string, number> = {};
       snapshot.docs.forEach((doc) => {
         const data = doc.data() as Transaction;
+        (data.tags ?? []).forEach((tag) => {
+          tagCounts[tag] = (tagCounts[tag] ?? 0) + 1;
+        });
         const categoryId = data.categoryId?.trim();
         if (categoryId) {
           categoryCounts[categoryId] = (categoryCounts[categoryId] ?? 0) + 1;
@@ -408,6 +426,7 @@ export default function CategoriesPage() {
         categoryCounts,
         subjectCounts,
         paymentCounts,
+        tagCounts,
       });
     });
   }, [householdId, paymentMethods]);
@@ -432,6 +451,7 @@ export default function CategoriesPage() {
     setEditingPersonalOnly(false);
     setEditingOwner("our");
     setEditingGoal("");
+    setEditingCardSuffix("");
     setExpandedParentId(null);
     setExpandedPaymentParentId(null);
   }, []);
@@ -590,13 +610,15 @@ export default function CategoriesPage() {
           ? String(current.goalMonthly)
           : "";
       setEditingGoal(formatNumberInput(goalValue));
+      setEditingCardSuffix(current?.cardSuffix ?? "");
     } else {
       setEditingGoal("");
+      setEditingCardSuffix("");
     }
   }
 
   async function handleUpdate() {
-    if (!householdId || !editingId || !editingName.trim()) {
+    if (!householdId || !user || !editingId || !editingName.trim()) {
       return;
     }
     const trimmed = editingName.trim();
@@ -608,7 +630,9 @@ export default function CategoriesPage() {
       await updateTransactionsSubjectName(
         householdId,
         editingOriginalName,
-        trimmed
+        trimmed,
+        user.uid,
+        displayName
       );
     } else if (activeTab === "payment") {
       const cleanedGoal = normalizeNumberInput(editingGoal);
@@ -620,6 +644,7 @@ export default function CategoriesPage() {
         parentId: editingParentId === "none" ? null : editingParentId,
         imported: false,
         goalMonthly: Number.isNaN(parsedGoal ?? NaN) ? null : parsedGoal,
+        cardSuffix: editingCardSuffix.trim() || null,
       });
     } else {
       await updateCategory(householdId, editingId, {
@@ -639,6 +664,7 @@ export default function CategoriesPage() {
     setEditingName("");
     setEditingOriginalName("");
     setEditingGoal("");
+    setEditingCardSuffix("");
   }
 
   async function handleDragEnd(event: DragEndEvent) {
@@ -943,6 +969,9 @@ export default function CategoriesPage() {
         if (typeof item.goalMonthly === "number" && item.goalMonthly > 0) {
           badges.push(`월실적 ${item.goalMonthly.toLocaleString("en-US")}`);
         }
+        if (item.cardSuffix) {
+          badges.push(`끝자리 ${item.cardSuffix}`);
+        }
         return {
           id: item.id,
           kind: "payment",
@@ -1155,6 +1184,7 @@ export default function CategoriesPage() {
     setEditingName("");
     setEditingOriginalName("");
     setEditingGoal("");
+    setEditingCardSuffix("");
     setIsCleanupMode(true);
   }, [isCleanupMode, resetCleanupState, resetNewItemForm]);
   async function handleCleanupDeleteConfirm() {
@@ -1181,6 +1211,7 @@ export default function CategoriesPage() {
   async function handleCleanupMergeConfirm() {
     if (
       !householdId ||
+      !user ||
       activeTab !== "subject" ||
       !effectiveMergeTargetId ||
       selectedCleanupItems.length < 2
@@ -1196,13 +1227,41 @@ export default function CategoriesPage() {
     const sourceItems = selectedCleanupItems.filter(
       (item) => item.id !== effectiveMergeTargetId
     );
+    // Only the subject field is tracked on transactions, which keeps a merge
+    // over many entries small enough to keep in the history.
+    const mergedTransactionIds = (
+      await Promise.all(
+        sourceItems.map((item) => listTransactionIdsBySubject(householdId, item.name))
+      ).catch(() => [])
+    ).flat();
+    const undoCapture = await captureUndoState(householdId, [
+      ...selectedCleanupItems.map((item) => `subjects/${item.id}`),
+      ...mergedTransactionIds.map((id) => ({
+        path: `transactions/${id}`,
+        fields: ["subject", "searchTokens"],
+      })),
+    ]);
     for (const item of sourceItems) {
-      await updateTransactionsSubjectName(householdId, item.name, targetItem.name);
+      await updateTransactionsSubjectName(
+        householdId,
+        item.name,
+        targetItem.name,
+        user.uid,
+        displayName
+      );
       await deleteSubject(householdId, item.id);
     }
     await updateSubject(householdId, effectiveMergeTargetId, {
       imported: false,
     });
+    await recordUndoEntry({
+      householdId,
+      capture: undoCapture,
+      kind: "subject.merge",
+      label: `주체 병합 · ${sourceItems.map((item) => item.name).join(", ")} → ${
+        targetItem.name
+      }`,
+    });
     setCleanupSheet(null);
     setSelectedCleanupIds([]);
     setMergeTargetId(null);
@@ -1900,6 +1959,21 @@ export default function CategoriesPage() {
                             }
                           />
                         </div>
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="text-[color:rgba(45,38,34,0.6)]">
+                            카드 끝자리
+                          </span>
+                          <input
+                            className="w-20 rounded-lg border border-[var(--border)] px-2 py-1 text-right text-xs"
+                            inputMode="numeric"
+                            maxLength={4}
+                            placeholder="1234"
+                            value={editingCardSuffix}
+                            onChange={(event) =>
+                              setEditingCardSuffix(event.target.value.replace(/[^\d*]/g, ""))
+                            }
+                          />
+                        </div>
                         <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
                           이 카드에 연결된 거래{" "}
                           {getLinkedTransactionCount(parent.id).toLocaleString(
@@ -1918,6 +1992,7 @@ export default function CategoriesPage() {
                             onClick={() => {
                               setEditingId(null);
                               setEditingGoal("");
+                              setEditingCardSuffix("");
                             }}
                           >
                             취소
@@ -2026,6 +2101,7 @@ export default function CategoriesPage() {
                                             onClick={() => {
                                               setEditingId(null);
                                               setEditingGoal("");
+                                              setEditingCardSuffix("");
                                             }}
                                           >
                                             취소
@@ -2047,6 +2123,23 @@ export default function CategoriesPage() {
                                             }
                                           />
                                         </div>
+                                        <div className="flex items-center gap-2 text-[10px]">
+                                          <span className="text-[color:rgba(45,38,34,0.6)]">
+                                            카드 끝자리
+                                          </span>
+                                          <input
+                                            className="w-16 rounded-md border border-[var(--border)] px-2 py-1 text-right text-[10px]"
+                                            inputMode="numeric"
+                                            maxLength={4}
+                                            placeholder="1234"
+                                            value={editingCardSuffix}
+                                            onChange={(event) =>
+                                              setEditingCardSuffix(
+                                                event.target.value.replace(/[^\d*]/g, "")
+                                              )
+                                            }
+                                          />
+                                        </div>
                                         <p className="text-[10px] text-[color:rgba(45,38,34,0.6)]">
                                           이 카드에 연결된 거래{" "}
                                           {getLinkedTransactionCount(
@@ -2180,6 +2273,15 @@ export default function CategoriesPage() {
       </section>
       )}
 
+      {!isCleanupMode ? (
+        <TagManagementSection
+          householdId={householdId}
+          user={user}
+          userName={displayName}
+          usageCounts={tagUsageCounts}
+        />
+      ) : null}
+
       {!isCleanupMode ? (
         <button
           className="fixed bottom-6 right-6 z-50 flex h-14 w-14 items-center justify-center rounded-full bg-[var(--accent)] text-2xl text-white shadow-lg"
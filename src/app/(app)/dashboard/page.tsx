@@ -3,34 +3,46 @@
 import Link from "next/link";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { format } from "date-fns";
-import UndoToast from "@/components/undo-toast";
 import { useHousehold } from "@/components/household-provider";
 import { formatKrw } from "@/lib/format";
 import { formatDate } from "@/lib/time";
+import { useAccounts } from "@/hooks/use-accounts";
 import { useCategories } from "@/hooks/use-categories";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
+import { useRecurringTransactionRules } from "@/hooks/use-recurring-transaction-rules";
 import { useMonthlyTransactions } from "@/hooks/use-transactions";
-import {
-  getLatestMemoEntries,
-  restoreMonthlyMemoEntry,
-} from "@/lib/memos";
+import { getLatestMemoEntries } from "@/lib/memos";
 import {
   getLegacyPaymentMethodKey,
   getTransactionPaymentMethodKey,
 } from "@/lib/payment-method-resolver";
-import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
 import {
-  clearPendingUndoAction,
-  isPendingUndoExpired,
-  loadPendingUndoAction,
-  type MemoDeleteUndoAction,
-} from "@/lib/undo-actions";
+  buildRecurringForecast,
+  summarizeRecurringForecast,
+} from "@/lib/recurring-forecast";
+import {
+  getEffectiveExpenseAmount,
+  getRefundedAmount,
+} from "@/lib/transaction-amount";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
+import { subscribeUndoHistory } from "@/lib/undo-actions";
+
+const FORECAST_RANGES = [
+  { key: "7d", label: "7일", days: 7, months: 0 },
+  { key: "30d", label: "30일", days: 30, months: 0 },
+  { key: "3m", label: "3개월", days: 0, months: 3 },
+] as const;
 
 export default function DashboardPage() {
   const { householdId, spouseRole } = useHousehold();
   const { categories } = useCategories(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { accounts } = useAccounts(householdId);
+  const { recurringRules } = useRecurringTransactionRules(householdId);
   const { transactions, loading } = useMonthlyTransactions(householdId);
+  const [forecastRangeKey, setForecastRangeKey] =
+    useState<(typeof FORECAST_RANGES)[number]["key"]>("30d");
+  const [forecastNow] = useState(() => new Date());
   const [selectedPaymentGoalId, setSelectedPaymentGoalId] = useState<string | null>(null);
   const [memoEntries, setMemoEntries] = useState<
     {
@@ -46,10 +58,6 @@ export default function DashboardPage() {
   >([]);
   const [memoLoading, setMemoLoading] = useState(false);
   const [memoError, setMemoError] = useState<string | null>(null);
-  const [pendingMemoUndo, setPendingMemoUndo] = useState<MemoDeleteUndoAction | null>(
-    null
-  );
-  const [restoringMemoUndo, setRestoringMemoUndo] = useState(false);
   const budgetCategoryIdSet = useMemo(() => {
     return new Set(
       categories
@@ -57,8 +65,8 @@ export default function DashboardPage() {
         .map((category) => category.id)
     );
   }, [categories]);
-  const visibleTransactions = useMemo(() => {
-    return transactions.filter((tx) => {
+  const visibleTransactionLines = useMemo(() => {
+    return transactions.flatMap(expandTransactionSplits).filter((tx) => {
       if (tx.type !== "expense") {
         return true;
       }
@@ -68,10 +76,14 @@ export default function DashboardPage() {
       return Boolean(tx.budgetApplied);
     });
   }, [transactions, budgetCategoryIdSet]);
+  const visibleTransactions = useMemo(() => {
+    const visibleIds = new Set(visibleTransactionLines.map((tx) => tx.id));
+    return transactions.filter((tx) => visibleIds.has(tx.id));
+  }, [transactions, visibleTransactionLines]);
   const summary = useMemo(() => {
     let income = 0;
     let expense = 0;
-    visibleTransactions.forEach((tx) => {
+    visibleTransactionLines.forEach((tx) => {
       if (tx.type === "income") {
         income += tx.amount;
       } else if (tx.type === "expense") {
@@ -79,7 +91,7 @@ export default function DashboardPage() {
       }
     });
     return { income, expense, balance: income - expense };
-  }, [visibleTransactions]);
+  }, [visibleTransactionLines]);
   const paymentOwner = useMemo(() => {
     if (spouseRole === "wife") {
       return "wife";
@@ -100,12 +112,12 @@ export default function DashboardPage() {
       return [];
     }
     const totals = new Map<string, number>();
-    for (const tx of visibleTransactions) {
-      if (tx.type !== "expense") {
+    for (const tx of visibleTransactionLines) {
+      if (tx.type !== "expense" || tx.refundOf) {
         continue;
       }
       const key = getTransactionPaymentMethodKey(tx);
-      totals.set(key, (totals.get(key) ?? 0) + tx.amount);
+      totals.set(key, (totals.get(key) ?? 0) + tx.amount - getRefundedAmount(tx));
     }
     return goalMethods
       .map((method) => {
@@ -124,7 +136,7 @@ export default function DashboardPage() {
         };
       })
       .sort((a, b) => b.amount - a.amount);
-  }, [paymentMethods, paymentOwner, visibleTransactions]);
+  }, [paymentMethods, paymentOwner, visibleTransactionLines]);
   const expenseTransactionsByPaymentMethod = useMemo(() => {
     const getSortTime = (tx: typeof transactions[number]) =>
       tx.createdAt?.toMillis?.() ?? tx.date.toMillis();
@@ -149,6 +161,34 @@ export default function DashboardPage() {
   const categoryNameById = useMemo(() => {
     return new Map(categories.map((category) => [category.id, category.name]));
   }, [categories]);
+  const accountNameById = useMemo(() => {
+    return new Map(accounts.map((account) => [account.id, account.name]));
+  }, [accounts]);
+  const remainingFixedExpense = useMemo(() => {
+    const monthEnd = new Date(
+      forecastNow.getFullYear(),
+      forecastNow.getMonth() + 1,
+      0
+    );
+    return summarizeRecurringForecast(
+      buildRecurringForecast(recurringRules, forecastNow, monthEnd)
+    );
+  }, [forecastNow, recurringRules]);
+  const forecastItems = useMemo(() => {
+    const range =
+      FORECAST_RANGES.find((item) => item.key === forecastRangeKey) ??
+      FORECAST_RANGES[1];
+    const until = new Date(
+      forecastNow.getFullYear(),
+      forecastNow.getMonth() + range.months,
+      forecastNow.getDate() + range.days
+    );
+    return buildRecurringForecast(recurringRules, forecastNow, until);
+  }, [forecastNow, forecastRangeKey, recurringRules]);
+  const forecastSummary = useMemo(
+    () => summarizeRecurringForecast(forecastItems),
+    [forecastItems]
+  );
   const recentTransactions = useMemo(() => {
     const getSortTime = (tx: typeof transactions[number]) =>
       tx.createdAt?.toMillis?.() ?? tx.date.toMillis();
@@ -215,63 +255,18 @@ export default function DashboardPage() {
     void loadMemoEntries();
   }, [householdId, loadMemoEntries]);
 
+  // Undoing a memo delete elsewhere changes the memo documents, which this
+  // page reads once instead of subscribing to.
   useEffect(() => {
     if (!householdId) {
-      setPendingMemoUndo(null);
       return;
     }
-    const pendingAction = loadPendingUndoAction();
-    if (!pendingAction || pendingAction.kind !== "memo.delete") {
-      setPendingMemoUndo(null);
-      return;
-    }
-    if (pendingAction.householdId !== householdId || isPendingUndoExpired(pendingAction)) {
-      clearPendingUndoAction("memo.delete");
-      setPendingMemoUndo(null);
-      return;
-    }
-    setPendingMemoUndo(pendingAction);
-  }, [householdId, memoEntries.length]);
-
-  const dismissMemoUndo = useCallback(() => {
-    clearPendingUndoAction("memo.delete");
-    setPendingMemoUndo(null);
-  }, []);
-
-  const handleUndoMemoDelete = useCallback(async () => {
-    if (!pendingMemoUndo || restoringMemoUndo) {
-      return;
-    }
-    setRestoringMemoUndo(true);
-    try {
-      await restoreMonthlyMemoEntry(
-        pendingMemoUndo.householdId,
-        pendingMemoUndo.payload.monthKey,
-        {
-          id: pendingMemoUndo.payload.entry.id,
-          text: pendingMemoUndo.payload.entry.text,
-          createdAt: pendingMemoUndo.payload.entry.createdAtIso
-            ? new Date(pendingMemoUndo.payload.entry.createdAtIso)
-            : null,
-          createdBy: pendingMemoUndo.payload.entry.createdBy ?? null,
-          visibleFrom: pendingMemoUndo.payload.entry.visibleFromIso
-            ? new Date(pendingMemoUndo.payload.entry.visibleFromIso)
-            : null,
-          visibleUntil: pendingMemoUndo.payload.entry.visibleUntilIso
-            ? new Date(pendingMemoUndo.payload.entry.visibleUntilIso)
-            : null,
-          linkUrl: pendingMemoUndo.payload.entry.linkUrl ?? null,
-          sourceKey: pendingMemoUndo.payload.entry.sourceKey ?? null,
-          monthKey: pendingMemoUndo.payload.monthKey,
-        },
-        pendingMemoUndo.payload.entry.createdBy ?? undefined
-      );
-      dismissMemoUndo();
-      await loadMemoEntries();
-    } finally {
-      setRestoringMemoUndo(false);
-    }
-  }, [dismissMemoUndo, loadMemoEntries, pendingMemoUndo, restoringMemoUndo]);
+    return subscribeUndoHistory((recorded) => {
+      if (!recorded) {
+        void loadMemoEntries();
+      }
+    });
+  }, [householdId, loadMemoEntries]);
 
   return (
     <div className="flex flex-col gap-6">
@@ -486,6 +481,95 @@ export default function DashboardPage() {
             </div>
           ))}
         </div>
+        <div className="mt-4 flex items-center justify-between rounded-2xl border border-dashed border-[var(--border)] px-4 py-3 text-sm text-[color:rgba(45,38,34,0.7)]">
+          <span>이번 달 남은 고정 지출</span>
+          <span className="font-semibold text-[var(--foreground)]">
+            {formatKrw(remainingFixedExpense.expense)}
+          </span>
+        </div>
+      </section>
+
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">예정</h2>
+          <div className="flex gap-1">
+            {FORECAST_RANGES.map((range) => (
+              <button
+                key={range.key}
+                type="button"
+                className={`rounded-full border px-3 py-1 text-xs ${
+                  forecastRangeKey === range.key
+                    ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                    : "border-[var(--border)] text-[color:rgba(45,38,34,0.7)]"
+                }`}
+                onClick={() => setForecastRangeKey(range.key)}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.6)]">
+          지출 {formatKrw(forecastSummary.expense)} · 수입{" "}
+          {formatKrw(forecastSummary.income)} · 이체 {formatKrw(forecastSummary.transfer)}
+        </p>
+        {forecastItems.length === 0 ? (
+          <div className="mt-4 text-sm text-[color:rgba(45,38,34,0.7)]">
+            예정된 자동 내역이 없습니다.
+          </div>
+        ) : (
+          <div className="mt-4 space-y-2 text-sm text-[color:rgba(45,38,34,0.7)]">
+            {forecastItems.map((item) => {
+              const title =
+                item.note?.trim() ||
+                (item.target === "transfer"
+                  ? `${
+                      item.fromAccountId
+                        ? accountNameById.get(item.fromAccountId) ?? "계좌"
+                        : "외부"
+                    } → ${
+                      item.toAccountId
+                        ? accountNameById.get(item.toAccountId) ?? "계좌"
+                        : "외부"
+                    }`
+                  : categoryNameById.get(item.categoryId) ?? "자동 내역");
+              return (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between rounded-xl border border-dashed border-[var(--border)] px-4 py-3"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-[var(--foreground)]">
+                      {title}
+                    </p>
+                    <p className="text-xs">
+                      {format(item.date, "yyyy.MM.dd")}
+                      {item.target === "transfer" ? " · 이체" : ""}
+                    </p>
+                  </div>
+                  <span
+                    className={
+                      item.target === "transfer"
+                        ? "text-[color:rgba(45,38,34,0.7)]"
+                        : item.type === "expense"
+                        ? "text-red-600"
+                        : item.type === "income"
+                        ? "text-emerald-600"
+                        : "text-[color:rgba(45,38,34,0.7)]"
+                    }
+                  >
+                    {item.target !== "transfer" && item.type === "expense"
+                      ? "-"
+                      : item.target !== "transfer" && item.type === "income"
+                      ? "+"
+                      : ""}
+                    {formatKrw(item.effectiveAmount)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </section>
 
       <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
@@ -532,15 +616,6 @@ export default function DashboardPage() {
           </div>
         )}
       </section>
-      {pendingMemoUndo ? (
-        <UndoToast
-          message="메모를 삭제했습니다."
-          expiresAt={pendingMemoUndo.expiresAt}
-          onUndo={handleUndoMemoDelete}
-          onDismiss={dismissMemoUndo}
-          busy={restoringMemoUndo}
-        />
-      ) : null}
     </div>
   );
 }
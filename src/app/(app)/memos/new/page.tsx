@@ -10,12 +10,12 @@ import {
   addMonthlyMemoEntry,
   deleteMonthlyMemoEntry,
   getMonthlyMemoEntries,
-  type MemoEntrySnapshot,
   updateMonthlyMemoEntry,
 } from "@/lib/memos";
 import { addNotification } from "@/lib/notifications";
-import { savePendingUndoAction } from "@/lib/undo-actions";
+import { captureUndoState, recordUndoEntry } from "@/lib/undo-actions";
 import { toMonthKey } from "@/lib/time";
+import { getTrashItemId } from "@/lib/trash";
 
 function buildMemoPreview(value: string) {
   const normalized = value.trim().replace(/\s+/g, " ");
@@ -57,8 +57,6 @@ export default function NewMemoPage() {
   const [visibleFrom, setVisibleFrom] = useState("");
   const [visibleUntil, setVisibleUntil] = useState("");
   const [isEntryLoaded, setIsEntryLoaded] = useState(false);
-  const [currentEntrySnapshot, setCurrentEntrySnapshot] =
-    useState<MemoEntrySnapshot | null>(null);
   const monthKeyFromQuery = searchParams.get("monthKey");
   const monthKey =
     monthKeyFromQuery && /^\d{4}-\d{2}$/.test(monthKeyFromQuery)
@@ -94,7 +92,6 @@ export default function NewMemoPage() {
           setMemo("");
           setVisibleFrom("");
           setVisibleUntil("");
-          setCurrentEntrySnapshot(null);
           setIsEntryLoaded(true);
           return;
         }
@@ -109,25 +106,9 @@ export default function NewMemoPage() {
         setVisibleUntil(
           target?.visibleUntil ? format(target.visibleUntil.toDate(), "yyyy-MM-dd") : ""
         );
-        setCurrentEntrySnapshot(
-          target
-            ? {
-                id: target.id,
-                text: target.text,
-                createdAt: target.createdAt?.toDate?.() ?? null,
-                createdBy: target.createdBy ?? null,
-                visibleFrom: target.visibleFrom?.toDate?.() ?? null,
-                visibleUntil: target.visibleUntil?.toDate?.() ?? null,
-                linkUrl: target.linkUrl ?? null,
-                sourceKey: target.sourceKey ?? null,
-                monthKey,
-              }
-            : null
-        );
         setIsEntryLoaded(true);
       })
       .catch(() => {
-        setCurrentEntrySnapshot(null);
         setIsEntryLoaded(false);
       })
       .finally(() => setLoading(false));
@@ -264,37 +245,18 @@ export default function NewMemoPage() {
     }
     setSaving(true);
     try {
-      const entrySnapshot = currentEntrySnapshot ?? {
-        id: entryId,
-        text: memo,
-        createdAt: null,
-        createdBy: user.uid,
-        visibleFrom: parseDateInput(visibleFrom, false),
-        visibleUntil: parseDateInput(visibleUntil, true),
-        linkUrl: null,
-        sourceKey: null,
-        monthKey,
-      };
       const memoPreview = buildMemoPreview(memo);
       const memoPeriodLabel = buildMemoPeriodLabel(visibleFrom, visibleUntil);
+      const undoCapture = await captureUndoState(householdId, [
+        `memos/${monthKey}`,
+        `trash/${getTrashItemId("memo", entryId)}`,
+      ]);
       await deleteMonthlyMemoEntry(householdId, monthKey, entryId, user.uid);
-      savePendingUndoAction({
-        kind: "memo.delete",
+      await recordUndoEntry({
         householdId,
-        expiresAt: Date.now() + 10000,
-        payload: {
-          monthKey,
-          entry: {
-            id: entrySnapshot.id,
-            text: entrySnapshot.text,
-            createdAtIso: entrySnapshot.createdAt?.toISOString() ?? null,
-            createdBy: entrySnapshot.createdBy ?? null,
-            visibleFromIso: entrySnapshot.visibleFrom?.toISOString() ?? null,
-            visibleUntilIso: entrySnapshot.visibleUntil?.toISOString() ?? null,
-            linkUrl: entrySnapshot.linkUrl ?? null,
-            sourceKey: entrySnapshot.sourceKey ?? null,
-          },
-        },
+        capture: undoCapture,
+        kind: "memo.delete",
+        label: `메모 삭제 · ${memoPreview}`,
       });
       await addNotification(householdId, {
         title: "메모 삭제",
@@ -381,7 +343,7 @@ export default function NewMemoPage() {
           <div className="w-full max-w-sm rounded-2xl border border-[var(--border)] bg-white p-5 sm:p-6">
             <h2 className="text-base font-semibold">메모 삭제</h2>
             <p className="mt-2 text-sm text-[color:rgba(45,38,34,0.7)]">
-              이 메모를 삭제할까요?
+              이 메모를 삭제할까요? 휴지통에서 30일 동안 복원할 수 있습니다.
             </p>
             <div className="mt-6 flex justify-end gap-2">
               <button
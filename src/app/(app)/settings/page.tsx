@@ -15,12 +15,22 @@ import {
 } from "firebase/firestore";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
+import ApiTokenSection from "@/components/api-token-section";
+import CategorizationRulesSection from "@/components/categorization-rules-section";
+import HouseholdBackupSection, {
+  downloadHouseholdBackup,
+} from "@/components/household-backup-section";
+import LedgerExportSection from "@/components/ledger-export-section";
 import MarketFlyerLogSection from "@/components/market-flyer-log-section";
+import MonthlyAggregatesSection from "@/components/monthly-aggregates-section";
+import RecurringOccurrenceExceptions from "@/components/recurring-occurrence-exceptions";
+import TransactionImportSection from "@/components/transaction-import-section";
+import TransactionSearchIndexSection from "@/components/transaction-search-index-section";
+import { useAccounts } from "@/hooks/use-accounts";
 import { useCategories } from "@/hooks/use-categories";
 import { useRecurringTransactionRules } from "@/hooks/use-recurring-transaction-rules";
 import { useSubjects } from "@/hooks/use-subjects";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
-import { addCategory } from "@/lib/categories";
 import { signOutUser } from "@/lib/firebase/auth";
 import { db } from "@/lib/firebase/client";
 import { formatKrw } from "@/lib/format";
@@ -36,17 +46,22 @@ import {
 } from "@/lib/firebase/firestore";
 import { updateUserDisplayName } from "@/lib/firebase/user";
 import { createInvite, resetHouseholdData } from "@/lib/household";
-import { addPaymentMethod } from "@/lib/payment-methods";
 import { formatPaymentMethodLabel } from "@/lib/payment-method-resolver";
 import {
-  deleteRecurringTransactionRule,
+  describeRecurrence,
+  normalizeRecurrenceSpec,
+} from "@/lib/recurring-schedule";
+import {
   findSourceTransactionIdByRecurringRuleId,
+  moveRecurringTransactionRuleToTrash,
   stopRecurringTransactionRule,
 } from "@/lib/recurring-transactions";
 import { getEffectiveExpenseAmount, getExpenseDiscountAmount } from "@/lib/transaction-amount";
 import { formatDate } from "@/lib/time";
-import { addTransaction, updateTransactionsSubjectName } from "@/lib/transactions";
+import { getTrashItemId } from "@/lib/trash";
+import { updateTransactionsSubjectName } from "@/lib/transactions";
 import { addSubject, updateSubject } from "@/lib/subjects";
+import { captureUndoState, recordUndoEntry } from "@/lib/undo-actions";
 import type { RecurringTransactionRule, TransactionType } from "@/types/ledger";
 
 type InviteSnapshot = {
@@ -80,323 +95,6 @@ function getRecurringRuleStatus(rule: RecurringTransactionRule, now: Date) {
   return "진행 중";
 }
 
-function parseDate(raw: string) {
-  const normalized = raw.trim().replace(/\./g, "-").replace(/\//g, "-");
-  const koMatch = normalized.match(
-    /^(\d{4})\s*년\s*(\d{1,2})\s*월\s*(\d{1,2})\s*일$/
-  );
-  if (koMatch) {
-    const [, yearText, monthText, dayText] = koMatch;
-    return new Date(Number(yearText), Number(monthText) - 1, Number(dayText));
-  }
-  const parts = normalized.split("-");
-  if (parts.length >= 3) {
-    const year = Number(parts[0]);
-    const month = Number(parts[1]) - 1;
-    const day = Number(parts[2]);
-    return new Date(year, month, day);
-  }
-  return new Date(raw);
-}
-
-function mapType(value: string) {
-  const normalized = value.trim();
-  if (["입금", "수입", "income"].includes(normalized)) {
-    return "income" as const;
-  }
-  if (["출금", "지출", "expense"].includes(normalized)) {
-    return "expense" as const;
-  }
-  if (["이체", "transfer"].includes(normalized)) {
-    return "transfer" as const;
-  }
-  return "expense" as const;
-}
-
-function normalizeText(value: string) {
-  return value.trim().replace(/\s+/g, " ");
-}
-
-function mapPayment(value: string) {
-  const normalized = normalizeText(value);
-  if (!normalized) {
-    return "기타";
-  }
-  if (normalized === "현금") {
-    return "현금";
-  }
-  if (normalized === "체크" || normalized === "체크카드") {
-    return "체크카드";
-  }
-  if (normalized === "신용" || normalized === "신용카드") {
-    return "신용카드";
-  }
-  if (normalized === "대출") {
-    return "대출";
-  }
-  if (
-    normalized === "은행" ||
-    normalized === "계좌이체" ||
-    normalized === "이체"
-  ) {
-    return "은행";
-  }
-  return normalized;
-}
-
-type CsvImportSectionProps = {
-  householdId: string | null;
-  user: { uid: string } | null;
-  nickname: string;
-  partnerNickname: string;
-  spouseRole: "husband" | "wife" | null;
-  subjects: { id: string; name: string; order: number }[];
-  onToast: (message: string, level?: ToastLevel) => void;
-};
-
-function CsvImportSection({
-  householdId,
-  user,
-  nickname,
-  partnerNickname,
-  spouseRole,
-  subjects,
-  onToast,
-}: CsvImportSectionProps) {
-  const { categories } = useCategories(householdId);
-  const { paymentMethods } = usePaymentMethods(householdId);
-  const [importStatus, setImportStatus] = useState<string | null>(null);
-  const [importTotal, setImportTotal] = useState(0);
-  const [importProcessed, setImportProcessed] = useState(0);
-  const [importLogs, setImportLogs] = useState<string[]>([]);
-
-  const categoryMap = useMemo(() => {
-    return new Map(
-      categories.map((category) => [category.name.trim(), category.id])
-    );
-  }, [categories]);
-  const nextCategoryOrder = useMemo(
-    () => categories.length + 1,
-    [categories.length]
-  );
-
-  const subjectMap = useMemo(() => {
-    return new Map(subjects.map((subject) => [subject.name.trim(), subject.id]));
-  }, [subjects]);
-  const nextSubjectOrder = useMemo(
-    () => subjects.length + 1,
-    [subjects.length]
-  );
-
-  const paymentMap = useMemo(() => {
-    return new Map(
-      paymentMethods.map((method) => [
-        `${method.owner ?? "our"}:${method.name.trim()}`,
-        method.id,
-      ])
-    );
-  }, [paymentMethods]);
-  const nextPaymentOrder = useMemo(() => {
-    const ours = paymentMethods.filter(
-      (method) => (method.owner ?? "our") === "our" && !method.parentId
-    );
-    return ours.length + 1;
-  }, [paymentMethods]);
-
-  function resolveSubjectName(rawValue: string, recorderValue: string) {
-    const cleaned = normalizeText(rawValue);
-    const recorder = normalizeText(recorderValue);
-    if (!cleaned) {
-      return "우리";
-    }
-    const cleanedMy = normalizeText(nickname);
-    const cleanedPartner = normalizeText(partnerNickname);
-    if (cleanedPartner && recorder === cleanedPartner) {
-      return cleanedPartner;
-    }
-    if (spouseRole === "husband" && cleaned === "남편") {
-      return cleanedMy || "남편";
-    }
-    if (spouseRole === "wife" && cleaned === "아내") {
-      return cleanedMy || "아내";
-    }
-    return cleaned;
-  }
-
-  async function handleCsvImport(file: File | null) {
-    if (!file || !householdId || !user) {
-      return;
-    }
-    setImportStatus(null);
-    setImportTotal(0);
-    setImportProcessed(0);
-    setImportLogs([]);
-    const text = await file.text();
-    const rows = text
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter(Boolean);
-    if (rows.length <= 1) {
-      setImportStatus("CSV 내용이 비어 있습니다.");
-      onToast("CSV 내용이 비어 있습니다.", "error");
-      return;
-    }
-    const dataRows = rows.slice(1);
-    setImportTotal(dataRows.length);
-    let success = 0;
-    let failed = 0;
-    let processed = 0;
-    let categoryAdded = 0;
-    let subjectAdded = 0;
-    let paymentAdded = 0;
-    const logs: string[] = [];
-    for (const row of dataRows) {
-      const cols = row.split(",").map((col) => col.trim());
-      if (cols.length < 8) {
-        failed += 1;
-        logs.push(`행 ${processed + 1}: 컬럼 수 부족 (${cols.length})`);
-        processed += 1;
-        setImportProcessed(processed);
-        continue;
-      }
-      const dateRaw = cols[0];
-      const typeRaw = cols[1];
-      const nicknameRaw = cols[2];
-      const subjectRaw = cols[3];
-      const categoryRaw = cols[4];
-      const paymentRaw = cols[5];
-      const amountRaw = cols[cols.length - 1];
-      const noteRaw = cols.slice(6, -1).join(",").trim();
-      const categoryText = normalizeText(categoryRaw) || "기타";
-      const type = mapType(typeRaw);
-      let categoryId = categoryMap.get(categoryText);
-      if (!categoryId) {
-        const newCategory = await addCategory(householdId, {
-          name: categoryText,
-          type,
-          order: nextCategoryOrder + categoryAdded,
-          parentId: null,
-          imported: true,
-        });
-        categoryId = newCategory.id;
-        categoryMap.set(categoryText, categoryId);
-        categoryAdded += 1;
-      }
-
-      const subjectName = resolveSubjectName(subjectRaw, nicknameRaw);
-      if (!subjectMap.has(subjectName)) {
-        await addSubject(householdId, {
-          name: subjectName,
-          order: nextSubjectOrder + subjectAdded,
-          imported: true,
-        });
-        subjectMap.set(subjectName, subjectName);
-        subjectAdded += 1;
-      }
-
-      const paymentMethod = mapPayment(paymentRaw);
-      const paymentOwner = "our";
-      const paymentKey = `${paymentOwner}:${paymentMethod}`;
-      let paymentMethodId = paymentMap.get(paymentKey) ?? null;
-      if (!paymentMap.has(paymentKey)) {
-        const newPaymentMethod = await addPaymentMethod(householdId, {
-          name: paymentMethod,
-          order: nextPaymentOrder + paymentAdded,
-          owner: paymentOwner,
-          parentId: null,
-          imported: true,
-        });
-        paymentMethodId = newPaymentMethod.id;
-        paymentMap.set(paymentKey, paymentMethodId);
-        paymentAdded += 1;
-      }
-
-      const amount = Number(amountRaw.replace(/,/g, ""));
-      const date = parseDate(dateRaw);
-      if (Number.isNaN(amount)) {
-        failed += 1;
-        logs.push(`행 ${processed + 1}: 금액 파싱 실패 (${amountRaw})`);
-        processed += 1;
-        setImportProcessed(processed);
-        continue;
-      }
-      if (Number.isNaN(date.getTime())) {
-        failed += 1;
-        logs.push(`행 ${processed + 1}: 날짜 파싱 실패 (${dateRaw})`);
-        processed += 1;
-        setImportProcessed(processed);
-        continue;
-      }
-      const memo = normalizeText(noteRaw);
-      try {
-        await addTransaction({
-          householdId,
-          type,
-          amount,
-          categoryId,
-          paymentMethod,
-          paymentMethodId,
-          subject: subjectName,
-          date,
-          note: memo || undefined,
-          createdBy: user.uid,
-        });
-        success += 1;
-      } catch (err) {
-        failed += 1;
-        const message =
-          err instanceof Error ? err.message : "알 수 없는 오류";
-        logs.push(`행 ${processed + 1}: 저장 실패 (${message})`);
-      } finally {
-        processed += 1;
-        setImportProcessed(processed);
-      }
-    }
-    if (logs.length > 0) {
-      setImportLogs(logs.slice(0, 20));
-    }
-    setImportStatus(`가져오기 완료: 성공 ${success}, 실패 ${failed}`);
-    onToast(
-      `CSV 가져오기 완료 (성공 ${success}, 실패 ${failed})`,
-      failed > 0 ? "error" : "success"
-    );
-  }
-
-  const importPercent =
-    importTotal > 0 ? Math.round((importProcessed / importTotal) * 100) : 0;
-
-  return (
-    <>
-      <input
-        className="mt-4 w-full text-sm"
-        type="file"
-        accept=".csv"
-        onChange={(event) => handleCsvImport(event.target.files?.[0] ?? null)}
-        disabled={!householdId || !user}
-      />
-      {importTotal > 0 ? (
-        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
-          진행률 {importPercent}% ({importProcessed}/{importTotal})
-        </p>
-      ) : null}
-      {importStatus ? (
-        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
-          {importStatus}
-        </p>
-      ) : null}
-      {importLogs.length > 0 ? (
-        <div className="mt-2 rounded-xl border border-[var(--border)] bg-white p-3 text-xs text-[color:rgba(45,38,34,0.7)]">
-          <p className="font-medium">가져오기 로그</p>
-          <ul className="mt-2 space-y-1">
-            {importLogs.map((log, index) => (
-              <li key={`${log}-${index}`}>{log}</li>
-            ))}
-          </ul>
-        </div>
-      ) : null}
-    </>
-  );
-}
 export default function SettingsPage() {
   const router = useRouter();
   const { user } = useAuth();
@@ -404,6 +102,7 @@ export default function SettingsPage() {
   const { categories } = useCategories(householdId);
   const { subjects } = useSubjects(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { accounts } = useAccounts(householdId);
   const { recurringRules, loading: recurringRulesLoading } =
     useRecurringTransactionRules(householdId);
   const [nickname, setNickname] = useState(displayName ?? "");
@@ -421,6 +120,10 @@ export default function SettingsPage() {
   const [savingPartner, setSavingPartner] = useState(false);
   const [partnerStatus, setPartnerStatus] = useState<string | null>(null);
   const [csvOpen, setCsvOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [apiTokensOpen, setApiTokensOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
   const [recurringRulesOpen, setRecurringRulesOpen] = useState(true);
   const [showOnlyMineRecurringRules, setShowOnlyMineRecurringRules] = useState(false);
   const [activeRecurringActionId, setActiveRecurringActionId] = useState<string | null>(
@@ -429,6 +132,9 @@ export default function SettingsPage() {
   const [activeRecurringNavigateId, setActiveRecurringNavigateId] = useState<
     string | null
   >(null);
+  const [openOccurrenceRuleId, setOpenOccurrenceRuleId] = useState<string | null>(
+    null
+  );
   const [resetOpen, setResetOpen] = useState(false);
   const [resetLoading, setResetLoading] = useState(false);
   const [resetStatus, setResetStatus] = useState<string | null>(null);
@@ -475,23 +181,44 @@ export default function SettingsPage() {
       ),
     [paymentMethods]
   );
+  const accountNameMap = useMemo(
+    () => new Map(accounts.map((account) => [account.id, account.name])),
+    [accounts]
+  );
   const recurringRuleItems = useMemo(() => {
     return recurringRules.map((rule) => {
       const discountAmount = getExpenseDiscountAmount(rule);
       const effectiveAmount =
         rule.type === "expense" ? getEffectiveExpenseAmount(rule) : rule.amount;
+      const isTransferRule = rule.target === "transfer";
+      const categoryName = categoryNameMap.get(rule.categoryId) || "미분류";
+      const paymentMethodName =
+        (rule.paymentMethodId
+          ? paymentMethodNameMap.get(rule.paymentMethodId)
+          : null) ?? formatPaymentMethodLabel(rule.paymentMethod);
+      const fromAccountName = rule.fromAccountId
+        ? accountNameMap.get(rule.fromAccountId) ?? "삭제된 계좌"
+        : "외부";
+      const toAccountName = rule.toAccountId
+        ? accountNameMap.get(rule.toAccountId) ?? "삭제된 계좌"
+        : "외부";
       return {
         ...rule,
-        title: rule.note?.trim() || categoryNameMap.get(rule.categoryId) || "자동 내역",
-        categoryName: categoryNameMap.get(rule.categoryId) || "미분류",
-        paymentMethodName:
-          (rule.paymentMethodId
-            ? paymentMethodNameMap.get(rule.paymentMethodId)
-            : null) ?? formatPaymentMethodLabel(rule.paymentMethod),
+        isTransferRule,
+        title:
+          rule.note?.trim() ||
+          (isTransferRule
+            ? "반복 이체"
+            : categoryNameMap.get(rule.categoryId) || "자동 내역"),
+        detailLabel: isTransferRule
+          ? `계좌 이체 · ${fromAccountName} → ${toAccountName}`
+          : `${transactionTypeLabelMap[rule.type]} · ${rule.subject} · ${categoryName} · ${paymentMethodName}`,
         status: getRecurringRuleStatus(rule, currentDate),
+        scheduleLabel: describeRecurrence(
+          normalizeRecurrenceSpec(rule.recurrence, rule.dayOfMonth)
+        ),
         creatorLabel:
           user?.uid && rule.createdBy === user.uid ? "내가 등록" : "상대가 등록",
-        typeLabel: transactionTypeLabelMap[rule.type],
         startDateLabel: formatDate(rule.startDate.toDate()),
         endDateLabel: rule.endDate ? formatDate(rule.endDate.toDate()) : "계속",
         amountLabel: formatKrw(effectiveAmount),
@@ -499,6 +226,7 @@ export default function SettingsPage() {
       };
     });
   }, [
+    accountNameMap,
     categoryNameMap,
     currentDate,
     paymentMethodNameMap,
@@ -704,10 +432,14 @@ export default function SettingsPage() {
     showToast(`초대 코드 ${inviteCode}가 만료되었습니다.`, "info");
   }, [householdId, inviteCode, inviteExpiresAt, nowTick, showToast]);
 
-  async function handleOpenRecurringRule(ruleId: string) {
+  async function handleOpenRecurringRule(ruleId: string, isTransferRule: boolean) {
     if (!householdId) {
       return;
     }
+    if (isTransferRule) {
+      router.push("/assets");
+      return;
+    }
     setActiveRecurringNavigateId(ruleId);
     try {
       const sourceTransactionId = await findSourceTransactionIdByRecurringRuleId(
@@ -736,7 +468,16 @@ export default function SettingsPage() {
     }
     setActiveRecurringActionId(ruleId);
     try {
+      const undoCapture = await captureUndoState(householdId, [
+        `recurringTransactionRules/${ruleId}`,
+      ]);
       await stopRecurringTransactionRule(householdId, ruleId, currentDate);
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "recurringRule.update",
+        label: `자동 내역 중지 · ${title}`,
+      });
       showToast(`${title} 자동 내역을 중지했습니다.`, "success");
     } catch {
       showToast("자동 내역 중지에 실패했습니다.", "error");
@@ -746,16 +487,30 @@ export default function SettingsPage() {
   }
 
   async function handleDeleteRecurringRule(ruleId: string, title: string) {
-    if (!householdId) {
+    if (!householdId || !user) {
       return;
     }
-    if (!window.confirm(`"${title}" 자동 내역 설정을 삭제할까요?`)) {
+    if (!window.confirm(`"${title}" 자동 내역 설정을 휴지통으로 옮길까요?`)) {
       return;
     }
     setActiveRecurringActionId(ruleId);
     try {
-      await deleteRecurringTransactionRule(householdId, ruleId);
-      showToast(`${title} 자동 내역 설정을 삭제했습니다.`, "success");
+      const undoCapture = await captureUndoState(householdId, [
+        `recurringTransactionRules/${ruleId}`,
+        `trash/${getTrashItemId("recurringRule", ruleId)}`,
+      ]);
+      await moveRecurringTransactionRuleToTrash({
+        householdId,
+        ruleId,
+        deletedBy: user.uid,
+      });
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "recurringRule.delete",
+        label: `자동 내역 삭제 · ${title}`,
+      });
+      showToast(`${title} 자동 내역 설정을 휴지통으로 옮겼습니다.`, "success");
     } catch {
       showToast("자동 내역 삭제에 실패했습니다.", "error");
     } finally {
@@ -862,7 +617,7 @@ export default function SettingsPage() {
   }
 
   async function syncSubjectDefaults(myName: string, partnerName: string) {
-    if (!householdId) {
+    if (!householdId || !user) {
       return;
     }
     const desired = buildSubjectDefaults(myName, partnerName);
@@ -881,7 +636,9 @@ export default function SettingsPage() {
             await updateTransactionsSubjectName(
               householdId,
               existing.name,
-              targetName
+              targetName,
+              user.uid,
+              myName
             );
           }
         }
@@ -937,6 +694,14 @@ export default function SettingsPage() {
     setResetLoading(true);
     setResetStatus(null);
     setResetErrorDetail(null);
+    try {
+      await downloadHouseholdBackup(householdId);
+    } catch {
+      if (!window.confirm("백업 파일을 만들지 못했습니다. 백업 없이 초기화할까요?")) {
+        setResetLoading(false);
+        return;
+      }
+    }
     try {
       await resetHouseholdData(householdId, resetOptions);
       setResetStatus("데이터 초기화 완료");
@@ -1069,23 +834,24 @@ export default function SettingsPage() {
       <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
         <div className="flex items-center justify-between gap-4">
           <div>
-            <h2 className="text-sm font-semibold">CSV 가져오기</h2>
+            <h2 className="text-sm font-semibold">CSV·엑셀 가져오기</h2>
             <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
-              날짜, 입금/지출, 입력자, 주체, 카테고리, 지불 방식, 메모, 금액
-              순서로 된 CSV 파일을 업로드하세요.
+              은행·카드사 CSV나 엑셀(.xlsx) 명세서를 올리고 열을 지정한 뒤, 검증
+              결과를 확인하고 가져오세요. 열 매핑은 프로필로 저장해 다시 쓸 수
+              있습니다.
             </p>
           </div>
           <button
             className="flex h-9 w-9 items-center justify-center rounded-full border border-[var(--border)] text-base"
             onClick={() => setCsvOpen((prev) => !prev)}
-            aria-label={csvOpen ? "CSV 가져오기 접기" : "CSV 가져오기 펼치기"}
+            aria-label={csvOpen ? "CSV·엑셀 가져오기 접기" : "CSV·엑셀 가져오기 펼치기"}
           >
             {csvOpen ? "⌃" : "⌄"}
           </button>
         </div>
         {csvOpen ? (
           <div className="mt-4">
-            <CsvImportSection
+            <TransactionImportSection
               householdId={householdId}
               user={user}
               nickname={nickname}
@@ -1097,6 +863,107 @@ export default function SettingsPage() {
           </div>
         ) : null}
       </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-semibold">자동 분류 규칙</h2>
+            <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+              메모, 금액, 결제수단 조건에 맞는 내역의 카테고리·주체·결제수단을
+              정합니다. 가져오기와 내역 입력에 위에서부터 순서대로 적용됩니다.
+            </p>
+          </div>
+          <button
+            className="flex h-9 w-9 items-center justify-center rounded-full border border-[var(--border)] text-base"
+            onClick={() => setRulesOpen((prev) => !prev)}
+            aria-label={rulesOpen ? "자동 분류 규칙 접기" : "자동 분류 규칙 펼치기"}
+          >
+            {rulesOpen ? "⌃" : "⌄"}
+          </button>
+        </div>
+        {rulesOpen ? (
+          <div className="mt-4">
+            <CategorizationRulesSection
+              householdId={householdId}
+              user={user}
+              userName={displayName}
+              subjects={subjects}
+              onToast={showToast}
+            />
+          </div>
+        ) : null}
+      </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-semibold">단축어 연동</h2>
+            <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+              휴대폰 단축어에서 카드 승인 문자나 금액·메모를 보내 바로 기록합니다.
+              기기마다 토큰을 만들고, 쓰지 않는 토큰은 폐기하세요.
+            </p>
+          </div>
+          <button
+            className="flex h-9 w-9 items-center justify-center rounded-full border border-[var(--border)] text-base"
+            onClick={() => setApiTokensOpen((prev) => !prev)}
+            aria-label={apiTokensOpen ? "단축어 연동 접기" : "단축어 연동 펼치기"}
+          >
+            {apiTokensOpen ? "⌃" : "⌄"}
+          </button>
+        </div>
+        {apiTokensOpen ? (
+          <div className="mt-4">
+            <ApiTokenSection householdId={householdId} user={user} onToast={showToast} />
+          </div>
+        ) : null}
+      </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-semibold">내보내기</h2>
+            <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+              거래 내역과 자동 등록, 예산, 메모, 계좌, 이체를 CSV·엑셀·JSON으로
+              내려받습니다.
+            </p>
+          </div>
+          <button
+            className="flex h-9 w-9 items-center justify-center rounded-full border border-[var(--border)] text-base"
+            onClick={() => setExportOpen((prev) => !prev)}
+            aria-label={exportOpen ? "내보내기 접기" : "내보내기 펼치기"}
+          >
+            {exportOpen ? "⌃" : "⌄"}
+          </button>
+        </div>
+        {exportOpen ? (
+          <div className="mt-4">
+            <LedgerExportSection householdId={householdId} onToast={showToast} />
+          </div>
+        ) : null}
+      </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-semibold">백업·복원</h2>
+            <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+              가계부 전체를 백업 파일로 저장하고, 필요할 때 그대로 되돌립니다.
+            </p>
+          </div>
+          <button
+            className="flex h-9 w-9 items-center justify-center rounded-full border border-[var(--border)] text-base"
+            onClick={() => setBackupOpen((prev) => !prev)}
+            aria-label={backupOpen ? "백업·복원 접기" : "백업·복원 펼치기"}
+          >
+            {backupOpen ? "⌃" : "⌄"}
+          </button>
+        </div>
+        {backupOpen ? (
+          <div className="mt-4">
+            <HouseholdBackupSection
+              householdId={householdId}
+              user={user}
+              onToast={showToast}
+            />
+          </div>
+        ) : null}
+      </section>
       <MarketFlyerLogSection householdId={householdId} />
       <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
         <h2 className="text-sm font-semibold">카테고리 편집</h2>
@@ -1110,12 +977,39 @@ export default function SettingsPage() {
           카테고리 편집 열기
         </a>
       </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <h2 className="text-sm font-semibold">휴지통</h2>
+        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+          삭제한 내역·메모·자동 내역·이체를 30일 동안 보관합니다. 복원하거나 영구 삭제할 수
+          있습니다.
+        </p>
+        <a
+          className="mt-4 inline-flex items-center rounded-full border border-[var(--border)] px-4 py-2 text-sm"
+          href="/trash"
+        >
+          휴지통 열기
+        </a>
+      </section>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+        <h2 className="text-sm font-semibold">활동 기록</h2>
+        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+          누가 언제 어떤 내역의 금액·카테고리 등을 바꿨는지 항목별 변경 전후로 확인합니다.
+        </p>
+        <a
+          className="mt-4 inline-flex items-center rounded-full border border-[var(--border)] px-4 py-2 text-sm"
+          href="/activity"
+        >
+          활동 기록 열기
+        </a>
+      </section>
+      <TransactionSearchIndexSection householdId={householdId} onToast={showToast} />
+      <MonthlyAggregatesSection householdId={householdId} onToast={showToast} />
       <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
         <div className="flex items-center justify-between gap-4">
           <div>
             <h2 className="text-sm font-semibold">자동 내역 설정</h2>
             <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
-              등록한 월 자동 내역 규칙을 확인합니다.
+              등록한 반복 자동 내역 규칙을 확인합니다.
               {recurringRulesLoading
                 ? " 불러오는 중입니다."
                 : ` 현재 ${visibleRecurringRuleItems.length}건 표시 중입니다.`}
@@ -1176,7 +1070,9 @@ export default function SettingsPage() {
                       <button
                         type="button"
                         className="w-full text-left"
-                        onClick={() => handleOpenRecurringRule(rule.id)}
+                        onClick={() =>
+                          handleOpenRecurringRule(rule.id, rule.isTransferRule)
+                        }
                         disabled={activeRecurringNavigateId === rule.id}
                       >
                         <div className="flex flex-wrap items-center gap-2">
@@ -1197,8 +1093,7 @@ export default function SettingsPage() {
                           </span>
                         </div>
                         <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.65)]">
-                          매달 {rule.dayOfMonth}일 · {rule.typeLabel} · {rule.subject} ·{" "}
-                          {rule.categoryName} · {rule.paymentMethodName}
+                          {rule.scheduleLabel} · {rule.detailLabel}
                         </p>
                         <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.65)]">
                           기간 {rule.startDateLabel} ~ {rule.endDateLabel}
@@ -1209,7 +1104,9 @@ export default function SettingsPage() {
                         <p className="mt-2 text-[11px] text-[color:rgba(45,38,34,0.5)]">
                           {activeRecurringNavigateId === rule.id
                             ? "원본 내역 여는 중..."
-                            : "눌러서 원본 내역 수정"}
+                            : rule.isTransferRule
+                              ? "눌러서 자산 화면에서 이체 확인"
+                              : "눌러서 원본 내역 수정"}
                         </p>
                       </button>
                     </div>
@@ -1258,6 +1155,30 @@ export default function SettingsPage() {
                       </div>
                     </div>
                   </div>
+                  {rule.status !== "종료" ? (
+                    <button
+                      type="button"
+                      className="mt-3 text-[11px] text-[color:rgba(45,38,34,0.65)] underline-offset-2 hover:underline"
+                      onClick={() =>
+                        setOpenOccurrenceRuleId((prev) =>
+                          prev === rule.id ? null : rule.id
+                        )
+                      }
+                    >
+                      {openOccurrenceRuleId === rule.id
+                        ? "다가오는 회차 접기"
+                        : "다가오는 회차 건너뛰기·변경"}
+                    </button>
+                  ) : null}
+                  {householdId && openOccurrenceRuleId === rule.id ? (
+                    <RecurringOccurrenceExceptions
+                      householdId={householdId}
+                      ruleId={rule.id}
+                      rule={rule}
+                      now={currentDate}
+                      onResult={showToast}
+                    />
+                  ) : null}
                 </div>
               ))
             )}
@@ -1291,6 +1212,9 @@ export default function SettingsPage() {
             <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.6)]">
               전체 가계부 삭제를 선택하면 모든 데이터가 삭제됩니다.
             </p>
+            <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+              삭제 전에 현재 데이터 백업 파일을 자동으로 내려받습니다.
+            </p>
             <div className="mt-4 space-y-2 text-sm">
               {[
                 { key: "transactions", label: "거래 내역" },
@@ -18,6 +18,7 @@ import {
 } from "date-fns";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
+import TagReportSection from "@/components/tag-report-section";
 import { formatKrw } from "@/lib/format";
 import {
   buildPaymentMethodNameMap,
@@ -27,15 +28,18 @@ import {
 } from "@/lib/payment-method-resolver";
 import { toMonthKey } from "@/lib/time";
 import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
 import { useCategories } from "@/hooks/use-categories";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
 import { useSubjects } from "@/hooks/use-subjects";
+import { useTags } from "@/hooks/use-tags";
 import {
   useMonthlyTransactions,
   useTransactionsRange,
 } from "@/hooks/use-transactions";
 import { doc, getDoc } from "firebase/firestore";
 import { budgetsCol } from "@/lib/firebase/firestore";
+import type { Transaction } from "@/types/ledger";
 
 const CATEGORY_COLORS = [
   "#22c55e",
@@ -80,6 +84,7 @@ type StoredStatsFilters = {
   appliedCategoryIds?: string[];
   appliedSubjects?: string[];
   appliedPayments?: string[];
+  appliedTags?: string[];
   paymentOwnerFilter?: "husband" | "wife" | "our";
 };
 
@@ -89,6 +94,7 @@ type StatsFilterPreset = {
   appliedCategoryIds: string[];
   appliedSubjects: string[];
   appliedPayments: string[];
+  appliedTags?: string[];
   paymentOwnerFilter: "husband" | "wife" | "our";
 };
 
@@ -109,6 +115,7 @@ function loadStoredStatsFilters(): StoredStatsFilters | null {
 }
 
 type ViewType = "income" | "expense";
+type FilterTab = "category" | "subject" | "payment" | "tag";
 type BreakdownDetailType = "category" | "subject" | "payment";
 
 type BreakdownItem = {
@@ -553,6 +560,11 @@ type SubjectItem = {
   name: string;
 };
 
+type TagItem = {
+  id: string;
+  name: string;
+};
+
 type PaymentMethodItem = {
   id: string;
   name: string;
@@ -564,8 +576,8 @@ type PaymentMethodItem = {
 type FilterSheetProps = {
   open: boolean;
   onClose: () => void;
-  filterTab: "category" | "subject" | "payment";
-  setFilterTab: (tab: "category" | "subject" | "payment") => void;
+  filterTab: FilterTab;
+  setFilterTab: (tab: FilterTab) => void;
   categoryParents: CategoryItem[];
   categoryChildrenByParent: Map<string, CategoryItem[]>;
   draftCategoryIds: Set<string>;
@@ -585,6 +597,9 @@ type FilterSheetProps = {
   setDraftPayments: (next: Set<string>) => void;
   expandedPaymentParents: Set<string>;
   setExpandedPaymentParents: (next: Set<string>) => void;
+  tags: TagItem[];
+  draftTags: Set<string>;
+  setDraftTags: (next: Set<string>) => void;
   resetFilters: () => void;
   applyFilters: () => void;
 };
@@ -613,6 +628,9 @@ const FilterSheet = memo(function FilterSheet({
   setDraftPayments,
   expandedPaymentParents,
   setExpandedPaymentParents,
+  tags,
+  draftTags,
+  setDraftTags,
   resetFilters,
   applyFilters,
 }: FilterSheetProps) {
@@ -638,6 +656,10 @@ const FilterSheet = memo(function FilterSheet({
       setDraftSubjects(new Set(subjects.map((subject) => subject.name)));
       return;
     }
+    if (filterTab === "tag") {
+      setDraftTags(new Set(tags.map((tag) => tag.name)));
+      return;
+    }
     setDraftPayments(new Set(allPaymentMethodIds));
   };
 
@@ -667,6 +689,7 @@ const FilterSheet = memo(function FilterSheet({
               { key: "category", label: "카테고리" },
               { key: "subject", label: "구성원" },
               { key: "payment", label: "자산" },
+              { key: "tag", label: "태그" },
             ].map((tab) => (
               <button
                 key={tab.key}
@@ -677,7 +700,7 @@ const FilterSheet = memo(function FilterSheet({
                     : "text-[color:rgba(45,38,34,0.4)]"
                 }`}
                 onClick={() =>
-                  setFilterTab(tab.key as "category" | "subject" | "payment")
+                  setFilterTab(tab.key as FilterTab)
                 }
               >
                 {tab.label}
@@ -931,6 +954,39 @@ const FilterSheet = memo(function FilterSheet({
               })}
             </div>
           ) : null}
+
+          {filterTab === "tag" ? (
+            <div className="mt-6 space-y-2">
+              {tags.length === 0 ? (
+                <p className="rounded-2xl border border-dashed border-[var(--border)] px-4 py-6 text-center text-sm text-[color:rgba(45,38,34,0.6)]">
+                  아직 태그가 없습니다. 내역을 기록할 때 태그를 붙여보세요.
+                </p>
+              ) : (
+                tags.map((tag) => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    className={`w-full rounded-2xl border px-4 py-3 text-left text-sm ${
+                      draftTags.has(tag.name)
+                        ? "border-[var(--text)] bg-[color:rgba(45,38,34,0.08)] font-semibold"
+                        : "border-[var(--border)] text-[color:rgba(45,38,34,0.7)]"
+                    }`}
+                    onClick={() => {
+                      const next = new Set(draftTags);
+                      if (next.has(tag.name)) {
+                        next.delete(tag.name);
+                      } else {
+                        next.add(tag.name);
+                      }
+                      setDraftTags(next);
+                    }}
+                  >
+                    #{tag.name}
+                  </button>
+                ))
+              )}
+            </div>
+          ) : null}
         </div>
         <div className="border-t border-[var(--border)] bg-white p-4 pb-6">
           <div className="mb-3">
@@ -1120,6 +1176,8 @@ export default function StatsPage() {
   const { categories } = useCategories(householdId);
   const { subjects } = useSubjects(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { tags } = useTags(householdId);
+  const tagNames = useMemo(() => tags.map((tag) => tag.name), [tags]);
   const paymentMethodNameMap = useMemo(
     () => buildPaymentMethodNameMap(paymentMethods),
     [paymentMethods]
@@ -1246,10 +1304,16 @@ export default function StatsPage() {
       shouldUseRange ? rangeStart : null,
       shouldUseRange ? rangeEnd : null
     );
-  const activeTransactions =
-    appliedRangeMode === "custom" && shouldUseRange
-      ? rangeTransactions
-      : monthlyTransactions;
+  const activeTransactions = useMemo(
+    () =>
+      (appliedRangeMode === "custom" && shouldUseRange
+        ? rangeTransactions
+        : monthlyTransactions
+      )
+        .filter((tx) => !tx.refundOf)
+        .flatMap(expandTransactionSplits),
+    [appliedRangeMode, monthlyTransactions, rangeTransactions, shouldUseRange]
+  );
   const scopedTransactions = useMemo(() => {
     const currentUserId = user?.uid ?? null;
     if (!currentUserId || personalCategoryIdSet.size === 0) {
@@ -1262,12 +1326,20 @@ export default function StatsPage() {
         Boolean(tx.budgetApplied)
     );
   }, [activeTransactions, personalCategoryIdSet, user]);
+  const isTagReportTransactionVisible = useCallback(
+    (tx: Transaction) =>
+      !user ||
+      !personalCategoryIdSet.has(tx.categoryId) ||
+      tx.createdBy === user.uid ||
+      Boolean(tx.budgetApplied),
+    [personalCategoryIdSet, user]
+  );
   const activeLoading =
     appliedRangeMode === "custom" ? rangeLoading : monthlyLoading;
   const [touchStartX, setTouchStartX] = useState<number | null>(null);
   const [touchEndX, setTouchEndX] = useState<number | null>(null);
   const [isFilterSheetOpen, setIsFilterSheetOpen] = useState(false);
-  const [filterTab, setFilterTab] = useState<"category" | "subject" | "payment">(
+  const [filterTab, setFilterTab] = useState<FilterTab>(
     "category"
   );
   const [draftCategoryIds, setDraftCategoryIds] = useState<Set<string>>(
@@ -1279,6 +1351,7 @@ export default function StatsPage() {
   const [draftPayments, setDraftPayments] = useState<Set<string>>(
     () => new Set()
   );
+  const [draftTags, setDraftTags] = useState<Set<string>>(() => new Set());
   const [appliedCategoryIds, setAppliedCategoryIds] = useState<Set<string>>(
     () => new Set(storedFilters?.appliedCategoryIds ?? [])
   );
@@ -1288,6 +1361,9 @@ export default function StatsPage() {
   const [appliedPayments, setAppliedPayments] = useState<Set<string>>(
     () => new Set(storedFilters?.appliedPayments ?? [])
   );
+  const [appliedTags, setAppliedTags] = useState<Set<string>>(
+    () => new Set(storedFilters?.appliedTags ?? [])
+  );
   const [expandedCategoryParents, setExpandedCategoryParents] = useState<
     Set<string>
   >(() => new Set());
@@ -1369,6 +1445,7 @@ export default function StatsPage() {
       appliedCategoryIds: Array.from(appliedCategoryIds),
       appliedSubjects: Array.from(appliedSubjects),
       appliedPayments: Array.from(appliedPayments),
+      appliedTags: Array.from(appliedTags),
       paymentOwnerFilter,
     };
     window.localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(payload));
@@ -1381,6 +1458,7 @@ export default function StatsPage() {
     appliedCategoryIds,
     appliedSubjects,
     appliedPayments,
+    appliedTags,
     paymentOwnerFilter,
   ]);
 
@@ -1487,6 +1565,12 @@ export default function StatsPage() {
           continue;
         }
       }
+      if (
+        appliedTags.size > 0 &&
+        !(tx.tags ?? []).some((tag) => appliedTags.has(tag))
+      ) {
+        continue;
+      }
       items.push(tx);
     }
     return items;
@@ -1494,6 +1578,7 @@ export default function StatsPage() {
     appliedCategoryIds,
     appliedPayments,
     appliedSubjects,
+    appliedTags,
     effectiveBudgetScope,
     paymentMethodNameMap,
     viewType,
@@ -1608,6 +1693,10 @@ export default function StatsPage() {
     () => formatSelectionSummary(appliedSubjectNameList),
     [appliedSubjectNameList]
   );
+  const activeTagNames = useMemo(
+    () => formatSelectionSummary(Array.from(appliedTags).map((tag) => `#${tag}`)),
+    [appliedTags]
+  );
   const activePaymentNames = useMemo(
     () => formatSelectionSummary(appliedPaymentNameList),
     [appliedPaymentNameList]
@@ -1858,21 +1947,30 @@ export default function StatsPage() {
     return format(appliedMonthDate, "M월");
   }, [appliedEnd, appliedMonthDate, appliedRangeMode, appliedStart]);
 
-  const openFilterSheet = useCallback((tab: "category" | "subject" | "payment") => {
+  const openFilterSheet = useCallback((tab: FilterTab) => {
     setFilterTab(tab);
     setDraftCategoryIds(new Set(appliedCategoryIds));
     setDraftSubjects(new Set(appliedSubjects));
     setDraftPayments(normalizePaymentSelection(appliedPayments));
+    setDraftTags(new Set(appliedTags));
     setIsFilterSheetOpen(true);
-  }, [appliedCategoryIds, appliedPayments, appliedSubjects, normalizePaymentSelection]);
+  }, [
+    appliedCategoryIds,
+    appliedPayments,
+    appliedSubjects,
+    appliedTags,
+    normalizePaymentSelection,
+  ]);
 
   const resetFilters = useCallback(() => {
     setDraftCategoryIds(new Set());
     setDraftSubjects(new Set());
     setDraftPayments(new Set());
+    setDraftTags(new Set());
     setAppliedCategoryIds(new Set());
     setAppliedSubjects(new Set());
     setAppliedPayments(new Set());
+    setAppliedTags(new Set());
     setPaymentOwnerFilter("our");
     setExpandedCategoryParents(new Set());
     setExpandedPaymentParents(new Set());
@@ -1883,10 +1981,12 @@ export default function StatsPage() {
     setAppliedCategoryIds(new Set());
     setAppliedSubjects(new Set());
     setAppliedPayments(new Set());
+    setAppliedTags(new Set());
     setPaymentOwnerFilter("our");
     setDraftCategoryIds(new Set());
     setDraftSubjects(new Set());
     setDraftPayments(new Set());
+    setDraftTags(new Set());
     setExpandedCategoryParents(new Set());
     setExpandedPaymentParents(new Set());
   }, []);
@@ -1900,20 +2000,23 @@ export default function StatsPage() {
     setAppliedCategoryIds(new Set(draftCategoryIds));
     setAppliedSubjects(new Set(draftSubjects));
     setAppliedPayments(new Set(draftPayments));
+    setAppliedTags(new Set(draftTags));
     setIsFilterSheetOpen(false);
-  }, [draftCategoryIds, draftPayments, draftSubjects]);
+  }, [draftCategoryIds, draftPayments, draftSubjects, draftTags]);
 
   const activePresetId = useMemo(() => {
     const categoriesKey = Array.from(appliedCategoryIds).sort().join("|");
     const subjectsKey = Array.from(appliedSubjects).sort().join("|");
     const paymentsKey = Array.from(appliedPayments).sort().join("|");
+    const tagsKey = Array.from(appliedTags).sort().join("|");
     return (
       filterPresets.find((preset) => {
         return (
           preset.paymentOwnerFilter === paymentOwnerFilter &&
           [...preset.appliedCategoryIds].sort().join("|") === categoriesKey &&
           [...preset.appliedSubjects].sort().join("|") === subjectsKey &&
-          [...preset.appliedPayments].sort().join("|") === paymentsKey
+          [...preset.appliedPayments].sort().join("|") === paymentsKey &&
+          [...(preset.appliedTags ?? [])].sort().join("|") === tagsKey
         );
       })?.id ?? null
     );
@@ -1921,6 +2024,7 @@ export default function StatsPage() {
     appliedCategoryIds,
     appliedPayments,
     appliedSubjects,
+    appliedTags,
     filterPresets,
     paymentOwnerFilter,
   ]);
@@ -1949,6 +2053,7 @@ export default function StatsPage() {
       appliedCategoryIds: Array.from(appliedCategoryIds),
       appliedSubjects: Array.from(appliedSubjects),
       appliedPayments: Array.from(appliedPayments),
+      appliedTags: Array.from(appliedTags),
       paymentOwnerFilter,
     };
     setFilterPresets((prev) => {
@@ -1967,6 +2072,7 @@ export default function StatsPage() {
     appliedCategoryIds,
     appliedPayments,
     appliedSubjects,
+    appliedTags,
     closePresetSheet,
     paymentOwnerFilter,
     presetName,
@@ -1976,12 +2082,15 @@ export default function StatsPage() {
     const nextCategories = new Set(preset.appliedCategoryIds);
     const nextSubjects = new Set(preset.appliedSubjects);
     const nextPayments = new Set(preset.appliedPayments);
+    const nextTags = new Set(preset.appliedTags ?? []);
     setAppliedCategoryIds(nextCategories);
     setAppliedSubjects(nextSubjects);
     setAppliedPayments(nextPayments);
+    setAppliedTags(nextTags);
     setDraftCategoryIds(new Set(nextCategories));
     setDraftSubjects(new Set(nextSubjects));
     setDraftPayments(new Set(nextPayments));
+    setDraftTags(new Set(nextTags));
     setPaymentOwnerFilter(preset.paymentOwnerFilter);
     setIsFilterSheetOpen(false);
   }, []);
@@ -2148,6 +2257,9 @@ export default function StatsPage() {
       setDraftPayments,
       expandedPaymentParents,
       setExpandedPaymentParents,
+      tags,
+      draftTags,
+      setDraftTags,
       resetFilters,
       applyFilters,
     }),
@@ -2159,6 +2271,7 @@ export default function StatsPage() {
       draftCategoryIds,
       draftPayments,
       draftSubjects,
+      draftTags,
       expandedCategoryParents,
       expandedPaymentParents,
       filterTab,
@@ -2172,11 +2285,13 @@ export default function StatsPage() {
       setDraftCategoryIds,
       setDraftPayments,
       setDraftSubjects,
+      setDraftTags,
       setExpandedCategoryParents,
       setExpandedPaymentParents,
       setFilterTab,
       setPaymentOwnerFilter,
       subjects,
+      tags,
     ]
   );
 
@@ -2342,6 +2457,13 @@ export default function StatsPage() {
               >
                 자산 ▼
               </button>
+              <button
+                type="button"
+                className="rounded-full border border-[var(--border)] px-4 py-2 text-sm text-[color:rgba(45,38,34,0.7)]"
+                onClick={() => openFilterSheet("tag")}
+              >
+                태그 ▼
+              </button>
               <button
                 type="button"
                 className="flex h-10 w-10 items-center justify-center rounded-full border border-[var(--border)] text-sm"
@@ -2364,6 +2486,12 @@ export default function StatsPage() {
               <span>구성원: {activeSubjectNames}</span>
               <span className="mx-2">•</span>
               <span>자산: {activePaymentNames}</span>
+              {appliedTags.size > 0 ? (
+                <>
+                  <span className="mx-2">•</span>
+                  <span>태그: {activeTagNames}</span>
+                </>
+              ) : null}
             </div>
             {filterPresets.length > 0 ? (
               <div className="-mx-1 overflow-x-auto px-1 pb-1">
@@ -2577,6 +2705,15 @@ export default function StatsPage() {
         )}
       </section>
 
+      <TagReportSection
+        householdId={householdId}
+        tagNames={tagNames}
+        preferredTag={Array.from(appliedTags)[0] ?? null}
+        categoryNameById={categoryMap}
+        paymentMethodNameById={paymentMethodNameMap}
+        isVisible={isTagReportTransactionVisible}
+      />
+
       <BreakdownSheet
         open={Boolean(detailSheet)}
         onClose={closeDetailSheet}
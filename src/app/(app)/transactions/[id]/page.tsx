@@ -2,23 +2,34 @@
 
 import { useParams, useRouter } from "next/navigation";
 import { useEffect, useMemo, useRef, useState } from "react";
-import {
-  Timestamp,
-  deleteField,
-  doc,
-  getDoc,
-  serverTimestamp,
-  writeBatch,
-} from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase/client";
 import { useAuth } from "@/components/auth-provider";
-import TransactionRecurringSection from "@/components/transaction-recurring-section";
+import TransactionRecurringSection, {
+  buildRecurrenceFormState,
+  parseRecurrenceForm,
+} from "@/components/transaction-recurring-section";
+import TransactionAttachmentsSection from "@/components/transaction-attachments-section";
+import TransactionChangeHistorySection from "@/components/transaction-change-history-section";
+import TransactionRefundSection from "@/components/transaction-refund-section";
+import TransactionSplitSection, {
+  buildSplitFormLines,
+  createSplitFormLine,
+  parseSplitForm,
+  type SplitFormLine,
+} from "@/components/transaction-split-section";
+import TransactionTagInput from "@/components/transaction-tag-input";
 import { useHousehold } from "@/components/household-provider";
 import { useCategories } from "@/hooks/use-categories";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
 import { useSubjects } from "@/hooks/use-subjects";
+import { useTags } from "@/hooks/use-tags";
 import { formatKrw } from "@/lib/format";
 import { householdDoc } from "@/lib/firebase/firestore";
+import {
+  deleteInstallmentTransactions,
+  listInstallmentTransactions,
+} from "@/lib/installments";
 import { addNotification } from "@/lib/notifications";
 import {
   findPaymentMethodByName,
@@ -26,16 +37,37 @@ import {
 } from "@/lib/payment-method-resolver";
 import {
   buildRecurringTransactionNote,
+  stripRecurringMonthPrefix,
+} from "@/lib/recurring-schedule";
+import {
+  clearRecurringOccurrenceException,
   createRecurringTransactionRule,
   deleteRecurringTransactionRule,
   getRecurringTransactionRule,
-  stripRecurringMonthPrefix,
+  listGeneratedTransactionIdsAfter,
+  setRecurringOccurrenceException,
+  stopRecurringTransactionRule,
   updateRecurringTransactionRule,
 } from "@/lib/recurring-transactions";
-import { deleteTransaction, updateTransaction } from "@/lib/transactions";
-import { savePendingUndoAction } from "@/lib/undo-actions";
-import { toDateKey, toMonthKey } from "@/lib/time";
-import type { TransactionType } from "@/types/ledger";
+import { deleteRefundTransaction, updateRefundTransaction } from "@/lib/refunds";
+import { ensureTags } from "@/lib/tags";
+import { bulkMoveTransactionsToTrash } from "@/lib/transaction-bulk-actions";
+import {
+  deleteTransaction,
+  updateGeneratedTransactionAndRule,
+  updateTransaction,
+} from "@/lib/transactions";
+import { getTrashItemId } from "@/lib/trash";
+import { getPrimaryTransactionSplit } from "@/lib/transaction-splits";
+import { captureUndoState, recordUndoEntry } from "@/lib/undo-actions";
+import { toDateKey } from "@/lib/time";
+import type {
+  Transaction,
+  TransactionAttachment,
+  TransactionInstallment,
+  TransactionSplit,
+  TransactionType,
+} from "@/types/ledger";
 
 type PaymentOwner = "husband" | "wife" | "our";
 
@@ -59,6 +91,7 @@ export default function EditTransactionPage() {
   const { categories } = useCategories(householdId);
   const { subjects } = useSubjects(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { tags: tagList } = useTags(householdId);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -93,14 +126,33 @@ export default function EditTransactionPage() {
   const [generatedEditScope, setGeneratedEditScope] = useState<"single" | "future">(
     "single"
   );
-  const [recurringDayOfMonth, setRecurringDayOfMonth] = useState("1");
+  const [generatedRuleAmount, setGeneratedRuleAmount] = useState<number | null>(
+    null
+  );
+  const [recurrenceForm, setRecurrenceForm] = useState(() =>
+    buildRecurrenceFormState(new Date())
+  );
   const [recurringStartDate, setRecurringStartDate] = useState(toDateKey(new Date()));
   const [recurringEndDate, setRecurringEndDate] = useState("");
   const [prependMonthToRecurringNote, setPrependMonthToRecurringNote] = useState(false);
   const [subject, setSubject] = useState("");
   const [date, setDate] = useState(toDateKey(new Date()));
   const [note, setNote] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
   const [budgetApplied, setBudgetApplied] = useState(false);
+  const [isSplitEnabled, setIsSplitEnabled] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitFormLine[]>([]);
+  const [installment, setInstallment] = useState<TransactionInstallment | null>(null);
+  const [installmentPortions, setInstallmentPortions] = useState<{
+    parentId: string;
+    items: (Transaction & { id: string })[];
+  } | null>(null);
+  const [refundOf, setRefundOf] = useState("");
+  const [refundedAmount, setRefundedAmount] = useState(0);
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+  const [installmentDeleteScope, setInstallmentDeleteScope] = useState<"single" | "all">(
+    "single"
+  );
   const [originalTransaction, setOriginalTransaction] = useState<{
     type: TransactionType;
     amount: number;
@@ -114,6 +166,8 @@ export default function EditTransactionPage() {
     subject: string;
     date: string;
     note?: string;
+    tags?: string[];
+    splits?: TransactionSplit[];
     budgetApplied?: boolean;
     createdBy: string;
     createdAt?: Date | null;
@@ -171,6 +225,8 @@ export default function EditTransactionPage() {
       subject: string;
       date: string;
       note?: string;
+      tags?: string[];
+      splits?: TransactionSplit[];
       budgetApplied?: boolean;
     },
     next: {
@@ -182,6 +238,8 @@ export default function EditTransactionPage() {
       subject: string;
       date: string;
       note?: string;
+      tags?: string[];
+      splits?: TransactionSplit[];
       budgetApplied?: boolean;
     }
   ) {
@@ -220,6 +278,12 @@ export default function EditTransactionPage() {
     if ((original.note ?? "").trim() !== (next.note ?? "").trim()) {
       changes.push("메모 변경");
     }
+    if ((original.tags ?? []).join(",") !== (next.tags ?? []).join(",")) {
+      changes.push("태그 변경");
+    }
+    if (JSON.stringify(original.splits ?? []) !== JSON.stringify(next.splits ?? [])) {
+      changes.push("나눠 기록 변경");
+    }
     if (Boolean(original.budgetApplied) !== Boolean(next.budgetApplied)) {
       changes.push(`예산 ${next.budgetApplied ? "ON" : "OFF"}`);
     }
@@ -385,6 +449,12 @@ export default function EditTransactionPage() {
           subject: string;
           date: { toDate: () => Date };
           note?: string;
+          tags?: string[];
+          splits?: TransactionSplit[];
+          installment?: TransactionInstallment;
+          refundOf?: string | null;
+          refundedAmount?: number;
+          attachments?: TransactionAttachment[];
           budgetApplied?: boolean;
           createdBy: string;
           createdAt?: { toDate: () => Date };
@@ -401,11 +471,17 @@ export default function EditTransactionPage() {
         setSubject(data.subject);
         setDate(toDateKey(data.date.toDate()));
         setNote(data.note ?? "");
+        setTags(data.tags ?? []);
         setBudgetApplied(Boolean(data.budgetApplied));
+        setIsSplitEnabled(Boolean(data.splits?.length));
+        setSplitLines(buildSplitFormLines(data.splits ?? []));
+        setInstallment(data.installment ?? null);
+        setRefundOf(data.refundOf ?? "");
+        setRefundedAmount(data.refundedAmount ?? 0);
+        setAttachments(data.attachments ?? []);
+        setInstallmentDeleteScope("single");
         setIsRecurringEnabled(Boolean(data.recurringRuleId));
-        setRecurringDayOfMonth(
-          String(data.date.toDate().getDate())
-        );
+        setRecurrenceForm(buildRecurrenceFormState(data.date.toDate()));
         setRecurringStartDate(toDateKey(data.date.toDate()));
         setRecurringEndDate("");
         setPrependMonthToRecurringNote(false);
@@ -424,6 +500,8 @@ export default function EditTransactionPage() {
           subject: data.subject,
           date: toDateKey(data.date.toDate()),
           note: data.note ?? "",
+          tags: data.tags,
+          splits: data.splits,
           budgetApplied: data.budgetApplied,
           createdBy: data.createdBy,
           createdAt: data.createdAt?.toDate?.() ?? null,
@@ -433,6 +511,24 @@ export default function EditTransactionPage() {
       .finally(() => setLoading(false));
   }, [householdId, transactionId]);
 
+  useEffect(() => {
+    const parentId = installment?.parentId;
+    if (!householdId || !parentId) {
+      return;
+    }
+    let active = true;
+    listInstallmentTransactions(householdId, parentId)
+      .then((items) => {
+        if (active) {
+          setInstallmentPortions({ parentId, items });
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, [householdId, installment?.parentId]);
+
   useEffect(() => {
     const targetRecurringRuleId = recurringRuleId || generatedFromRecurringRuleId;
     if (!householdId || !targetRecurringRuleId) {
@@ -451,12 +547,23 @@ export default function EditTransactionPage() {
             setIsRecurringEnabled(false);
           }
           setPrependMonthToRecurringNote(false);
+          setGeneratedRuleAmount(null);
           return;
         }
         setPrependMonthToRecurringNote(Boolean(rule.prependMonthToNote));
+        setGeneratedRuleAmount(rule.amount);
         if (recurringRuleId) {
           setIsRecurringEnabled(true);
-          setRecurringDayOfMonth(String(rule.dayOfMonth));
+          setRecurrenceForm(
+            buildRecurrenceFormState(
+              rule.startDate.toDate(),
+              rule.recurrence ?? {
+                frequency: "monthly",
+                interval: 1,
+                dayOfMonth: rule.dayOfMonth,
+              }
+            )
+          );
           setRecurringStartDate(toDateKey(rule.startDate.toDate()));
           setRecurringEndDate(rule.endDate ? toDateKey(rule.endDate.toDate()) : "");
         }
@@ -470,6 +577,7 @@ export default function EditTransactionPage() {
           setIsRecurringEnabled(false);
         }
         setPrependMonthToRecurringNote(false);
+        setGeneratedRuleAmount(null);
       });
     return () => {
       active = false;
@@ -629,7 +737,7 @@ export default function EditTransactionPage() {
     if (!parsedDate) {
       return;
     }
-    setRecurringDayOfMonth(String(parsedDate.getDate()));
+    setRecurrenceForm(buildRecurrenceFormState(parsedDate));
     setRecurringStartDate(date);
   }, [date, generatedFromRecurringRuleId, isRecurringEnabled, recurringRuleId]);
   useEffect(() => {
@@ -647,6 +755,22 @@ export default function EditTransactionPage() {
     }
   }, [discountAmount, type]);
 
+  function handleSplitToggle(enabled: boolean) {
+    setIsSplitEnabled(enabled);
+    if (!enabled) {
+      return;
+    }
+    setBudgetApplied(false);
+    if (splitLines.length >= 2) {
+      return;
+    }
+    const defaults = { categoryId, subject: subject || subjects[0]?.name || "" };
+    setSplitLines([
+      createSplitFormLine(defaults, parsedAmount),
+      createSplitFormLine(defaults),
+    ]);
+  }
+
   async function handleSave() {
     if (!householdId || !transactionId || !user) {
       return;
@@ -655,7 +779,7 @@ export default function EditTransactionPage() {
     setError(null);
     const nextAmount = parseAmountValue(amount);
     const parsedDate = parseDateInput(date);
-    const recurringDay = Number(recurringDayOfMonth);
+    const recurrence = parseRecurrenceForm(recurrenceForm);
     const parsedRecurringStartDate = parseDateInput(recurringStartDate);
     const parsedRecurringEndDate = recurringEndDate
       ? parseDateInput(recurringEndDate)
@@ -665,15 +789,64 @@ export default function EditTransactionPage() {
       setSaving(false);
       return;
     }
+    const splitEnabled =
+      isSplitEnabled && type !== "transfer" && !isGeneratedRecurringTransaction;
+    const splits = splitEnabled ? parseSplitForm(splitLines, nextAmount) : null;
+    if (splitEnabled && !splits) {
+      setError("나눈 금액의 합계가 금액과 같은지, 각 줄의 카테고리를 골랐는지 확인해주세요.");
+      setSaving(false);
+      return;
+    }
+    if (splitEnabled && isRecurringEnabled) {
+      setError("나눠 기록한 내역은 자동 등록할 수 없습니다.");
+      setSaving(false);
+      return;
+    }
+    if (installment && (splitEnabled || isRecurringEnabled)) {
+      setError("할부 내역은 나눠 기록하거나 자동 등록할 수 없습니다.");
+      setSaving(false);
+      return;
+    }
+    if (refundOf) {
+      try {
+        const undoCapture = await captureUndoState(householdId, [
+          `transactions/${transactionId}`,
+          `transactions/${refundOf}`,
+        ]);
+        await updateRefundTransaction({
+          householdId,
+          refundId: transactionId,
+          amount: nextAmount,
+          date: parsedDate,
+          note: note.trim() || undefined,
+          updatedBy: user.uid,
+          updatedByName: displayName,
+        });
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
+          kind: "transaction.update",
+          label: `환불 수정 · ${formatKrw(nextAmount)}`,
+        });
+        router.replace(`/transactions?date=${date}`);
+      } catch (refundError) {
+        setError(
+          refundError instanceof Error ? refundError.message : "수정에 실패했습니다."
+        );
+      } finally {
+        setSaving(false);
+      }
+      return;
+    }
+    const primarySplit = splits ? getPrimaryTransactionSplit(splits) : null;
+    const categoryValue = primarySplit?.categoryId ?? categoryId;
+    const subjectValue = primarySplit?.subject ?? subject;
     if (
       !isGeneratedRecurringTransaction &&
       isRecurringEnabled &&
-      (!Number.isInteger(recurringDay) ||
-        recurringDay < 1 ||
-        recurringDay > 31 ||
-        !parsedRecurringStartDate)
+      (!recurrence || !parsedRecurringStartDate)
     ) {
-      setError("자동 등록 시작일과 등록일(1~31일)을 확인해주세요.");
+      setError("자동 등록 시작일과 반복 주기를 확인해주세요.");
       setSaving(false);
       return;
     }
@@ -702,7 +875,21 @@ export default function EditTransactionPage() {
       parsedDate,
       prependMonthToRecurringNote
     );
+    const tagValues = tags.length > 0 ? tags : undefined;
     try {
+      if (tagValues) {
+        await ensureTags(householdId, tagValues, tagList);
+      }
+      const undoCapture = await captureUndoState(householdId, [
+        `transactions/${transactionId}`,
+        ...(recurringRuleId ? [`recurringTransactionRules/${recurringRuleId}`] : []),
+        ...(generatedFromRecurringRuleId
+          ? [`recurringTransactionRules/${generatedFromRecurringRuleId}`]
+          : []),
+      ]);
+      const undoLabel = `내역 수정 · ${typeLabelMap[type]} ${formatKrw(nextAmount)} · ${
+        categoryNameMap.get(categoryValue) ?? "미분류"
+      }`;
       const memoText = note.trim() || "메모 없음";
       const paymentMethodValue =
         selectedPaymentMethodName || formatPaymentMethodLabel(paymentMethod) || "현금";
@@ -719,18 +906,25 @@ export default function EditTransactionPage() {
             amount: nextAmount,
             discountAmount:
               nextDiscountAmount ?? 0,
-            categoryId,
+            categoryId: categoryValue,
             paymentMethod: paymentMethodValue,
-            subject,
+            subject: subjectValue,
             date,
             note: note || undefined,
+            tags: tagValues,
+            splits: splits ?? undefined,
             budgetApplied,
           }
         : null;
       const changeSummary = nextSnapshot && originalTransaction
         ? buildUpdateSummary(originalTransaction, nextSnapshot)
         : "";
-      if (!isGeneratedRecurringTransaction && isRecurringEnabled && parsedRecurringStartDate) {
+      if (
+        !isGeneratedRecurringTransaction &&
+        isRecurringEnabled &&
+        recurrence &&
+        parsedRecurringStartDate
+      ) {
         if (recurringRuleId) {
           await updateRecurringTransactionRule({
             householdId,
@@ -743,9 +937,11 @@ export default function EditTransactionPage() {
             paymentMethodId: selectedPaymentMethod?.id,
             subject,
             note: note.trim() || undefined,
+            tags: tagValues,
             prependMonthToNote: prependMonthToRecurringNote,
             budgetApplied,
-            dayOfMonth: recurringDay,
+            dayOfMonth: recurrence.dayOfMonth ?? parsedRecurringStartDate.getDate(),
+            recurrence,
             startDate: parsedRecurringStartDate,
             endDate: parsedRecurringEndDate ?? undefined,
           });
@@ -760,9 +956,11 @@ export default function EditTransactionPage() {
             paymentMethodId: selectedPaymentMethod?.id,
             subject,
             note: note.trim() || undefined,
+            tags: tagValues,
             prependMonthToNote: prependMonthToRecurringNote,
             budgetApplied,
-            dayOfMonth: recurringDay,
+            dayOfMonth: recurrence.dayOfMonth ?? parsedRecurringStartDate.getDate(),
+            recurrence,
             startDate: parsedRecurringStartDate,
             endDate: parsedRecurringEndDate ?? undefined,
             lastGeneratedDateKey: date,
@@ -776,44 +974,36 @@ export default function EditTransactionPage() {
         generatedEditScope === "future" &&
         generatedFromRecurringRuleId
       ) {
-        const batch = writeBatch(db);
-        batch.update(doc(db, "households", householdId, "transactions", transactionId), {
+        await updateGeneratedTransactionAndRule({
+          householdId,
+          transactionId,
           type,
           amount: nextAmount,
+          discountAmount: nextDiscountAmount,
           categoryId,
           paymentMethod: paymentMethodValue,
-          paymentMethodId: selectedPaymentMethod?.id ?? deleteField(),
+          paymentMethodId: selectedPaymentMethod?.id,
+          generatedFromRecurringRuleId,
+          recurringOccurrenceDateKey: recurringOccurrenceDateKey || undefined,
           subject,
-          date: Timestamp.fromDate(parsedDate),
-          monthKey: toMonthKey(parsedDate),
-          note: recurringGeneratedNote || deleteField(),
+          date: parsedDate,
+          note: recurringGeneratedNote || undefined,
+          tags: tagValues,
+          splits: splits ?? undefined,
           budgetApplied,
-          discountAmount: nextDiscountAmount ?? deleteField(),
+          updatedBy: user.uid,
+          updatedByName: displayName,
+          ruleId: generatedFromRecurringRuleId,
+          ruleNote: recurringBaseNote || undefined,
+          prependMonthToNote: prependMonthToRecurringNote,
         });
-        batch.update(
-          doc(
-            db,
-            "households",
-            householdId,
-            "recurringTransactionRules",
-            generatedFromRecurringRuleId
-          ),
-          {
-            type,
-            amount: nextAmount,
-            categoryId,
-            paymentMethod: paymentMethodValue,
-            paymentMethodId: selectedPaymentMethod?.id ?? deleteField(),
-            subject,
-            note: recurringBaseNote || deleteField(),
-            prependMonthToNote: prependMonthToRecurringNote,
-            budgetApplied,
-            discountAmount: nextDiscountAmount ?? deleteField(),
-            updatedAt: serverTimestamp(),
-          }
-        );
-        await batch.commit();
         transactionUpdated = true;
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
+          kind: "transaction.update",
+          label: undoLabel,
+        });
         if (!selectedCategory?.personalOnly) {
           await addNotification(householdId, {
             title: "자동 내역 수정",
@@ -835,30 +1025,50 @@ export default function EditTransactionPage() {
         type,
         amount: nextAmount,
         discountAmount: nextDiscountAmount,
-        categoryId,
+        categoryId: categoryValue,
         paymentMethod: paymentMethodValue,
         paymentMethodId: selectedPaymentMethod?.id,
         recurringRuleId: nextRecurringRuleId ?? undefined,
         generatedFromRecurringRuleId: generatedFromRecurringRuleId || undefined,
         recurringOccurrenceDateKey: recurringOccurrenceDateKey || undefined,
-        subject,
+        subject: subjectValue,
         date: parsedDate,
         note: note || undefined,
+        tags: tagValues,
+        splits: splits ?? undefined,
         budgetApplied,
+        updatedBy: user.uid,
+        updatedByName: displayName,
       });
       transactionUpdated = true;
+      if (
+        isGeneratedRecurringTransaction &&
+        generatedEditScope === "single" &&
+        recurringOccurrenceDateKey
+      ) {
+        await saveGeneratedOccurrenceException(nextAmount);
+      }
       if (shouldDeleteRecurringRule) {
         await deleteRecurringTransactionRule(householdId, shouldDeleteRecurringRule);
         setRecurringRuleId("");
       } else if (createdRecurringRuleId) {
         setRecurringRuleId(createdRecurringRuleId);
       }
-      if (!selectedCategory?.personalOnly) {
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "transaction.update",
+        label: undoLabel,
+        createdTargets: createdRecurringRuleId
+          ? [`recurringTransactionRules/${createdRecurringRuleId}`]
+          : [],
+      });
+      if (!categories.find((category) => category.id === categoryValue)?.personalOnly) {
         await addNotification(householdId, {
           title: "내역 수정",
           message: `${typeLabelMap[type]} ${formatKrw(nextAmount)} • ${
-            categoryNameMap.get(categoryId) ?? "미분류"
-          } • ${memoText} • ${date}${changeSummary ? ` • 변경: ${changeSummary}` : ""}`,
+            categoryNameMap.get(categoryValue) ?? "미분류"
+          }${splits ? ` 외 ${splits.length - 1}건` : ""} • ${memoText} • ${date}${changeSummary ? ` • 변경: ${changeSummary}` : ""}`,
           level: "info",
             type: "transaction.update",
           }).catch(() => undefined);
@@ -874,14 +1084,43 @@ export default function EditTransactionPage() {
           () => undefined
         );
       }
-      setError("수정에 실패했습니다.");
+      setError(
+        transactionUpdated
+          ? "내역은 저장했지만 자동 내역 설정에 반영하지 못했습니다. 다시 저장해주세요."
+          : "수정에 실패했습니다."
+      );
     } finally {
       setSaving(false);
     }
   }
 
+  async function saveGeneratedOccurrenceException(nextAmount: number) {
+    if (!householdId || !generatedFromRecurringRuleId || !recurringOccurrenceDateKey) {
+      return;
+    }
+    const moveToDateKey = date !== recurringOccurrenceDateKey ? date : undefined;
+    const amountOverride =
+      generatedRuleAmount !== null && nextAmount !== generatedRuleAmount
+        ? nextAmount
+        : undefined;
+    if (!moveToDateKey && amountOverride === undefined) {
+      await clearRecurringOccurrenceException(
+        householdId,
+        generatedFromRecurringRuleId,
+        recurringOccurrenceDateKey
+      );
+      return;
+    }
+    await setRecurringOccurrenceException({
+      householdId,
+      ruleId: generatedFromRecurringRuleId,
+      occurrenceDateKey: recurringOccurrenceDateKey,
+      exception: { moveToDateKey, amount: amountOverride },
+    });
+  }
+
   async function handleDelete() {
-    if (!householdId || !transactionId) {
+    if (!householdId || !transactionId || !user) {
       return;
     }
     if (recurringRuleId && !generatedFromRecurringRuleId) {
@@ -890,39 +1129,112 @@ export default function EditTransactionPage() {
       return;
     }
     setSaving(true);
+    let transactionDeleted = false;
     try {
-      await deleteTransaction(householdId, transactionId);
-      if (originalTransaction) {
-        savePendingUndoAction({
+      const deletedIds =
+        installment && installmentDeleteScope === "all"
+          ? (await listInstallmentTransactions(householdId, installment.parentId)).map(
+              (portion) => portion.id
+            )
+          : [transactionId];
+      // Ending the rule does not remove occurrences already generated after
+      // this one, so a "future" delete trashes those as well.
+      const laterGeneratedIds =
+        isGeneratedRecurringTransaction &&
+        recurringOccurrenceDateKey &&
+        generatedEditScope === "future"
+          ? await listGeneratedTransactionIdsAfter(
+              householdId,
+              generatedFromRecurringRuleId,
+              recurringOccurrenceDateKey
+            )
+          : [];
+      const undoCapture = await captureUndoState(householdId, [
+        ...[...deletedIds, ...laterGeneratedIds].flatMap((id) => [
+          `transactions/${id}`,
+          `trash/${getTrashItemId("transaction", id)}`,
+        ]),
+        ...(refundOf ? [`transactions/${refundOf}`] : []),
+        ...(generatedFromRecurringRuleId
+          ? [`recurringTransactionRules/${generatedFromRecurringRuleId}`]
+          : []),
+      ]);
+      if (refundOf) {
+        await deleteRefundTransaction(householdId, transactionId, user.uid);
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
           kind: "transaction.delete",
+          label: `환불 삭제 · ${formatKrw(parseAmountValue(amount))}`,
+        });
+        router.replace(`/transactions?date=${originalTransaction?.date ?? date}`);
+        return;
+      }
+      if (installment && installmentDeleteScope === "all") {
+        const deletedCount = await deleteInstallmentTransactions(
           householdId,
-          expiresAt: Date.now() + 10000,
-          payload: {
-            transactionId,
-            type: originalTransaction.type,
-            amount: originalTransaction.amount,
-            discountAmount:
-              originalTransaction.type === "expense" &&
-              (originalTransaction.discountAmount ?? 0) > 0
-                ? originalTransaction.discountAmount
-                : undefined,
-            categoryId: originalTransaction.categoryId,
-            paymentMethod: originalTransaction.paymentMethod,
-            paymentMethodId: originalTransaction.paymentMethodId,
-            recurringRuleId: originalTransaction.recurringRuleId,
-            generatedFromRecurringRuleId:
-              originalTransaction.generatedFromRecurringRuleId,
-            recurringOccurrenceDateKey:
-              originalTransaction.recurringOccurrenceDateKey,
-            subject: originalTransaction.subject,
-            dateIso: new Date(originalTransaction.date).toISOString(),
-            note: originalTransaction.note,
-            budgetApplied: originalTransaction.budgetApplied,
-            createdBy: originalTransaction.createdBy,
-            createdAtIso: originalTransaction.createdAt?.toISOString() ?? null,
-          },
+          installment.parentId,
+          user.uid
+        );
+        await recordUndoEntry({
+          householdId,
+          capture: undoCapture,
+          kind: "transaction.delete",
+          label: `할부 내역 삭제 · ${formatKrw(installment.principal)} · ${
+            installment.months
+          }개월`,
         });
+        if (!selectedCategory?.personalOnly) {
+          await addNotification(householdId, {
+            title: "할부 내역 삭제",
+            message: `${formatKrw(installment.principal)} · ${
+              categoryNameMap.get(categoryId) ?? "미분류"
+            } · 할부 ${installment.months}개월 중 ${deletedCount}건 삭제`,
+            level: "error",
+            type: "transaction.delete",
+          });
+        }
+        router.replace(`/transactions?date=${originalTransaction?.date ?? date}`);
+        return;
+      }
+      await deleteTransaction(householdId, transactionId, user.uid);
+      transactionDeleted = true;
+      if (isGeneratedRecurringTransaction && recurringOccurrenceDateKey) {
+        const occurrenceDate = parseDateInput(recurringOccurrenceDateKey);
+        if (generatedEditScope === "future" && occurrenceDate) {
+          await stopRecurringTransactionRule(
+            householdId,
+            generatedFromRecurringRuleId,
+            new Date(
+              occurrenceDate.getFullYear(),
+              occurrenceDate.getMonth(),
+              occurrenceDate.getDate() - 1
+            )
+          );
+          if (laterGeneratedIds.length > 0) {
+            await bulkMoveTransactionsToTrash({
+              householdId,
+              transactionIds: laterGeneratedIds,
+              deletedBy: user.uid,
+            });
+          }
+        } else {
+          await setRecurringOccurrenceException({
+            householdId,
+            ruleId: generatedFromRecurringRuleId,
+            occurrenceDateKey: recurringOccurrenceDateKey,
+            exception: { skip: true },
+          });
+        }
       }
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "transaction.delete",
+        label: `내역 삭제 · ${typeLabelMap[type]} ${formatKrw(parseAmountValue(amount))} · ${
+          categoryNameMap.get(categoryId) ?? "미분류"
+        }`,
+      });
       if (!selectedCategory?.personalOnly) {
         await addNotification(householdId, {
           title: "내역 삭제",
@@ -935,7 +1247,11 @@ export default function EditTransactionPage() {
       }
       router.replace(`/transactions?date=${originalTransaction?.date ?? date}`);
     } catch {
-      setError("삭제에 실패했습니다.");
+      setError(
+        transactionDeleted
+          ? "내역은 삭제했지만 자동 내역 설정에 반영하지 못했습니다. 휴지통에서 복원한 뒤 다시 삭제해주세요."
+          : "삭제에 실패했습니다."
+      );
     } finally {
       setSaving(false);
       setConfirmDelete(false);
@@ -987,7 +1303,7 @@ export default function EditTransactionPage() {
                 type="button"
                 className="rounded-xl border border-[var(--border)] bg-white px-4 py-3 text-left text-sm disabled:opacity-60"
                 onClick={() => setIsSubjectSheetOpen(true)}
-                disabled={subjects.length === 0}
+                disabled={subjects.length === 0 || isSplitEnabled}
               >
                 {subject || "선택"}
               </button>
@@ -998,8 +1314,9 @@ export default function EditTransactionPage() {
               카테고리
               <button
                 type="button"
-                className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3 text-left text-sm"
+                className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3 text-left text-sm disabled:opacity-60"
                 onClick={() => setIsCategorySheetOpen(true)}
+                disabled={isSplitEnabled}
               >
                 {selectedCategoryName || "선택"}
               </button>
@@ -1069,7 +1386,7 @@ export default function EditTransactionPage() {
               />
             </label>
           )}
-          {selectedCategoryBudgetEnabled && type === "expense" ? (
+          {selectedCategoryBudgetEnabled && type === "expense" && !isSplitEnabled ? (
             <label className="flex items-center gap-2 text-sm text-[color:rgba(45,38,34,0.8)]">
               <input
                 type="checkbox"
@@ -1080,7 +1397,105 @@ export default function EditTransactionPage() {
               예산으로 처리
             </label>
           ) : null}
+          {type !== "transfer" &&
+          !isGeneratedRecurringTransaction &&
+          !installment &&
+          !refundOf ? (
+            <label className="flex items-center gap-2 text-sm text-[color:rgba(45,38,34,0.8)]">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-[var(--border)]"
+                checked={isSplitEnabled}
+                onChange={(event) => handleSplitToggle(event.target.checked)}
+              />
+              여러 카테고리로 나눠 기록
+            </label>
+          ) : null}
         </div>
+        {refundOf ? (
+          <div className="mt-4 flex items-center justify-between gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-xs text-emerald-800">
+            <span>환불 내역입니다. 금액은 원래 지출에서 차감됩니다.</span>
+            <button
+              type="button"
+              className="shrink-0 rounded-xl border border-emerald-300 bg-white px-3 py-1.5"
+              onClick={() => router.push(`/transactions/${refundOf}`)}
+            >
+              원래 내역 보기
+            </button>
+          </div>
+        ) : originalTransaction?.type === "expense" && householdId && user ? (
+          <TransactionRefundSection
+            householdId={householdId}
+            userId={user.uid}
+            transactionId={transactionId}
+            transaction={{
+              type: originalTransaction.type,
+              amount: originalTransaction.amount,
+              discountAmount: originalTransaction.discountAmount,
+              refundedAmount,
+            }}
+            categoryName={categoryNameMap.get(originalTransaction.categoryId) ?? "미분류"}
+            notify={!selectedCategory?.personalOnly}
+            onRefundedAmountChange={setRefundedAmount}
+          />
+        ) : null}
+        {installment ? (
+          <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
+            <p className="text-sm font-semibold">
+              할부 {installment.index}/{installment.months}회차
+            </p>
+            <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+              결제 금액 {formatKrw(installment.principal)}원 · {installment.months}개월
+              {installment.interestRate ? ` · 연 ${installment.interestRate}%` : " · 무이자"}.
+              이 화면에서 고친 내용은 이번 회차에만 반영됩니다.
+            </p>
+            {installmentPortions?.parentId === installment.parentId ? (
+              <div className="mt-3 grid gap-1.5">
+                {installmentPortions.items.map((portion) => (
+                  <button
+                    key={portion.id}
+                    type="button"
+                    className={`flex items-center justify-between rounded-xl border px-3 py-2 text-left text-xs ${
+                      portion.id === transactionId
+                        ? "border-[var(--accent)] bg-[color:rgba(145,102,82,0.12)]"
+                        : "border-[var(--border)] bg-white"
+                    }`}
+                    onClick={() => router.push(`/transactions/${portion.id}`)}
+                    disabled={portion.id === transactionId}
+                  >
+                    <span>
+                      {portion.installment?.index ?? "-"}회차
+                      {portion.id === installment.parentId ? " (원본)" : ""} ·{" "}
+                      {toDateKey(portion.date.toDate())}
+                    </span>
+                    <span className="font-medium">{formatKrw(portion.amount)}원</span>
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+        {originalTransaction && householdId && user ? (
+          <TransactionAttachmentsSection
+            householdId={householdId}
+            userId={user.uid}
+            transactionId={transactionId}
+            attachments={attachments}
+            onAttachmentsChange={setAttachments}
+            disabled={saving}
+          />
+        ) : null}
+        {isSplitEnabled && type !== "transfer" && !isGeneratedRecurringTransaction ? (
+          <TransactionSplitSection
+            type={type}
+            totalAmount={parsedAmount}
+            lines={splitLines}
+            onLinesChange={setSplitLines}
+            categories={categories}
+            subjects={subjects}
+            disabled={saving}
+          />
+        ) : null}
         <label className="mt-4 block text-sm font-medium">
           메모
           <input
@@ -1092,6 +1507,14 @@ export default function EditTransactionPage() {
             placeholder="선택 입력"
           />
         </label>
+        {!refundOf ? (
+          <TransactionTagInput
+            tags={tags}
+            onTagsChange={setTags}
+            suggestions={tagList.map((tag) => tag.name)}
+            disabled={saving}
+          />
+        ) : null}
         {isGeneratedRecurringTransaction ? (
           <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
             <p className="text-sm font-semibold">추가 기능</p>
@@ -1125,15 +1548,15 @@ export default function EditTransactionPage() {
             <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
               {generatedEditScope === "future"
                 ? "금액, 카테고리, 결제수단, 메모 변경을 이후 자동 내역에도 반영합니다. 등록일과 기간은 원본 내역에서 수정하세요."
-                : "이번 내역만 수정합니다. 반복 설정은 원본 내역에서 수정하세요."}
+                : "이번 회차만 수정합니다. 바꾼 날짜와 금액은 이번 회차 예외로 저장되고, 반복 설정은 원본 내역에서 수정하세요."}
             </p>
           </div>
         ) : isRecurringSectionOpen ? (
           <TransactionRecurringSection
             enabled={isRecurringEnabled}
             onEnabledChange={setIsRecurringEnabled}
-            dayOfMonth={recurringDayOfMonth}
-            onDayOfMonthChange={setRecurringDayOfMonth}
+            recurrence={recurrenceForm}
+            onRecurrenceChange={setRecurrenceForm}
             startDate={recurringStartDate}
             onStartDateChange={setRecurringStartDate}
             endDate={recurringEndDate}
@@ -1168,7 +1591,7 @@ export default function EditTransactionPage() {
               <path d="M6 6l1 14h10l1-14" />
             </svg>
           </button>
-          {!isGeneratedRecurringTransaction ? (
+          {!isGeneratedRecurringTransaction && !refundOf ? (
             <button
               type="button"
               className={`rounded-xl border px-4 py-2 text-sm disabled:opacity-70 ${
@@ -1198,6 +1621,14 @@ export default function EditTransactionPage() {
           </button>
         </div>
       </form>
+      {originalTransaction && householdId && user ? (
+        <TransactionChangeHistorySection
+          householdId={householdId}
+          transactionId={transactionId}
+          currentUserId={user.uid}
+          categoryNameMap={categoryNameMap}
+        />
+      ) : null}
 
       {isTypeSheetOpen ? (
         <div className="fixed inset-0 z-50">
@@ -1220,6 +1651,9 @@ export default function EditTransactionPage() {
                       : "border-[var(--border)] bg-white"
                   }`}
                   onClick={() => {
+                    if (option.value !== type) {
+                      setIsSplitEnabled(false);
+                    }
                     setType(option.value);
                     setIsTypeSheetOpen(false);
                   }}
@@ -1461,8 +1895,52 @@ export default function EditTransactionPage() {
             <p className="text-sm">
               {recurringRuleId && !generatedFromRecurringRuleId
                 ? "자동 내역이 연결된 원본입니다. 먼저 자동 등록을 끄고 저장하세요."
-                : "삭제하시겠습니까?"}
+                : "삭제하시겠습니까? 삭제한 내역은 휴지통에서 30일 동안 복원할 수 있습니다."}
             </p>
+            {isGeneratedRecurringTransaction ? (
+              <div className="mt-3 space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="generated-delete-scope"
+                    checked={generatedEditScope === "single"}
+                    onChange={() => setGeneratedEditScope("single")}
+                  />
+                  이번 회차만 건너뛰기
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="generated-delete-scope"
+                    checked={generatedEditScope === "future"}
+                    onChange={() => setGeneratedEditScope("future")}
+                  />
+                  이번 회차부터 자동 등록 중지
+                </label>
+              </div>
+            ) : null}
+            {installment ? (
+              <div className="mt-3 space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="installment-delete-scope"
+                    checked={installmentDeleteScope === "single"}
+                    onChange={() => setInstallmentDeleteScope("single")}
+                  />
+                  이번 회차만 삭제
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="installment-delete-scope"
+                    checked={installmentDeleteScope === "all"}
+                    onChange={() => setInstallmentDeleteScope("all")}
+                  />
+                  할부 전체 삭제
+                </label>
+              </div>
+            ) : null}
             <div className="mt-4 flex justify-end gap-2">
               <button
                 className="rounded-xl border border-[var(--border)] px-4 py-2 text-sm"
@@ -5,23 +5,63 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { getDoc } from "firebase/firestore";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
-import TransactionRecurringSection from "@/components/transaction-recurring-section";
+import TransactionRecurringSection, {
+  buildRecurrenceFormState,
+  parseRecurrenceForm,
+} from "@/components/transaction-recurring-section";
+import TransactionInstallmentSection, {
+  parseInstallmentRate,
+} from "@/components/transaction-installment-section";
+import TransactionSplitSection, {
+  createSplitFormLine,
+  parseSplitForm,
+  type SplitFormLine,
+} from "@/components/transaction-split-section";
+import TransactionTagInput from "@/components/transaction-tag-input";
 import { useCategories } from "@/hooks/use-categories";
+import { useCategorySuggestionIndex } from "@/hooks/use-category-suggestion-index";
+import { useCategorizationRules } from "@/hooks/use-categorization-rules";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
 import { useSubjects } from "@/hooks/use-subjects";
+import { useTags } from "@/hooks/use-tags";
+import { useTransactionsRange } from "@/hooks/use-transactions";
+import {
+  findPaymentMethodForCardMessage,
+  parseCardMessage,
+} from "@/lib/card-message-parser";
+import { applyCategorizationRules } from "@/lib/categorization-rule-matching";
+import {
+  SUGGESTION_AUTO_APPLY_CONFIDENCE,
+  SUGGESTION_MIN_CONFIDENCE,
+  suggestFromIndex,
+} from "@/lib/category-suggestions";
+import { findSimilarTransactions } from "@/lib/duplicate-transactions";
 import { formatKrw } from "@/lib/format";
 import { householdDoc } from "@/lib/firebase/firestore";
+import {
+  INSTALLMENT_MONTH_OPTIONS,
+  addInstallmentTransaction,
+  listInstallmentTransactions,
+} from "@/lib/installments";
 import { addNotification } from "@/lib/notifications";
 import { formatPaymentMethodLabel } from "@/lib/payment-method-resolver";
 import {
   createRecurringTransactionRule,
   deleteRecurringTransactionRule,
 } from "@/lib/recurring-transactions";
+import {
+  MAX_TRANSACTION_ATTACHMENTS,
+  uploadTransactionAttachments,
+} from "@/lib/transaction-attachments";
+import { ensureTags } from "@/lib/tags";
 import { addTransaction } from "@/lib/transactions";
+import { getPrimaryTransactionSplit } from "@/lib/transaction-splits";
 import { toDateKey } from "@/lib/time";
+import { recordUndoEntry } from "@/lib/undo-actions";
 import type { TransactionType } from "@/types/ledger";
 
 type PaymentOwner = "husband" | "wife" | "our";
+type SuggestedField = "category" | "subject" | "paymentMethod";
 
 function parseDateInput(value: string) {
   const [yearText, monthText, dayText] = value.split("-");
@@ -42,6 +82,9 @@ export default function NewTransactionPage() {
   const { categories } = useCategories(householdId);
   const { subjects } = useSubjects(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { categorizationRules } = useCategorizationRules(householdId);
+  const { tags: tagList } = useTags(householdId);
+  const suggestionIndex = useCategorySuggestionIndex(householdId);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [type, setType] = useState<TransactionType>("expense");
@@ -50,6 +93,17 @@ export default function NewTransactionPage() {
   const [paymentOwner, setPaymentOwner] = useState<PaymentOwner>("our");
   const [amountInput, setAmountInput] = useState("");
   const [discountInput, setDiscountInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+  const [entryHour, setEntryHour] = useState(() => new Date().getHours());
+  const [isMessageBoxOpen, setIsMessageBoxOpen] = useState(false);
+  const [messageText, setMessageText] = useState("");
+  const [messageStatus, setMessageStatus] = useState<{
+    level: "info" | "error";
+    text: string;
+  } | null>(null);
+  const pickedFieldsRef = useRef(new Set<SuggestedField>());
   const hasSetInitialOwner = useRef(false);
   const [partnerName, setPartnerName] = useState("");
   const [categoryId, setCategoryId] = useState("");
@@ -69,12 +123,20 @@ export default function NewTransactionPage() {
   const [date, setDate] = useState(defaultDate);
   const [isRecurringSectionOpen, setIsRecurringSectionOpen] = useState(false);
   const [isRecurringEnabled, setIsRecurringEnabled] = useState(false);
-  const [recurringDayOfMonth, setRecurringDayOfMonth] = useState(
-    String(parseDateInput(defaultDate)?.getDate() ?? 1)
+  const [recurrenceForm, setRecurrenceForm] = useState(() =>
+    buildRecurrenceFormState(parseDateInput(defaultDate) ?? new Date())
   );
   const [recurringStartDate, setRecurringStartDate] = useState(defaultDate);
   const [recurringEndDate, setRecurringEndDate] = useState("");
   const [prependMonthToRecurringNote, setPrependMonthToRecurringNote] = useState(false);
+  const [confirmedDuplicateKey, setConfirmedDuplicateKey] = useState<string | null>(
+    null
+  );
+  const [isSplitEnabled, setIsSplitEnabled] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitFormLine[]>([]);
+  const [isInstallmentEnabled, setIsInstallmentEnabled] = useState(false);
+  const [installmentMonths, setInstallmentMonths] = useState(3);
+  const [installmentRate, setInstallmentRate] = useState("");
   const hasCategories = categories.length > 0;
   const typeLabelMap: Record<TransactionType, string> = {
     expense: "지출",
@@ -192,6 +254,160 @@ export default function NewTransactionPage() {
     ? formatPaymentMethodLabel(selectedPaymentMethod.name)
     : "";
 
+  const selectedDayRange = useMemo(() => {
+    const parsed = parseDateInput(date);
+    if (!parsed) {
+      return { start: null, end: null };
+    }
+    return {
+      start: parsed,
+      end: new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate(), 23, 59, 59, 999),
+    };
+  }, [date]);
+  const { transactions: sameDayTransactions } = useTransactionsRange(
+    householdId,
+    selectedDayRange.start,
+    selectedDayRange.end
+  );
+  const similarTransactions = useMemo(() => {
+    if (!selectedDayRange.start || !amountValue) {
+      return [];
+    }
+    return findSimilarTransactions(
+      {
+        date: selectedDayRange.start,
+        amount: amountValue,
+        type,
+        paymentMethod: selectedPaymentMethodName || "현금",
+      },
+      sameDayTransactions.map((transaction) => ({
+        ...transaction,
+        date: transaction.date.toDate(),
+        paymentMethod: formatPaymentMethodLabel(transaction.paymentMethod),
+      }))
+    );
+  }, [amountValue, sameDayTransactions, selectedDayRange.start, selectedPaymentMethodName, type]);
+  const categoryTypeById = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.type])),
+    [categories]
+  );
+  const ruleSuggestion = useMemo(() => {
+    if (categorizationRules.length === 0 || isSplitEnabled) {
+      return null;
+    }
+    if (!amountValue && !noteInput.trim()) {
+      return null;
+    }
+    const result = applyCategorizationRules(
+      categorizationRules,
+      {
+        type,
+        amount: amountValue,
+        note: noteInput,
+        paymentMethodId: paymentMethodId || null,
+        paymentMethodName: selectedPaymentMethod?.name,
+      },
+      categoryTypeById
+    );
+    const category =
+      result.categoryId && result.categoryId !== categoryId
+        ? (categories.find((item) => item.id === result.categoryId) ?? null)
+        : null;
+    const suggestedSubject =
+      result.subject &&
+      result.subject !== subject &&
+      subjects.some((item) => item.name === result.subject)
+        ? result.subject
+        : null;
+    const paymentMethod =
+      result.paymentMethodId && result.paymentMethodId !== paymentMethodId
+        ? (paymentMethods.find((method) => method.id === result.paymentMethodId) ?? null)
+        : null;
+    if (!category && !suggestedSubject && !paymentMethod) {
+      return null;
+    }
+    return {
+      category,
+      subject: suggestedSubject,
+      paymentMethod,
+      ruleNames: result.ruleNames,
+    };
+  }, [
+    amountValue,
+    categories,
+    categorizationRules,
+    categoryId,
+    categoryTypeById,
+    isSplitEnabled,
+    noteInput,
+    paymentMethodId,
+    paymentMethods,
+    selectedPaymentMethod,
+    subject,
+    subjects,
+    type,
+  ]);
+  const learnedSuggestion = useMemo(() => {
+    if (!suggestionIndex.index || ruleSuggestion || isSplitEnabled || !noteInput.trim()) {
+      return null;
+    }
+    const result = suggestFromIndex(suggestionIndex.index, {
+      type,
+      note: noteInput,
+      amount: amountValue,
+      hour: entryHour,
+    });
+    const pick = <T,>(
+      suggestion: { value: string; confidence: number } | null,
+      current: string,
+      find: (value: string) => T | undefined
+    ) => {
+      if (
+        !suggestion ||
+        suggestion.confidence < SUGGESTION_MIN_CONFIDENCE ||
+        suggestion.value === current
+      ) {
+        return null;
+      }
+      const item = find(suggestion.value);
+      return item ? { item, confidence: suggestion.confidence } : null;
+    };
+    const category = pick(result.category, categoryId, (value) =>
+      categoryOptions.find((item) => item.id === value)
+    );
+    const suggestedSubject = pick(result.subject, subject, (value) =>
+      subjects.find((item) => item.name === value)
+    );
+    const paymentMethod = pick(result.paymentMethod, paymentMethodId, (value) =>
+      paymentMethods.find((method) => method.id === value)
+    );
+    if (!category && !suggestedSubject && !paymentMethod) {
+      return null;
+    }
+    return { category, subject: suggestedSubject, paymentMethod };
+  }, [
+    amountValue,
+    categoryId,
+    categoryOptions,
+    entryHour,
+    isSplitEnabled,
+    noteInput,
+    paymentMethodId,
+    paymentMethods,
+    ruleSuggestion,
+    subject,
+    subjects,
+    suggestionIndex,
+    type,
+  ]);
+  const duplicateKey = `${date}:${type}:${amountValue}:${selectedPaymentMethodName}`;
+  const duplicateWarning =
+    similarTransactions.length > 0
+      ? `${date === today ? "오늘" : date} ${selectedPaymentMethodName || "현금"}(으)로 ${formatKrw(
+          amountValue
+        )} ${typeLabelMap[type]} 내역이 이미 ${similarTransactions.length}건 있습니다.`
+      : null;
+
   useEffect(() => {
     if (!householdId) {
       setPartnerName("");
@@ -281,12 +497,184 @@ export default function NewTransactionPage() {
       setBudgetApplied(false);
     }
   }, [selectedCategoryBudgetEnabled]);
+
+  function handleSplitToggle(enabled: boolean) {
+    setIsSplitEnabled(enabled);
+    if (!enabled) {
+      return;
+    }
+    setBudgetApplied(false);
+    const defaults = { categoryId, subject: subject || subjects[0]?.name || "" };
+    setSplitLines([
+      createSplitFormLine(defaults, amountValue),
+      createSplitFormLine(defaults),
+    ]);
+  }
   useEffect(() => {
     if (type !== "expense" && discountInput) {
       setDiscountInput("");
     }
   }, [discountInput, type]);
 
+  // Only confident guesses fill a field on their own, and never one the user
+  // picked by hand. Anything less stays a suggestion to tap.
+  function handleNoteChange(
+    value: string,
+    current = {
+      amount: amountValue,
+      hour: entryHour,
+      paymentMethod: selectedPaymentMethod,
+      splitEnabled: isSplitEnabled,
+    }
+  ) {
+    setNoteInput(value);
+    if (!suggestionIndex.index || current.splitEnabled || !value.trim()) {
+      return;
+    }
+    const ruleResult = applyCategorizationRules(
+      categorizationRules,
+      {
+        type,
+        amount: current.amount,
+        note: value,
+        paymentMethodId: current.paymentMethod?.id ?? null,
+        paymentMethodName: current.paymentMethod?.name,
+      },
+      categoryTypeById
+    );
+    if (ruleResult.ruleIds.length > 0) {
+      return;
+    }
+    const result = suggestFromIndex(suggestionIndex.index, {
+      type,
+      note: value,
+      amount: current.amount,
+      hour: current.hour,
+    });
+    const picked = pickedFieldsRef.current;
+    const isConfident = (suggestion: { confidence: number } | null) =>
+      Boolean(suggestion && suggestion.confidence >= SUGGESTION_AUTO_APPLY_CONFIDENCE);
+    if (
+      result.category &&
+      isConfident(result.category) &&
+      !picked.has("category") &&
+      categoryOptions.some((item) => item.id === result.category?.value)
+    ) {
+      setCategoryId(result.category.value);
+    }
+    if (
+      result.subject &&
+      isConfident(result.subject) &&
+      !picked.has("subject") &&
+      subjects.some((item) => item.name === result.subject?.value)
+    ) {
+      setSubject(result.subject.value);
+    }
+    const method =
+      result.paymentMethod && isConfident(result.paymentMethod) && !picked.has("paymentMethod")
+        ? paymentMethods.find((item) => item.id === result.paymentMethod?.value)
+        : undefined;
+    if (method) {
+      setPaymentOwner(method.owner ?? "our");
+      setPaymentMethodId(method.id);
+    }
+  }
+
+  // Card messages are always purchases on this form. A cancellation belongs
+  // on the original expense as a refund, so it is not turned into an entry.
+  function handleLoadCardMessage() {
+    const parsed = parseCardMessage(messageText);
+    if (!parsed) {
+      setMessageStatus({ level: "error", text: "카드 승인 문자를 인식하지 못했습니다." });
+      return;
+    }
+    if (parsed.status === "cancel") {
+      setMessageStatus({
+        level: "info",
+        text: `${parsed.issuer} ${formatKrw(parsed.amount)}원 취소 문자입니다. 원래 지출 내역에서 환불로 기록해주세요.`,
+      });
+      return;
+    }
+    if (type !== "expense") {
+      setIsSplitEnabled(false);
+      setType("expense");
+    }
+    setAmountInput(formatAmountValue(String(parsed.amount)));
+    const hour = parsed.date ? parsed.date.getHours() : entryHour;
+    if (parsed.date) {
+      setDate(toDateKey(parsed.date));
+      setEntryHour(hour);
+    }
+    const months = parsed.installmentMonths;
+    const installmentOption = months
+      ? INSTALLMENT_MONTH_OPTIONS.reduce((closest, option) =>
+          Math.abs(option - months) < Math.abs(closest - months) ? option : closest
+        )
+      : null;
+    if (installmentOption) {
+      setIsInstallmentEnabled(true);
+      setInstallmentMonths(installmentOption);
+      setIsSplitEnabled(false);
+      setIsRecurringEnabled(false);
+      setDiscountInput("");
+    } else {
+      setIsInstallmentEnabled(false);
+    }
+    const method = findPaymentMethodForCardMessage(paymentMethods, parsed);
+    if (method) {
+      pickedFieldsRef.current.add("paymentMethod");
+      setPaymentOwner(method.owner ?? "our");
+      setPaymentMethodId(method.id);
+    }
+    handleNoteChange(parsed.merchant ?? "", {
+      amount: parsed.amount,
+      hour,
+      paymentMethod: method ?? selectedPaymentMethod,
+      splitEnabled: isSplitEnabled && !installmentOption && type === "expense",
+    });
+    setMessageText("");
+    setMessageStatus({
+      level: "info",
+      text: `${parsed.issuer}${parsed.cardSuffix ? `(${parsed.cardSuffix})` : ""} ${formatKrw(
+        parsed.amount
+      )}원${installmentOption ? ` · ${installmentOption}개월 할부` : ""}을 불러왔습니다.${
+        method ? "" : " 결제수단은 직접 선택해주세요."
+      }`,
+    });
+  }
+
+  function handleApplyLearnedSuggestion() {
+    if (!learnedSuggestion) {
+      return;
+    }
+    if (learnedSuggestion.category) {
+      setCategoryId(learnedSuggestion.category.item.id);
+    }
+    if (learnedSuggestion.subject) {
+      setSubject(learnedSuggestion.subject.item.name);
+    }
+    if (learnedSuggestion.paymentMethod) {
+      setPaymentOwner(learnedSuggestion.paymentMethod.item.owner ?? "our");
+      setPaymentMethodId(learnedSuggestion.paymentMethod.item.id);
+    }
+  }
+
+  function handleApplyRuleSuggestion() {
+    if (!ruleSuggestion) {
+      return;
+    }
+    if (ruleSuggestion.category) {
+      setCategoryId(ruleSuggestion.category.id);
+    }
+    if (ruleSuggestion.subject) {
+      setSubject(ruleSuggestion.subject);
+    }
+    if (ruleSuggestion.paymentMethod) {
+      setPaymentOwner(ruleSuggestion.paymentMethod.owner ?? "our");
+      setPaymentMethodId(ruleSuggestion.paymentMethod.id);
+    }
+  }
+
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!user || !householdId) {
@@ -294,13 +682,12 @@ export default function NewTransactionPage() {
     }
     setLoading(true);
     setError(null);
-    const formData = new FormData(event.currentTarget);
     const amount = parseAmountValue(amountInput);
-    const note = String(formData.get("note") ?? "");
+    const note = noteInput;
     const subjectValue = subject || subjects[0]?.name || "우리";
     const paymentValue = selectedPaymentMethodName || "현금";
     const parsedDate = parseDateInput(date);
-    const recurringDay = Number(recurringDayOfMonth);
+    const recurrence = parseRecurrenceForm(recurrenceForm);
     const parsedRecurringStartDate = parseDateInput(recurringStartDate);
     const parsedRecurringEndDate = recurringEndDate
       ? parseDateInput(recurringEndDate)
@@ -310,14 +697,46 @@ export default function NewTransactionPage() {
       setLoading(false);
       return;
     }
-    if (
-      isRecurringEnabled &&
-      (!Number.isInteger(recurringDay) ||
-        recurringDay < 1 ||
-        recurringDay > 31 ||
-        !parsedRecurringStartDate)
-    ) {
-      setError("자동 등록 시작일과 등록일(1~31일)을 확인해주세요.");
+    const splitEnabled = isSplitEnabled && type !== "transfer";
+    const splits = splitEnabled ? parseSplitForm(splitLines, amount) : null;
+    if (splitEnabled && !splits) {
+      setError("나눈 금액의 합계가 금액과 같은지, 각 줄의 카테고리를 골랐는지 확인해주세요.");
+      setLoading(false);
+      return;
+    }
+    if (splitEnabled && isRecurringEnabled) {
+      setError("나눠 기록한 내역은 자동 등록할 수 없습니다.");
+      setLoading(false);
+      return;
+    }
+    const installmentEnabled = isInstallmentEnabled && type === "expense";
+    const installmentInterestRate = parseInstallmentRate(installmentRate);
+    if (installmentEnabled && (splitEnabled || isRecurringEnabled)) {
+      setError("할부 내역은 나눠 기록하거나 자동 등록할 수 없습니다.");
+      setLoading(false);
+      return;
+    }
+    if (installmentEnabled && effectiveDiscountAmount > 0) {
+      setError("할부 결제는 할인을 뺀 금액으로 입력해주세요.");
+      setLoading(false);
+      return;
+    }
+    if (installmentEnabled && installmentInterestRate === null) {
+      setError("할부 이자율을 확인해주세요.");
+      setLoading(false);
+      return;
+    }
+    const primarySplit = splits ? getPrimaryTransactionSplit(splits) : null;
+    const categoryValue = primarySplit?.categoryId ?? categoryId;
+    const notifyCategory =
+      categories.find((category) => category.id === categoryValue) ?? null;
+    if (duplicateWarning && confirmedDuplicateKey !== duplicateKey) {
+      setConfirmedDuplicateKey(duplicateKey);
+      setLoading(false);
+      return;
+    }
+    if (isRecurringEnabled && (!recurrence || !parsedRecurringStartDate)) {
+      setError("자동 등록 시작일과 반복 주기를 확인해주세요.");
       setLoading(false);
       return;
     }
@@ -333,8 +752,13 @@ export default function NewTransactionPage() {
     }
     let recurringRuleId: string | null = null;
     let transactionCreated = false;
+    let createdTransactionId: string | null = null;
+    const tagValues = tags.length > 0 ? tags : undefined;
     try {
-      if (isRecurringEnabled && parsedRecurringStartDate) {
+      if (tagValues) {
+        await ensureTags(householdId, tagValues, tagList);
+      }
+      if (isRecurringEnabled && recurrence && parsedRecurringStartDate) {
         const recurringRule = await createRecurringTransactionRule({
           householdId,
           type,
@@ -348,8 +772,10 @@ export default function NewTransactionPage() {
           paymentMethodId: selectedPaymentMethod?.id,
           subject: subjectValue,
           note: note.length ? note : undefined,
+          tags: tagValues,
           budgetApplied,
-          dayOfMonth: recurringDay,
+          dayOfMonth: recurrence.dayOfMonth ?? parsedRecurringStartDate.getDate(),
+          recurrence,
           startDate: parsedRecurringStartDate,
           endDate: parsedRecurringEndDate ?? undefined,
           prependMonthToNote: prependMonthToRecurringNote,
@@ -358,36 +784,96 @@ export default function NewTransactionPage() {
         });
         recurringRuleId = recurringRule.id;
       }
-      await addTransaction({
-        householdId,
-        type,
-        amount,
-        discountAmount:
-          type === "expense" && effectiveDiscountAmount > 0
-            ? effectiveDiscountAmount
-            : undefined,
-        categoryId,
-        paymentMethod: paymentValue,
-        paymentMethodId: selectedPaymentMethod?.id,
-        recurringRuleId,
-        subject: subjectValue,
-        date: parsedDate,
-        note: note.length ? note : undefined,
-        budgetApplied,
-        createdBy: user.uid,
-      });
+      if (installmentEnabled) {
+        createdTransactionId = await addInstallmentTransaction({
+          householdId,
+          principal: amount,
+          months: installmentMonths,
+          interestRate: installmentInterestRate || undefined,
+          categoryId,
+          paymentMethod: paymentValue,
+          paymentMethodId: selectedPaymentMethod?.id,
+          subject: subjectValue,
+          date: parsedDate,
+          note: note.length ? note : undefined,
+          tags: tagValues,
+          budgetApplied,
+          createdBy: user.uid,
+        });
+      } else {
+        const createdRef = await addTransaction({
+          householdId,
+          type,
+          amount,
+          discountAmount:
+            type === "expense" && effectiveDiscountAmount > 0
+              ? effectiveDiscountAmount
+              : undefined,
+          categoryId: categoryValue,
+          paymentMethod: paymentValue,
+          paymentMethodId: selectedPaymentMethod?.id,
+          recurringRuleId,
+          subject: primarySplit?.subject ?? subjectValue,
+          date: parsedDate,
+          note: note.length ? note : undefined,
+          tags: tagValues,
+          splits: splits ?? undefined,
+          budgetApplied,
+          createdBy: user.uid,
+        });
+        createdTransactionId = createdRef.id;
+      }
       transactionCreated = true;
       const memoText = note.trim() || "메모 없음";
-      if (!selectedCategory?.personalOnly) {
+      if (!notifyCategory?.personalOnly) {
         await addNotification(householdId, {
           title: "내역 추가",
           message: `${typeLabelMap[type]} ${formatKrw(amount)} · ${
-            selectedCategoryName || "미분류"
-          } · ${memoText} · ${date}`,
+            splits
+              ? `${notifyCategory?.name ?? "미분류"} 외 ${splits.length - 1}건`
+              : selectedCategoryName || "미분류"
+          }${installmentEnabled ? ` · 할부 ${installmentMonths}개월` : ""} · ${memoText} · ${date}`,
           level: "success",
           type: "transaction.create",
         });
       }
+      let attachmentsUploaded = true;
+      if (attachmentFiles.length > 0 && createdTransactionId) {
+        // Installment photos go on the first portion, which the others link to.
+        attachmentsUploaded = await uploadTransactionAttachments({
+          householdId,
+          transactionId: createdTransactionId,
+          files: attachmentFiles,
+          kind: "receipt",
+          uploadedBy: user.uid,
+        })
+          .then(() => true)
+          .catch(() => false);
+      }
+      // Recorded after the photos so the entry matches what was saved.
+      const createdIds =
+        installmentEnabled && createdTransactionId
+          ? (await listInstallmentTransactions(householdId, createdTransactionId)
+              .then((portions) => portions.map((portion) => portion.id))
+              .catch(() => [createdTransactionId]))
+          : [createdTransactionId];
+      await recordUndoEntry({
+        householdId,
+        capture: null,
+        kind: "transaction.create",
+        label: `내역 추가 · ${typeLabelMap[type]} ${formatKrw(amount)} · ${
+          selectedCategoryName || "미분류"
+        }`,
+        createdTargets: [
+          ...createdIds.flatMap((id) => (id ? [`transactions/${id}`] : [])),
+          ...(recurringRuleId ? [`recurringTransactionRules/${recurringRuleId}`] : []),
+        ],
+      });
+      if (!attachmentsUploaded) {
+        // The entry is saved, so open it where the photos can be retried.
+        router.replace(`/transactions/${createdTransactionId}`);
+        return;
+      }
       router.replace(`/transactions?date=${date}`);
     } catch {
       if (recurringRuleId && !transactionCreated) {
@@ -408,6 +894,48 @@ export default function NewTransactionPage() {
         onSubmit={handleSubmit}
       >
         <div className="grid gap-4">
+          <div className="rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-3">
+            <button
+              type="button"
+              className="flex w-full items-center justify-between text-sm font-medium"
+              onClick={() => setIsMessageBoxOpen((prev) => !prev)}
+            >
+              카드 문자로 채우기
+              <span className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                {isMessageBoxOpen ? "접기" : "펼치기"}
+              </span>
+            </button>
+            {isMessageBoxOpen ? (
+              <div className="mt-3 grid gap-2">
+                <textarea
+                  className="min-h-24 w-full rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+                  placeholder="[Web발신] 신한카드(1234)승인 홍*동 12,000원 일시불 10/18 14:22 스타벅스"
+                  value={messageText}
+                  onChange={(event) => setMessageText(event.target.value)}
+                  disabled={loading}
+                />
+                {messageStatus ? (
+                  <p
+                    className={`text-xs ${
+                      messageStatus.level === "error"
+                        ? "text-red-600"
+                        : "text-[color:rgba(45,38,34,0.7)]"
+                    }`}
+                  >
+                    {messageStatus.text}
+                  </p>
+                ) : null}
+                <button
+                  type="button"
+                  className="justify-self-end rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs disabled:opacity-60"
+                  onClick={handleLoadCardMessage}
+                  disabled={loading || !messageText.trim()}
+                >
+                  불러오기
+                </button>
+              </div>
+            ) : null}
+          </div>
           <label className="text-sm font-medium">
             날짜
             <input
@@ -435,7 +963,7 @@ export default function NewTransactionPage() {
                 type="button"
                 className="rounded-xl border border-[var(--border)] bg-white px-4 py-3 text-left text-sm disabled:opacity-60"
                 onClick={() => setIsSubjectSheetOpen(true)}
-                disabled={subjects.length === 0}
+                disabled={subjects.length === 0 || isSplitEnabled}
               >
                 {subject || "선택"}
               </button>
@@ -448,7 +976,7 @@ export default function NewTransactionPage() {
                 type="button"
                 className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3 text-left text-sm disabled:opacity-60"
                 onClick={() => setIsCategorySheetOpen(true)}
-                disabled={!hasCategories}
+                disabled={!hasCategories || isSplitEnabled}
               >
                 {selectedCategoryName || "선택"}
               </button>
@@ -523,7 +1051,7 @@ export default function NewTransactionPage() {
               />
             </label>
           )}
-          {selectedCategoryBudgetEnabled && type === "expense" ? (
+          {selectedCategoryBudgetEnabled && type === "expense" && !isSplitEnabled ? (
             <label className="flex items-center gap-2 text-sm text-[color:rgba(45,38,34,0.8)]">
               <input
                 type="checkbox"
@@ -534,7 +1062,52 @@ export default function NewTransactionPage() {
               예산으로 처리
             </label>
           ) : null}
+          {type === "expense" && !isSplitEnabled ? (
+            <label className="flex items-center gap-2 text-sm text-[color:rgba(45,38,34,0.8)]">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-[var(--border)]"
+                checked={isInstallmentEnabled}
+                onChange={(event) => setIsInstallmentEnabled(event.target.checked)}
+              />
+              할부 결제
+            </label>
+          ) : null}
+          {type !== "transfer" && !isInstallmentEnabled ? (
+            <label className="flex items-center gap-2 text-sm text-[color:rgba(45,38,34,0.8)]">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-[var(--border)]"
+                checked={isSplitEnabled}
+                onChange={(event) => handleSplitToggle(event.target.checked)}
+                disabled={!hasCategories}
+              />
+              여러 카테고리로 나눠 기록
+            </label>
+          ) : null}
         </div>
+        {isInstallmentEnabled && type === "expense" ? (
+          <TransactionInstallmentSection
+            principal={amountValue}
+            firstDate={selectedDayRange.start}
+            months={installmentMonths}
+            onMonthsChange={setInstallmentMonths}
+            interestRate={installmentRate}
+            onInterestRateChange={setInstallmentRate}
+            disabled={loading}
+          />
+        ) : null}
+        {isSplitEnabled && type !== "transfer" ? (
+          <TransactionSplitSection
+            type={type}
+            totalAmount={amountValue}
+            lines={splitLines}
+            onLinesChange={setSplitLines}
+            categories={categories}
+            subjects={subjects}
+            disabled={loading}
+          />
+        ) : null}
         <label className="mt-4 block text-sm font-medium">
           메모
           <input
@@ -542,14 +1115,123 @@ export default function NewTransactionPage() {
             name="note"
             className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
             placeholder="선택 입력"
+            value={noteInput}
+            onChange={(event) => handleNoteChange(event.target.value)}
           />
         </label>
+        <TransactionTagInput
+          tags={tags}
+          onTagsChange={setTags}
+          suggestions={tagList.map((tag) => tag.name)}
+          disabled={loading}
+        />
+        <div className="mt-2 flex items-center justify-between gap-3 text-xs text-[color:rgba(45,38,34,0.7)]">
+          <span>
+            {attachmentFiles.length > 0
+              ? `영수증 사진 ${attachmentFiles.length}장 · 저장할 때 함께 올립니다.`
+              : "영수증 사진을 함께 저장할 수 있습니다."}
+          </span>
+          <div className="flex shrink-0 items-center gap-2">
+            {attachmentFiles.length > 0 ? (
+              <button
+                type="button"
+                className="rounded-full border border-[var(--border)] px-3 py-1 disabled:opacity-60"
+                onClick={() => setAttachmentFiles([])}
+                disabled={loading}
+              >
+                비우기
+              </button>
+            ) : null}
+            <label
+              className={`rounded-full border border-[var(--border)] px-3 py-1 ${
+                loading ? "opacity-60" : "cursor-pointer"
+              }`}
+            >
+              사진 선택
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                disabled={loading}
+                onChange={(event) => {
+                  const files = Array.from(event.target.files ?? []);
+                  event.target.value = "";
+                  setAttachmentFiles((prev) =>
+                    [...prev, ...files].slice(0, MAX_TRANSACTION_ATTACHMENTS)
+                  );
+                }}
+              />
+            </label>
+          </div>
+        </div>
+        {ruleSuggestion ? (
+          <div className="mt-2 flex items-center justify-between gap-3 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs">
+            <p className="min-w-0 text-[color:rgba(45,38,34,0.7)]">
+              자동 분류 제안 ·{" "}
+              {[
+                ruleSuggestion.category?.name,
+                ruleSuggestion.subject,
+                ruleSuggestion.paymentMethod
+                  ? formatPaymentMethodLabel(ruleSuggestion.paymentMethod.name)
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+              <span className="ml-1 text-[color:rgba(45,38,34,0.45)]">
+                ({ruleSuggestion.ruleNames.join(", ")})
+              </span>
+            </p>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-[var(--accent)] px-3 py-1 text-[var(--accent)] disabled:opacity-60"
+              onClick={handleApplyRuleSuggestion}
+              disabled={loading}
+            >
+              적용
+            </button>
+          </div>
+        ) : null}
+        {learnedSuggestion ? (
+          <div className="mt-2 flex items-center justify-between gap-3 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs">
+            <p className="min-w-0 text-[color:rgba(45,38,34,0.7)]">
+              지난 기록 기준 ·{" "}
+              {[
+                learnedSuggestion.category
+                  ? `${learnedSuggestion.category.item.name} ${Math.round(
+                      learnedSuggestion.category.confidence * 100
+                    )}%`
+                  : null,
+                learnedSuggestion.subject
+                  ? `${learnedSuggestion.subject.item.name} ${Math.round(
+                      learnedSuggestion.subject.confidence * 100
+                    )}%`
+                  : null,
+                learnedSuggestion.paymentMethod
+                  ? `${formatPaymentMethodLabel(
+                      learnedSuggestion.paymentMethod.item.name
+                    )} ${Math.round(learnedSuggestion.paymentMethod.confidence * 100)}%`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-[var(--border)] px-3 py-1 disabled:opacity-60"
+              onClick={handleApplyLearnedSuggestion}
+              disabled={loading}
+            >
+              적용
+            </button>
+          </div>
+        ) : null}
         {isRecurringSectionOpen ? (
           <TransactionRecurringSection
             enabled={isRecurringEnabled}
             onEnabledChange={setIsRecurringEnabled}
-            dayOfMonth={recurringDayOfMonth}
-            onDayOfMonthChange={setRecurringDayOfMonth}
+            recurrence={recurrenceForm}
+            onRecurrenceChange={setRecurrenceForm}
             startDate={recurringStartDate}
             onStartDateChange={setRecurringStartDate}
             endDate={recurringEndDate}
@@ -559,13 +1241,27 @@ export default function NewTransactionPage() {
             disabled={loading}
           />
         ) : null}
+        {duplicateWarning ? (
+          <div className="mt-4 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+            <p>비슷한 내역: {duplicateWarning}</p>
+            {confirmedDuplicateKey === duplicateKey ? (
+              <p className="mt-1 font-medium">
+                중복이 아니라면 한 번 더 저장을 눌러주세요.
+              </p>
+            ) : null}
+          </div>
+        ) : null}
         <div className="mt-6 flex items-center justify-between gap-3">
           <button
             type="submit"
             className="rounded-xl bg-[var(--accent)] px-4 py-3 text-white disabled:opacity-70"
             disabled={loading}
           >
-            {loading ? "저장 중.." : "저장"}
+            {loading
+              ? "저장 중.."
+              : duplicateWarning && confirmedDuplicateKey === duplicateKey
+                ? "그래도 저장"
+                : "저장"}
           </button>
           <button
             type="button"
@@ -602,6 +1298,10 @@ export default function NewTransactionPage() {
                       : "border-[var(--border)] bg-white"
                   }`}
                   onClick={() => {
+                    if (option.value !== type) {
+                      setIsSplitEnabled(false);
+                      setIsInstallmentEnabled(false);
+                    }
                     setType(option.value);
                     setIsTypeSheetOpen(false);
                   }}
@@ -634,6 +1334,7 @@ export default function NewTransactionPage() {
                       : "border-[var(--border)] bg-white"
                   }`}
                   onClick={() => {
+                    pickedFieldsRef.current.add("subject");
                     setSubject(item.name);
                     setIsSubjectSheetOpen(false);
                   }}
@@ -670,6 +1371,7 @@ export default function NewTransactionPage() {
                           : "border-[var(--border)] bg-white"
                       }`}
                       onClick={() => {
+                        pickedFieldsRef.current.add("category");
                         setCategoryId(parent.id);
                         setIsCategorySheetOpen(false);
                       }}
@@ -718,6 +1420,7 @@ export default function NewTransactionPage() {
                                 : "border-[var(--border)] bg-white"
                             }`}
                             onClick={() => {
+                              pickedFieldsRef.current.add("category");
                               setCategoryId(child.id);
                               setIsCategorySheetOpen(false);
                             }}
@@ -798,6 +1501,7 @@ export default function NewTransactionPage() {
                             : "border-[var(--border)] bg-white"
                         }`}
                         onClick={() => {
+                          pickedFieldsRef.current.add("paymentMethod");
                           setPaymentMethodId(parent.id);
                           setIsPaymentSheetOpen(false);
                         }}
@@ -817,6 +1521,7 @@ export default function NewTransactionPage() {
                                 : "border-[var(--border)] bg-white"
                             }`}
                             onClick={() => {
+                              pickedFieldsRef.current.add("paymentMethod");
                               setPaymentMethodId(child.id);
                               setIsPaymentSheetOpen(false);
                             }}
@@ -17,30 +17,29 @@ import {
   startOfMonth,
   startOfWeek,
 } from "date-fns";
-import UndoToast from "@/components/undo-toast";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
+import TransactionBulkEditSheet from "@/components/transaction-bulk-edit-sheet";
 import { formatKrw } from "@/lib/format";
 import {
   buildPaymentMethodNameMap,
   resolveTransactionPaymentMethodName,
 } from "@/lib/payment-method-resolver";
+import { buildRecurringForecast } from "@/lib/recurring-forecast";
 import { toMonthKey } from "@/lib/time";
 import { toDateKey } from "@/lib/time";
 import {
   getEffectiveExpenseAmount,
   getExpenseDiscountAmount,
+  getRefundedAmount,
 } from "@/lib/transaction-amount";
-import {
-  clearPendingUndoAction,
-  isPendingUndoExpired,
-  loadPendingUndoAction,
-  type TransactionDeleteUndoAction,
-} from "@/lib/undo-actions";
 import { useCategories } from "@/hooks/use-categories";
 import { usePaymentMethods } from "@/hooks/use-payment-methods";
+import { useRecurringTransactionRules } from "@/hooks/use-recurring-transaction-rules";
+import { useSubjects } from "@/hooks/use-subjects";
+import { useTags } from "@/hooks/use-tags";
+import { useTransactionSearch } from "@/hooks/use-transaction-search";
 import { useMonthlyTransactions, useTransactionsRange } from "@/hooks/use-transactions";
-import { restoreTransaction } from "@/lib/transactions";
 
 const DAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
 
@@ -80,8 +79,26 @@ type TransactionListItemProps = {
   amountLines: { label?: string; text: string; className: string }[];
   highlightClass: string;
   onOpen: (id: string) => void;
+  selectable: boolean;
+  checked: boolean;
+  onToggle: (id: string) => void;
 };
 
+function SelectionMark({ checked }: { checked: boolean }) {
+  return (
+    <span
+      className={`flex h-4 w-4 shrink-0 items-center justify-center rounded-full border text-[10px] leading-none ${
+        checked
+          ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+          : "border-[color:rgba(45,38,34,0.3)] bg-white"
+      }`}
+      aria-hidden
+    >
+      {checked ? "✓" : ""}
+    </span>
+  );
+}
+
 const TransactionListItem = memo(function TransactionListItem({
   id,
   title,
@@ -90,21 +107,29 @@ const TransactionListItem = memo(function TransactionListItem({
   amountLines,
   highlightClass,
   onOpen,
+  selectable,
+  checked,
+  onToggle,
 }: TransactionListItemProps) {
+  const handleActivate = () => (selectable ? onToggle(id) : onOpen(id));
   return (
     <div
-      className={`grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4 rounded-2xl border px-4 py-3 ${highlightClass}`}
-      role="button"
+      className={`grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4 rounded-2xl border px-4 py-3 ${highlightClass} ${
+        checked ? "ring-2 ring-[var(--accent)]" : ""
+      }`}
+      role={selectable ? "checkbox" : "button"}
+      aria-checked={selectable ? checked : undefined}
       tabIndex={0}
-      onClick={() => onOpen(id)}
+      onClick={handleActivate}
       onKeyDown={(event) => {
         if (event.key === "Enter") {
-          onOpen(id);
+          handleActivate();
         }
       }}
     >
       <div className="min-w-0">
         <div className="flex flex-wrap items-center gap-1">
+          {selectable ? <SelectionMark checked={checked} /> : null}
           <p className="min-w-0 truncate text-sm font-semibold">{title}</p>
           {badges.map((badge) => (
             <span
@@ -150,6 +175,9 @@ type SearchResultItemProps = {
   amountText: string;
   amountClass: string;
   onOpen: (href: string) => void;
+  selectable: boolean;
+  checked: boolean;
+  onToggle: (id: string) => void;
 };
 
 const SearchResultItem = memo(function SearchResultItem({
@@ -161,16 +189,24 @@ const SearchResultItem = memo(function SearchResultItem({
   amountText,
   amountClass,
   onOpen,
+  selectable,
+  checked,
+  onToggle,
 }: SearchResultItemProps) {
   return (
     <button
       key={id}
       type="button"
-      className="flex w-full items-center justify-between gap-4 rounded-2xl border border-[var(--border)] px-4 py-3 text-left text-sm"
-      onClick={() => onOpen(href)}
+      className={`flex w-full items-center justify-between gap-4 rounded-2xl border px-4 py-3 text-left text-sm ${
+        checked ? "border-[var(--accent)] ring-1 ring-[var(--accent)]" : "border-[var(--border)]"
+      }`}
+      role={selectable ? "checkbox" : undefined}
+      aria-checked={selectable ? checked : undefined}
+      onClick={() => (selectable ? onToggle(id) : onOpen(href))}
     >
       <div className="min-w-0">
         <div className="flex flex-wrap items-center gap-1">
+          {selectable ? <SelectionMark checked={checked} /> : null}
           <p className="truncate font-medium">{title}</p>
           {badges.map((badge) => (
             <span
@@ -193,9 +229,11 @@ const SearchResultItem = memo(function SearchResultItem({
 export default function TransactionsPage() {
   const searchParams = useSearchParams();
   const { user } = useAuth();
-  const { householdId } = useHousehold();
+  const { householdId, displayName } = useHousehold();
   const { categories } = useCategories(householdId);
   const { paymentMethods } = usePaymentMethods(householdId);
+  const { subjects } = useSubjects(householdId);
+  const { tags } = useTags(householdId);
   const [selectedDate, setSelectedDate] = useState(() => new Date());
   const monthStart = useMemo(
     () => startOfMonth(selectedDate),
@@ -204,6 +242,7 @@ export default function TransactionsPage() {
   const monthEnd = useMemo(() => endOfMonth(selectedDate), [selectedDate]);
   const monthKey = useMemo(() => toMonthKey(selectedDate), [selectedDate]);
   const { transactions, loading } = useMonthlyTransactions(householdId, monthKey);
+  const { recurringRules } = useRecurringTransactionRules(householdId);
   const [showPicker, setShowPicker] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -222,7 +261,6 @@ export default function TransactionsPage() {
   const [touchEndX, setTouchEndX] = useState<number | null>(null);
   const searchStartRef = useRef<HTMLInputElement | null>(null);
   const searchEndRef = useRef<HTMLInputElement | null>(null);
-  const lastAppliedDateParamRef = useRef<string | null>(null);
   const [listSortMode, setListSortMode] = useState<
     "input" | "alpha" | "category"
   >(() => {
@@ -238,10 +276,6 @@ export default function TransactionsPage() {
   const router = useRouter();
   const [visibleCount, setVisibleCount] = useState(30);
   const [searchVisibleCount, setSearchVisibleCount] = useState(50);
-  const [pendingUndo, setPendingUndo] = useState<TransactionDeleteUndoAction | null>(
-    null
-  );
-  const [undoingDelete, setUndoingDelete] = useState(false);
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -250,13 +284,25 @@ export default function TransactionsPage() {
     window.localStorage.setItem("transactions:listSortMode", listSortMode);
   }, [listSortMode]);
 
-  useEffect(() => {
+  // Paging restarts whenever the list it pages through changes.
+  const listResetKey = `${selectedDate.getTime()}|${listSortMode}`;
+  const [lastListResetKey, setLastListResetKey] = useState(listResetKey);
+  if (lastListResetKey !== listResetKey) {
+    setLastListResetKey(listResetKey);
     setVisibleCount(30);
-  }, [selectedDate, listSortMode]);
-
-  useEffect(() => {
+  }
+  const searchResetKey = [
+    showSearch,
+    searchQuery,
+    searchType,
+    searchStart?.getTime() ?? "",
+    searchEnd?.getTime() ?? "",
+  ].join("|");
+  const [lastSearchResetKey, setLastSearchResetKey] = useState(searchResetKey);
+  if (lastSearchResetKey !== searchResetKey) {
+    setLastSearchResetKey(searchResetKey);
     setSearchVisibleCount(50);
-  }, [showSearch, searchQuery, searchType, searchStart, searchEnd]);
+  }
 
   const categoryMap = useMemo(
     () => new Map(categories.map((category) => [category.id, category.name])),
@@ -315,21 +361,27 @@ export default function TransactionsPage() {
 
   const dateParam = searchParams.get("date");
 
-  useEffect(() => {
-    if (!dateParam) {
-      return;
-    }
-    if (dateParam === lastAppliedDateParamRef.current) {
-      return;
-    }
+  const [lastAppliedDateParam, setLastAppliedDateParam] = useState<string | null>(null);
+  if (dateParam && dateParam !== lastAppliedDateParam) {
+    setLastAppliedDateParam(dateParam);
     const parsed = parseDateParam(dateParam);
     if (parsed) {
       setSelectedDate(parsed);
-      lastAppliedDateParamRef.current = dateParam;
     }
-  }, [dateParam]);
+  }
 
-  const shouldSearchRange = Boolean(showSearch && searchStart && searchEnd);
+  // A query goes through the search index, which is not bound to the chosen
+  // dates; an empty query just lists the date range.
+  const indexSearch = useTransactionSearch({
+    householdId: showSearch ? householdId : null,
+    queryText: searchQuery,
+    startDate: searchStart,
+    endDate: searchEnd,
+    categories,
+  });
+  const shouldSearchRange = Boolean(
+    showSearch && searchStart && searchEnd && !indexSearch.active
+  );
   const { transactions: searchTransactions, loading: searchLoading } =
     useTransactionsRange(
       householdId,
@@ -365,82 +417,69 @@ export default function TransactionsPage() {
           className: "border border-amber-200 bg-amber-50 text-amber-700",
         });
       }
+      if (tx.refundOf) {
+        badges.push({
+          label: "환불",
+          className: "border border-emerald-200 bg-emerald-50 text-emerald-700",
+        });
+      } else if (getRefundedAmount(tx) > 0) {
+        badges.push({
+          label: getEffectiveExpenseAmount(tx) > 0 ? "부분 환불" : "환불됨",
+          className: "border border-emerald-200 bg-emerald-50 text-emerald-700",
+        });
+      }
+      if (tx.installment) {
+        badges.push({
+          label: `할부 ${tx.installment.index}/${tx.installment.months}`,
+          className: "border border-indigo-200 bg-indigo-50 text-indigo-700",
+        });
+      }
+      if (tx.splits && tx.splits.length > 0) {
+        badges.push({
+          label: `나눔 ${tx.splits.length}`,
+          className: "border border-violet-200 bg-violet-50 text-violet-700",
+        });
+      }
+      if (tx.attachments && tx.attachments.length > 0) {
+        badges.push({
+          label: `사진 ${tx.attachments.length}`,
+          className: "border border-stone-200 bg-stone-50 text-[color:rgba(45,38,34,0.65)]",
+        });
+      }
+      (tx.tags ?? []).forEach((tag) => {
+        badges.push({
+          label: `#${tag}`,
+          className: "border border-teal-200 bg-teal-50 text-teal-700",
+        });
+      });
       return badges;
     },
     [categoryMetaMap]
   );
 
-  useEffect(() => {
-    if (!householdId) {
-      setPendingUndo(null);
-      return;
-    }
-    const pendingAction = loadPendingUndoAction();
-    if (!pendingAction || pendingAction.kind !== "transaction.delete") {
-      setPendingUndo(null);
-      return;
-    }
-    if (pendingAction.householdId !== householdId || isPendingUndoExpired(pendingAction)) {
-      clearPendingUndoAction("transaction.delete");
-      setPendingUndo(null);
-      return;
-    }
-    setPendingUndo(pendingAction);
-  }, [householdId]);
-
-  const dismissPendingUndo = useCallback(() => {
-    clearPendingUndoAction("transaction.delete");
-    setPendingUndo(null);
-  }, []);
-
-  const handleUndoDelete = useCallback(async () => {
-    if (!pendingUndo || undoingDelete) {
-      return;
-    }
-    setUndoingDelete(true);
-    try {
-      await restoreTransaction({
-        householdId: pendingUndo.householdId,
-        transactionId: pendingUndo.payload.transactionId,
-        type: pendingUndo.payload.type,
-        amount: pendingUndo.payload.amount,
-        discountAmount: pendingUndo.payload.discountAmount,
-        categoryId: pendingUndo.payload.categoryId,
-        paymentMethod: pendingUndo.payload.paymentMethod,
-        paymentMethodId: pendingUndo.payload.paymentMethodId,
-        recurringRuleId: pendingUndo.payload.recurringRuleId,
-        generatedFromRecurringRuleId:
-          pendingUndo.payload.generatedFromRecurringRuleId,
-        recurringOccurrenceDateKey:
-          pendingUndo.payload.recurringOccurrenceDateKey,
-        subject: pendingUndo.payload.subject,
-        date: new Date(pendingUndo.payload.dateIso),
-        note: pendingUndo.payload.note,
-        budgetApplied: pendingUndo.payload.budgetApplied,
-        createdBy: pendingUndo.payload.createdBy,
-        createdAt: pendingUndo.payload.createdAtIso
-          ? new Date(pendingUndo.payload.createdAtIso)
-          : null,
-      });
-      dismissPendingUndo();
-    } finally {
-      setUndoingDelete(false);
-    }
-  }, [dismissPendingUndo, pendingUndo, undoingDelete]);
   const visibleSearchTransactions = useMemo(() => {
-    if (!shouldSearchRange) {
-      return [];
-    }
+    const source = indexSearch.active
+      ? indexSearch.results
+      : shouldSearchRange
+        ? searchTransactions
+        : [];
     if (!currentUserId || personalCategoryIdSet.size === 0) {
-      return searchTransactions;
+      return source;
     }
-    return searchTransactions.filter(
+    return source.filter(
       (tx) =>
         !personalCategoryIdSet.has(tx.categoryId) ||
         tx.createdBy === currentUserId ||
         tx.budgetApplied === true
     );
-  }, [currentUserId, personalCategoryIdSet, searchTransactions, shouldSearchRange]);
+  }, [
+    currentUserId,
+    indexSearch.active,
+    indexSearch.results,
+    personalCategoryIdSet,
+    searchTransactions,
+    shouldSearchRange,
+  ]);
   const visibleTransactions = useMemo(() => {
     if (!currentUserId || personalCategoryIdSet.size === 0) {
       return transactions;
@@ -453,6 +492,30 @@ export default function TransactionsPage() {
     );
   }, [currentUserId, personalCategoryIdSet, transactions]);
 
+  const forecastItemsByDay = useMemo(() => {
+    const map = new Map<string, ReturnType<typeof buildRecurringForecast>>();
+    buildRecurringForecast(recurringRules, new Date(), monthEnd)
+      .filter((item) => item.date >= monthStart && item.target !== "transfer")
+      .forEach((item) => {
+        const items = map.get(item.dateKey) ?? [];
+        items.push(item);
+        map.set(item.dateKey, items);
+      });
+    return map;
+  }, [monthEnd, monthStart, recurringRules]);
+  const forecastDisplayMap = useMemo(() => {
+    const map = new Map<string, string>();
+    forecastItemsByDay.forEach((items, key) => {
+      const expense = items
+        .filter((item) => item.type === "expense")
+        .reduce((sum, item) => sum + item.effectiveAmount, 0);
+      if (expense > 0) {
+        map.set(key, formatKrw(expense));
+      }
+    });
+    return map;
+  }, [forecastItemsByDay]);
+
   const { days, calendarDisplayMap, dailyItemsMap, budgetDotColorsByDay } =
     useMemo(() => {
     const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
@@ -533,6 +596,10 @@ export default function TransactionsPage() {
     () => dailyItemsMap.get(selectedKey) ?? [],
     [dailyItemsMap, selectedKey]
   );
+  const selectedForecastItems = useMemo(
+    () => forecastItemsByDay.get(selectedKey) ?? [],
+    [forecastItemsByDay, selectedKey]
+  );
   const selectedItemNameMap = useMemo(() => {
     const map = new Map<string, { display: string; normalized: string }>();
     selectedItems.forEach((tx) => {
@@ -709,7 +776,7 @@ export default function TransactionsPage() {
       if (searchType !== "all" && tx.type !== searchType) {
         return false;
       }
-      if (!normalizedQuery) {
+      if (!normalizedQuery || indexSearch.active) {
         return true;
       }
       const categoryName = categoryMap.get(tx.categoryId) ?? "";
@@ -719,6 +786,7 @@ export default function TransactionsPage() {
         categoryName,
         tx.subject ?? "",
         resolveTransactionPaymentMethodName(tx, paymentMethodNameMap),
+        ...(tx.tags ?? []).map((tag) => `#${tag}`),
       ]
         .join(" ")
         .toLowerCase();
@@ -726,6 +794,7 @@ export default function TransactionsPage() {
     });
   }, [
     categoryMap,
+    indexSearch.active,
     paymentMethodNameMap,
     searchQuery,
     searchType,
@@ -771,6 +840,72 @@ export default function TransactionsPage() {
     [searchRenderItems, searchVisibleCount]
   );
 
+  const [isBulkSelecting, setIsBulkSelecting] = useState(false);
+  const [bulkSelectedIds, setBulkSelectedIds] = useState<Set<string>>(() => new Set());
+  const [showBulkEditSheet, setShowBulkEditSheet] = useState(false);
+  const [bulkNotice, setBulkNotice] = useState<string | null>(null);
+  // The search sheet sits over the day list, so "select all" follows whichever
+  // list is on screen.
+  const bulkSelectableIds = useMemo(
+    () =>
+      (showSearch ? filteredSearchItems : sortedSelectedItems).map((tx) => tx.id),
+    [filteredSearchItems, showSearch, sortedSelectedItems]
+  );
+  const bulkSelectedTransactions = useMemo(() => {
+    const byId = new Map(
+      [...transactions, ...searchTransactions, ...indexSearch.results].map((tx) => [
+        tx.id,
+        tx,
+      ])
+    );
+    return Array.from(bulkSelectedIds).flatMap((id) => {
+      const tx = byId.get(id);
+      return tx ? [tx] : [];
+    });
+  }, [bulkSelectedIds, indexSearch.results, searchTransactions, transactions]);
+  const allBulkSelectableChecked =
+    bulkSelectableIds.length > 0 && bulkSelectableIds.every((id) => bulkSelectedIds.has(id));
+
+  const toggleBulkSelected = useCallback((id: string) => {
+    setBulkSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const stopBulkSelecting = useCallback(() => {
+    setIsBulkSelecting(false);
+    setBulkSelectedIds(new Set());
+    setShowBulkEditSheet(false);
+  }, []);
+
+  const handleBulkSelectAll = useCallback(() => {
+    setBulkSelectedIds((prev) => {
+      const next = new Set(prev);
+      bulkSelectableIds.forEach((id) => {
+        if (allBulkSelectableChecked) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+      });
+      return next;
+    });
+  }, [allBulkSelectableChecked, bulkSelectableIds]);
+
+  const handleBulkEditDone = useCallback(
+    (message: string | null) => {
+      stopBulkSelecting();
+      setBulkNotice(message);
+    },
+    [stopBulkSelecting]
+  );
+
   const handleSortToggle = useCallback(() => {
     setListSortMode((prev) =>
       prev === "input" ? "alpha" : prev === "alpha" ? "category" : "input"
@@ -794,20 +929,42 @@ export default function TransactionsPage() {
       const amountLines =
         tx.type === "expense"
           ? (() => {
+              if (tx.refundOf) {
+                return [
+                  {
+                    text: `+${formatKrw(tx.amount)}`,
+                    className: "text-emerald-600",
+                  },
+                ];
+              }
               const discount = getExpenseDiscountAmount(tx);
+              const refunded = getRefundedAmount(tx);
               const netExpense = getEffectiveExpenseAmount(tx);
-              if (discount > 0) {
+              if (discount > 0 || refunded > 0) {
                 return [
                   {
                     label: "합계",
                     text: `-${formatKrw(tx.amount)}`,
                     className: "font-semibold text-[color:rgba(45,38,34,0.95)]",
                   },
-                  {
-                    label: "할인",
-                    text: formatKrw(discount),
-                    className: "text-[color:rgba(45,38,34,0.65)]",
-                  },
+                  ...(discount > 0
+                    ? [
+                        {
+                          label: "할인",
+                          text: formatKrw(discount),
+                          className: "text-[color:rgba(45,38,34,0.65)]",
+                        },
+                      ]
+                    : []),
+                  ...(refunded > 0
+                    ? [
+                        {
+                          label: "환불",
+                          text: formatKrw(refunded),
+                          className: "text-[color:rgba(45,38,34,0.65)]",
+                        },
+                      ]
+                    : []),
                   {
                     label: "지출",
                     text: formatKrw(netExpense),
@@ -936,6 +1093,7 @@ export default function TransactionsPage() {
           {days.map((day) => {
             const key = toDateKey(day);
             const display = calendarDisplayMap.get(key);
+            const forecastText = forecastDisplayMap.get(key);
             const isActive = isSameDay(day, selectedDate);
             const dotColors = budgetDotColorsByDay.get(key) ?? [];
             return (
@@ -973,6 +1131,11 @@ export default function TransactionsPage() {
                       {display?.expenseText ?? ""}
                     </span>
                   </div>
+                  {forecastText ? (
+                    <div className="text-red-600/50">
+                      <span className="block break-all">예 {forecastText}</span>
+                    </div>
+                  ) : null}
                 </div>
               </button>
             );
@@ -1042,17 +1205,33 @@ export default function TransactionsPage() {
                 닫기
               </button>
               <h2 className="text-base font-semibold">검색</h2>
-              <div className="w-14" />
+              <button
+                type="button"
+                className={`rounded-full border px-4 py-2 text-sm ${
+                  isBulkSelecting
+                    ? "border-[var(--accent)] text-[var(--accent)]"
+                    : "border-[var(--border)]"
+                }`}
+                onClick={() =>
+                  isBulkSelecting ? stopBulkSelecting() : setIsBulkSelecting(true)
+                }
+              >
+                {isBulkSelecting ? "선택 끝" : "선택"}
+              </button>
             </div>
             <div className="mt-4 space-y-4">
               <label className="block text-sm text-[color:rgba(45,38,34,0.6)]">
                 검색어
                 <input
                   className="mt-2 w-full rounded-2xl border border-[var(--border)] px-4 py-3 text-sm"
-                  placeholder="메모, 카테고리, 주체"
+                  placeholder="메모, 카테고리, 주체, #태그, >50000"
                   value={searchQuery}
                   onChange={(event) => setSearchQuery(event.target.value)}
                 />
+                <span className="mt-1 block text-xs text-[color:rgba(45,38,34,0.5)]">
+                  금액은 &gt;50000, &lt;=3만, 1만~5만처럼 입력하세요. 기간을 비우면 전체 기간에서
+                  찾습니다.
+                </span>
               </label>
               <div>
                 <p className="text-xs text-[color:rgba(45,38,34,0.6)]">유형</p>
@@ -1117,6 +1296,16 @@ export default function TransactionsPage() {
                       {option.label}
                     </button>
                   ))}
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-4 py-2 text-sm text-[color:rgba(45,38,34,0.7)]"
+                    onClick={() => {
+                      setSearchStart(null);
+                      setSearchEnd(null);
+                    }}
+                  >
+                    전체 기간
+                  </button>
                   {[
                     { key: "week", label: "이번주" },
                     { key: "month", label: "이번달" },
@@ -1138,19 +1327,27 @@ export default function TransactionsPage() {
                 </div>
               </div>
               <div className="flex items-center justify-between text-sm text-[color:rgba(45,38,34,0.6)]">
-                <span>합계</span>
+                <span>
+                  {indexSearch.hasMore
+                    ? `지금까지 찾은 ${filteredSearchItems.length}건 합계 (더 찾으면 바뀝니다)`
+                    : "합계"}
+                </span>
                 <span className="text-[color:rgba(45,38,34,0.9)]">
                   {formatKrw(searchTotal)}
                 </span>
               </div>
               <div className="max-h-[45vh] space-y-2 overflow-y-auto pb-2">
-                {searchLoading ? (
+                {(indexSearch.active ? indexSearch.loading : searchLoading) ? (
                   <p className="text-sm text-[color:rgba(45,38,34,0.6)]">
                     검색 중...
                   </p>
+                ) : indexSearch.error ? (
+                  <p className="text-sm text-red-600">{indexSearch.error}</p>
                 ) : searchRenderItems.length === 0 ? (
                   <p className="text-sm text-[color:rgba(45,38,34,0.6)]">
-                    검색 결과가 없습니다.
+                    {indexSearch.hasMore
+                      ? "아직 찾은 내역이 없습니다. 더보기로 이어서 찾아보세요."
+                      : "검색 결과가 없습니다."}
                   </p>
                 ) : (
                   visibleSearchItems.map((item) => (
@@ -1164,21 +1361,26 @@ export default function TransactionsPage() {
                       amountText={item.amountText}
                       amountClass={item.amountClass}
                       onOpen={openSearchResult}
+                      selectable={isBulkSelecting}
+                      checked={bulkSelectedIds.has(item.id)}
+                      onToggle={toggleBulkSelected}
                     />
                   ))
                 )}
               </div>
-              {searchRenderItems.length > searchVisibleCount ? (
+              {searchRenderItems.length > searchVisibleCount || indexSearch.hasMore ? (
                 <button
                   type="button"
-                  className="w-full rounded-full border border-[var(--border)] px-4 py-2 text-sm text-[color:rgba(45,38,34,0.7)]"
-                  onClick={() =>
-                    setSearchVisibleCount((prev) =>
-                      Math.min(prev + 50, searchRenderItems.length)
-                    )
-                  }
+                  className="w-full rounded-full border border-[var(--border)] px-4 py-2 text-sm text-[color:rgba(45,38,34,0.7)] disabled:opacity-60"
+                  disabled={indexSearch.loadingMore}
+                  onClick={() => {
+                    if (searchRenderItems.length <= searchVisibleCount + 50) {
+                      void indexSearch.loadMore();
+                    }
+                    setSearchVisibleCount((prev) => prev + 50);
+                  }}
                 >
-                  더보기
+                  {indexSearch.loadingMore ? "찾는 중..." : "더보기"}
                 </button>
               ) : null}
             </div>
@@ -1194,7 +1396,20 @@ export default function TransactionsPage() {
           <div className="mt-2" />
         ) : (
           <div className="mt-2 space-y-1">
-            <div className="flex items-center justify-end">
+            <div className="flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  className={`rounded-full border px-3 py-1 text-[11px] ${
+                    isBulkSelecting
+                      ? "border-[var(--accent)] text-[var(--accent)]"
+                      : "border-[var(--border)] text-[color:rgba(45,38,34,0.7)]"
+                  }`}
+                  onClick={() =>
+                    isBulkSelecting ? stopBulkSelecting() : setIsBulkSelecting(true)
+                  }
+                >
+                  {isBulkSelecting ? "선택 끝" : "선택"}
+                </button>
                 <button
                   type="button"
                   className="rounded-full border border-[var(--border)] px-3 py-1 text-[11px] text-[color:rgba(45,38,34,0.7)]"
@@ -1213,6 +1428,9 @@ export default function TransactionsPage() {
                 amountLines={item.amountLines}
                 highlightClass={item.highlightClass}
                 onOpen={openTransaction}
+                selectable={isBulkSelecting}
+                checked={bulkSelectedIds.has(item.id)}
+                onToggle={toggleBulkSelected}
               />
             ))}
             {transactionCards.length > visibleCount ? (
@@ -1230,6 +1448,39 @@ export default function TransactionsPage() {
             ) : null}
           </div>
         )}
+        {selectedForecastItems.length > 0 ? (
+          <div className="mt-2 space-y-1">
+            {selectedForecastItems.map((item) => (
+              <div
+                key={item.id}
+                className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4 rounded-2xl border border-dashed border-[var(--border)] px-4 py-3 opacity-60"
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-1">
+                    <p className="min-w-0 truncate text-sm font-semibold">
+                      {item.note?.trim() ||
+                        categoryMap.get(item.categoryId) ||
+                        "자동 내역"}
+                    </p>
+                    <span className="rounded-full bg-[color:rgba(45,38,34,0.08)] px-1.5 py-0.5 text-[10px] leading-none">
+                      예정
+                    </span>
+                  </div>
+                  <p className="text-xs text-[color:rgba(45,38,34,0.65)]">
+                    자동 등록 예정
+                  </p>
+                </div>
+                <span
+                  className={`text-sm font-semibold ${
+                    item.type === "income" ? "text-blue-600" : "text-red-600"
+                  }`}
+                >
+                  {formatKrw(item.effectiveAmount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : null}
         <div className="mt-4 flex justify-center">
           <Link
             className="rounded-full border border-[var(--border)] bg-[var(--card)] px-8 py-3 text-sm text-[var(--text)]"
@@ -1239,13 +1490,58 @@ export default function TransactionsPage() {
           </Link>
         </div>
       </section>
-      {pendingUndo ? (
-        <UndoToast
-          message="내역을 삭제했습니다."
-          expiresAt={pendingUndo.expiresAt}
-          onUndo={handleUndoDelete}
-          onDismiss={dismissPendingUndo}
-          busy={undoingDelete}
+      {bulkNotice ? (
+        <div className="mt-3 flex items-start justify-between gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          <p>{bulkNotice}</p>
+          <button type="button" className="shrink-0" onClick={() => setBulkNotice(null)}>
+            닫기
+          </button>
+        </div>
+      ) : null}
+      {isBulkSelecting ? (
+        <div className="fixed inset-x-0 bottom-0 z-[55] border-t border-[var(--border)] bg-white px-4 pt-3 pb-[calc(0.75rem+env(safe-area-inset-bottom))]">
+          <div className="mx-auto flex max-w-3xl items-center justify-between gap-2 text-sm">
+            <span className="font-semibold">{bulkSelectedIds.size}건 선택</span>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="rounded-full border border-[var(--border)] px-3 py-1.5 text-xs"
+                onClick={handleBulkSelectAll}
+                disabled={bulkSelectableIds.length === 0}
+              >
+                {allBulkSelectableChecked ? "전체 해제" : "전체 선택"}
+              </button>
+              <button
+                type="button"
+                className="rounded-full bg-[var(--accent)] px-3 py-1.5 text-xs text-white disabled:opacity-60"
+                onClick={() => setShowBulkEditSheet(true)}
+                disabled={bulkSelectedTransactions.length === 0}
+              >
+                일괄 편집
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-[var(--border)] px-3 py-1.5 text-xs"
+                onClick={stopBulkSelecting}
+              >
+                취소
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {showBulkEditSheet && householdId && user ? (
+        <TransactionBulkEditSheet
+          householdId={householdId}
+          userId={user.uid}
+          userName={displayName}
+          transactions={bulkSelectedTransactions}
+          categories={categories}
+          subjects={subjects}
+          paymentMethods={paymentMethods}
+          tags={tags}
+          onClose={() => setShowBulkEditSheet(false)}
+          onDone={handleBulkEditDone}
         />
       ) : null}
     </div>
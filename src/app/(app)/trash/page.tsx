@@ -0,0 +1,311 @@
+"use client";
+
+import { format } from "date-fns";
+import { useMemo, useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { useHousehold } from "@/components/household-provider";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { useTrashItems } from "@/hooks/use-trash-items";
+import { restoreTransferFromTrash } from "@/lib/accounts";
+import { formatKrw } from "@/lib/format";
+import { restoreMemoEntryFromTrash } from "@/lib/memos";
+import { describeRecurrence, normalizeRecurrenceSpec } from "@/lib/recurring-schedule";
+import { restoreRecurringTransactionRuleFromTrash } from "@/lib/recurring-transactions";
+import { formatDate } from "@/lib/time";
+import { restoreTransactionFromTrash } from "@/lib/transactions";
+import {
+  TRASH_RETENTION_DAYS,
+  emptyTrash,
+  permanentlyDeleteTrashItem,
+  trashItemKindLabelMap,
+} from "@/lib/trash";
+import type {
+  RecurringTransactionRule,
+  Transaction,
+  TransactionType,
+  Transfer,
+  TrashItem,
+  TrashItemKind,
+} from "@/types/ledger";
+
+type KindFilter = "all" | TrashItemKind;
+
+const kindFilterOptions: { value: KindFilter; label: string }[] = [
+  { value: "all", label: "전체" },
+  { value: "transaction", label: trashItemKindLabelMap.transaction },
+  { value: "memo", label: trashItemKindLabelMap.memo },
+  { value: "recurringRule", label: trashItemKindLabelMap.recurringRule },
+  { value: "transfer", label: trashItemKindLabelMap.transfer },
+];
+
+const typeLabelMap: Record<TransactionType, string> = {
+  expense: "지출",
+  income: "수입",
+  transfer: "이체",
+};
+
+function restoreTrashItem(householdId: string, item: TrashItem, uid: string) {
+  switch (item.kind) {
+    case "transaction":
+      return restoreTransactionFromTrash(householdId, item.itemId);
+    case "memo":
+      return restoreMemoEntryFromTrash(householdId, item.itemId, uid);
+    case "recurringRule":
+      return restoreRecurringTransactionRuleFromTrash(householdId, item.itemId);
+    case "transfer":
+      return restoreTransferFromTrash(householdId, item.itemId);
+  }
+}
+
+function buildMemoPreview(value: string) {
+  const normalized = value.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    return "메모 없음";
+  }
+  return normalized.length > 40 ? `${normalized.slice(0, 40)}...` : normalized;
+}
+
+function formatMemoMonthLabel(monthKey: string) {
+  const parsed = new Date(`${monthKey}-01T00:00:00`);
+  if (Number.isNaN(parsed.getTime())) {
+    return monthKey;
+  }
+  return format(parsed, "yyyy년 M월");
+}
+
+export default function TrashPage() {
+  const { householdId } = useHousehold();
+  const { user } = useAuth();
+  const { items, loading } = useTrashItems(householdId);
+  const { categories } = useCategories(householdId);
+  const { accounts } = useAccounts(householdId);
+  const [kindFilter, setKindFilter] = useState<KindFilter>("all");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const categoryNameMap = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+  const accountNameMap = useMemo(
+    () => new Map(accounts.map((account) => [account.id, account.name])),
+    [accounts]
+  );
+  const visibleItems =
+    kindFilter === "all" ? items : items.filter((item) => item.kind === kindFilter);
+
+  function describeAccountFlow(fromAccountId?: string | null, toAccountId?: string | null) {
+    const fromName = fromAccountId
+      ? accountNameMap.get(fromAccountId) ?? "삭제된 계좌"
+      : "외부";
+    const toName = toAccountId ? accountNameMap.get(toAccountId) ?? "삭제된 계좌" : "외부";
+    return `${fromName} → ${toName}`;
+  }
+
+  function describeItem(item: TrashItem) {
+    if (item.kind === "transaction") {
+      const data = item.data as unknown as Transaction;
+      return {
+        title: `${typeLabelMap[data.type]} ${formatKrw(data.amount)} · ${
+          categoryNameMap.get(data.categoryId) ?? "미분류"
+        }`,
+        detail: [
+          data.date ? formatDate(data.date.toDate()) : null,
+          data.note?.trim() || "메모 없음",
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      };
+    }
+    if (item.kind === "recurringRule") {
+      const data = item.data as unknown as RecurringTransactionRule;
+      return {
+        title:
+          data.target === "transfer"
+            ? `이체 ${formatKrw(data.amount)} · ${describeAccountFlow(
+                data.fromAccountId,
+                data.toAccountId
+              )}`
+            : `${typeLabelMap[data.type]} ${formatKrw(data.amount)} · ${
+                categoryNameMap.get(data.categoryId) ?? "미분류"
+              }`,
+        detail: `${describeRecurrence(
+          normalizeRecurrenceSpec(data.recurrence, data.dayOfMonth)
+        )} · ${data.note?.trim() || "메모 없음"}`,
+      };
+    }
+    if (item.kind === "transfer") {
+      const data = item.data as unknown as Transfer;
+      return {
+        title: `${formatKrw(data.amount)} · ${describeAccountFlow(
+          data.fromAccountId,
+          data.toAccountId
+        )}`,
+        detail: [data.date ? formatDate(data.date.toDate()) : null, data.memo?.trim() || null]
+          .filter(Boolean)
+          .join(" · "),
+      };
+    }
+    const text = typeof item.data.text === "string" ? item.data.text : "";
+    return {
+      title: buildMemoPreview(text),
+      detail: item.monthKey ? formatMemoMonthLabel(item.monthKey) : "",
+    };
+  }
+
+  function getRemainingDays(item: TrashItem) {
+    const expiresAt = item.expiresAt?.toMillis?.();
+    if (!expiresAt) {
+      return TRASH_RETENTION_DAYS;
+    }
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  }
+
+  async function handleRestore(item: TrashItem & { id: string }) {
+    if (!householdId || !user) {
+      return;
+    }
+    setError(null);
+    setBusyId(item.id);
+    try {
+      await restoreTrashItem(householdId, item, user.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "복원하지 못했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(item: TrashItem & { id: string }) {
+    if (!householdId) {
+      return;
+    }
+    if (!window.confirm("영구 삭제하면 되돌릴 수 없습니다. 삭제할까요?")) {
+      return;
+    }
+    setError(null);
+    setBusyId(item.id);
+    try {
+      await permanentlyDeleteTrashItem(householdId, item);
+    } catch {
+      setError("영구 삭제에 실패했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleEmpty() {
+    if (!householdId || items.length === 0) {
+      return;
+    }
+    if (!window.confirm(`휴지통의 ${items.length}개 항목을 모두 영구 삭제할까요?`)) {
+      return;
+    }
+    setError(null);
+    setBusyId("all");
+    try {
+      await emptyTrash(householdId);
+    } catch {
+      setError("휴지통을 비우지 못했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">휴지통</h1>
+          <p className="text-sm text-[color:rgba(45,38,34,0.7)]">
+            삭제한 항목은 {TRASH_RETENTION_DAYS}일 동안 보관된 뒤 자동으로 지워집니다.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="shrink-0 rounded-full border border-[var(--border)] px-4 py-2 text-sm text-red-600 disabled:opacity-60"
+          onClick={handleEmpty}
+          disabled={!householdId || items.length === 0 || busyId !== null}
+        >
+          {busyId === "all" ? "비우는 중..." : "비우기"}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {kindFilterOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`rounded-full border px-3 py-1 text-xs ${
+              kindFilter === option.value
+                ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                : "border-[var(--border)]"
+            }`}
+            onClick={() => setKindFilter(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <section className="rounded-3xl border border-[var(--border)] bg-white p-4">
+        {error ? <p className="mb-3 text-xs text-red-600">{error}</p> : null}
+        {loading ? (
+          <p className="text-sm text-[color:rgba(45,38,34,0.6)]">불러오는 중...</p>
+        ) : visibleItems.length === 0 ? (
+          <p className="text-sm text-[color:rgba(45,38,34,0.6)]">휴지통이 비어 있습니다.</p>
+        ) : (
+          <ul className="space-y-2">
+            {visibleItems.map((item) => {
+              const { title, detail } = describeItem(item);
+              const deletedAt = item.deletedAt?.toDate?.() ?? null;
+              return (
+                <li
+                  key={item.id}
+                  className="rounded-2xl border border-[var(--border)] px-4 py-3 text-sm"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="shrink-0 rounded-full bg-[color:rgba(45,38,34,0.06)] px-2 py-0.5 text-[11px]">
+                          {trashItemKindLabelMap[item.kind]}
+                        </span>
+                        <p className="truncate font-medium">{title}</p>
+                      </div>
+                      {detail ? (
+                        <p className="mt-1 truncate text-xs text-[color:rgba(45,38,34,0.6)]">
+                          {detail}
+                        </p>
+                      ) : null}
+                      <p className="mt-1 text-[11px] text-[color:rgba(45,38,34,0.5)]">
+                        {deletedAt ? `${format(deletedAt, "MM.dd HH:mm")} 삭제 · ` : ""}
+                        {getRemainingDays(item)}일 후 영구 삭제
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <button
+                        type="button"
+                        className="rounded-full border border-[var(--border)] px-3 py-1 text-xs disabled:opacity-60"
+                        onClick={() => handleRestore(item)}
+                        disabled={busyId !== null}
+                      >
+                        {busyId === item.id ? "처리 중..." : "복원"}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-red-600 disabled:opacity-60"
+                        onClick={() => handleDelete(item)}
+                        disabled={busyId !== null}
+                      >
+                        영구 삭제
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import type { NextRequest } from "next/server";
+import { getAdminDb } from "@/lib/firebase/admin";
+import { safeWriteAutomationLog } from "@/lib/server/automation-logs";
+import {
+  generateRecurringTransactionsForHousehold,
+  listHouseholdIds,
+} from "@/lib/server/admin-recurring-transactions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function requireCronSecret(request: NextRequest) {
+  const configuredSecret = process.env.CRON_SECRET?.trim();
+  const authHeader = request.headers.get("authorization")?.trim();
+
+  if (!configuredSecret) {
+    return Response.json({ error: "CRON_SECRET is not configured." }, { status: 500 });
+  }
+
+  if (authHeader !== `Bearer ${configuredSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request);
+  if (authError) {
+    return authError;
+  }
+
+  const now = new Date();
+  const db = getAdminDb();
+
+  let householdIds: string[];
+  try {
+    const householdIdFromQuery = request.nextUrl.searchParams.get("householdId")?.trim();
+    householdIds = householdIdFromQuery
+      ? [householdIdFromQuery]
+      : await listHouseholdIds(db);
+  } catch (error) {
+    console.error("[cron/recurring-transactions] household listing failed", error);
+    return Response.json(
+      {
+        error: "Failed to list households.",
+      },
+      { status: 500 }
+    );
+  }
+
+  let inserted = 0;
+  let skipped = 0;
+  const failedHouseholdIds: string[] = [];
+
+  for (const householdId of householdIds) {
+    try {
+      const result = await generateRecurringTransactionsForHousehold({
+        db,
+        householdId,
+        now,
+      });
+      inserted += result.inserted;
+      skipped += result.skipped;
+
+      await safeWriteAutomationLog({
+        db,
+        householdId,
+        payload: {
+          source: "recurring-transactions",
+          action: "generate",
+          status:
+            result.failedRuleIds.length > 0
+              ? "error"
+              : result.inserted > 0
+                ? "success"
+                : "noop",
+          summary:
+            result.failedRuleIds.length > 0
+              ? `자동 내역 ${result.inserted}건을 등록했지만 규칙 ${result.failedRuleIds.length}개를 처리하지 못했습니다.`
+              : result.inserted > 0
+                ? `자동 내역 ${result.inserted}건을 등록했습니다.`
+                : "새로 등록할 자동 내역이 없었습니다.",
+          details: {
+            scannedRules: result.scannedRules,
+            touchedRules: result.touchedRules,
+            failedRuleIds: result.failedRuleIds,
+            inserted: result.inserted,
+            skipped: result.skipped,
+          },
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[cron/recurring-transactions] generation failed for ${householdId}`,
+        error
+      );
+      failedHouseholdIds.push(householdId);
+      await safeWriteAutomationLog({
+        db,
+        householdId,
+        payload: {
+          source: "recurring-transactions",
+          action: "generate",
+          status: "error",
+          summary: "자동 내역 생성 중 오류가 발생했습니다.",
+          details: {
+            error: error instanceof Error ? error.message : "unknown error",
+          },
+        },
+      });
+    }
+  }
+
+  return Response.json(
+    {
+      checkedAt: now.toISOString(),
+      households: householdIds.length,
+      inserted,
+      skipped,
+      failedHouseholdIds,
+    },
+    { status: failedHouseholdIds.length > 0 ? 500 : 200 }
+  );
+}
@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server";
+import { getAdminDb } from "@/lib/firebase/admin";
+import {
+  authenticateApiToken,
+  quickAddTransaction,
+  resolveIdempotencyKey,
+  resolveQuickAddInput,
+} from "@/lib/server/quick-add-transactions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function readBearerToken(request: NextRequest) {
+  const authHeader = request.headers.get("authorization")?.trim() ?? "";
+  return authHeader.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : "";
+}
+
+export async function POST(request: NextRequest) {
+  const db = getAdminDb();
+  const auth = await authenticateApiToken(db, readBearerToken(request));
+  if (!auth) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const parsed: unknown = await request.json();
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("invalid body");
+    }
+    body = parsed as Record<string, unknown>;
+  } catch {
+    return Response.json({ error: "JSON 본문을 읽지 못했습니다." }, { status: 400 });
+  }
+
+  const resolved = resolveQuickAddInput(body);
+  if ("error" in resolved) {
+    return Response.json({ error: resolved.error }, { status: 422 });
+  }
+
+  try {
+    const result = await quickAddTransaction({
+      db,
+      auth,
+      input: resolved.input,
+      idempotencyKey: resolveIdempotencyKey(
+        request.headers.get("idempotency-key"),
+        body,
+        resolved.input
+      ),
+    });
+    return Response.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (error) {
+    console.error(`[transactions/quick-add] failed for ${auth.householdId}`, error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to add transaction.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useApiTokens } from "@/hooks/use-api-tokens";
+import { createApiToken, revokeApiToken } from "@/lib/api-tokens";
+import { formatDate } from "@/lib/time";
+
+type ToastLevel = "success" | "error" | "info";
+
+type ApiTokenSectionProps = {
+  householdId: string | null;
+  user: { uid: string } | null;
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+const QUICK_ADD_PATH = "/api/transactions/quick-add";
+
+export default function ApiTokenSection({ householdId, user, onToast }: ApiTokenSectionProps) {
+  const { apiTokens, loading } = useApiTokens(householdId, user?.uid ?? null);
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [createdToken, setCreatedToken] = useState<{ name: string; token: string } | null>(
+    null
+  );
+
+  const endpoint =
+    typeof window === "undefined" ? QUICK_ADD_PATH : `${window.location.origin}${QUICK_ADD_PATH}`;
+
+  async function handleCreate() {
+    if (!householdId || !user) {
+      return;
+    }
+    setCreating(true);
+    try {
+      const { token } = await createApiToken({ householdId, uid: user.uid, name });
+      setCreatedToken({ name: name.trim(), token });
+      setName("");
+      onToast("토큰을 만들었습니다. 지금 복사해두세요.", "success");
+    } catch (error) {
+      onToast(error instanceof Error ? error.message : "토큰 생성에 실패했습니다.", "error");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleCopy(token: string) {
+    try {
+      await navigator.clipboard.writeText(token);
+      onToast("토큰을 복사했습니다.", "success");
+    } catch {
+      onToast("복사하지 못했습니다. 직접 선택해 복사해주세요.", "error");
+    }
+  }
+
+  async function handleRevoke(tokenId: string, tokenName: string) {
+    const confirmMessage = `'${tokenName}' 토큰을 폐기할까요? 이 토큰을 쓰는 단축어는 더 이상 동작하지 않습니다.`;
+    if (!window.confirm(confirmMessage)) {
+      return;
+    }
+    setRevokingId(tokenId);
+    try {
+      await revokeApiToken(tokenId);
+      onToast(`${tokenName} 토큰을 폐기했습니다.`, "success");
+    } catch {
+      onToast("토큰 폐기에 실패했습니다.", "error");
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-3 text-xs">
+      {createdToken ? (
+        <div className="grid gap-2 rounded-xl border border-[var(--accent)] bg-white p-3">
+          <p className="font-medium">
+            {createdToken.name} 토큰은 지금 한 번만 볼 수 있습니다.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 break-all rounded-lg bg-[color:rgba(45,38,34,0.05)] px-2 py-1.5">
+              {createdToken.token}
+            </code>
+            <button
+              type="button"
+              className="shrink-0 rounded-full border border-[var(--border)] px-3 py-1"
+              onClick={() => handleCopy(createdToken.token)}
+            >
+              복사
+            </button>
+          </div>
+          <p className="text-[color:rgba(45,38,34,0.7)]">
+            단축어에서 <code>POST {endpoint}</code>로 요청하고{" "}
+            <code>Authorization: Bearer 토큰</code> 헤더를 붙이세요. 본문은 카드 문자
+            그대로 <code>{`{"message": "..."}`}</code> 또는{" "}
+            <code>{`{"amount": 4500, "note": "커피", "paymentMethod": "신한카드"}`}</code>{" "}
+            형식입니다. 같은 요청이 두 번 가지 않도록 <code>Idempotency-Key</code> 헤더를
+            함께 보내면 좋습니다.
+          </p>
+          <button
+            type="button"
+            className="justify-self-end rounded-xl border border-[var(--border)] px-3 py-2"
+            onClick={() => setCreatedToken(null)}
+          >
+            닫기
+          </button>
+        </div>
+      ) : null}
+      {loading ? (
+        <p className="text-[color:rgba(45,38,34,0.6)]">토큰을 불러오는 중...</p>
+      ) : apiTokens.length === 0 ? (
+        <p className="text-[color:rgba(45,38,34,0.6)]">아직 만든 토큰이 없습니다.</p>
+      ) : (
+        <ul className="grid gap-2">
+          {apiTokens.map((apiToken) => {
+            const revoked = Boolean(apiToken.revokedAt);
+            const lastUsedAt = apiToken.lastUsedAt?.toDate?.();
+            const createdAt = apiToken.createdAt?.toDate?.();
+            return (
+              <li
+                key={apiToken.id}
+                className={`flex items-center justify-between gap-2 rounded-xl border border-[var(--border)] bg-white px-3 py-2 ${
+                  revoked ? "opacity-60" : ""
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {apiToken.name}{" "}
+                    <span className="text-xs font-normal text-[color:rgba(45,38,34,0.6)]">
+                      {apiToken.prefix}…
+                    </span>
+                  </p>
+                  <p className="mt-0.5 text-[color:rgba(45,38,34,0.6)]">
+                    {createdAt ? `${formatDate(createdAt)} 생성` : "생성 중"} ·{" "}
+                    {lastUsedAt
+                      ? `${formatDate(lastUsedAt, "yyyy.MM.dd HH:mm")} 마지막 사용`
+                      : "사용 기록 없음"}
+                  </p>
+                </div>
+                {revoked ? (
+                  <span className="shrink-0 rounded-full border border-[var(--border)] px-2 py-0.5 text-[color:rgba(45,38,34,0.6)]">
+                    폐기됨
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    className="shrink-0 rounded-full border border-[var(--border)] px-2 py-0.5 text-red-600 disabled:opacity-40"
+                    onClick={() => handleRevoke(apiToken.id, apiToken.name)}
+                    disabled={revokingId === apiToken.id}
+                  >
+                    {revokingId === apiToken.id ? "폐기 중..." : "폐기"}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-sm"
+          placeholder="토큰 이름 (예: 아이폰 단축어)"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          disabled={creating || !householdId || !user}
+        />
+        <button
+          type="button"
+          className="shrink-0 rounded-xl bg-[var(--accent)] px-3 py-2 text-white disabled:opacity-60"
+          onClick={handleCreate}
+          disabled={creating || !householdId || !user}
+        >
+          {creating ? "만드는 중..." : "토큰 만들기"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useEffect } from "react";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
 import RecurringTransactionsSync from "@/components/recurring-transactions-sync";
+import UndoHistory from "@/components/undo-history";
 
 export default function AppGuard({
   children,
@@ -40,6 +41,7 @@ export default function AppGuard({
     <>
       <RecurringTransactionsSync />
       {children}
+      <UndoHistory />
     </>
   );
 }
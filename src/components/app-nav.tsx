@@ -2,10 +2,11 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import { useAuth } from "@/components/auth-provider";
 import { useHousehold } from "@/components/household-provider";
 import { useNotifications } from "@/lib/notifications";
+import { purgeExpiredTrashItems } from "@/lib/trash";
 
 type NavItem = {
   href: string;
@@ -18,6 +19,15 @@ export default function AppNav({ items }: { items: NavItem[] }) {
   const { householdId } = useHousehold();
   const { notifications } = useNotifications(householdId, user?.uid);
 
+  // Runs with every app load, like the notification purge, so trash past its
+  // 30 days goes away even if nobody opens the trash page.
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    void purgeExpiredTrashItems(householdId).catch(() => undefined);
+  }, [householdId]);
+
   const unreadCount = useMemo(() => {
     if (!user) {
       return 0;
@@ -0,0 +1,784 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useCategories } from "@/hooks/use-categories";
+import { useCategorizationRules } from "@/hooks/use-categorization-rules";
+import { usePaymentMethods } from "@/hooks/use-payment-methods";
+import type { CategorizationRuleWithId } from "@/lib/categorization-rule-matching";
+import {
+  applyCategorizationChanges,
+  buildCategorizationReapplyPreview,
+  deleteCategorizationRule,
+  describeCategorizationCondition,
+  reorderCategorizationRules,
+  saveCategorizationRule,
+  setCategorizationRuleEnabled,
+  type CategorizationReapplyChange,
+} from "@/lib/categorization-rules";
+import { formatKrw } from "@/lib/format";
+import { formatPaymentMethodLabel } from "@/lib/payment-method-resolver";
+import { formatDate, toDateKey } from "@/lib/time";
+import { listTransactionsInRange } from "@/lib/transactions";
+import type { CategorizationRuleCondition, TransactionType } from "@/types/ledger";
+
+const REAPPLY_PREVIEW_LIMIT = 50;
+
+type ToastLevel = "success" | "error" | "info";
+
+type CategorizationRulesSectionProps = {
+  householdId: string | null;
+  user: { uid: string } | null;
+  userName: string | null;
+  subjects: { id: string; name: string; order: number }[];
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+type ConditionField = CategorizationRuleCondition["field"];
+
+type ConditionForm = {
+  key: string;
+  field: ConditionField;
+  operator: string;
+  value: string;
+};
+
+type RuleForm = {
+  ruleId: string | null;
+  name: string;
+  enabled: boolean;
+  conditions: ConditionForm[];
+  categoryId: string;
+  subject: string;
+  paymentMethodId: string;
+};
+
+const conditionFieldOptions: { value: ConditionField; label: string }[] = [
+  { value: "note", label: "메모" },
+  { value: "amount", label: "금액" },
+  { value: "paymentMethod", label: "결제수단" },
+  { value: "type", label: "구분" },
+];
+
+const conditionOperatorOptions: Record<
+  ConditionField,
+  { value: string; label: string }[]
+> = {
+  note: [
+    { value: "contains", label: "포함" },
+    { value: "equals", label: "일치" },
+    { value: "startsWith", label: "시작" },
+  ],
+  amount: [
+    { value: "equals", label: "같음" },
+    { value: "gte", label: "이상" },
+    { value: "lte", label: "이하" },
+  ],
+  paymentMethod: [{ value: "equals", label: "일치" }],
+  type: [{ value: "equals", label: "일치" }],
+};
+
+const transactionTypeLabelMap = {
+  income: "수입",
+  expense: "지출",
+  transfer: "이체",
+} as const;
+
+function formatAmountValue(value: string) {
+  const digits = value.replace(/[^\d]/g, "");
+  if (!digits) {
+    return "";
+  }
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+function parseDateInput(value: string) {
+  const [yearText, monthText, dayText] = value.split("-");
+  const year = Number(yearText);
+  const month = Number(monthText);
+  const day = Number(dayText);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+}
+
+function createConditionForm(field: ConditionField = "note"): ConditionForm {
+  return {
+    key: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    field,
+    operator: conditionOperatorOptions[field][0].value,
+    value: field === "type" ? "expense" : "",
+  };
+}
+
+function createRuleForm(rule?: CategorizationRuleWithId): RuleForm {
+  if (!rule) {
+    return {
+      ruleId: null,
+      name: "",
+      enabled: true,
+      conditions: [createConditionForm()],
+      categoryId: "",
+      subject: "",
+      paymentMethodId: "",
+    };
+  }
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    conditions: rule.conditions.map((condition) => ({
+      ...createConditionForm(condition.field),
+      operator: condition.operator,
+      value:
+        condition.field === "amount"
+          ? formatAmountValue(String(condition.value))
+          : condition.value,
+    })),
+    categoryId: rule.actions.categoryId ?? "",
+    subject: rule.actions.subject ?? "",
+    paymentMethodId: rule.actions.paymentMethodId ?? "",
+  };
+}
+
+function parseConditionForm(
+  form: ConditionForm,
+  paymentMethodNameById: Map<string, string>
+): CategorizationRuleCondition | null {
+  const value = form.value.trim();
+  if (!value) {
+    return null;
+  }
+  switch (form.field) {
+    case "note":
+      return {
+        field: "note",
+        operator: form.operator as "contains" | "equals" | "startsWith",
+        value,
+      };
+    case "amount": {
+      const amount = Number(value.replace(/,/g, ""));
+      return amount > 0
+        ? { field: "amount", operator: form.operator as "equals" | "gte" | "lte", value: amount }
+        : null;
+    }
+    case "paymentMethod":
+      return {
+        field: "paymentMethod",
+        operator: "equals",
+        value,
+        label: paymentMethodNameById.get(value),
+      };
+    case "type":
+      return { field: "type", operator: "equals", value: value as TransactionType };
+    default:
+      return null;
+  }
+}
+
+export default function CategorizationRulesSection({
+  householdId,
+  user,
+  userName,
+  subjects,
+  onToast,
+}: CategorizationRulesSectionProps) {
+  const { categories } = useCategories(householdId);
+  const { paymentMethods } = usePaymentMethods(householdId);
+  const { categorizationRules } = useCategorizationRules(householdId);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reapplyStart, setReapplyStart] = useState(() => {
+    const now = new Date();
+    return toDateKey(new Date(now.getFullYear(), now.getMonth() - 2, 1));
+  });
+  const [reapplyEnd, setReapplyEnd] = useState(() => toDateKey(new Date()));
+  const [previewing, setPreviewing] = useState(false);
+  const [changes, setChanges] = useState<CategorizationReapplyChange[] | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(() => new Set());
+  const [applying, setApplying] = useState(false);
+  const [applyProcessed, setApplyProcessed] = useState(0);
+
+  const categoryNameById = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+  const categoryTypeById = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.type])),
+    [categories]
+  );
+  const paymentMethodNameById = useMemo(
+    () =>
+      new Map(
+        paymentMethods.map((method) => [method.id, formatPaymentMethodLabel(method.name)])
+      ),
+    [paymentMethods]
+  );
+  const sortedCategories = useMemo(
+    () =>
+      [...categories].sort(
+        (a, b) => a.type.localeCompare(b.type) || a.order - b.order
+      ),
+    [categories]
+  );
+  const selectedChanges = useMemo(
+    () => changes?.filter((change) => !excludedIds.has(change.transactionId)) ?? [],
+    [changes, excludedIds]
+  );
+  const disabled = !householdId || !user || saving || applying;
+
+  function describeActions(rule: CategorizationRuleWithId) {
+    return [
+      rule.actions.categoryId
+        ? (categoryNameById.get(rule.actions.categoryId) ?? "삭제된 카테고리")
+        : null,
+      rule.actions.subject,
+      rule.actions.paymentMethodId
+        ? (paymentMethodNameById.get(rule.actions.paymentMethodId) ?? "삭제된 결제수단")
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  }
+
+  function updateCondition(key: string, patch: Partial<ConditionForm>) {
+    setForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            conditions: prev.conditions.map((condition) =>
+              condition.key === key ? { ...condition, ...patch } : condition
+            ),
+          }
+        : prev
+    );
+  }
+
+  function handleConditionFieldChange(key: string, field: ConditionField) {
+    const next = createConditionForm(field);
+    updateCondition(key, { field, operator: next.operator, value: next.value });
+  }
+
+  async function handleSave() {
+    if (!householdId || !user || !form) {
+      return;
+    }
+    const conditions = form.conditions.map((condition) =>
+      parseConditionForm(condition, paymentMethodNameById)
+    );
+    if (conditions.some((condition) => !condition)) {
+      onToast("조건 값을 모두 입력해주세요.", "error");
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveCategorizationRule({
+        householdId,
+        ruleId: form.ruleId,
+        name: form.name,
+        enabled: form.enabled,
+        order:
+          categorizationRules.reduce((max, rule) => Math.max(max, rule.order), 0) + 1,
+        conditions: conditions as CategorizationRuleCondition[],
+        actions: {
+          categoryId: form.categoryId || null,
+          subject: form.subject || null,
+          paymentMethodId: form.paymentMethodId || null,
+        },
+        createdBy: user.uid,
+      });
+      onToast(form.ruleId ? "규칙을 수정했습니다." : "규칙을 추가했습니다.", "success");
+      setForm(null);
+      setChanges(null);
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "규칙을 저장하지 못했습니다.", "error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleEnabled(rule: CategorizationRuleWithId) {
+    if (!householdId) {
+      return;
+    }
+    try {
+      await setCategorizationRuleEnabled(householdId, rule.id, !rule.enabled);
+      setChanges(null);
+    } catch {
+      onToast("규칙 상태를 바꾸지 못했습니다.", "error");
+    }
+  }
+
+  async function handleMove(index: number, offset: -1 | 1) {
+    if (!householdId) {
+      return;
+    }
+    const target = index + offset;
+    if (target < 0 || target >= categorizationRules.length) {
+      return;
+    }
+    const ids = categorizationRules.map((rule) => rule.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      await reorderCategorizationRules(householdId, ids);
+      setChanges(null);
+    } catch {
+      onToast("규칙 순서를 바꾸지 못했습니다.", "error");
+    }
+  }
+
+  async function handleDelete(rule: CategorizationRuleWithId) {
+    if (!householdId || !window.confirm(`'${rule.name}' 규칙을 삭제할까요?`)) {
+      return;
+    }
+    try {
+      await deleteCategorizationRule(householdId, rule.id);
+      if (form?.ruleId === rule.id) {
+        setForm(null);
+      }
+      setChanges(null);
+      onToast("규칙을 삭제했습니다.", "success");
+    } catch {
+      onToast("규칙을 삭제하지 못했습니다.", "error");
+    }
+  }
+
+  async function handlePreview() {
+    if (!householdId) {
+      return;
+    }
+    const startDate = parseDateInput(reapplyStart);
+    const endDate = parseDateInput(reapplyEnd);
+    if (!startDate || !endDate || startDate > endDate) {
+      onToast("기간을 확인해주세요.", "error");
+      return;
+    }
+    endDate.setHours(23, 59, 59, 999);
+    setPreviewing(true);
+    try {
+      const transactions = await listTransactionsInRange(householdId, startDate, endDate);
+      setChanges(
+        buildCategorizationReapplyPreview({
+          transactions,
+          rules: categorizationRules,
+          categoryTypeById,
+          paymentMethodNameById: new Map(
+            paymentMethods.map((method) => [method.id, method.name])
+          ),
+        })
+      );
+      setExcludedIds(new Set());
+    } catch {
+      onToast("내역을 불러오지 못했습니다.", "error");
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  function toggleChange(transactionId: string) {
+    setExcludedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  }
+
+  async function handleApply() {
+    if (!householdId || !user || selectedChanges.length === 0) {
+      return;
+    }
+    setApplying(true);
+    setApplyProcessed(0);
+    try {
+      const processed = await applyCategorizationChanges({
+        householdId,
+        changes: selectedChanges,
+        updatedBy: user.uid,
+        updatedByName: userName,
+        onProgress: setApplyProcessed,
+      });
+      onToast(`${processed}건에 규칙을 적용했습니다.`, "success");
+      setChanges(null);
+    } catch {
+      onToast("규칙을 적용하는 중 오류가 발생했습니다.", "error");
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-3">
+      {categorizationRules.length === 0 ? (
+        <p className="text-xs text-[color:rgba(45,38,34,0.6)]">아직 규칙이 없습니다.</p>
+      ) : (
+        <ul className="grid gap-2">
+          {categorizationRules.map((rule, index) => (
+            <li
+              key={rule.id}
+              className={`rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs ${
+                rule.enabled ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex min-w-0 items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => handleToggleEnabled(rule)}
+                    disabled={disabled}
+                  />
+                  <span className="truncate">
+                    {index + 1}. {rule.name}
+                  </span>
+                </label>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-2 py-0.5 disabled:opacity-40"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={disabled || index === 0}
+                    aria-label="위로"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-2 py-0.5 disabled:opacity-40"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={disabled || index === categorizationRules.length - 1}
+                    aria-label="아래로"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-2 py-0.5 disabled:opacity-40"
+                    onClick={() => setForm(createRuleForm(rule))}
+                    disabled={disabled}
+                  >
+                    수정
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-2 py-0.5 text-red-600 disabled:opacity-40"
+                    onClick={() => handleDelete(rule)}
+                    disabled={disabled}
+                  >
+                    삭제
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-[color:rgba(45,38,34,0.7)]">
+                {rule.conditions
+                  .map((condition) =>
+                    describeCategorizationCondition(condition, paymentMethodNameById)
+                  )
+                  .join(" 그리고 ")}{" "}
+                → {describeActions(rule)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {form ? (
+        <div className="grid gap-2 rounded-xl border border-[var(--border)] bg-white p-3 text-xs">
+          <input
+            type="text"
+            className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-sm"
+            placeholder="규칙 이름 (예: 스타벅스는 카페)"
+            value={form.name}
+            onChange={(event) => setForm({ ...form, name: event.target.value })}
+            disabled={disabled}
+          />
+          <p className="font-medium">조건 (모두 만족할 때)</p>
+          {form.conditions.map((condition) => (
+            <div key={condition.key} className="flex items-center gap-1.5 [&>*]:min-w-0">
+              <select
+                className="w-20 shrink-0 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+                value={condition.field}
+                onChange={(event) =>
+                  handleConditionFieldChange(
+                    condition.key,
+                    event.target.value as ConditionField
+                  )
+                }
+                disabled={disabled}
+              >
+                {conditionFieldOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {condition.field === "paymentMethod" ? (
+                <select
+                  className="flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+                  value={condition.value}
+                  onChange={(event) =>
+                    updateCondition(condition.key, { value: event.target.value })
+                  }
+                  disabled={disabled}
+                >
+                  <option value="">결제수단 선택</option>
+                  {paymentMethods.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {formatPaymentMethodLabel(method.name)}
+                    </option>
+                  ))}
+                </select>
+              ) : condition.field === "type" ? (
+                <select
+                  className="flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+                  value={condition.value}
+                  onChange={(event) =>
+                    updateCondition(condition.key, { value: event.target.value })
+                  }
+                  disabled={disabled}
+                >
+                  {Object.entries(transactionTypeLabelMap).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    inputMode={condition.field === "amount" ? "numeric" : undefined}
+                    autoComplete="off"
+                    className="flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+                    placeholder={condition.field === "amount" ? "55,000" : "스타벅스"}
+                    value={condition.value}
+                    onChange={(event) =>
+                      updateCondition(condition.key, {
+                        value:
+                          condition.field === "amount"
+                            ? formatAmountValue(event.target.value)
+                            : event.target.value,
+                      })
+                    }
+                    disabled={disabled}
+                  />
+                  <select
+                    className="w-16 shrink-0 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+                    value={condition.operator}
+                    onChange={(event) =>
+                      updateCondition(condition.key, { operator: event.target.value })
+                    }
+                    disabled={disabled}
+                  >
+                    {conditionOperatorOptions[condition.field].map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <button
+                type="button"
+                className="shrink-0 rounded-full border border-[var(--border)] px-2 py-0.5 disabled:opacity-40"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    conditions: form.conditions.filter((item) => item.key !== condition.key),
+                  })
+                }
+                disabled={disabled || form.conditions.length === 1}
+                aria-label="조건 삭제"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="justify-self-start rounded-full border border-[var(--border)] px-3 py-1 disabled:opacity-60"
+            onClick={() =>
+              setForm({ ...form, conditions: [...form.conditions, createConditionForm()] })
+            }
+            disabled={disabled}
+          >
+            조건 추가
+          </button>
+          <p className="mt-1 font-medium">적용할 값</p>
+          <div className="grid gap-1.5 sm:grid-cols-3">
+            <select
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+              value={form.categoryId}
+              onChange={(event) => setForm({ ...form, categoryId: event.target.value })}
+              disabled={disabled}
+            >
+              <option value="">카테고리 유지</option>
+              {sortedCategories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {transactionTypeLabelMap[category.type]} · {category.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+              value={form.subject}
+              onChange={(event) => setForm({ ...form, subject: event.target.value })}
+              disabled={disabled}
+            >
+              <option value="">주체 유지</option>
+              {subjects.map((subject) => (
+                <option key={subject.id} value={subject.name}>
+                  {subject.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+              value={form.paymentMethodId}
+              onChange={(event) => setForm({ ...form, paymentMethodId: event.target.value })}
+              disabled={disabled}
+            >
+              <option value="">결제수단 유지</option>
+              {paymentMethods.map((method) => (
+                <option key={method.id} value={method.id}>
+                  {formatPaymentMethodLabel(method.name)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-1 flex justify-end gap-2">
+            <button
+              type="button"
+              className="rounded-xl border border-[var(--border)] px-3 py-2 disabled:opacity-60"
+              onClick={() => setForm(null)}
+              disabled={saving}
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              className="rounded-xl bg-[var(--accent)] px-3 py-2 text-white disabled:opacity-60"
+              onClick={handleSave}
+              disabled={disabled}
+            >
+              {saving ? "저장 중..." : "규칙 저장"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="rounded-xl border border-[var(--border)] px-4 py-2.5 text-sm disabled:opacity-60"
+          onClick={() => setForm(createRuleForm())}
+          disabled={disabled}
+        >
+          규칙 추가
+        </button>
+      )}
+      {categorizationRules.length > 0 ? (
+        <div className="rounded-xl border border-[var(--border)] bg-white p-3 text-xs text-[color:rgba(45,38,34,0.7)]">
+          <p className="font-medium text-[color:rgba(45,38,34,0.9)]">지난 내역에 다시 적용</p>
+          <p className="mt-1">
+            나눠 기록한 내역과 환불 내역은 제외됩니다. 바뀌는 내역을 확인한 뒤
+            적용하세요.
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+              value={reapplyStart}
+              onChange={(event) => setReapplyStart(event.target.value)}
+              disabled={previewing || applying}
+            />
+            <span>~</span>
+            <input
+              type="date"
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5"
+              value={reapplyEnd}
+              onChange={(event) => setReapplyEnd(event.target.value)}
+              disabled={previewing || applying}
+            />
+            <button
+              type="button"
+              className="rounded-full border border-[var(--border)] px-3 py-1.5 disabled:opacity-60"
+              onClick={handlePreview}
+              disabled={!householdId || previewing || applying}
+            >
+              {previewing ? "확인 중..." : "미리보기"}
+            </button>
+          </div>
+          {changes ? (
+            changes.length === 0 ? (
+              <p className="mt-2">바뀌는 내역이 없습니다.</p>
+            ) : (
+              <>
+                <ul className="mt-2 grid max-h-80 gap-1 overflow-y-auto">
+                  {changes.slice(0, REAPPLY_PREVIEW_LIMIT).map((change) => (
+                    <li
+                      key={change.transactionId}
+                      className="rounded-lg border border-[var(--border)] px-2 py-1.5"
+                    >
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="checkbox"
+                          className="mt-0.5"
+                          checked={!excludedIds.has(change.transactionId)}
+                          onChange={() => toggleChange(change.transactionId)}
+                          disabled={applying}
+                        />
+                        <span className="min-w-0">
+                          <span className="block truncate text-[color:rgba(45,38,34,0.9)]">
+                            {formatDate(change.date)} · {formatKrw(change.amount)}
+                            {change.note ? ` · ${change.note}` : ""}
+                          </span>
+                          {change.after.categoryId !== change.before.categoryId ? (
+                            <span className="block">
+                              카테고리{" "}
+                              {categoryNameById.get(change.before.categoryId) ?? "미분류"} →{" "}
+                              {categoryNameById.get(change.after.categoryId) ?? "미분류"}
+                            </span>
+                          ) : null}
+                          {change.after.subject !== change.before.subject ? (
+                            <span className="block">
+                              주체 {change.before.subject} → {change.after.subject}
+                            </span>
+                          ) : null}
+                          {change.after.paymentMethod !== change.before.paymentMethod ? (
+                            <span className="block">
+                              결제수단 {formatPaymentMethodLabel(change.before.paymentMethod)} →{" "}
+                              {formatPaymentMethodLabel(change.after.paymentMethod)}
+                            </span>
+                          ) : null}
+                          <span className="block text-[11px] text-[color:rgba(45,38,34,0.5)]">
+                            {change.ruleNames.join(", ")}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                {changes.length > REAPPLY_PREVIEW_LIMIT ? (
+                  <p className="mt-1">
+                    외 {changes.length - REAPPLY_PREVIEW_LIMIT}건도 함께 적용됩니다.
+                  </p>
+                ) : null}
+                <button
+                  type="button"
+                  className="mt-2 w-full rounded-xl bg-[var(--accent)] px-3 py-2 text-sm text-white disabled:opacity-60"
+                  onClick={handleApply}
+                  disabled={applying || selectedChanges.length === 0}
+                >
+                  {applying
+                    ? `적용 중... ${applyProcessed}/${selectedChanges.length}`
+                    : `${selectedChanges.length}건 적용`}
+                </button>
+              </>
+            )
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  createHouseholdSnapshot,
+  parseHouseholdSnapshot,
+  restoreHouseholdSnapshot,
+  serializeHouseholdSnapshot,
+  summarizeHouseholdSnapshot,
+  type HouseholdSnapshot,
+  type SnapshotRestoreMode,
+} from "@/lib/household-snapshot";
+
+type ToastLevel = "success" | "error" | "info";
+
+type HouseholdBackupSectionProps = {
+  householdId: string | null;
+  user: { uid: string } | null;
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+const snapshotCollectionLabelMap: Record<string, string> = {
+  categories: "카테고리",
+  subjects: "주체",
+  tags: "태그",
+  paymentMethods: "결제수단",
+  accountGroups: "계좌 그룹",
+  accounts: "계좌",
+  transfers: "이체",
+  transactions: "거래 내역",
+  recurringTransactionRules: "자동 등록",
+  budgets: "예산",
+  memos: "메모",
+  notifications: "알림",
+  trash: "휴지통",
+  transactionChangeLogs: "변경 기록",
+  importProfiles: "가져오기 프로필",
+  categorizationRules: "자동 분류 규칙",
+  invites: "초대 코드",
+  members: "구성원",
+};
+
+const restoreModeOptions: { value: SnapshotRestoreMode; label: string; hint: string }[] = [
+  {
+    value: "merge",
+    label: "합치기",
+    hint: "지금 데이터는 그대로 두고, 백업에 있는 항목을 추가하거나 같은 항목을 백업 내용으로 덮어씁니다.",
+  },
+  {
+    value: "replace",
+    label: "바꾸기",
+    hint: "백업에 없는 항목은 삭제하고 가계부를 백업 시점과 똑같이 되돌립니다.",
+  },
+];
+
+export async function downloadHouseholdBackup(householdId: string) {
+  const snapshot = await createHouseholdSnapshot(householdId);
+  const { blob, fileName } = serializeHouseholdSnapshot(snapshot);
+  downloadBlob(blob, fileName);
+  return fileName;
+}
+
+export default function HouseholdBackupSection({
+  householdId,
+  user,
+  onToast,
+}: HouseholdBackupSectionProps) {
+  const [backingUp, setBackingUp] = useState(false);
+  const [snapshot, setSnapshot] = useState<HouseholdSnapshot | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [restoreMode, setRestoreMode] = useState<SnapshotRestoreMode>("merge");
+  const [restoring, setRestoring] = useState(false);
+  const [restoreProgress, setRestoreProgress] = useState(0);
+  const [restoreStatus, setRestoreStatus] = useState<string | null>(null);
+
+  async function handleBackup() {
+    if (!householdId) {
+      return;
+    }
+    setBackingUp(true);
+    try {
+      const fileName = await downloadHouseholdBackup(householdId);
+      onToast(`${fileName} 백업 파일을 내려받았습니다.`, "success");
+    } catch {
+      onToast("백업 파일을 만들지 못했습니다.", "error");
+    } finally {
+      setBackingUp(false);
+    }
+  }
+
+  async function handleSnapshotFile(file: File | null) {
+    setSnapshot(null);
+    setSnapshotError(null);
+    setRestoreStatus(null);
+    if (!file) {
+      return;
+    }
+    try {
+      setSnapshot(await parseHouseholdSnapshot(await file.text()));
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : "백업 파일을 확인하지 못했습니다.");
+    }
+  }
+
+  async function handleRestore() {
+    if (!householdId || !user || !snapshot) {
+      return;
+    }
+    const confirmMessage =
+      restoreMode === "replace"
+        ? "백업에 없는 현재 데이터는 삭제됩니다. 복원할까요?"
+        : "백업 내용을 현재 가계부에 합칠까요?";
+    if (!window.confirm(confirmMessage)) {
+      return;
+    }
+    setRestoring(true);
+    setRestoreProgress(0);
+    setRestoreStatus(null);
+    try {
+      const { written, deleted, skipped } = await restoreHouseholdSnapshot({
+        householdId,
+        snapshot,
+        mode: restoreMode,
+        uid: user.uid,
+        onProgress: setRestoreProgress,
+      });
+      const summary = `복원 ${written}건, 삭제 ${deleted}건, 건너뜀 ${skipped}건`;
+      setRestoreStatus(`복원 완료: ${summary}`);
+      onToast(`백업을 복원했습니다. (${summary})`, "success");
+      setSnapshot(null);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : "알 수 없는 오류";
+      setRestoreStatus(`복원 중단: ${detail}`);
+      onToast("백업 복원 중 오류가 발생했습니다.", "error");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  const selectedMode = restoreModeOptions.find((option) => option.value === restoreMode);
+
+  return (
+    <div className="grid gap-3">
+      <button
+        type="button"
+        className="rounded-xl border border-[var(--border)] px-4 py-2.5 text-sm disabled:opacity-60"
+        onClick={handleBackup}
+        disabled={!householdId || backingUp || restoring}
+      >
+        {backingUp ? "백업 만드는 중..." : "지금 백업 내려받기"}
+      </button>
+      <label className="text-xs text-[color:rgba(45,38,34,0.7)]">
+        백업 파일로 복원
+        <input
+          className="mt-2 w-full text-sm"
+          type="file"
+          accept=".json,application/json"
+          onChange={(event) => handleSnapshotFile(event.target.files?.[0] ?? null)}
+          disabled={!householdId || restoring}
+        />
+      </label>
+      {snapshotError ? <p className="text-xs text-red-600">{snapshotError}</p> : null}
+      {snapshot ? (
+        <div className="rounded-xl border border-[var(--border)] bg-white p-3 text-xs text-[color:rgba(45,38,34,0.7)]">
+          <p className="font-medium text-[color:rgba(45,38,34,0.9)]">
+            {new Date(snapshot.createdAt).toLocaleString("ko-KR")} 백업
+          </p>
+          {snapshot.householdId !== householdId ? (
+            <p className="mt-1 text-amber-700">다른 가계부에서 만든 백업입니다.</p>
+          ) : null}
+          <p className="mt-1">
+            {summarizeHouseholdSnapshot(snapshot)
+              .filter((item) => item.count > 0)
+              .map(
+                (item) =>
+                  `${snapshotCollectionLabelMap[item.name] ?? item.name} ${item.count}건`
+              )
+              .join(" · ") || "비어 있는 백업"}
+          </p>
+          <p className="mt-1 text-[11px] text-[color:rgba(45,38,34,0.55)]">
+            구성원, 변경 기록, 다른 사람이 만든 개인 계좌 그룹은 복원되지 않습니다.
+          </p>
+          <div className="mt-3 flex gap-2">
+            {restoreModeOptions.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-1.5 rounded-xl border border-[var(--border)] px-3 py-2"
+              >
+                <input
+                  type="radio"
+                  name="snapshot-restore-mode"
+                  checked={restoreMode === option.value}
+                  onChange={() => setRestoreMode(option.value)}
+                  disabled={restoring}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {selectedMode ? (
+            <p className="mt-2 text-[11px] text-[color:rgba(45,38,34,0.55)]">
+              {selectedMode.hint}
+            </p>
+          ) : null}
+          <button
+            type="button"
+            className={`mt-3 w-full rounded-xl px-4 py-2.5 text-sm text-white disabled:opacity-60 ${
+              restoreMode === "replace" ? "bg-red-600" : "bg-[var(--accent)]"
+            }`}
+            onClick={handleRestore}
+            disabled={!user || restoring}
+          >
+            {restoring ? `복원 중... (${restoreProgress}건 처리)` : "복원하기"}
+          </button>
+        </div>
+      ) : null}
+      {restoreStatus ? (
+        <p className="text-xs text-[color:rgba(45,38,34,0.7)]">{restoreStatus}</p>
+      ) : null}
+    </div>
+  );
+}
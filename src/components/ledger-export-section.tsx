@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  LEDGER_EXPORT_DATASETS,
+  buildLedgerExportFile,
+  loadLedgerExportData,
+  type LedgerExportDataset,
+  type LedgerExportFileFormat,
+} from "@/lib/ledger-export";
+
+type ToastLevel = "success" | "error" | "info";
+
+type LedgerExportSectionProps = {
+  householdId: string | null;
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+const exportFormatOptions: { value: LedgerExportFileFormat; label: string; hint: string }[] = [
+  { value: "xlsx", label: "엑셀", hint: "항목별 시트로 나눠 저장합니다." },
+  { value: "csv", label: "CSV", hint: "항목이 여러 개면 CSV 묶음(zip)으로 저장합니다." },
+  { value: "json", label: "JSON", hint: "원본 데이터를 그대로 담은 백업 파일입니다." },
+];
+
+function parseDateInput(value: string, endOfDay = false) {
+  const [yearText, monthText, dayText] = value.split("-");
+  const year = Number(yearText);
+  const month = Number(monthText);
+  const day = Number(dayText);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+}
+
+export default function LedgerExportSection({
+  householdId,
+  onToast,
+}: LedgerExportSectionProps) {
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [format, setFormat] = useState<LedgerExportFileFormat>("xlsx");
+  const [datasets, setDatasets] = useState<LedgerExportDataset[]>(
+    LEDGER_EXPORT_DATASETS.map(({ dataset }) => dataset)
+  );
+  const [exporting, setExporting] = useState(false);
+
+  function toggleDataset(dataset: LedgerExportDataset) {
+    setDatasets((prev) =>
+      prev.includes(dataset)
+        ? prev.filter((item) => item !== dataset)
+        : [...prev, dataset]
+    );
+  }
+
+  async function handleExport() {
+    if (!householdId || datasets.length === 0) {
+      return;
+    }
+    const range = {
+      startDate: startDate ? parseDateInput(startDate) : null,
+      endDate: endDate ? parseDateInput(endDate, true) : null,
+    };
+    if (range.startDate && range.endDate && range.endDate < range.startDate) {
+      onToast("종료일은 시작일 이후여야 합니다.", "error");
+      return;
+    }
+    setExporting(true);
+    try {
+      const data = await loadLedgerExportData({ householdId, range, datasets });
+      const { blob, fileName } = buildLedgerExportFile({
+        data,
+        datasets,
+        format,
+        now: new Date(),
+      });
+      downloadBlob(blob, fileName);
+      onToast(`${fileName} 파일을 내려받았습니다.`, "success");
+    } catch {
+      onToast("내보내기에 실패했습니다.", "error");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const selectedFormat = exportFormatOptions.find((option) => option.value === format);
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-[color:rgba(45,38,34,0.7)]">
+          시작일
+          <input
+            type="date"
+            className="mt-1 w-full rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm text-[color:rgba(45,38,34,0.9)]"
+            value={startDate}
+            onChange={(event) => setStartDate(event.target.value)}
+            disabled={exporting}
+          />
+        </label>
+        <label className="text-xs text-[color:rgba(45,38,34,0.7)]">
+          종료일
+          <input
+            type="date"
+            className="mt-1 w-full rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm text-[color:rgba(45,38,34,0.9)]"
+            value={endDate}
+            onChange={(event) => setEndDate(event.target.value)}
+            disabled={exporting}
+          />
+        </label>
+      </div>
+      <p className="text-[11px] text-[color:rgba(45,38,34,0.55)]">
+        기간을 비워두면 전체를 내보냅니다. 계좌는 현재 잔액 기준입니다.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {LEDGER_EXPORT_DATASETS.map(({ dataset, label }) => {
+          const selected = datasets.includes(dataset);
+          return (
+            <button
+              key={dataset}
+              type="button"
+              className={`rounded-full border px-3 py-1.5 text-xs ${
+                selected
+                  ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                  : "border-[var(--border)]"
+              }`}
+              onClick={() => toggleDataset(dataset)}
+              disabled={exporting}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex gap-2">
+        {exportFormatOptions.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-1.5 rounded-xl border border-[var(--border)] px-3 py-2 text-xs"
+          >
+            <input
+              type="radio"
+              name="ledger-export-format"
+              checked={format === option.value}
+              onChange={() => setFormat(option.value)}
+              disabled={exporting}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      {selectedFormat ? (
+        <p className="text-[11px] text-[color:rgba(45,38,34,0.55)]">
+          {selectedFormat.hint}
+        </p>
+      ) : null}
+      <button
+        type="button"
+        className="rounded-xl bg-[var(--accent)] px-4 py-2.5 text-sm text-white disabled:opacity-60"
+        onClick={handleExport}
+        disabled={!householdId || exporting || datasets.length === 0}
+      >
+        {exporting ? "내보내는 중..." : "내보내기"}
+      </button>
+    </div>
+  );
+}
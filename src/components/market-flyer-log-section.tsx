@@ -115,7 +115,11 @@ export default function MarketFlyerLogSection({
     setLoading(true);
     setError(null);
     try {
-      const nextLogs = await getLatestAutomationLogs(householdId, 20);
+      const nextLogs = await getLatestAutomationLogs(
+        householdId,
+        20,
+        "ruliweb-market-flyers"
+      );
       setLogs(nextLogs);
     } catch (loadError) {
       console.error("[settings/market-flyer-logs] load failed", loadError);
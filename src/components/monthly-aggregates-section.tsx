@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { rebuildMonthlyAggregates } from "@/lib/monthly-aggregates";
+
+type ToastLevel = "success" | "error" | "info";
+
+type MonthlyAggregatesSectionProps = {
+  householdId: string | null;
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+export default function MonthlyAggregatesSection({
+  householdId,
+  onToast,
+}: MonthlyAggregatesSectionProps) {
+  const [rebuilding, setRebuilding] = useState(false);
+  const [processed, setProcessed] = useState(0);
+
+  async function handleRebuild() {
+    if (!householdId || rebuilding) {
+      return;
+    }
+    setRebuilding(true);
+    setProcessed(0);
+    try {
+      const result = await rebuildMonthlyAggregates({
+        householdId,
+        onProgress: setProcessed,
+      });
+      onToast(
+        `${result.processed}건으로 ${result.months}개월의 집계를 다시 만들었습니다.`,
+        "success"
+      );
+    } catch {
+      onToast("월별 집계를 만들지 못했습니다.", "error");
+    } finally {
+      setRebuilding(false);
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+      <h2 className="text-sm font-semibold">월별 집계</h2>
+      <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+        예산 차트는 내역을 저장할 때 함께 고친 월별 합계를 읽습니다. 집계를 한 번도 만들지
+        않은 가계부는 차트가 내역을 직접 읽습니다. 예전 내역이 차트에 빠져 있거나 합계가
+        맞지 않으면 집계를 다시 만드세요. 다시 만드는 동안 저장된 내역은 빠질 수 있으니
+        다른 사람이 내역을 고치지 않을 때 실행하세요.
+      </p>
+      <button
+        type="button"
+        className="mt-4 inline-flex items-center rounded-full border border-[var(--border)] px-4 py-2 text-sm disabled:opacity-60"
+        onClick={() => void handleRebuild()}
+        disabled={!householdId || rebuilding}
+      >
+        {rebuilding ? `집계 만드는 중... (${processed}건)` : "월별 집계 다시 만들기"}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatKrw } from "@/lib/format";
+import {
+  listUpcomingOccurrences,
+  toLocalDateKey,
+  toRecurringSchedule,
+} from "@/lib/recurring-schedule";
+import {
+  clearRecurringOccurrenceException,
+  setRecurringOccurrenceException,
+} from "@/lib/recurring-transactions";
+import type { RecurringTransactionRule } from "@/types/ledger";
+
+const UPCOMING_LIMIT = 3;
+const UPCOMING_RANGE_MONTHS = 24;
+
+type RecurringOccurrenceExceptionsProps = {
+  householdId: string;
+  ruleId: string;
+  rule: RecurringTransactionRule;
+  now: Date;
+  onResult: (message: string, level: "success" | "error") => void;
+};
+
+function normalizeNumberInput(value: string) {
+  return value.replace(/[^\d]/g, "");
+}
+
+export default function RecurringOccurrenceExceptions({
+  householdId,
+  ruleId,
+  rule,
+  now,
+  onResult,
+}: RecurringOccurrenceExceptionsProps) {
+  const [editingDateKey, setEditingDateKey] = useState<string | null>(null);
+  const [moveDate, setMoveDate] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const occurrences = useMemo(() => {
+    const until = new Date(
+      now.getFullYear(),
+      now.getMonth() + UPCOMING_RANGE_MONTHS,
+      now.getDate()
+    );
+    return listUpcomingOccurrences(toRecurringSchedule(rule), now, until).slice(
+      0,
+      UPCOMING_LIMIT
+    );
+  }, [now, rule]);
+
+  async function runUpdate(task: () => Promise<unknown>, message: string) {
+    setSaving(true);
+    try {
+      await task();
+      onResult(message, "success");
+      setEditingDateKey(null);
+    } catch {
+      onResult("회차 변경에 실패했습니다.", "error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function openEditor(dateKey: string) {
+    const exception = rule.exceptions?.[dateKey];
+    setEditingDateKey(dateKey);
+    setMoveDate(exception?.moveToDateKey ?? dateKey);
+    setAmountInput(String(exception?.amount ?? rule.amount));
+  }
+
+  function handleToggleSkip(dateKey: string, skipped: boolean) {
+    if (skipped) {
+      void runUpdate(
+        () => clearRecurringOccurrenceException(householdId, ruleId, dateKey),
+        `${dateKey} 회차를 다시 등록합니다.`
+      );
+      return;
+    }
+    void runUpdate(
+      () =>
+        setRecurringOccurrenceException({
+          householdId,
+          ruleId,
+          occurrenceDateKey: dateKey,
+          exception: { skip: true },
+        }),
+      `${dateKey} 회차를 건너뜁니다.`
+    );
+  }
+
+  function handleSaveEditor(dateKey: string) {
+    const amount = Number(normalizeNumberInput(amountInput));
+    if (!moveDate || !amount) {
+      onResult("날짜와 금액을 확인해주세요.", "error");
+      return;
+    }
+    const moveToDateKey = moveDate !== dateKey ? moveDate : undefined;
+    const amountOverride = amount !== rule.amount ? amount : undefined;
+    if (!moveToDateKey && amountOverride === undefined) {
+      void runUpdate(
+        () => clearRecurringOccurrenceException(householdId, ruleId, dateKey),
+        `${dateKey} 회차를 원래 설정으로 되돌렸습니다.`
+      );
+      return;
+    }
+    void runUpdate(
+      () =>
+        setRecurringOccurrenceException({
+          householdId,
+          ruleId,
+          occurrenceDateKey: dateKey,
+          exception: { moveToDateKey, amount: amountOverride },
+        }),
+      `${dateKey} 회차를 변경했습니다.`
+    );
+  }
+
+  if (occurrences.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-[color:rgba(45,38,34,0.55)]">
+        앞으로 등록될 회차가 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {occurrences.map((occurrence) => {
+        const effectiveDateKey = toLocalDateKey(occurrence.date);
+        const isMoved = effectiveDateKey !== occurrence.dateKey;
+        const isEditing = editingDateKey === occurrence.dateKey;
+        return (
+          <div
+            key={occurrence.dateKey}
+            className="rounded-xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-3 py-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0 text-xs">
+                <p
+                  className={
+                    occurrence.skipped
+                      ? "text-[color:rgba(45,38,34,0.45)] line-through"
+                      : "font-medium"
+                  }
+                >
+                  {isMoved
+                    ? `${occurrence.dateKey} → ${effectiveDateKey}`
+                    : occurrence.dateKey}{" "}
+                  · {formatKrw(occurrence.amount ?? rule.amount)}
+                </p>
+                {occurrence.skipped ? (
+                  <p className="mt-0.5 text-[11px] text-[color:rgba(45,38,34,0.55)]">
+                    건너뛰는 회차
+                  </p>
+                ) : occurrence.amount !== undefined ? (
+                  <p className="mt-0.5 text-[11px] text-[color:rgba(45,38,34,0.55)]">
+                    이번 회차만 금액 변경
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  type="button"
+                  className="rounded-full border border-[var(--border)] px-2.5 py-1 text-[11px] disabled:opacity-60"
+                  onClick={() =>
+                    handleToggleSkip(occurrence.dateKey, occurrence.skipped)
+                  }
+                  disabled={saving}
+                >
+                  {occurrence.skipped ? "되돌리기" : "건너뛰기"}
+                </button>
+                {!occurrence.skipped ? (
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-2.5 py-1 text-[11px] disabled:opacity-60"
+                    onClick={() =>
+                      isEditing
+                        ? setEditingDateKey(null)
+                        : openEditor(occurrence.dateKey)
+                    }
+                    disabled={saving}
+                  >
+                    {isEditing ? "닫기" : "변경"}
+                  </button>
+                ) : null}
+              </div>
+            </div>
+            {isEditing ? (
+              <div className="mt-2 grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+                <input
+                  type="date"
+                  className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+                  value={moveDate}
+                  onChange={(event) => setMoveDate(event.target.value)}
+                  disabled={saving}
+                />
+                <input
+                  inputMode="numeric"
+                  className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-right text-xs"
+                  value={amountInput}
+                  onChange={(event) =>
+                    setAmountInput(normalizeNumberInput(event.target.value))
+                  }
+                  disabled={saving}
+                />
+                <button
+                  type="button"
+                  className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-xs text-white disabled:opacity-60"
+                  onClick={() => handleSaveEditor(occurrence.dateKey)}
+                  disabled={saving}
+                >
+                  저장
+                </button>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -28,7 +28,10 @@ export default function RecurringTransactionsSync() {
       }
       lastRunAtRef.current = now;
       try {
-        await syncRecurringTransactionRules(activeHouseholdId);
+        const { failedRuleIds } = await syncRecurringTransactionRules(activeHouseholdId);
+        if (failedRuleIds.length > 0) {
+          console.error("Failed to sync recurring rules", failedRuleIds);
+        }
       } catch (error) {
         console.error("Failed to sync recurring transactions", error);
       }
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import { useTags } from "@/hooks/use-tags";
+import { addTag, deleteTag, normalizeTagName, renameTag } from "@/lib/tags";
+
+type TagManagementSectionProps = {
+  householdId: string | null;
+  user: { uid: string } | null;
+  userName: string | null;
+  usageCounts: Record<string, number>;
+};
+
+export default function TagManagementSection({
+  householdId,
+  user,
+  userName,
+  usageCounts,
+}: TagManagementSectionProps) {
+  const { tags, loading } = useTags(householdId);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleAdd() {
+    const name = normalizeTagName(newName);
+    if (!householdId || !name) {
+      return;
+    }
+    if (tags.some((tag) => tag.name === name)) {
+      setError("이미 있는 태그입니다.");
+      return;
+    }
+    setError(null);
+    setBusyId("new");
+    try {
+      await addTag(householdId, {
+        name,
+        order: tags.reduce((max, tag) => Math.max(max, tag.order), 0) + 1,
+      });
+      setNewName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "태그를 추가하지 못했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleRename(tagId: string, oldName: string) {
+    const name = normalizeTagName(editingName);
+    if (!householdId || !user || !name) {
+      return;
+    }
+    if (
+      name !== oldName &&
+      tags.some((tag) => tag.id !== tagId && tag.name === name) &&
+      !window.confirm(`#${name} 태그가 이미 있습니다. 두 태그를 합칠까요?`)
+    ) {
+      return;
+    }
+    setError(null);
+    setBusyId(tagId);
+    try {
+      await renameTag({
+        householdId,
+        tagId,
+        oldName,
+        newName: name,
+        existingTags: tags,
+        updatedBy: user.uid,
+        updatedByName: userName,
+      });
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "태그 이름을 바꾸지 못했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(tagId: string, name: string) {
+    if (!householdId || !user) {
+      return;
+    }
+    const usageCount = usageCounts[name] ?? 0;
+    const confirmMessage =
+      usageCount > 0
+        ? `#${name} 태그를 삭제할까요? 내역 ${usageCount}건에서 태그가 빠집니다.`
+        : `#${name} 태그를 삭제할까요?`;
+    if (!window.confirm(confirmMessage)) {
+      return;
+    }
+    setError(null);
+    setBusyId(tagId);
+    try {
+      await deleteTag({
+        householdId,
+        tagId,
+        name,
+        updatedBy: user.uid,
+        updatedByName: userName,
+      });
+    } catch {
+      setError("태그를 삭제하지 못했습니다.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-[var(--border)] bg-white p-6">
+      <h2 className="text-base font-semibold">태그</h2>
+      <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+        여행이나 행사처럼 카테고리와 별개로 묶어 보고 싶은 내역에 붙입니다. 이름을 바꾸거나
+        지우면 붙어 있던 내역과 자동 등록에도 반영됩니다.
+      </p>
+      <div className="mt-4 flex gap-2">
+        <input
+          type="text"
+          className="min-w-0 flex-1 rounded-xl border border-[var(--border)] px-3 py-2 text-sm"
+          placeholder="#제주여행"
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && !event.nativeEvent.isComposing) {
+              event.preventDefault();
+              void handleAdd();
+            }
+          }}
+          disabled={!householdId || busyId === "new"}
+        />
+        <button
+          type="button"
+          className="shrink-0 rounded-xl bg-[var(--accent)] px-4 py-2 text-sm text-white disabled:opacity-60"
+          onClick={handleAdd}
+          disabled={!householdId || busyId === "new" || !normalizeTagName(newName)}
+        >
+          추가
+        </button>
+      </div>
+      {error ? <p className="mt-2 text-xs text-red-600">{error}</p> : null}
+      {loading ? (
+        <p className="mt-4 text-sm text-[color:rgba(45,38,34,0.6)]">불러오는 중...</p>
+      ) : tags.length === 0 ? (
+        <p className="mt-4 text-sm text-[color:rgba(45,38,34,0.6)]">아직 태그가 없습니다.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {tags.map((tag) => (
+            <li
+              key={tag.id}
+              className="flex items-center justify-between gap-2 rounded-2xl border border-[var(--border)] px-4 py-3 text-sm"
+            >
+              {editingId === tag.id ? (
+                <div className="flex w-full flex-wrap items-center gap-2">
+                  <input
+                    className="flex-1 rounded-xl border border-[var(--border)] px-3 py-2 text-sm"
+                    value={editingName}
+                    onChange={(event) => setEditingName(event.target.value)}
+                    disabled={busyId === tag.id}
+                  />
+                  <button
+                    type="button"
+                    className="rounded-full bg-[var(--accent)] px-3 py-1 text-xs text-white disabled:opacity-60"
+                    onClick={() => handleRename(tag.id, tag.name)}
+                    disabled={busyId === tag.id}
+                  >
+                    {busyId === tag.id ? "저장 중..." : "저장"}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-full border border-[var(--border)] px-3 py-1 text-xs"
+                    onClick={() => setEditingId(null)}
+                    disabled={busyId === tag.id}
+                  >
+                    취소
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="min-w-0">
+                    <span className="font-medium">#{tag.name}</span>
+                    <span className="ml-2 text-xs text-[color:rgba(45,38,34,0.5)]">
+                      {usageCounts[tag.name] ?? 0}건
+                    </span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <button
+                      type="button"
+                      className="text-xs text-[color:rgba(45,38,34,0.6)]"
+                      onClick={() => {
+                        setEditingId(tag.id);
+                        setEditingName(tag.name);
+                      }}
+                      disabled={busyId !== null}
+                    >
+                      편집
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-red-600 disabled:opacity-60"
+                      onClick={() => handleDelete(tag.id, tag.name)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === tag.id ? "삭제 중..." : "삭제"}
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { formatKrw } from "@/lib/format";
+import {
+  buildTagReport,
+  listTransactionsByTag,
+  type TagReportEntry,
+} from "@/lib/tags";
+import { formatDate } from "@/lib/time";
+import type { Transaction } from "@/types/ledger";
+
+type TagReportSectionProps = {
+  householdId: string | null;
+  tagNames: string[];
+  preferredTag?: string | null;
+  categoryNameById: Map<string, string>;
+  paymentMethodNameById: Map<string, string>;
+  isVisible?: (tx: Transaction) => boolean;
+};
+
+function TagReportList({
+  title,
+  entries,
+  total,
+}: {
+  title: string;
+  entries: TagReportEntry[];
+  total: number;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-[color:rgba(45,38,34,0.6)]">{title}</p>
+      {entries.length === 0 ? (
+        <p className="text-xs text-[color:rgba(45,38,34,0.5)]">지출 내역이 없습니다.</p>
+      ) : (
+        entries.map((entry) => (
+          <div key={entry.key || entry.label} className="flex items-center justify-between">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{entry.label}</p>
+              <p className="text-xs text-[color:rgba(45,38,34,0.5)]">
+                {entry.count}건 · {total > 0 ? Math.round((entry.amount / total) * 100) : 0}%
+              </p>
+            </div>
+            <p className="ml-4 whitespace-nowrap text-sm font-semibold">
+              {formatKrw(entry.amount)}
+            </p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function TagReportSection({
+  householdId,
+  tagNames,
+  preferredTag,
+  categoryNameById,
+  paymentMethodNameById,
+  isVisible,
+}: TagReportSectionProps) {
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    key: string;
+    transactions: Transaction[];
+    error: boolean;
+  } | null>(null);
+  const activeTag =
+    (selectedTag && tagNames.includes(selectedTag) ? selectedTag : null) ??
+    (preferredTag && tagNames.includes(preferredTag) ? preferredTag : null) ??
+    tagNames[0] ??
+    null;
+  const requestKey = householdId && activeTag ? `${householdId}:${activeTag}` : null;
+
+  // A trip usually crosses month boundaries, so the report loads every
+  // tagged transaction instead of reusing the stats period.
+  useEffect(() => {
+    if (!householdId || !activeTag || !requestKey) {
+      return;
+    }
+    let active = true;
+    listTransactionsByTag(householdId, activeTag)
+      .then((transactions) => {
+        if (active) {
+          setResult({ key: requestKey, transactions, error: false });
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setResult({ key: requestKey, transactions: [], error: true });
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [activeTag, householdId, requestKey]);
+
+  const loading = Boolean(requestKey) && result?.key !== requestKey;
+  const report = useMemo(() => {
+    if (!activeTag || !result || result.key !== requestKey) {
+      return null;
+    }
+    const transactions = isVisible
+      ? result.transactions.filter(isVisible)
+      : result.transactions;
+    return buildTagReport(activeTag, transactions, {
+      categoryNameById,
+      paymentMethodNameById,
+    });
+  }, [activeTag, categoryNameById, isVisible, paymentMethodNameById, requestKey, result]);
+
+  if (tagNames.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold">태그 리포트</p>
+          <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+            여행·행사처럼 태그로 묶은 내역을 기간과 상관없이 모아 봅니다.
+          </p>
+        </div>
+        <select
+          className="shrink-0 rounded-xl border border-[var(--border)] bg-white px-2 py-2 text-sm"
+          value={activeTag ?? ""}
+          onChange={(event) => setSelectedTag(event.target.value)}
+        >
+          {tagNames.map((name) => (
+            <option key={name} value={name}>
+              #{name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {loading ? (
+        <p className="mt-4 text-sm text-[color:rgba(45,38,34,0.6)]">불러오는 중...</p>
+      ) : result?.error ? (
+        <p className="mt-4 text-sm text-red-600">태그 내역을 불러오지 못했습니다.</p>
+      ) : report && report.transactionCount > 0 ? (
+        <div className="mt-4 space-y-5">
+          <div className="flex items-end justify-between gap-3">
+            <div>
+              <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                {report.firstDate && report.lastDate
+                  ? `${formatDate(report.firstDate, "yy.MM.dd")}~${formatDate(
+                      report.lastDate,
+                      "yy.MM.dd"
+                    )}`
+                  : ""}{" "}
+                · {report.transactionCount}건
+              </p>
+              <p className="mt-1 text-2xl font-semibold">{formatKrw(report.expenseTotal)}</p>
+            </div>
+            {report.incomeTotal > 0 ? (
+              <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                수입 {formatKrw(report.incomeTotal)}
+              </p>
+            ) : null}
+          </div>
+          <TagReportList
+            title="카테고리별"
+            entries={report.byCategory}
+            total={report.expenseTotal}
+          />
+          <TagReportList
+            title="구성원별"
+            entries={report.bySubject}
+            total={report.expenseTotal}
+          />
+          <TagReportList
+            title="자산별"
+            entries={report.byPaymentMethod}
+            total={report.expenseTotal}
+          />
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-[color:rgba(45,38,34,0.6)]">
+          #{activeTag} 태그가 붙은 내역이 없습니다.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  MAX_TRANSACTION_ATTACHMENTS,
+  attachmentKindLabelMap,
+  getAttachmentUrl,
+  removeTransactionAttachment,
+  uploadTransactionAttachments,
+} from "@/lib/transaction-attachments";
+import type { TransactionAttachment, TransactionAttachmentKind } from "@/types/ledger";
+
+type TransactionAttachmentsSectionProps = {
+  householdId: string;
+  userId: string;
+  transactionId: string;
+  attachments: TransactionAttachment[];
+  onAttachmentsChange: (next: TransactionAttachment[]) => void;
+  disabled?: boolean;
+};
+
+const attachmentKindOptions: TransactionAttachmentKind[] = ["receipt", "warranty"];
+
+function useAttachmentUrl(path: string | null) {
+  const [resolved, setResolved] = useState<{ path: string; url: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!path) {
+      return;
+    }
+    let active = true;
+    getAttachmentUrl(path)
+      .then((url) => {
+        if (active) {
+          setResolved({ path, url });
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setResolved({ path, url: null });
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [path]);
+
+  if (!path || resolved?.path !== path) {
+    return { url: null, loading: Boolean(path) };
+  }
+  return { url: resolved.url, loading: false };
+}
+
+function AttachmentImage({
+  path,
+  alt,
+  className,
+}: {
+  path: string;
+  alt: string;
+  className: string;
+}) {
+  const { url, loading } = useAttachmentUrl(path);
+  if (!url) {
+    return (
+      <div
+        className={`${className} flex items-center justify-center bg-[color:rgba(45,38,34,0.05)] text-[11px] text-[color:rgba(45,38,34,0.5)]`}
+      >
+        {loading ? "불러오는 중" : "표시할 수 없음"}
+      </div>
+    );
+  }
+  // Storage download URLs carry their own token, so they bypass next/image.
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={url} alt={alt} className={className} />;
+}
+
+export default function TransactionAttachmentsSection({
+  householdId,
+  userId,
+  transactionId,
+  attachments,
+  onAttachmentsChange,
+  disabled = false,
+}: TransactionAttachmentsSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<TransactionAttachmentKind>("receipt");
+  const [uploading, setUploading] = useState<{ done: number; total: number } | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<TransactionAttachment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const busy = disabled || uploading !== null || removingId !== null;
+  const remaining = MAX_TRANSACTION_ATTACHMENTS - attachments.length;
+
+  async function handleFilesSelected(fileList: FileList | null) {
+    const files = Array.from(fileList ?? []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (files.length === 0) {
+      return;
+    }
+    setError(null);
+    setUploading({ done: 0, total: files.length });
+    try {
+      const added = await uploadTransactionAttachments({
+        householdId,
+        transactionId,
+        files,
+        kind,
+        existingCount: attachments.length,
+        uploadedBy: userId,
+        onProgress: (done) => setUploading({ done, total: files.length }),
+      });
+      onAttachmentsChange([...attachments, ...added]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "사진을 올리지 못했습니다.");
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  async function handleRemove(attachment: TransactionAttachment) {
+    if (!window.confirm(`${attachmentKindLabelMap[attachment.kind]} 사진을 삭제할까요?`)) {
+      return;
+    }
+    setError(null);
+    setRemovingId(attachment.id);
+    try {
+      await removeTransactionAttachment({ householdId, transactionId, attachment });
+      onAttachmentsChange(attachments.filter((item) => item.id !== attachment.id));
+      setViewing(null);
+    } catch {
+      setError("사진을 삭제하지 못했습니다.");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold">영수증·보증서 사진</p>
+          <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+            {attachments.length > 0
+              ? `${attachments.length}장 첨부됨 · 최대 ${MAX_TRANSACTION_ATTACHMENTS}장`
+              : "사진은 줄여서 저장되고, 내역을 삭제하면 함께 지워집니다."}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <select
+            className="rounded-xl border border-[var(--border)] bg-white px-2 py-2 text-xs"
+            value={kind}
+            onChange={(event) => setKind(event.target.value as TransactionAttachmentKind)}
+            disabled={busy}
+          >
+            {attachmentKindOptions.map((option) => (
+              <option key={option} value={option}>
+                {attachmentKindLabelMap[option]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs disabled:opacity-60"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy || remaining <= 0}
+          >
+            {uploading ? `올리는 중 ${uploading.done}/${uploading.total}` : "사진 추가"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(event) => handleFilesSelected(event.target.files)}
+          />
+        </div>
+      </div>
+      {attachments.length > 0 ? (
+        <div className="mt-3 grid grid-cols-3 gap-2 sm:grid-cols-4">
+          {attachments.map((attachment) => (
+            <button
+              key={attachment.id}
+              type="button"
+              className="relative overflow-hidden rounded-xl border border-[var(--border)] bg-white"
+              onClick={() => setViewing(attachment)}
+              disabled={removingId === attachment.id}
+            >
+              <AttachmentImage
+                path={attachment.thumbnailPath}
+                alt={attachment.name}
+                className="aspect-square w-full object-cover"
+              />
+              <span className="absolute left-1 top-1 rounded-full bg-white/90 px-1.5 py-0.5 text-[10px]">
+                {attachmentKindLabelMap[attachment.kind]}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {error ? <p className="mt-2 text-xs text-red-600">{error}</p> : null}
+      {viewing ? (
+        <div
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-3 bg-black/80 p-4"
+          onClick={() => setViewing(null)}
+        >
+          <AttachmentImage
+            path={viewing.path}
+            alt={viewing.name}
+            className="max-h-[80vh] max-w-full rounded-xl object-contain"
+          />
+          <div className="flex gap-2" onClick={(event) => event.stopPropagation()}>
+            <button
+              type="button"
+              className="rounded-full border border-white/40 px-3 py-1.5 text-xs text-white disabled:opacity-60"
+              onClick={() => handleRemove(viewing)}
+              disabled={busy}
+            >
+              {removingId === viewing.id ? "삭제 중..." : "삭제"}
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-white/40 px-3 py-1.5 text-xs text-white"
+              onClick={() => setViewing(null)}
+            >
+              닫기
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
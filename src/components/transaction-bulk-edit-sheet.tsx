@@ -0,0 +1,386 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import TransactionTagInput from "@/components/transaction-tag-input";
+import { formatPaymentMethodLabel } from "@/lib/payment-method-resolver";
+import { ensureTags } from "@/lib/tags";
+import {
+  bulkMoveTransactionsToTrash,
+  bulkUpdateTransactions,
+  getBulkActionFields,
+  type TransactionBulkAction,
+} from "@/lib/transaction-bulk-actions";
+import { getTrashItemId } from "@/lib/trash";
+import { captureUndoState, recordUndoEntry } from "@/lib/undo-actions";
+import type {
+  Category,
+  PaymentMethod,
+  Subject,
+  Tag,
+  Transaction,
+} from "@/types/ledger";
+
+type BulkActionKind = TransactionBulkAction["kind"] | "delete";
+
+type TransactionBulkEditSheetProps = {
+  householdId: string;
+  userId: string;
+  userName: string | null;
+  transactions: (Transaction & { id: string })[];
+  categories: (Category & { id: string })[];
+  subjects: (Subject & { id: string })[];
+  paymentMethods: (PaymentMethod & { id: string })[];
+  tags: (Tag & { id: string })[];
+  onClose: () => void;
+  onDone: (message: string | null) => void;
+};
+
+const actionOptions: { value: BulkActionKind; label: string }[] = [
+  { value: "category", label: "카테고리" },
+  { value: "subject", label: "주체" },
+  { value: "paymentMethod", label: "결제수단" },
+  { value: "budgetApplied", label: "예산 반영" },
+  { value: "shiftDate", label: "날짜 이동" },
+  { value: "addTags", label: "태그 추가" },
+  { value: "delete", label: "삭제" },
+];
+
+export default function TransactionBulkEditSheet({
+  householdId,
+  userId,
+  userName,
+  transactions,
+  categories,
+  subjects,
+  paymentMethods,
+  tags,
+  onClose,
+  onDone,
+}: TransactionBulkEditSheetProps) {
+  const [actionKind, setActionKind] = useState<BulkActionKind>("category");
+  const [categoryId, setCategoryId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [paymentMethodId, setPaymentMethodId] = useState("");
+  const [budgetApplied, setBudgetApplied] = useState(true);
+  const [shiftDaysInput, setShiftDaysInput] = useState("1");
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTypes = useMemo(
+    () => Array.from(new Set(transactions.map((transaction) => transaction.type))),
+    [transactions]
+  );
+  const categoryType = selectedTypes.length === 1 ? selectedTypes[0] : null;
+  const categoryOptions = useMemo(
+    () =>
+      categories
+        .filter((category) => category.type === categoryType)
+        .sort((a, b) => a.order - b.order),
+    [categories, categoryType]
+  );
+  const categoryNameMap = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+
+  function buildAction(): TransactionBulkAction | null {
+    if (actionKind === "category") {
+      return categoryId && categoryType
+        ? { kind: "category", categoryId, categoryType }
+        : null;
+    }
+    if (actionKind === "subject") {
+      return subject ? { kind: "subject", subject } : null;
+    }
+    if (actionKind === "paymentMethod") {
+      const method = paymentMethods.find((item) => item.id === paymentMethodId);
+      return method
+        ? {
+            kind: "paymentMethod",
+            paymentMethod: formatPaymentMethodLabel(method.name),
+            paymentMethodId: method.id,
+          }
+        : null;
+    }
+    if (actionKind === "budgetApplied") {
+      return { kind: "budgetApplied", budgetApplied };
+    }
+    if (actionKind === "shiftDate") {
+      const days = Number(shiftDaysInput);
+      return Number.isInteger(days) && days !== 0 ? { kind: "shiftDate", days } : null;
+    }
+    if (actionKind === "addTags") {
+      return tagsToAdd.length > 0 ? { kind: "addTags", tags: tagsToAdd } : null;
+    }
+    return null;
+  }
+
+  function describeAction(action: TransactionBulkAction) {
+    switch (action.kind) {
+      case "category":
+        return `카테고리 → ${categoryNameMap.get(action.categoryId) ?? "미분류"}`;
+      case "subject":
+        return `주체 → ${action.subject}`;
+      case "paymentMethod":
+        return `결제수단 → ${action.paymentMethod}`;
+      case "budgetApplied":
+        return action.budgetApplied ? "예산 반영" : "예산 제외";
+      case "shiftDate":
+        return `날짜 ${action.days > 0 ? `${action.days}일 뒤로` : `${-action.days}일 앞으로`}`;
+      case "addTags":
+        return `태그 추가 ${action.tags.map((tag) => `#${tag}`).join(" ")}`;
+    }
+  }
+
+  async function handleDelete() {
+    if (
+      !window.confirm(
+        `선택한 내역 ${transactions.length}건을 휴지통으로 옮길까요? 30일 안에 복원할 수 있습니다.`
+      )
+    ) {
+      return;
+    }
+    const transactionIds = transactions.map((transaction) => transaction.id);
+    const refundOriginalIds = Array.from(
+      new Set(transactions.flatMap((transaction) => transaction.refundOf ?? []))
+    );
+    const generatedRuleIds = Array.from(
+      new Set(
+        transactions.flatMap((transaction) => transaction.generatedFromRecurringRuleId ?? [])
+      )
+    );
+    const undoCapture = await captureUndoState(householdId, [
+      ...transactionIds.flatMap((id) => [
+        `transactions/${id}`,
+        `trash/${getTrashItemId("transaction", id)}`,
+      ]),
+      ...refundOriginalIds.map((id) => ({
+        path: `transactions/${id}`,
+        fields: ["refundedAmount"],
+      })),
+      ...generatedRuleIds.map((id) => ({
+        path: `recurringTransactionRules/${id}`,
+        fields: ["exceptions"],
+      })),
+    ]);
+    const deletedCount = await bulkMoveTransactionsToTrash({
+      householdId,
+      transactionIds,
+      deletedBy: userId,
+    });
+    await recordUndoEntry({
+      householdId,
+      capture: undoCapture,
+      kind: "transaction.bulkDelete",
+      label: `내역 ${deletedCount}건 삭제`,
+    });
+    onDone(null);
+  }
+
+  async function handleApply() {
+    if (saving) {
+      return;
+    }
+    setError(null);
+    if (actionKind !== "delete" && !buildAction()) {
+      setError(
+        actionKind === "category" && !categoryType
+          ? "수입·지출이 섞여 있으면 카테고리를 한 번에 바꿀 수 없습니다."
+          : "바꿀 값을 선택해주세요."
+      );
+      return;
+    }
+    setSaving(true);
+    try {
+      if (actionKind === "delete") {
+        await handleDelete();
+        return;
+      }
+      const action = buildAction();
+      if (!action) {
+        return;
+      }
+      if (action.kind === "addTags") {
+        await ensureTags(householdId, action.tags, tags);
+      }
+      const transactionIds = transactions.map((transaction) => transaction.id);
+      const fields = getBulkActionFields(action);
+      const undoCapture = await captureUndoState(
+        householdId,
+        transactionIds.map((id) => ({ path: `transactions/${id}`, fields }))
+      );
+      const { updated, skipped } = await bulkUpdateTransactions({
+        householdId,
+        transactionIds,
+        action,
+        updatedBy: userId,
+        updatedByName: userName,
+      });
+      await recordUndoEntry({
+        householdId,
+        capture: undoCapture,
+        kind: "transaction.bulkUpdate",
+        label: `내역 ${updated}건 ${describeAction(action)}`,
+      });
+      onDone(
+        skipped > 0
+          ? `${updated}건을 바꿨습니다. 분할·환불 내역이거나 해당하지 않는 ${skipped}건은 그대로 두었습니다.`
+          : null
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "일괄 편집에 실패했습니다.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end bg-black/40">
+      <div className="max-h-[85svh] w-full overflow-y-auto rounded-t-3xl border border-[var(--border)] bg-white px-5 pt-5 pb-[calc(1.5rem+env(safe-area-inset-bottom))] sm:px-6">
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            className="rounded-full border border-[var(--border)] px-4 py-2 text-sm"
+            onClick={onClose}
+            disabled={saving}
+          >
+            닫기
+          </button>
+          <h2 className="text-base font-semibold">{transactions.length}건 일괄 편집</h2>
+          <div className="w-14" />
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {actionOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`rounded-full border px-3 py-1.5 text-sm ${
+                actionKind === option.value
+                  ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                  : "border-[var(--border)] text-[color:rgba(45,38,34,0.7)]"
+              }`}
+              onClick={() => {
+                setActionKind(option.value);
+                setError(null);
+              }}
+              disabled={saving}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="mt-4 text-sm">
+          {actionKind === "category" ? (
+            categoryType ? (
+              <select
+                className="w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                value={categoryId}
+                onChange={(event) => setCategoryId(event.target.value)}
+              >
+                <option value="">카테고리 선택</option>
+                {categoryOptions.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                수입·지출이 섞여 있으면 카테고리를 한 번에 바꿀 수 없습니다.
+              </p>
+            )
+          ) : null}
+          {actionKind === "subject" ? (
+            <select
+              className="w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+              value={subject}
+              onChange={(event) => setSubject(event.target.value)}
+            >
+              <option value="">주체 선택</option>
+              {subjects.map((item) => (
+                <option key={item.id} value={item.name}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          {actionKind === "paymentMethod" ? (
+            <select
+              className="w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+              value={paymentMethodId}
+              onChange={(event) => setPaymentMethodId(event.target.value)}
+            >
+              <option value="">결제수단 선택</option>
+              {paymentMethods.map((method) => (
+                <option key={method.id} value={method.id}>
+                  {formatPaymentMethodLabel(method.name)}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          {actionKind === "budgetApplied" ? (
+            <div className="flex gap-2">
+              {[
+                { value: true, label: "예산에 반영" },
+                { value: false, label: "예산에서 제외" },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  className={`flex-1 rounded-xl border px-4 py-3 ${
+                    budgetApplied === option.value
+                      ? "border-[var(--accent)] bg-[color:rgba(145,102,82,0.12)]"
+                      : "border-[var(--border)]"
+                  }`}
+                  onClick={() => setBudgetApplied(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          ) : null}
+          {actionKind === "shiftDate" ? (
+            <label className="block">
+              <span className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                옮길 날짜 수 (앞당기려면 -1처럼 입력)
+              </span>
+              <input
+                type="number"
+                inputMode="numeric"
+                className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                value={shiftDaysInput}
+                onChange={(event) => setShiftDaysInput(event.target.value)}
+              />
+            </label>
+          ) : null}
+          {actionKind === "addTags" ? (
+            <TransactionTagInput
+              tags={tagsToAdd}
+              onTagsChange={setTagsToAdd}
+              suggestions={tags.map((tag) => tag.name)}
+              disabled={saving}
+            />
+          ) : null}
+          {actionKind === "delete" ? (
+            <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+              선택한 내역을 휴지통으로 옮깁니다. 환불 내역은 원래 내역의 환불 금액에서도
+              빠집니다.
+            </p>
+          ) : null}
+        </div>
+        {error ? <p className="mt-3 text-xs text-red-600">{error}</p> : null}
+        <button
+          type="button"
+          className={`mt-5 w-full rounded-xl px-4 py-3 text-sm text-white disabled:opacity-70 ${
+            actionKind === "delete" ? "bg-red-600" : "bg-[var(--accent)]"
+          }`}
+          onClick={handleApply}
+          disabled={saving}
+        >
+          {saving ? "처리 중..." : actionKind === "delete" ? "휴지통으로 옮기기" : "적용"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import TransactionChangeLogList from "@/components/transaction-change-log-list";
+import { useTransactionChangeLogs } from "@/hooks/use-transaction-change-logs";
+
+type TransactionChangeHistorySectionProps = {
+  householdId: string;
+  transactionId: string;
+  currentUserId: string;
+  categoryNameMap: Map<string, string>;
+};
+
+export default function TransactionChangeHistorySection({
+  householdId,
+  transactionId,
+  currentUserId,
+  categoryNameMap,
+}: TransactionChangeHistorySectionProps) {
+  const { logs, loading } = useTransactionChangeLogs(householdId, transactionId);
+
+  return (
+    <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold">변경 기록</h2>
+        <Link href="/activity" className="text-xs text-[color:rgba(45,38,34,0.6)]">
+          전체 활동 보기
+        </Link>
+      </div>
+      <div className="mt-3">
+        {loading ? (
+          <p className="text-xs text-[color:rgba(45,38,34,0.6)]">불러오는 중...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+            아직 수정한 기록이 없습니다.
+          </p>
+        ) : (
+          <TransactionChangeLogList
+            logs={logs}
+            categoryNameMap={categoryNameMap}
+            currentUserId={currentUserId}
+          />
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import { Timestamp } from "firebase/firestore";
+import { formatKrw } from "@/lib/format";
+import { formatDate } from "@/lib/time";
+import {
+  transactionChangeFieldLabelMap,
+  type TrackedTransactionField,
+} from "@/lib/transaction-change-logs";
+import type { TransactionChangeLog, TransactionType } from "@/types/ledger";
+
+type TransactionChangeLogListProps = {
+  logs: (TransactionChangeLog & { id: string })[];
+  categoryNameMap: Map<string, string>;
+  currentUserId: string | null;
+  showTransactionLinks?: boolean;
+};
+
+const typeLabelMap: Record<TransactionType, string> = {
+  expense: "지출",
+  income: "수입",
+  transfer: "이체",
+};
+
+function isEmptyValue(value: unknown) {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function formatChangeValue(
+  field: string,
+  value: unknown,
+  categoryNameMap: Map<string, string>
+) {
+  if (isEmptyValue(value)) {
+    return "없음";
+  }
+  switch (field as TrackedTransactionField) {
+    case "type":
+      return typeLabelMap[value as TransactionType] ?? String(value);
+    case "amount":
+    case "discountAmount":
+      return typeof value === "number" ? `${formatKrw(value)}원` : String(value);
+    case "categoryId":
+      return categoryNameMap.get(String(value)) ?? "삭제된 카테고리";
+    case "date":
+      return value instanceof Timestamp ? formatDate(value.toDate()) : String(value);
+    case "tags":
+      return Array.isArray(value) ? value.map((tag) => `#${tag}`).join(" ") : String(value);
+    case "splits":
+      return Array.isArray(value) ? `${value.length}건으로 나눔` : String(value);
+    case "budgetApplied":
+      return value ? "반영" : "제외";
+    default:
+      return String(value);
+  }
+}
+
+export default function TransactionChangeLogList({
+  logs,
+  categoryNameMap,
+  currentUserId,
+  showTransactionLinks = false,
+}: TransactionChangeLogListProps) {
+  return (
+    <ol className="space-y-3">
+      {logs.map((log) => {
+        const changedAt = log.changedAt?.toDate?.() ?? null;
+        const author =
+          log.changedByName ||
+          (currentUserId && log.changedBy === currentUserId ? "나" : "다른 구성원");
+        return (
+          <li key={log.id} className="border-l-2 border-[var(--border)] pl-3 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-[color:rgba(45,38,34,0.6)]">
+                <span className="font-semibold text-[color:rgba(45,38,34,0.85)]">
+                  {author}
+                </span>
+                {changedAt ? ` · ${formatDate(changedAt, "yyyy.MM.dd HH:mm")}` : ""}
+              </p>
+              {showTransactionLinks ? (
+                <Link
+                  href={`/transactions/${log.transactionId}`}
+                  className="shrink-0 text-[11px] text-[var(--accent)]"
+                >
+                  내역 보기
+                </Link>
+              ) : null}
+            </div>
+            {showTransactionLinks && log.summary ? (
+              <p className="mt-0.5 truncate text-xs">{log.summary}</p>
+            ) : null}
+            <ul className="mt-1 space-y-0.5">
+              {log.changes.map((change) => (
+                <li key={change.field} className="text-xs">
+                  <span className="text-[color:rgba(45,38,34,0.6)]">
+                    {transactionChangeFieldLabelMap[
+                      change.field as TrackedTransactionField
+                    ] ?? change.field}
+                  </span>{" "}
+                  <span className="text-[color:rgba(45,38,34,0.5)] line-through">
+                    {formatChangeValue(change.field, change.before, categoryNameMap)}
+                  </span>
+                  {" → "}
+                  <span className="font-medium">
+                    {formatChangeValue(change.field, change.after, categoryNameMap)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
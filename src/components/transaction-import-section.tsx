@@ -0,0 +1,658 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useCategories } from "@/hooks/use-categories";
+import { useCategorizationRules } from "@/hooks/use-categorization-rules";
+import { useImportProfiles } from "@/hooks/use-import-profiles";
+import { usePaymentMethods } from "@/hooks/use-payment-methods";
+import { detectCsvDelimiter, parseCsv } from "@/lib/csv";
+import { formatKrw } from "@/lib/format";
+import { deleteImportProfile, saveImportProfile } from "@/lib/import-profiles";
+import { formatDate } from "@/lib/time";
+import {
+  IMPORT_FIELDS,
+  buildImportPlan,
+  commitImportPlan,
+  detectHeaderRowIndex,
+  getImportPlanDateRange,
+  guessColumnMapping,
+  mappingFromProfileColumns,
+  mappingToProfileColumns,
+  markImportDuplicates,
+  normalizeImportText,
+  validateColumnMapping,
+  type DuplicateResolution,
+  type ImportColumnMapping,
+  type ImportPlan,
+} from "@/lib/transaction-import";
+import { listTransactionsInRange } from "@/lib/transactions";
+import { readXlsxWorkbook, type XlsxSheet } from "@/lib/xlsx";
+import type { ImportField } from "@/types/ledger";
+
+const PREVIEW_LIMIT = 20;
+const HEADER_ROW_OPTION_LIMIT = 20;
+const ISSUE_LIMIT = 20;
+const DUPLICATE_TOLERANCE_OPTIONS = [
+  { value: 0, label: "같은 날" },
+  { value: 1, label: "±1일" },
+  { value: 3, label: "±3일" },
+];
+const duplicateResolutionOptions: { value: DuplicateResolution; label: string }[] = [
+  { value: "skip", label: "건너뛰기" },
+  { value: "keep", label: "새로 추가" },
+  { value: "merge", label: "합치기" },
+];
+
+type ToastLevel = "success" | "error" | "info";
+
+type TransactionImportSectionProps = {
+  householdId: string | null;
+  user: { uid: string } | null;
+  nickname: string;
+  partnerNickname: string;
+  spouseRole: "husband" | "wife" | null;
+  subjects: { id: string; name: string; order: number }[];
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+const transactionTypeLabelMap = {
+  income: "수입",
+  expense: "지출",
+  transfer: "이체",
+} as const;
+
+export default function TransactionImportSection({
+  householdId,
+  user,
+  nickname,
+  partnerNickname,
+  spouseRole,
+  subjects,
+  onToast,
+}: TransactionImportSectionProps) {
+  const { categories } = useCategories(householdId);
+  const { paymentMethods } = usePaymentMethods(householdId);
+  const { importProfiles } = useImportProfiles(householdId);
+  const { categorizationRules } = useCategorizationRules(householdId);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<XlsxSheet[]>([]);
+  const [selectedSheetIndex, setSelectedSheetIndex] = useState(0);
+  const [sourceRows, setSourceRows] = useState<string[][]>([]);
+  const [headerRowIndex, setHeaderRowIndex] = useState(0);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [toleranceDays, setToleranceDays] = useState(1);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>(
+    {}
+  );
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importTotal, setImportTotal] = useState(0);
+  const [importProcessed, setImportProcessed] = useState(0);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+
+  const headers = useMemo(
+    () => (sourceRows[headerRowIndex] ?? []).map((header) => header.trim()),
+    [headerRowIndex, sourceRows]
+  );
+  const dataRows = useMemo(
+    () => sourceRows.slice(headerRowIndex + 1),
+    [headerRowIndex, sourceRows]
+  );
+  const duplicateRows = useMemo(
+    () => plan?.rows.filter((row) => row.duplicateOf) ?? [],
+    [plan]
+  );
+  const ruleMatchedCount = useMemo(
+    () => plan?.rows.filter((row) => row.ruleNames).length ?? 0,
+    [plan]
+  );
+  const writeCount = useMemo(() => {
+    if (!plan) {
+      return 0;
+    }
+    return plan.rows.filter(
+      (row) => !row.duplicateOf || (resolutions[row.rowNumber] ?? "skip") !== "skip"
+    ).length;
+  }, [plan, resolutions]);
+
+  const selectedProfile = useMemo(
+    () => importProfiles.find((profile) => profile.id === selectedProfileId) ?? null,
+    [importProfiles, selectedProfileId]
+  );
+
+  function resolveSubjectName(rawValue: string, recorderValue: string) {
+    const cleaned = normalizeImportText(rawValue);
+    const recorder = normalizeImportText(recorderValue);
+    if (!cleaned) {
+      return "우리";
+    }
+    const cleanedMy = normalizeImportText(nickname);
+    const cleanedPartner = normalizeImportText(partnerNickname);
+    if (cleanedPartner && recorder === cleanedPartner) {
+      return cleanedPartner;
+    }
+    if (spouseRole === "husband" && cleaned === "남편") {
+      return cleanedMy || "남편";
+    }
+    if (spouseRole === "wife" && cleaned === "아내") {
+      return cleanedMy || "아내";
+    }
+    return cleaned;
+  }
+
+  function loadRows(rows: string[][], nextHeaderRowIndex = detectHeaderRowIndex(rows)) {
+    const nextHeaders = (rows[nextHeaderRowIndex] ?? []).map((header) => header.trim());
+    setPlan(null);
+    setSourceRows(rows);
+    setHeaderRowIndex(nextHeaderRowIndex);
+    setMapping(
+      selectedProfile
+        ? mappingFromProfileColumns(nextHeaders, selectedProfile.columns)
+        : guessColumnMapping(nextHeaders)
+    );
+  }
+
+  async function handleFileChange(file: File | null) {
+    setPlan(null);
+    setImportStatus(null);
+    setImportTotal(0);
+    setImportProcessed(0);
+    setSheets([]);
+    setSelectedSheetIndex(0);
+    setFileName(null);
+    setSourceRows([]);
+    if (!file) {
+      return;
+    }
+    let rows: string[][];
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        const workbookSheets = await readXlsxWorkbook(await file.arrayBuffer());
+        const firstIndex = workbookSheets.findIndex((sheet) => sheet.rows.length > 1);
+        setSheets(workbookSheets);
+        setSelectedSheetIndex(Math.max(0, firstIndex));
+        rows = workbookSheets[Math.max(0, firstIndex)]?.rows ?? [];
+      } else {
+        const text = await file.text();
+        rows = parseCsv(text, detectCsvDelimiter(text));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "파일을 읽지 못했습니다.";
+      setImportStatus(message);
+      onToast(message, "error");
+      return;
+    }
+    if (rows.length <= 1) {
+      setImportStatus("파일 내용이 비어 있습니다.");
+      onToast("파일 내용이 비어 있습니다.", "error");
+      return;
+    }
+    setFileName(file.name);
+    loadRows(rows);
+  }
+
+  function handleSelectSheet(index: number) {
+    setSelectedSheetIndex(index);
+    loadRows(sheets[index]?.rows ?? []);
+  }
+
+  function handleHeaderRowChange(index: number) {
+    loadRows(sourceRows, index);
+  }
+
+  function handleSelectProfile(profileId: string) {
+    setSelectedProfileId(profileId);
+    setPlan(null);
+    const profile = importProfiles.find((item) => item.id === profileId);
+    setProfileName(profile?.name ?? "");
+    if (headers.length > 0) {
+      setMapping(
+        profile
+          ? mappingFromProfileColumns(headers, profile.columns)
+          : guessColumnMapping(headers)
+      );
+    }
+  }
+
+  function handleMappingChange(field: ImportField, value: string) {
+    setPlan(null);
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === "") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  }
+
+  async function handleSaveProfile() {
+    if (!householdId || !user || headers.length === 0) {
+      return;
+    }
+    try {
+      const profileId = await saveImportProfile({
+        householdId,
+        profileId: selectedProfile?.name === profileName.trim() ? selectedProfileId : null,
+        name: profileName,
+        columns: mappingToProfileColumns(headers, mapping),
+        createdBy: user.uid,
+      });
+      setSelectedProfileId(profileId);
+      onToast("가져오기 프로필을 저장했습니다.", "success");
+    } catch (err) {
+      onToast(
+        err instanceof Error ? err.message : "프로필 저장에 실패했습니다.",
+        "error"
+      );
+    }
+  }
+
+  async function handleDeleteProfile() {
+    if (!householdId || !selectedProfileId) {
+      return;
+    }
+    try {
+      await deleteImportProfile(householdId, selectedProfileId);
+      setSelectedProfileId("");
+      setProfileName("");
+      onToast("가져오기 프로필을 삭제했습니다.", "success");
+    } catch {
+      onToast("프로필 삭제에 실패했습니다.", "error");
+    }
+  }
+
+  async function handleValidate() {
+    if (!householdId) {
+      return;
+    }
+    const mappingError = validateColumnMapping(mapping);
+    if (mappingError) {
+      onToast(mappingError, "error");
+      return;
+    }
+    const draftPlan = buildImportPlan({
+      rows: dataRows,
+      headerLength: headers.length,
+      mapping,
+      firstRowNumber: headerRowIndex + 2,
+      context: {
+        categories,
+        subjects,
+        paymentMethods,
+        resolveSubjectName,
+        rules: categorizationRules,
+      },
+    });
+    setValidating(true);
+    try {
+      const range = getImportPlanDateRange(draftPlan, toleranceDays);
+      const existing = range
+        ? await listTransactionsInRange(householdId, range.startDate, range.endDate)
+        : [];
+      setPlan(markImportDuplicates(draftPlan, existing, toleranceDays));
+      setResolutions({});
+      setImportStatus(null);
+    } catch {
+      onToast("기존 내역을 불러오지 못했습니다.", "error");
+    } finally {
+      setValidating(false);
+    }
+  }
+
+  function handleResolveAll(resolution: DuplicateResolution) {
+    setResolutions(
+      Object.fromEntries(duplicateRows.map((row) => [row.rowNumber, resolution]))
+    );
+  }
+
+  async function handleImport() {
+    if (!householdId || !user || !plan || writeCount === 0) {
+      return;
+    }
+    setImporting(true);
+    setImportTotal(writeCount);
+    setImportProcessed(0);
+    setImportStatus(null);
+    try {
+      const { inserted, merged, skipped } = await commitImportPlan({
+        householdId,
+        plan,
+        createdBy: user.uid,
+        createdByName: nickname,
+        startOrders: {
+          category: categories.length + 1,
+          subject: subjects.length + 1,
+          paymentMethod:
+            paymentMethods.filter(
+              (method) => (method.owner ?? "our") === "our" && !method.parentId
+            ).length + 1,
+        },
+        resolutions,
+        onProgress: (processed) => setImportProcessed(processed),
+      });
+      const excluded = plan.issues.length + skipped;
+      const summary = `추가 ${inserted}, 합침 ${merged}, 제외 ${excluded}`;
+      setImportStatus(`가져오기 완료: ${summary}`);
+      onToast(`내역 가져오기 완료 (${summary})`, excluded > 0 ? "info" : "success");
+      setPlan(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "알 수 없는 오류";
+      setImportStatus(`가져오기 중단: ${message}`);
+      onToast("내역 가져오기에 실패했습니다.", "error");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const importPercent =
+    importTotal > 0 ? Math.round((importProcessed / importTotal) * 100) : 0;
+  const disabled = !householdId || !user || importing || validating;
+
+  return (
+    <>
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <select
+          className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+          value={selectedProfileId}
+          onChange={(event) => handleSelectProfile(event.target.value)}
+          disabled={disabled}
+        >
+          <option value="">자동 인식</option>
+          {importProfiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        {selectedProfileId ? (
+          <button
+            type="button"
+            className="rounded-full border border-[var(--border)] px-3 py-1.5 text-xs disabled:opacity-60"
+            onClick={handleDeleteProfile}
+            disabled={disabled}
+          >
+            프로필 삭제
+          </button>
+        ) : null}
+      </div>
+      <input
+        className="mt-3 w-full text-sm"
+        type="file"
+        accept=".csv,.tsv,.txt,.xlsx"
+        onChange={(event) => handleFileChange(event.target.files?.[0] ?? null)}
+        disabled={disabled}
+      />
+      {headers.length > 0 ? (
+        <div className="mt-4 rounded-xl border border-[var(--border)] bg-white p-3">
+          <p className="text-xs font-medium">
+            열 매핑 · {fileName} ({dataRows.length}행)
+          </p>
+          <div className="mt-2 grid gap-2 sm:grid-cols-2">
+            {sheets.length > 1 ? (
+              <label className="flex items-center justify-between gap-2 text-xs">
+                <span className="shrink-0 text-[color:rgba(45,38,34,0.7)]">시트</span>
+                <select
+                  className="min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+                  value={selectedSheetIndex}
+                  onChange={(event) => handleSelectSheet(Number(event.target.value))}
+                  disabled={disabled}
+                >
+                  {sheets.map((sheet, index) => (
+                    <option key={`${sheet.name}-${index}`} value={index}>
+                      {sheet.name} ({sheet.rows.length}행)
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label className="flex items-center justify-between gap-2 text-xs">
+              <span className="shrink-0 text-[color:rgba(45,38,34,0.7)]">머리글 행</span>
+              <select
+                className="min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+                value={headerRowIndex}
+                onChange={(event) => handleHeaderRowChange(Number(event.target.value))}
+                disabled={disabled}
+              >
+                {sourceRows.slice(0, HEADER_ROW_OPTION_LIMIT).map((row, index) => (
+                  <option key={index} value={index}>
+                    {index + 1}행 · {row.filter(Boolean).slice(0, 3).join(", ")}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="mt-2 grid gap-2 sm:grid-cols-2">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center justify-between gap-2 text-xs">
+                <span className="shrink-0 text-[color:rgba(45,38,34,0.7)]">{label}</span>
+                <select
+                  className="min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+                  value={mapping[field] ?? ""}
+                  onChange={(event) => handleMappingChange(field, event.target.value)}
+                  disabled={disabled}
+                >
+                  <option value="">사용 안 함</option>
+                  {headers.map((header, index) => (
+                    <option key={`${header}-${index}`} value={index}>
+                      {header || `${index + 1}번째 열`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              className="min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+              placeholder="프로필 이름 (예: 국민카드 명세서)"
+              value={profileName}
+              onChange={(event) => setProfileName(event.target.value)}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              className="rounded-full border border-[var(--border)] px-3 py-1.5 text-xs disabled:opacity-60"
+              onClick={handleSaveProfile}
+              disabled={disabled || !profileName.trim()}
+            >
+              매핑 저장
+            </button>
+          </div>
+          <label className="mt-3 flex items-center justify-between gap-2 text-xs">
+            <span className="text-[color:rgba(45,38,34,0.7)]">중복 판단 날짜 범위</span>
+            <select
+              className="rounded-lg border border-[var(--border)] bg-white px-2 py-1.5 text-xs"
+              value={toleranceDays}
+              onChange={(event) => {
+                setToleranceDays(Number(event.target.value));
+                setPlan(null);
+              }}
+              disabled={disabled}
+            >
+              {DUPLICATE_TOLERANCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="mt-3 w-full rounded-xl border border-[var(--border)] px-3 py-2 text-sm disabled:opacity-60"
+            onClick={handleValidate}
+            disabled={disabled}
+          >
+            {validating ? "검증 중..." : "검증하기"}
+          </button>
+        </div>
+      ) : null}
+      {plan ? (
+        <div className="mt-3 rounded-xl border border-[var(--border)] bg-white p-3 text-xs text-[color:rgba(45,38,34,0.7)]">
+          <p className="font-medium text-[color:rgba(45,38,34,0.9)]">
+            가져올 거래 {plan.rows.length}건 · 제외 {plan.issues.length}건
+          </p>
+          <p className="mt-1">
+            수입 {formatKrw(plan.totals.income)} · 지출 {formatKrw(plan.totals.expense)}
+            {plan.totals.transfer > 0 ? ` · 이체 ${formatKrw(plan.totals.transfer)}` : ""}
+          </p>
+          {ruleMatchedCount > 0 ? (
+            <p className="mt-1">자동 분류 규칙 적용 {ruleMatchedCount}건</p>
+          ) : null}
+          {plan.newCategories.length > 0 ? (
+            <p className="mt-1">
+              새 카테고리: {plan.newCategories.map((category) => category.name).join(", ")}
+            </p>
+          ) : null}
+          {plan.newSubjects.length > 0 ? (
+            <p className="mt-1">새 주체: {plan.newSubjects.join(", ")}</p>
+          ) : null}
+          {plan.newPaymentMethods.length > 0 ? (
+            <p className="mt-1">새 지불 방식: {plan.newPaymentMethods.join(", ")}</p>
+          ) : null}
+          {plan.issues.length > 0 ? (
+            <ul className="mt-2 space-y-1 text-red-600">
+              {plan.issues.slice(0, ISSUE_LIMIT).map((issue) => (
+                <li key={issue.rowNumber}>
+                  행 {issue.rowNumber}: {issue.message}
+                </li>
+              ))}
+              {plan.issues.length > ISSUE_LIMIT ? (
+                <li>외 {plan.issues.length - ISSUE_LIMIT}건</li>
+              ) : null}
+            </ul>
+          ) : null}
+          {duplicateRows.length > 0 ? (
+            <div className="mt-3 rounded-lg border border-amber-300 bg-amber-50 p-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-medium text-amber-800">
+                  이미 있는 내역과 겹치는 행 {duplicateRows.length}건
+                </p>
+                <div className="flex gap-1">
+                  {duplicateResolutionOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      className="rounded-full border border-amber-300 bg-white px-2 py-0.5 text-[11px] disabled:opacity-60"
+                      onClick={() => handleResolveAll(option.value)}
+                      disabled={disabled}
+                    >
+                      모두 {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="mt-1 text-[11px] text-amber-800">
+                합치기는 기존 내역을 그대로 두고 비어 있는 메모·지불 방식만 채웁니다.
+              </p>
+              <ul className="mt-2 space-y-2">
+                {duplicateRows.map((row) => {
+                  const resolution = resolutions[row.rowNumber] ?? "skip";
+                  return (
+                    <li key={row.rowNumber} className="rounded-lg bg-white p-2">
+                      <p>
+                        행 {row.rowNumber}: {formatDate(row.date)} · {row.paymentMethodName} ·{" "}
+                        {formatKrw(row.amount)}
+                        {row.note ? ` · ${row.note}` : ""}
+                      </p>
+                      {row.duplicateOf ? (
+                        <p className="mt-0.5 text-[11px] text-[color:rgba(45,38,34,0.55)]">
+                          기존: {formatDate(row.duplicateOf.date)} ·{" "}
+                          {row.duplicateOf.paymentMethod} · {formatKrw(row.duplicateOf.amount)}
+                          {row.duplicateOf.note ? ` · ${row.duplicateOf.note}` : ""}
+                        </p>
+                      ) : null}
+                      <div className="mt-1 flex gap-1">
+                        {duplicateResolutionOptions.map((option) => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            className={`rounded-full border px-2 py-0.5 text-[11px] ${
+                              resolution === option.value
+                                ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                                : "border-[var(--border)]"
+                            }`}
+                            onClick={() =>
+                              setResolutions((prev) => ({
+                                ...prev,
+                                [row.rowNumber]: option.value,
+                              }))
+                            }
+                            disabled={disabled}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : null}
+          {plan.rows.length > 0 ? (
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full min-w-[480px] text-left">
+                <thead>
+                  <tr className="border-b border-[var(--border)]">
+                    <th className="py-1 pr-2 font-medium">날짜</th>
+                    <th className="py-1 pr-2 font-medium">구분</th>
+                    <th className="py-1 pr-2 font-medium">카테고리</th>
+                    <th className="py-1 pr-2 font-medium">지불 방식</th>
+                    <th className="py-1 pr-2 font-medium">메모</th>
+                    <th className="py-1 text-right font-medium">금액</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <tr key={row.rowNumber} className="border-b border-[var(--border)] last:border-0">
+                      <td className="py-1 pr-2">{formatDate(row.date)}</td>
+                      <td className="py-1 pr-2">{transactionTypeLabelMap[row.type]}</td>
+                      <td
+                        className="py-1 pr-2"
+                        title={row.ruleNames ? `규칙: ${row.ruleNames.join(", ")}` : undefined}
+                      >
+                        {row.categoryName}
+                        {row.ruleNames ? (
+                          <span className="ml-1 text-[10px] text-[var(--accent)]">규칙</span>
+                        ) : null}
+                      </td>
+                      <td className="py-1 pr-2">{row.paymentMethodName}</td>
+                      <td className="max-w-[160px] truncate py-1 pr-2">{row.note ?? ""}</td>
+                      <td className="py-1 text-right">{formatKrw(row.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {plan.rows.length > PREVIEW_LIMIT ? (
+                <p className="mt-1">외 {plan.rows.length - PREVIEW_LIMIT}건</p>
+              ) : null}
+            </div>
+          ) : null}
+          <button
+            type="button"
+            className="mt-3 w-full rounded-xl bg-[var(--accent)] px-3 py-2 text-sm text-white disabled:opacity-60"
+            onClick={handleImport}
+            disabled={disabled || writeCount === 0}
+          >
+            {writeCount}건 가져오기
+          </button>
+        </div>
+      ) : null}
+      {importTotal > 0 ? (
+        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+          진행률 {importPercent}% ({importProcessed}/{importTotal})
+        </p>
+      ) : null}
+      {importStatus ? (
+        <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+          {importStatus}
+        </p>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatKrw } from "@/lib/format";
+import {
+  INSTALLMENT_MONTH_OPTIONS,
+  buildInstallmentSchedule,
+  summarizeInstallmentSchedule,
+} from "@/lib/installments";
+import { toDateKey } from "@/lib/time";
+
+export function parseInstallmentRate(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return 0;
+  }
+  const rate = Number(trimmed);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 30) {
+    return null;
+  }
+  return rate;
+}
+
+type TransactionInstallmentSectionProps = {
+  principal: number;
+  firstDate: Date | null;
+  months: number;
+  onMonthsChange: (next: number) => void;
+  interestRate: string;
+  onInterestRateChange: (next: string) => void;
+  disabled?: boolean;
+};
+
+export default function TransactionInstallmentSection({
+  principal,
+  firstDate,
+  months,
+  onMonthsChange,
+  interestRate,
+  onInterestRateChange,
+  disabled = false,
+}: TransactionInstallmentSectionProps) {
+  const rate = parseInstallmentRate(interestRate);
+  const schedule = useMemo(() => {
+    if (!principal || !firstDate || rate === null) {
+      return [];
+    }
+    return buildInstallmentSchedule({
+      principal,
+      months,
+      interestRate: rate,
+      firstDate,
+    });
+  }, [firstDate, months, principal, rate]);
+  const summary = summarizeInstallmentSchedule(schedule);
+
+  return (
+    <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
+      <p className="text-sm font-semibold">할부 결제</p>
+      <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+        결제 금액을 매달 나눠 기록합니다. 예산과 카드 실적에는 그 달 납부분만 반영됩니다.
+      </p>
+      <div className="mt-3 grid grid-cols-2 gap-3 [&>*]:min-w-0">
+        <label className="text-sm font-medium">
+          할부 개월
+          <select
+            className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+            value={months}
+            disabled={disabled}
+            onChange={(event) => onMonthsChange(Number(event.target.value))}
+          >
+            {INSTALLMENT_MONTH_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}개월
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium">
+          연 이자율 % (선택)
+          <input
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+            placeholder="무이자"
+            value={interestRate}
+            disabled={disabled}
+            onChange={(event) =>
+              onInterestRateChange(event.target.value.replace(/[^\d.]/g, ""))
+            }
+          />
+        </label>
+      </div>
+      {rate === null ? (
+        <p className="mt-2 text-xs text-red-600">이자율은 0~30 사이로 입력해주세요.</p>
+      ) : null}
+      {schedule.length > 0 ? (
+        <div className="mt-3 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+          <p>
+            첫 달 {formatKrw(schedule[0].amount)}원
+            {schedule.length > 1 ? ` · 이후 월 ${formatKrw(schedule[1].amount)}원 안팎` : ""}
+          </p>
+          <p className="mt-1">
+            총 {formatKrw(summary.total)}원
+            {summary.interest > 0 ? ` (이자 ${formatKrw(summary.interest)}원)` : " (무이자)"} ·
+            마지막 납부 {toDateKey(schedule[schedule.length - 1].date)}
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
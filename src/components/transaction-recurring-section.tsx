@@ -1,10 +1,102 @@
 "use client";
 
+import {
+  describeRecurrence,
+  normalizeRecurrenceSpec,
+} from "@/lib/recurring-schedule";
+import type {
+  RecurrenceDayAnchor,
+  RecurrenceFrequency,
+  RecurrenceSpec,
+} from "@/types/ledger";
+
+export type RecurrenceFormState = {
+  frequency: RecurrenceFrequency;
+  interval: string;
+  weekday: string;
+  dayOfMonth: string;
+  monthOfYear: string;
+  anchor: RecurrenceDayAnchor;
+};
+
+const frequencyOptions: { value: RecurrenceFrequency; label: string }[] = [
+  { value: "weekly", label: "매주" },
+  { value: "monthly", label: "매달" },
+  { value: "yearly", label: "매년" },
+];
+
+const intervalUnitLabelMap: Record<RecurrenceFrequency, string> = {
+  weekly: "주",
+  monthly: "개월",
+  yearly: "년",
+};
+
+const anchorOptions: { value: RecurrenceDayAnchor; label: string }[] = [
+  { value: "dayOfMonth", label: "지정일" },
+  { value: "lastDay", label: "말일" },
+  { value: "lastBusinessDay", label: "마지막 영업일" },
+];
+
+const weekdayOptions = ["일", "월", "화", "수", "목", "금", "토"];
+
+export function buildRecurrenceFormState(
+  date: Date,
+  recurrence?: RecurrenceSpec | null
+): RecurrenceFormState {
+  const spec = normalizeRecurrenceSpec(recurrence, date.getDate());
+  return {
+    frequency: spec.frequency,
+    interval: String(spec.interval),
+    weekday: String(spec.weekday ?? date.getDay()),
+    dayOfMonth: String(spec.dayOfMonth ?? date.getDate()),
+    monthOfYear: String(spec.monthOfYear ?? date.getMonth() + 1),
+    anchor: spec.anchor ?? "dayOfMonth",
+  };
+}
+
+export function parseRecurrenceForm(form: RecurrenceFormState) {
+  const interval = Number(form.interval);
+  const weekday = Number(form.weekday);
+  const dayOfMonth = Number(form.dayOfMonth);
+  const monthOfYear = Number(form.monthOfYear);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 99) {
+    return null;
+  }
+  if (form.frequency === "weekly") {
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return null;
+    }
+    return normalizeRecurrenceSpec({ frequency: "weekly", interval, weekday }, 1);
+  }
+  if (
+    form.anchor === "dayOfMonth" &&
+    (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31)
+  ) {
+    return null;
+  }
+  if (
+    form.frequency === "yearly" &&
+    (!Number.isInteger(monthOfYear) || monthOfYear < 1 || monthOfYear > 12)
+  ) {
+    return null;
+  }
+  return normalizeRecurrenceSpec(
+    {
+      frequency: form.frequency,
+      interval,
+      anchor: form.anchor,
+      dayOfMonth: form.anchor === "dayOfMonth" ? dayOfMonth : undefined,
+      monthOfYear: form.frequency === "yearly" ? monthOfYear : undefined,
+    },
+    1
+  );
+}
+
 type TransactionRecurringSectionProps = {
   enabled: boolean;
   onEnabledChange: (next: boolean) => void;
-  dayOfMonth: string;
-  onDayOfMonthChange: (value: string) => void;
+  recurrence: RecurrenceFormState;
+  onRecurrenceChange: (next: RecurrenceFormState) => void;
   startDate: string;
   onStartDateChange: (value: string) => void;
   endDate: string;
@@ -15,15 +107,16 @@ type TransactionRecurringSectionProps = {
 };
 
 function buildSummary(
-  dayOfMonth: string,
+  recurrence: RecurrenceFormState,
   startDate: string,
   endDate: string,
   prependMonthToNote: boolean
 ) {
-  if (!dayOfMonth || !startDate) {
+  const spec = parseRecurrenceForm(recurrence);
+  if (!spec || !startDate) {
     return "자동 등록 설정이 아직 비어 있어요.";
   }
-  return `매달 ${dayOfMonth}일 · ${startDate} ~ ${endDate || "계속"}${
+  return `${describeRecurrence(spec)} · ${startDate} ~ ${endDate || "계속"}${
     prependMonthToNote ? " · 메모 앞에 월 표시" : ""
   }`;
 }
@@ -31,8 +124,8 @@ function buildSummary(
 export default function TransactionRecurringSection({
   enabled,
   onEnabledChange,
-  dayOfMonth,
-  onDayOfMonthChange,
+  recurrence,
+  onRecurrenceChange,
   startDate,
   onStartDateChange,
   endDate,
@@ -41,13 +134,17 @@ export default function TransactionRecurringSection({
   onPrependMonthToNoteChange,
   disabled = false,
 }: TransactionRecurringSectionProps) {
+  function updateRecurrence(patch: Partial<RecurrenceFormState>) {
+    onRecurrenceChange({ ...recurrence, ...patch });
+  }
+
   return (
     <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
       <div className="min-w-0">
         <p className="text-sm font-semibold">추가 기능</p>
         <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
           {enabled
-            ? buildSummary(dayOfMonth, startDate, endDate, prependMonthToNote)
+            ? buildSummary(recurrence, startDate, endDate, prependMonthToNote)
             : "자동 등록 같은 추가 기능이 꺼져 있어요."}
         </p>
       </div>
@@ -60,26 +157,124 @@ export default function TransactionRecurringSection({
             disabled={disabled}
             onChange={(event) => onEnabledChange(event.target.checked)}
           />
-          매달 자동 내역 등록
+          반복 자동 내역 등록
         </label>
         <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.6)]">
-          설정한 날짜에 같은 내용의 내역을 매달 자동으로 등록합니다.
+          설정한 주기마다 같은 내용의 내역을 자동으로 등록합니다.
         </p>
+        {enabled ? (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {frequencyOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                className={`rounded-full border px-3 py-1.5 text-xs ${
+                  recurrence.frequency === option.value
+                    ? "border-[var(--accent)] bg-[var(--accent)] text-white"
+                    : "border-[var(--border)] text-[color:rgba(45,38,34,0.7)]"
+                }`}
+                disabled={disabled}
+                onClick={() => updateRecurrence({ frequency: option.value })}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        ) : null}
         {enabled ? (
           <div className="mt-4 grid gap-3 sm:grid-cols-3">
             <label className="text-sm font-medium">
-              등록일
+              반복 간격 ({intervalUnitLabelMap[recurrence.frequency]}마다)
               <input
                 type="number"
                 min={1}
-                max={31}
+                max={99}
                 inputMode="numeric"
                 className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
-                value={dayOfMonth}
+                value={recurrence.interval}
                 disabled={disabled}
-                onChange={(event) => onDayOfMonthChange(event.target.value)}
+                onChange={(event) => updateRecurrence({ interval: event.target.value })}
               />
             </label>
+            {recurrence.frequency === "weekly" ? (
+              <label className="text-sm font-medium">
+                요일
+                <select
+                  className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                  value={recurrence.weekday}
+                  disabled={disabled}
+                  onChange={(event) => updateRecurrence({ weekday: event.target.value })}
+                >
+                  {weekdayOptions.map((label, index) => (
+                    <option key={label} value={String(index)}>
+                      {label}요일
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            {recurrence.frequency === "yearly" ? (
+              <label className="text-sm font-medium">
+                월
+                <select
+                  className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                  value={recurrence.monthOfYear}
+                  disabled={disabled}
+                  onChange={(event) =>
+                    updateRecurrence({ monthOfYear: event.target.value })
+                  }
+                >
+                  {Array.from({ length: 12 }, (_, index) => (
+                    <option key={index + 1} value={String(index + 1)}>
+                      {index + 1}월
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            {recurrence.frequency !== "weekly" ? (
+              <label className="text-sm font-medium">
+                등록일
+                <select
+                  className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                  value={recurrence.anchor}
+                  disabled={disabled}
+                  onChange={(event) =>
+                    updateRecurrence({
+                      anchor: event.target.value as RecurrenceDayAnchor,
+                    })
+                  }
+                >
+                  {anchorOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            {recurrence.frequency !== "weekly" &&
+            recurrence.anchor === "dayOfMonth" ? (
+              <label className="text-sm font-medium">
+                일
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  inputMode="numeric"
+                  className="mt-2 w-full rounded-xl border border-[var(--border)] bg-white px-4 py-3"
+                  value={recurrence.dayOfMonth}
+                  disabled={disabled}
+                  onChange={(event) =>
+                    updateRecurrence({ dayOfMonth: event.target.value })
+                  }
+                />
+              </label>
+            ) : null}
+          </div>
+        ) : null}
+        {enabled ? (
+          <div className="mt-3 grid gap-3 sm:grid-cols-2">
             <label className="text-sm font-medium">
               시작일
               <input
@@ -104,7 +299,8 @@ export default function TransactionRecurringSection({
         ) : null}
         {enabled ? (
           <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.55)]">
-            종료일을 비우면 직접 끌 때까지 계속 등록됩니다.
+            종료일을 비우면 직접 끌 때까지 계속 등록됩니다. 마지막 영업일은 주말만
+            제외하고 계산합니다.
           </p>
         ) : null}
         {enabled ? (
@@ -0,0 +1,240 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { formatKrw } from "@/lib/format";
+import { addNotification } from "@/lib/notifications";
+import {
+  addRefundTransaction,
+  getRefundStatus,
+  listRefundTransactions,
+} from "@/lib/refunds";
+import { toDateKey } from "@/lib/time";
+import {
+  getEffectiveExpenseAmount,
+  getRefundedAmount,
+} from "@/lib/transaction-amount";
+import type { Transaction } from "@/types/ledger";
+
+type TransactionRefundSectionProps = {
+  householdId: string;
+  userId: string;
+  transactionId: string;
+  transaction: Pick<
+    Transaction,
+    "type" | "amount" | "discountAmount" | "refundedAmount" | "refundOf"
+  >;
+  categoryName: string;
+  notify: boolean;
+  onRefundedAmountChange: (next: number) => void;
+};
+
+export const refundStatusLabelMap = {
+  partial: "환불됨 (부분)",
+  full: "환불됨 (전액)",
+} as const;
+
+function formatAmountValue(value: string) {
+  const digits = value.replace(/[^\d]/g, "");
+  if (!digits) {
+    return "";
+  }
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+function parseDateInput(value: string) {
+  const [yearText, monthText, dayText] = value.split("-");
+  const year = Number(yearText);
+  const month = Number(monthText);
+  const day = Number(dayText);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+}
+
+export default function TransactionRefundSection({
+  householdId,
+  userId,
+  transactionId,
+  transaction,
+  categoryName,
+  notify,
+  onRefundedAmountChange,
+}: TransactionRefundSectionProps) {
+  const [refunds, setRefunds] = useState<{
+    originalId: string;
+    items: (Transaction & { id: string })[];
+  } | null>(null);
+  const [refundsVersion, setRefundsVersion] = useState(0);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [amountInput, setAmountInput] = useState("");
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const refundable = getEffectiveExpenseAmount(transaction);
+  const refunded = getRefundedAmount(transaction);
+  const status = getRefundStatus(transaction);
+
+  useEffect(() => {
+    let active = true;
+    listRefundTransactions(householdId, transactionId)
+      .then((items) => {
+        if (active) {
+          setRefunds({ originalId: transactionId, items });
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, [householdId, transactionId, refundsVersion]);
+
+  function openForm() {
+    setIsFormOpen(true);
+    setAmountInput(formatAmountValue(String(refundable)));
+    setError(null);
+  }
+
+  async function handleAddRefund() {
+    const amount = Number(amountInput.replace(/,/g, ""));
+    const parsedDate = parseDateInput(date);
+    if (!amount || !parsedDate) {
+      setError("환불 금액과 날짜를 입력해주세요.");
+      return;
+    }
+    if (amount > refundable) {
+      setError(`환불할 수 있는 금액은 최대 ${formatKrw(refundable)}원입니다.`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await addRefundTransaction({
+        householdId,
+        originalId: transactionId,
+        amount,
+        date: parsedDate,
+        note: note.trim() || undefined,
+        createdBy: userId,
+      });
+      onRefundedAmountChange(refunded + amount);
+      setRefundsVersion((prev) => prev + 1);
+      setIsFormOpen(false);
+      setNote("");
+      if (notify) {
+        await addNotification(householdId, {
+          title: "환불 등록",
+          message: `${formatKrw(amount)} · ${categoryName} · ${date}`,
+          level: "info",
+          type: "transaction.refund",
+        }).catch(() => undefined);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "환불을 등록하지 못했습니다.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const items = refunds?.originalId === transactionId ? refunds.items : [];
+
+  return (
+    <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold">
+            환불·취소
+            {status ? (
+              <span className="ml-2 rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-[11px] font-medium text-emerald-700">
+                {refundStatusLabelMap[status]}
+              </span>
+            ) : null}
+          </p>
+          <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+            {refunded > 0
+              ? `${formatKrw(refunded)}원 환불 · 실제 지출 ${formatKrw(refundable)}원`
+              : "카드 취소나 부분 환불을 이 내역에 연결해 기록합니다."}
+          </p>
+        </div>
+        {refundable > 0 && !isFormOpen ? (
+          <button
+            type="button"
+            className="shrink-0 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs"
+            onClick={openForm}
+          >
+            환불 추가
+          </button>
+        ) : null}
+      </div>
+      {items.length > 0 ? (
+        <div className="mt-3 grid gap-1.5">
+          {items.map((item) => (
+            <Link
+              key={item.id}
+              href={`/transactions/${item.id}`}
+              className="flex items-center justify-between rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-xs"
+            >
+              <span>
+                {toDateKey(item.date.toDate())}
+                {item.note ? ` · ${item.note}` : ""}
+              </span>
+              <span className="font-medium text-emerald-600">+{formatKrw(item.amount)}원</span>
+            </Link>
+          ))}
+        </div>
+      ) : null}
+      {isFormOpen ? (
+        <div className="mt-3 grid gap-2 rounded-xl border border-[var(--border)] bg-white p-3">
+          <div className="grid grid-cols-2 gap-2 [&>*]:min-w-0">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+              placeholder="환불 금액"
+              value={amountInput}
+              disabled={saving}
+              onChange={(event) => setAmountInput(formatAmountValue(event.target.value))}
+            />
+            <input
+              type="date"
+              className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+              value={date}
+              disabled={saving}
+              onChange={(event) => setDate(event.target.value)}
+            />
+          </div>
+          <input
+            type="text"
+            className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+            placeholder="메모 (선택)"
+            value={note}
+            disabled={saving}
+            onChange={(event) => setNote(event.target.value)}
+          />
+          {error ? <p className="text-xs text-red-600">{error}</p> : null}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              className="rounded-xl border border-[var(--border)] px-3 py-2 text-xs"
+              onClick={() => setIsFormOpen(false)}
+              disabled={saving}
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              className="rounded-xl bg-[var(--accent)] px-3 py-2 text-xs text-white disabled:opacity-70"
+              onClick={handleAddRefund}
+              disabled={saving}
+            >
+              {saving ? "등록 중..." : "환불 등록"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
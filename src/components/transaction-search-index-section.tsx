@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { rebuildTransactionSearchTokens } from "@/lib/transaction-search";
+
+type ToastLevel = "success" | "error" | "info";
+
+type TransactionSearchIndexSectionProps = {
+  householdId: string | null;
+  onToast: (message: string, level?: ToastLevel) => void;
+};
+
+export default function TransactionSearchIndexSection({
+  householdId,
+  onToast,
+}: TransactionSearchIndexSectionProps) {
+  const [rebuilding, setRebuilding] = useState(false);
+  const [processed, setProcessed] = useState(0);
+
+  async function handleRebuild() {
+    if (!householdId || rebuilding) {
+      return;
+    }
+    setRebuilding(true);
+    setProcessed(0);
+    try {
+      const result = await rebuildTransactionSearchTokens({
+        householdId,
+        onProgress: setProcessed,
+      });
+      onToast(
+        result.updated > 0
+          ? `${result.processed}건 중 ${result.updated}건의 검색 색인을 새로 만들었습니다.`
+          : "검색 색인이 이미 최신입니다.",
+        "success"
+      );
+    } catch {
+      onToast("검색 색인을 만들지 못했습니다.", "error");
+    } finally {
+      setRebuilding(false);
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-[var(--border)] bg-white p-4 sm:p-6">
+      <h2 className="text-sm font-semibold">검색 색인</h2>
+      <p className="mt-2 text-xs text-[color:rgba(45,38,34,0.7)]">
+        내역 검색은 저장할 때 만든 색인으로 기간과 상관없이 찾습니다. 색인을 한 번도 만들지
+        않은 가계부는 고른 기간의 내역을 직접 읽어 찾습니다. 예전 내역이나 백업에서 복원한
+        내역이 검색되지 않으면 색인을 다시 만드세요.
+      </p>
+      <button
+        type="button"
+        className="mt-4 inline-flex items-center rounded-full border border-[var(--border)] px-4 py-2 text-sm disabled:opacity-60"
+        onClick={() => void handleRebuild()}
+        disabled={!householdId || rebuilding}
+      >
+        {rebuilding ? `색인 만드는 중... (${processed}건)` : "검색 색인 다시 만들기"}
+      </button>
+    </section>
+  );
+}
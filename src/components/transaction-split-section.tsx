@@ -0,0 +1,237 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatKrw } from "@/lib/format";
+import type { Category, Subject, TransactionSplit, TransactionType } from "@/types/ledger";
+
+export type SplitFormLine = {
+  key: string;
+  amount: string;
+  categoryId: string;
+  subject: string;
+  note: string;
+};
+
+let splitLineSequence = 0;
+
+function formatAmountValue(value: string) {
+  const digits = value.replace(/[^\d]/g, "");
+  if (!digits) {
+    return "";
+  }
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+function parseAmountValue(value: string) {
+  return Number(value.replace(/,/g, ""));
+}
+
+export function createSplitFormLine(
+  defaults: { categoryId: string; subject: string },
+  amount = 0
+): SplitFormLine {
+  splitLineSequence += 1;
+  return {
+    key: `split-${splitLineSequence}`,
+    amount: amount > 0 ? formatAmountValue(String(amount)) : "",
+    categoryId: defaults.categoryId,
+    subject: defaults.subject,
+    note: "",
+  };
+}
+
+export function buildSplitFormLines(splits: TransactionSplit[]) {
+  return splits.map((split) => ({
+    ...createSplitFormLine(split, split.amount),
+    note: split.note ?? "",
+  }));
+}
+
+export function sumSplitFormLines(lines: SplitFormLine[]) {
+  return lines.reduce((total, line) => total + (parseAmountValue(line.amount) || 0), 0);
+}
+
+export function parseSplitForm(lines: SplitFormLine[], totalAmount: number) {
+  if (lines.length < 2) {
+    return null;
+  }
+  const splits: TransactionSplit[] = [];
+  for (const line of lines) {
+    const amount = parseAmountValue(line.amount);
+    if (!amount || !line.categoryId || !line.subject) {
+      return null;
+    }
+    const note = line.note.trim();
+    splits.push({
+      amount,
+      categoryId: line.categoryId,
+      subject: line.subject,
+      ...(note ? { note } : {}),
+    });
+  }
+  if (sumSplitFormLines(lines) !== totalAmount) {
+    return null;
+  }
+  return splits;
+}
+
+type TransactionSplitSectionProps = {
+  type: TransactionType;
+  totalAmount: number;
+  lines: SplitFormLine[];
+  onLinesChange: (next: SplitFormLine[]) => void;
+  categories: (Category & { id: string })[];
+  subjects: (Subject & { id: string })[];
+  disabled?: boolean;
+};
+
+export default function TransactionSplitSection({
+  type,
+  totalAmount,
+  lines,
+  onLinesChange,
+  categories,
+  subjects,
+  disabled = false,
+}: TransactionSplitSectionProps) {
+  const categoryGroups = useMemo(() => {
+    const parents = categories
+      .filter((category) => category.type === type && !category.parentId)
+      .sort((a, b) => a.order - b.order);
+    return parents.map((parent) => ({
+      parent,
+      children: categories
+        .filter((category) => category.type === type && category.parentId === parent.id)
+        .sort((a, b) => a.order - b.order),
+    }));
+  }, [categories, type]);
+  const remaining = totalAmount - sumSplitFormLines(lines);
+
+  function updateLine(key: string, patch: Partial<SplitFormLine>) {
+    onLinesChange(lines.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  }
+
+  function addLine() {
+    const last = lines[lines.length - 1];
+    onLinesChange([
+      ...lines,
+      createSplitFormLine(
+        {
+          categoryId: last?.categoryId ?? "",
+          subject: last?.subject ?? subjects[0]?.name ?? "",
+        },
+        Math.max(0, remaining)
+      ),
+    ]);
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[color:rgba(45,38,34,0.02)] px-4 py-4">
+      <p className="text-sm font-semibold">나눠 기록하기</p>
+      <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+        한 번에 결제한 금액을 카테고리·주체별로 나눕니다. 통계와 예산에는 나눈 금액이
+        반영됩니다.
+      </p>
+      <div className="mt-4 grid gap-3">
+        {lines.map((line, index) => (
+          <div
+            key={line.key}
+            className="rounded-2xl border border-[var(--border)] bg-white px-4 py-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-medium text-[color:rgba(45,38,34,0.7)]">
+                {index + 1}번째
+              </span>
+              <button
+                type="button"
+                className="text-xs text-red-600 disabled:opacity-50"
+                onClick={() => onLinesChange(lines.filter((item) => item.key !== line.key))}
+                disabled={disabled || lines.length <= 2}
+              >
+                삭제
+              </button>
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-2 [&>*]:min-w-0">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+                placeholder="금액"
+                value={line.amount}
+                disabled={disabled}
+                onChange={(event) =>
+                  updateLine(line.key, { amount: formatAmountValue(event.target.value) })
+                }
+              />
+              <select
+                className="rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+                value={line.subject}
+                disabled={disabled}
+                onChange={(event) => updateLine(line.key, { subject: event.target.value })}
+              >
+                {subjects.map((item) => (
+                  <option key={item.id} value={item.name}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="col-span-2 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+                value={line.categoryId}
+                disabled={disabled}
+                onChange={(event) => updateLine(line.key, { categoryId: event.target.value })}
+              >
+                <option value="">카테고리 선택</option>
+                {categoryGroups.map(({ parent, children }) =>
+                  children.length > 0 ? (
+                    <optgroup key={parent.id} label={parent.name}>
+                      {children.map((child) => (
+                        <option key={child.id} value={child.id}>
+                          {child.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ) : (
+                    <option key={parent.id} value={parent.id}>
+                      {parent.name}
+                    </option>
+                  )
+                )}
+              </select>
+              <input
+                type="text"
+                className="col-span-2 rounded-xl border border-[var(--border)] bg-white px-3 py-2 text-sm"
+                placeholder="메모 (선택)"
+                value={line.note}
+                disabled={disabled}
+                onChange={(event) => updateLine(line.key, { note: event.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <button
+          type="button"
+          className="rounded-xl border border-[var(--border)] px-3 py-2 text-xs"
+          onClick={addLine}
+          disabled={disabled}
+        >
+          + 줄 추가
+        </button>
+        <span
+          className={`text-xs ${
+            remaining === 0 ? "text-[color:rgba(45,38,34,0.6)]" : "text-red-600"
+          }`}
+        >
+          {remaining === 0
+            ? "금액이 모두 나눠졌습니다."
+            : remaining > 0
+              ? `남은 금액 ${formatKrw(remaining)}원`
+              : `${formatKrw(-remaining)}원 초과`}
+        </span>
+      </div>
+    </div>
+  );
+}
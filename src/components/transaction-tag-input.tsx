@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_TAGS_PER_TRANSACTION, normalizeTagName } from "@/lib/tags";
+
+type TransactionTagInputProps = {
+  tags: string[];
+  onTagsChange: (next: string[]) => void;
+  suggestions: string[];
+  disabled?: boolean;
+};
+
+const MAX_VISIBLE_SUGGESTIONS = 8;
+
+export default function TransactionTagInput({
+  tags,
+  onTagsChange,
+  suggestions,
+  disabled = false,
+}: TransactionTagInputProps) {
+  const [input, setInput] = useState("");
+  const query = normalizeTagName(input);
+  const isFull = tags.length >= MAX_TAGS_PER_TRANSACTION;
+  const visibleSuggestions = suggestions
+    .filter((name) => !tags.includes(name) && (!query || name.includes(query)))
+    .slice(0, MAX_VISIBLE_SUGGESTIONS);
+
+  function addTag(value: string) {
+    const name = normalizeTagName(value);
+    setInput("");
+    if (!name || tags.includes(name) || isFull) {
+      return;
+    }
+    onTagsChange([...tags, name]);
+  }
+
+  function removeTag(name: string) {
+    onTagsChange(tags.filter((tag) => tag !== name));
+  }
+
+  return (
+    <div className="mt-4 text-sm">
+      <p className="font-medium">태그</p>
+      <div className="mt-2 flex flex-wrap items-center gap-2 rounded-xl border border-[var(--border)] bg-white px-3 py-2">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 rounded-full bg-[color:rgba(45,38,34,0.06)] px-2.5 py-1 text-xs"
+          >
+            #{tag}
+            <button
+              type="button"
+              className="text-[color:rgba(45,38,34,0.5)] disabled:opacity-60"
+              onClick={() => removeTag(tag)}
+              disabled={disabled}
+              aria-label={`${tag} 태그 빼기`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          className="min-w-24 flex-1 bg-transparent py-1 outline-none"
+          placeholder={isFull ? `최대 ${MAX_TAGS_PER_TRANSACTION}개` : "#제주여행"}
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.nativeEvent.isComposing) {
+              return;
+            }
+            if (event.key === "Enter" || event.key === ",") {
+              event.preventDefault();
+              addTag(input);
+            } else if (event.key === "Backspace" && !input && tags.length > 0) {
+              removeTag(tags[tags.length - 1]);
+            }
+          }}
+          onBlur={() => addTag(input)}
+          disabled={disabled || isFull}
+        />
+      </div>
+      {visibleSuggestions.length > 0 && !isFull ? (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {visibleSuggestions.map((name) => (
+            <button
+              key={name}
+              type="button"
+              className="rounded-full border border-[var(--border)] px-2.5 py-1 text-xs text-[color:rgba(45,38,34,0.7)] disabled:opacity-60"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(name)}
+              disabled={disabled}
+            >
+              #{name}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
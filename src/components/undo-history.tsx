@@ -0,0 +1,191 @@
+"use client";
+
+import { format } from "date-fns";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { useHousehold } from "@/components/household-provider";
+import UndoToast from "@/components/undo-toast";
+import {
+  UNDO_TOAST_DURATION_MS,
+  clearUndoHistory,
+  getUndoHistory,
+  redoUntil,
+  subscribeUndoHistory,
+  undoLatest,
+  undoUntil,
+  type UndoEntry,
+} from "@/lib/undo-actions";
+
+export default function UndoHistory() {
+  const { user } = useAuth();
+  const { householdId, displayName } = useHousehold();
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [toastEntry, setToastEntry] = useState<UndoEntry | null>(null);
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeUndoHistory((recorded) => {
+      setHistoryVersion((prev) => prev + 1);
+      setToastEntry(recorded);
+    });
+  }, []);
+
+  // historyVersion only signals that sessionStorage changed.
+  const history = useMemo(
+    () => ({ version: historyVersion, ...getUndoHistory(householdId) }),
+    [historyVersion, householdId]
+  );
+  const undoEntries = [...history.undo].reverse();
+  const redoEntries = [...history.redo].reverse();
+  const visibleToastEntry =
+    toastEntry && toastEntry.householdId === householdId && !panelOpen ? toastEntry : null;
+
+  const dismissToast = useCallback(() => {
+    setToastEntry(null);
+  }, []);
+
+  async function runStep(action: () => Promise<unknown>) {
+    if (busy) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setToastEntry(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "되돌리지 못했습니다.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!householdId || !user) {
+    return null;
+  }
+  const actor = { userId: user.uid, userName: displayName };
+
+  return (
+    <>
+      {visibleToastEntry ? (
+        <UndoToast
+          message={error ?? visibleToastEntry.label}
+          expiresAt={visibleToastEntry.createdAt + UNDO_TOAST_DURATION_MS}
+          onUndo={() => runStep(() => undoLatest(householdId, actor))}
+          onDismiss={dismissToast}
+          busy={busy}
+        />
+      ) : undoEntries.length > 0 || redoEntries.length > 0 ? (
+        <button
+          type="button"
+          className="fixed bottom-[calc(1.5rem+env(safe-area-inset-bottom))] right-4 z-40 rounded-full border border-[var(--border)] bg-white px-4 py-2 text-xs shadow-lg"
+          onClick={() => {
+            setError(null);
+            setPanelOpen(true);
+          }}
+        >
+          작업 기록 {undoEntries.length}
+        </button>
+      ) : null}
+      {panelOpen ? (
+        <div
+          className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 sm:items-center"
+          onClick={() => setPanelOpen(false)}
+        >
+          <div
+            className="max-h-[80vh] w-full max-w-md overflow-y-auto rounded-t-3xl border border-[var(--border)] bg-white p-5 pb-[calc(1.25rem+env(safe-area-inset-bottom))] sm:rounded-3xl"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-base font-semibold">작업 기록</h2>
+              <button
+                type="button"
+                className="text-xs text-[color:rgba(45,38,34,0.6)]"
+                onClick={() => setPanelOpen(false)}
+              >
+                닫기
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-[color:rgba(45,38,34,0.6)]">
+              이 탭에서 한 작업을 최근 것부터 되돌리거나 다시 실행합니다. 탭을 닫으면
+              기록이 사라집니다.
+            </p>
+            {error ? <p className="mt-3 text-xs text-red-600">{error}</p> : null}
+            <p className="mt-4 text-xs font-semibold text-[color:rgba(45,38,34,0.6)]">
+              되돌릴 수 있는 작업
+            </p>
+            {undoEntries.length === 0 ? (
+              <p className="mt-2 text-sm text-[color:rgba(45,38,34,0.5)]">없습니다.</p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {undoEntries.map((entry, index) => (
+                  <li
+                    key={entry.id}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-[var(--border)] px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate">{entry.label}</p>
+                      <p className="text-[11px] text-[color:rgba(45,38,34,0.5)]">
+                        {format(new Date(entry.createdAt), "HH:mm")}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className="shrink-0 rounded-full border border-[var(--border)] px-3 py-1 text-xs disabled:opacity-60"
+                      onClick={() => runStep(() => undoUntil(householdId, entry.id, actor))}
+                      disabled={busy}
+                    >
+                      {index === 0 ? "되돌리기" : "여기까지 되돌리기"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-4 text-xs font-semibold text-[color:rgba(45,38,34,0.6)]">
+              다시 실행할 수 있는 작업
+            </p>
+            {redoEntries.length === 0 ? (
+              <p className="mt-2 text-sm text-[color:rgba(45,38,34,0.5)]">없습니다.</p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {redoEntries.map((entry, index) => (
+                  <li
+                    key={entry.id}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-dashed border-[var(--border)] px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-[color:rgba(45,38,34,0.7)]">{entry.label}</p>
+                      <p className="text-[11px] text-[color:rgba(45,38,34,0.5)]">
+                        {format(new Date(entry.createdAt), "HH:mm")}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className="shrink-0 rounded-full border border-[var(--border)] px-3 py-1 text-xs disabled:opacity-60"
+                      onClick={() => runStep(() => redoUntil(householdId, entry.id, actor))}
+                      disabled={busy}
+                    >
+                      {index === 0 ? "다시 실행" : "여기까지 다시 실행"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {undoEntries.length > 0 || redoEntries.length > 0 ? (
+              <button
+                type="button"
+                className="mt-5 text-xs text-[color:rgba(45,38,34,0.6)] disabled:opacity-60"
+                onClick={() => clearUndoHistory(householdId)}
+                disabled={busy}
+              >
+                기록 지우기
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { onSnapshot, query, where } from "firebase/firestore";
+import { useEffect, useMemo, useState } from "react";
+import { apiTokensCol } from "@/lib/firebase/firestore";
+import type { ApiToken } from "@/types/ledger";
+
+type ApiTokenWithId = ApiToken & { id: string };
+
+type CachedApiTokens = {
+  data: ApiTokenWithId[];
+  loading: boolean;
+  unsubscribe?: () => void;
+  listeners: Set<(data: ApiTokenWithId[], loading: boolean) => void>;
+};
+
+const apiTokensCache = new Map<string, CachedApiTokens>();
+
+function getOrCreateEntry(householdId: string, uid: string) {
+  const cacheKey = `${householdId}:${uid}`;
+  const existing = apiTokensCache.get(cacheKey);
+  if (existing) {
+    return existing;
+  }
+  const entry: CachedApiTokens = {
+    data: [],
+    loading: true,
+    listeners: new Set(),
+  };
+  // Sorted here so the query needs no composite index.
+  const q = query(
+    apiTokensCol(),
+    where("uid", "==", uid),
+    where("householdId", "==", householdId)
+  );
+  entry.unsubscribe = onSnapshot(q, (snapshot) => {
+    entry.data = snapshot.docs
+      .map((doc) => ({
+        id: doc.id,
+        ...(doc.data() as ApiToken),
+      }))
+      .sort(
+        (a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0)
+      );
+    entry.loading = false;
+    entry.listeners.forEach((listener) => listener(entry.data, entry.loading));
+  });
+  apiTokensCache.set(cacheKey, entry);
+  return entry;
+}
+
+export function useApiTokens(householdId: string | null, uid: string | null) {
+  const cacheKey = householdId && uid ? `${householdId}:${uid}` : null;
+  const initial = useMemo(() => {
+    if (!cacheKey) {
+      return { data: [], loading: false };
+    }
+    const cached = apiTokensCache.get(cacheKey);
+    if (!cached) {
+      return { data: [], loading: true };
+    }
+    return { data: cached.data, loading: cached.loading };
+  }, [cacheKey]);
+  const [apiTokens, setApiTokens] = useState<ApiTokenWithId[]>(initial.data);
+  const [loading, setLoading] = useState(initial.loading);
+  const resolvedApiTokens = cacheKey ? apiTokens : [];
+  const resolvedLoading = cacheKey ? loading : false;
+
+  useEffect(() => {
+    if (!householdId || !uid) {
+      return;
+    }
+    const entry = getOrCreateEntry(householdId, uid);
+    const listener = (data: ApiTokenWithId[], isLoading: boolean) => {
+      setApiTokens(data);
+      setLoading(isLoading);
+    };
+    entry.listeners.add(listener);
+    listener(entry.data, entry.loading);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.unsubscribe?.();
+        apiTokensCache.delete(`${householdId}:${uid}`);
+      }
+    };
+  }, [householdId, uid]);
+
+  return {
+    apiTokens: resolvedApiTokens,
+    loading: resolvedLoading,
+  };
+}
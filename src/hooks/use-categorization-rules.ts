@@ -0,0 +1,87 @@
+"use client";
+
+import { onSnapshot, orderBy, query } from "firebase/firestore";
+import { useEffect, useMemo, useState } from "react";
+import { categorizationRulesCol } from "@/lib/firebase/firestore";
+import type { CategorizationRule } from "@/types/ledger";
+
+type CategorizationRuleWithId = CategorizationRule & { id: string };
+
+type CachedCategorizationRules = {
+  data: CategorizationRuleWithId[];
+  loading: boolean;
+  unsubscribe?: () => void;
+  listeners: Set<(data: CategorizationRuleWithId[], loading: boolean) => void>;
+};
+
+const categorizationRulesCache = new Map<string, CachedCategorizationRules>();
+
+function getOrCreateEntry(householdId: string) {
+  const existing = categorizationRulesCache.get(householdId);
+  if (existing) {
+    return existing;
+  }
+  const entry: CachedCategorizationRules = {
+    data: [],
+    loading: true,
+    listeners: new Set(),
+  };
+  const q = query(
+    categorizationRulesCol(householdId),
+    orderBy("order", "asc")
+  );
+  entry.unsubscribe = onSnapshot(q, (snapshot) => {
+    entry.data = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...(doc.data() as CategorizationRule),
+    }));
+    entry.loading = false;
+    entry.listeners.forEach((listener) => listener(entry.data, entry.loading));
+  });
+  categorizationRulesCache.set(householdId, entry);
+  return entry;
+}
+
+export function useCategorizationRules(householdId: string | null) {
+  const initial = useMemo(() => {
+    if (!householdId) {
+      return { data: [], loading: false };
+    }
+    const cached = categorizationRulesCache.get(householdId);
+    if (!cached) {
+      return { data: [], loading: true };
+    }
+    return { data: cached.data, loading: cached.loading };
+  }, [householdId]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRuleWithId[]>(
+    initial.data
+  );
+  const [loading, setLoading] = useState(initial.loading);
+  const resolvedCategorizationRules = householdId ? categorizationRules : [];
+  const resolvedLoading = householdId ? loading : false;
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    const entry = getOrCreateEntry(householdId);
+    const listener = (data: CategorizationRuleWithId[], isLoading: boolean) => {
+      setCategorizationRules(data);
+      setLoading(isLoading);
+    };
+    entry.listeners.add(listener);
+    listener(entry.data, entry.loading);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.unsubscribe?.();
+        categorizationRulesCache.delete(householdId);
+      }
+    };
+  }, [householdId]);
+
+  return {
+    categorizationRules: resolvedCategorizationRules,
+    loading: resolvedLoading,
+  };
+}
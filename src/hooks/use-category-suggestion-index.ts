@@ -0,0 +1,133 @@
+"use client";
+
+import { Timestamp, onSnapshot, query, where } from "firebase/firestore";
+import { subMonths } from "date-fns";
+import { useEffect, useMemo, useState } from "react";
+import {
+  addToSuggestionIndex,
+  createCategorySuggestionIndex,
+  removeFromSuggestionIndex,
+  type CategorySuggestionIndex,
+} from "@/lib/category-suggestions";
+import { transactionsCol } from "@/lib/firebase/firestore";
+import type { Transaction } from "@/types/ledger";
+
+const LEARNING_MONTHS = 12;
+const IDLE_RELEASE_MS = 60 * 1000;
+
+type SuggestionIndexState = {
+  index: CategorySuggestionIndex | null;
+  version: number;
+  loading: boolean;
+};
+
+type CachedSuggestionIndex = {
+  index: CategorySuggestionIndex;
+  version: number;
+  loading: boolean;
+  unsubscribe?: () => void;
+  releaseTimer?: ReturnType<typeof setTimeout>;
+  listeners: Set<(state: SuggestionIndexState) => void>;
+};
+
+const suggestionIndexCache = new Map<string, CachedSuggestionIndex>();
+
+function toState(entry: CachedSuggestionIndex): SuggestionIndexState {
+  return { index: entry.index, version: entry.version, loading: entry.loading };
+}
+
+function notifyListeners(entry: CachedSuggestionIndex) {
+  const state = toState(entry);
+  entry.listeners.forEach((listener) => listener(state));
+}
+
+function releaseEntry(householdId: string, entry: CachedSuggestionIndex) {
+  clearTimeout(entry.releaseTimer);
+  entry.unsubscribe?.();
+  if (suggestionIndexCache.get(householdId) === entry) {
+    suggestionIndexCache.delete(householdId);
+  }
+}
+
+// Only the changed documents are folded into the index on each snapshot, and
+// the entry outlives the page for a minute so reopening the entry form does
+// not re-learn a year of history.
+function getOrCreateEntry(householdId: string) {
+  const existing = suggestionIndexCache.get(householdId);
+  if (existing) {
+    clearTimeout(existing.releaseTimer);
+    return existing;
+  }
+  const entry: CachedSuggestionIndex = {
+    index: createCategorySuggestionIndex(),
+    version: 0,
+    loading: true,
+    listeners: new Set(),
+  };
+  const q = query(
+    transactionsCol(householdId),
+    where("date", ">=", Timestamp.fromDate(subMonths(new Date(), LEARNING_MONTHS)))
+  );
+  entry.unsubscribe = onSnapshot(
+    q,
+    (snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        if (change.type === "removed") {
+          removeFromSuggestionIndex(entry.index, change.doc.id);
+          return;
+        }
+        addToSuggestionIndex(entry.index, change.doc.id, change.doc.data() as Transaction);
+      });
+      entry.version += 1;
+      entry.loading = false;
+      notifyListeners(entry);
+    },
+    () => {
+      // A failed listener never recovers; drop the entry so the next mount
+      // subscribes again, and stop showing the form as loading meanwhile.
+      releaseEntry(householdId, entry);
+      entry.loading = false;
+      notifyListeners(entry);
+    }
+  );
+  suggestionIndexCache.set(householdId, entry);
+  return entry;
+}
+
+export function useCategorySuggestionIndex(householdId: string | null) {
+  const initial = useMemo<SuggestionIndexState>(() => {
+    if (!householdId) {
+      return { index: null, version: 0, loading: false };
+    }
+    const cached = suggestionIndexCache.get(householdId);
+    if (!cached) {
+      return { index: null, version: 0, loading: true };
+    }
+    return toState(cached);
+  }, [householdId]);
+  const [state, setState] = useState<SuggestionIndexState>(initial);
+  const resolvedState = householdId ? state : initial;
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    const entry = getOrCreateEntry(householdId);
+    const listener = (next: SuggestionIndexState) => {
+      setState(next);
+    };
+    entry.listeners.add(listener);
+    listener(toState(entry));
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.releaseTimer = setTimeout(
+          () => releaseEntry(householdId, entry),
+          IDLE_RELEASE_MS
+        );
+      }
+    };
+  }, [householdId]);
+
+  return resolvedState;
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { onSnapshot } from "firebase/firestore";
+import { useEffect, useState } from "react";
+import { householdDoc } from "@/lib/firebase/firestore";
+import type { Household } from "@/types/ledger";
+
+type IndexState = {
+  householdId: string;
+  searchTokensReady: boolean;
+  monthlyAggregatesReady: boolean;
+};
+
+// Every write keeps the derived indexes current, but records saved before an
+// index existed are only covered once it has been rebuilt for the household.
+// A failed read counts as not built, so callers fall back to the records.
+export function useHouseholdIndexes(householdId: string | null) {
+  const [state, setState] = useState<IndexState | null>(null);
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    return onSnapshot(
+      householdDoc(householdId),
+      (snapshot) => {
+        const household = snapshot.data() as Household | undefined;
+        setState({
+          householdId,
+          searchTokensReady: Boolean(household?.searchTokensBuiltAt),
+          monthlyAggregatesReady: Boolean(household?.monthlyAggregatesBuiltAt),
+        });
+      },
+      () => {
+        setState({
+          householdId,
+          searchTokensReady: false,
+          monthlyAggregatesReady: false,
+        });
+      }
+    );
+  }, [householdId]);
+
+  const current = householdId && state?.householdId === householdId ? state : null;
+  return {
+    searchTokensReady: current?.searchTokensReady ?? false,
+    monthlyAggregatesReady: current?.monthlyAggregatesReady ?? false,
+    loading: Boolean(householdId) && !current,
+  };
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { onSnapshot, orderBy, query } from "firebase/firestore";
+import { useEffect, useMemo, useState } from "react";
+import { importProfilesCol } from "@/lib/firebase/firestore";
+import type { ImportProfile } from "@/types/ledger";
+
+type ImportProfileWithId = ImportProfile & { id: string };
+
+type CachedImportProfiles = {
+  data: ImportProfileWithId[];
+  loading: boolean;
+  unsubscribe?: () => void;
+  listeners: Set<(data: ImportProfileWithId[], loading: boolean) => void>;
+};
+
+const importProfilesCache = new Map<string, CachedImportProfiles>();
+
+function getOrCreateEntry(householdId: string) {
+  const existing = importProfilesCache.get(householdId);
+  if (existing) {
+    return existing;
+  }
+  const entry: CachedImportProfiles = {
+    data: [],
+    loading: true,
+    listeners: new Set(),
+  };
+  const q = query(
+    importProfilesCol(householdId),
+    orderBy("name", "asc")
+  );
+  entry.unsubscribe = onSnapshot(q, (snapshot) => {
+    entry.data = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...(doc.data() as ImportProfile),
+    }));
+    entry.loading = false;
+    entry.listeners.forEach((listener) => listener(entry.data, entry.loading));
+  });
+  importProfilesCache.set(householdId, entry);
+  return entry;
+}
+
+export function useImportProfiles(householdId: string | null) {
+  const initial = useMemo(() => {
+    if (!householdId) {
+      return { data: [], loading: false };
+    }
+    const cached = importProfilesCache.get(householdId);
+    if (!cached) {
+      return { data: [], loading: true };
+    }
+    return { data: cached.data, loading: cached.loading };
+  }, [householdId]);
+  const [importProfiles, setImportProfiles] = useState<ImportProfileWithId[]>(
+    initial.data
+  );
+  const [loading, setLoading] = useState(initial.loading);
+  const resolvedImportProfiles = householdId ? importProfiles : [];
+  const resolvedLoading = householdId ? loading : false;
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    const entry = getOrCreateEntry(householdId);
+    const listener = (data: ImportProfileWithId[], isLoading: boolean) => {
+      setImportProfiles(data);
+      setLoading(isLoading);
+    };
+    entry.listeners.add(listener);
+    listener(entry.data, entry.loading);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.unsubscribe?.();
+        importProfilesCache.delete(householdId);
+      }
+    };
+  }, [householdId]);
+
+  return { importProfiles: resolvedImportProfiles, loading: resolvedLoading };
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { useEffect, useState } from "react";
+import { useHouseholdIndexes } from "@/hooks/use-household-indexes";
+import { monthlyAggregatesCol, transactionsCol } from "@/lib/firebase/firestore";
+import { buildMonthlyAggregatesFromTransactions } from "@/lib/monthly-aggregates";
+import type { MonthlyAggregate, Transaction } from "@/types/ledger";
+
+type AggregatesState = {
+  key: string;
+  aggregates: MonthlyAggregate[];
+};
+
+// Month keys are zero-padded, so a string range covers the months in order.
+// Until the aggregates have been built for a household, the same totals are
+// computed from the records of the range instead.
+export function useMonthlyAggregates(
+  householdId: string | null,
+  startMonthKey: string,
+  endMonthKey: string
+) {
+  const { monthlyAggregatesReady, loading: indexesLoading } =
+    useHouseholdIndexes(householdId);
+  const rangeKey =
+    householdId && !indexesLoading
+      ? [householdId, startMonthKey, endMonthKey, monthlyAggregatesReady].join("|")
+      : null;
+  const [state, setState] = useState<AggregatesState | null>(null);
+
+  useEffect(() => {
+    if (!householdId || !rangeKey) {
+      return;
+    }
+    if (!monthlyAggregatesReady) {
+      const q = query(
+        transactionsCol(householdId),
+        where("monthKey", ">=", startMonthKey),
+        where("monthKey", "<=", endMonthKey)
+      );
+      return onSnapshot(q, (snapshot) => {
+        setState({
+          key: rangeKey,
+          aggregates: buildMonthlyAggregatesFromTransactions(
+            snapshot.docs.map((docSnap) => docSnap.data() as Transaction)
+          ),
+        });
+      });
+    }
+    const q = query(
+      monthlyAggregatesCol(householdId),
+      where("monthKey", ">=", startMonthKey),
+      where("monthKey", "<=", endMonthKey),
+      orderBy("monthKey")
+    );
+    return onSnapshot(q, (snapshot) => {
+      setState({
+        key: rangeKey,
+        aggregates: snapshot.docs.map((docSnap) => docSnap.data() as MonthlyAggregate),
+      });
+    });
+  }, [endMonthKey, householdId, monthlyAggregatesReady, rangeKey, startMonthKey]);
+
+  const current = rangeKey && state?.key === rangeKey ? state : null;
+  return {
+    aggregates: current?.aggregates ?? [],
+    loading: Boolean(householdId) && !current,
+  };
+}
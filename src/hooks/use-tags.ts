@@ -0,0 +1,79 @@
+"use client";
+
+import { onSnapshot, orderBy, query } from "firebase/firestore";
+import { useEffect, useMemo, useState } from "react";
+import { tagsCol } from "@/lib/firebase/firestore";
+import type { Tag } from "@/types/ledger";
+
+type CachedTags = {
+  data: (Tag & { id: string })[];
+  loading: boolean;
+  unsubscribe?: () => void;
+  listeners: Set<(data: (Tag & { id: string })[], loading: boolean) => void>;
+};
+
+const tagsCache = new Map<string, CachedTags>();
+
+function getOrCreateEntry(householdId: string) {
+  const existing = tagsCache.get(householdId);
+  if (existing) {
+    return existing;
+  }
+  const entry: CachedTags = {
+    data: [],
+    loading: true,
+    listeners: new Set(),
+  };
+  const q = query(tagsCol(householdId), orderBy("order", "asc"));
+  entry.unsubscribe = onSnapshot(q, (snapshot) => {
+    entry.data = snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...(doc.data() as Tag),
+    }));
+    entry.loading = false;
+    entry.listeners.forEach((listener) => listener(entry.data, entry.loading));
+  });
+  tagsCache.set(householdId, entry);
+  return entry;
+}
+
+export function useTags(householdId: string | null) {
+  const initial = useMemo(() => {
+    if (!householdId) {
+      return { data: [], loading: false };
+    }
+    const cached = tagsCache.get(householdId);
+    if (!cached) {
+      return { data: [], loading: true };
+    }
+    return { data: cached.data, loading: cached.loading };
+  }, [householdId]);
+  const [tags, setTags] = useState<(Tag & { id: string })[]>(
+    initial.data
+  );
+  const [loading, setLoading] = useState(initial.loading);
+  const resolvedTags = householdId ? tags : [];
+  const resolvedLoading = householdId ? loading : false;
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    const entry = getOrCreateEntry(householdId);
+    const listener = (data: (Tag & { id: string })[], isLoading: boolean) => {
+      setTags(data);
+      setLoading(isLoading);
+    };
+    entry.listeners.add(listener);
+    listener(entry.data, entry.loading);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.unsubscribe?.();
+        tagsCache.delete(householdId);
+      }
+    };
+  }, [householdId]);
+
+  return { tags: resolvedTags, loading: resolvedLoading };
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { limit, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { useEffect, useState } from "react";
+import { transactionChangeLogsCol } from "@/lib/firebase/firestore";
+import type { TransactionChangeLog } from "@/types/ledger";
+
+type ChangeLogItem = TransactionChangeLog & { id: string };
+
+// A transaction id narrows the query to that entry's timeline; without one it
+// is the household-wide feed, newest first.
+function useChangeLogs(
+  householdId: string | null,
+  transactionId: string | null,
+  maxItems: number | null
+) {
+  const queryKey = householdId
+    ? [householdId, transactionId ?? "", maxItems ?? ""].join("/")
+    : null;
+  const [state, setState] = useState<{ key: string; logs: ChangeLogItem[] } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!householdId || !queryKey) {
+      return;
+    }
+    const constraints = [
+      ...(transactionId ? [where("transactionId", "==", transactionId)] : []),
+      orderBy("changedAt", "desc"),
+      ...(maxItems ? [limit(maxItems)] : []),
+    ];
+    const q = query(transactionChangeLogsCol(householdId), ...constraints);
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setState({
+        key: queryKey,
+        logs: snapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...(doc.data() as TransactionChangeLog),
+        })),
+      });
+    });
+    return () => unsubscribe();
+  }, [householdId, maxItems, queryKey, transactionId]);
+
+  const isCurrent = Boolean(queryKey) && state?.key === queryKey;
+  return {
+    logs: isCurrent && state ? state.logs : [],
+    loading: Boolean(queryKey) && !isCurrent,
+  };
+}
+
+export function useTransactionChangeLogs(
+  householdId: string | null,
+  transactionId: string | null
+) {
+  return useChangeLogs(transactionId ? householdId : null, transactionId, null);
+}
+
+export function useHouseholdChangeLogs(householdId: string | null, maxItems: number) {
+  return useChangeLogs(householdId, null, maxItems);
+}
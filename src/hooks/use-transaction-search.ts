@@ -0,0 +1,235 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import { useHouseholdIndexes } from "@/hooks/use-household-indexes";
+import {
+  fetchTransactionSearchPage,
+  getMatchingCategoryIds,
+  isEmptyTransactionSearch,
+  parseTransactionSearch,
+  scoreTransactionSearchMatch,
+  type TransactionSearch,
+} from "@/lib/transaction-search";
+import type { Category, Transaction } from "@/types/ledger";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const CANDIDATE_PAGE_SIZE = 100;
+const MIN_MATCHES_PER_LOAD = 30;
+const MAX_PAGES_PER_LOAD = 5;
+
+export type TransactionSearchResult = Transaction & { id: string; score: number };
+
+type SearchState = {
+  key: string;
+  results: TransactionSearchResult[];
+  cursor: QueryDocumentSnapshot | null;
+  done: boolean;
+  loadingMore: boolean;
+  error: string | null;
+};
+
+function rankSearchResults(results: TransactionSearchResult[]) {
+  const byId = new Map(results.map((result) => [result.id, result]));
+  return Array.from(byId.values()).sort(
+    (a, b) => b.score - a.score || b.date.toMillis() - a.date.toMillis()
+  );
+}
+
+// Ranking only sees the pages read so far, so a later page is ranked on its
+// own and appended; loading more never reshuffles what is already shown.
+function appendSearchResults(
+  current: TransactionSearchResult[],
+  next: TransactionSearchResult[]
+) {
+  const shownIds = new Set(current.map((result) => result.id));
+  return [...current, ...rankSearchResults(next.filter((result) => !shownIds.has(result.id)))];
+}
+
+// Most index hits fail the other words or the amount range, so a load keeps
+// paging until it has enough matches or has read a bounded number of pages.
+async function collectSearchMatches(params: {
+  householdId: string;
+  search: TransactionSearch;
+  categories: (Category & { id: string })[];
+  startDate: Date | null;
+  endDate: Date | null;
+  cursor: QueryDocumentSnapshot | null;
+  useSearchTokens: boolean;
+}) {
+  const { householdId, search, categories, startDate, endDate, useSearchTokens } = params;
+  const categoryIds = getMatchingCategoryIds(search, categories);
+  const categoryNameById = new Map(categories.map((category) => [category.id, category.name]));
+  const results: TransactionSearchResult[] = [];
+  let cursor = params.cursor;
+  let done = false;
+  for (
+    let page = 0;
+    page < MAX_PAGES_PER_LOAD && !done && results.length < MIN_MATCHES_PER_LOAD;
+    page += 1
+  ) {
+    const fetched = await fetchTransactionSearchPage({
+      householdId,
+      search,
+      categoryIds,
+      startDate,
+      endDate,
+      cursor,
+      pageSize: CANDIDATE_PAGE_SIZE,
+      useSearchTokens,
+    });
+    fetched.transactions.forEach((transaction) => {
+      const time = transaction.date.toMillis();
+      if (
+        (startDate && time < startDate.getTime()) ||
+        (endDate && time > endDate.getTime())
+      ) {
+        return;
+      }
+      const score = scoreTransactionSearchMatch(transaction, search, categoryNameById);
+      if (score !== null) {
+        results.push({ ...transaction, score });
+      }
+    });
+    cursor = fetched.cursor;
+    done = fetched.done;
+  }
+  return { results, cursor, done };
+}
+
+export function useTransactionSearch(params: {
+  householdId: string | null;
+  queryText: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  categories: (Category & { id: string })[];
+}) {
+  const { householdId, queryText, categories } = params;
+  const startTime = params.startDate?.getTime() ?? null;
+  const endTime = params.endDate?.getTime() ?? null;
+  const trimmedQuery = queryText.trim();
+  const { searchTokensReady, loading: indexesLoading } = useHouseholdIndexes(householdId);
+  const searchActive =
+    Boolean(householdId) && !isEmptyTransactionSearch(parseTransactionSearch(trimmedQuery));
+  const searchKey =
+    householdId && searchActive && !indexesLoading
+      ? [householdId, trimmedQuery, startTime ?? "", endTime ?? "", searchTokensReady].join("|")
+      : null;
+  const [state, setState] = useState<SearchState | null>(null);
+
+  useEffect(() => {
+    if (!householdId || !searchKey) {
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      collectSearchMatches({
+        householdId,
+        search: parseTransactionSearch(trimmedQuery),
+        categories,
+        startDate: startTime === null ? null : new Date(startTime),
+        endDate: endTime === null ? null : new Date(endTime),
+        cursor: null,
+        useSearchTokens: searchTokensReady,
+      })
+        .then((page) => {
+          if (cancelled) {
+            return;
+          }
+          setState({
+            key: searchKey,
+            results: rankSearchResults(page.results),
+            cursor: page.cursor,
+            done: page.done,
+            loadingMore: false,
+            error: null,
+          });
+        })
+        .catch((error) => {
+          if (cancelled) {
+            return;
+          }
+          setState({
+            key: searchKey,
+            results: [],
+            cursor: null,
+            done: true,
+            loadingMore: false,
+            error: error instanceof Error ? error.message : "검색하지 못했습니다.",
+          });
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    categories,
+    endTime,
+    householdId,
+    searchKey,
+    searchTokensReady,
+    startTime,
+    trimmedQuery,
+  ]);
+
+  const current = searchKey && state?.key === searchKey ? state : null;
+
+  const loadMore = useCallback(async () => {
+    if (!householdId || !current || current.done || current.loadingMore) {
+      return;
+    }
+    const key = current.key;
+    setState({ ...current, loadingMore: true });
+    try {
+      const page = await collectSearchMatches({
+        householdId,
+        search: parseTransactionSearch(trimmedQuery),
+        categories,
+        startDate: startTime === null ? null : new Date(startTime),
+        endDate: endTime === null ? null : new Date(endTime),
+        cursor: current.cursor,
+        useSearchTokens: searchTokensReady,
+      });
+      setState((prev) =>
+        prev?.key === key
+          ? {
+              ...prev,
+              results: appendSearchResults(prev.results, page.results),
+              cursor: page.cursor,
+              done: page.done,
+              loadingMore: false,
+            }
+          : prev
+      );
+    } catch (error) {
+      setState((prev) =>
+        prev?.key === key
+          ? {
+              ...prev,
+              loadingMore: false,
+              error: error instanceof Error ? error.message : "검색하지 못했습니다.",
+            }
+          : prev
+      );
+    }
+  }, [
+    categories,
+    current,
+    endTime,
+    householdId,
+    searchTokensReady,
+    startTime,
+    trimmedQuery,
+  ]);
+
+  return {
+    active: searchActive,
+    results: current?.results ?? [],
+    loading: searchActive && !current,
+    loadingMore: current?.loadingMore ?? false,
+    hasMore: current ? !current.done : false,
+    error: current?.error ?? null,
+    loadMore,
+  };
+}
@@ -10,6 +10,8 @@ import {
 import { useEffect, useMemo, useState } from "react";
 import { transactionsCol } from "@/lib/firebase/firestore";
 import { toMonthKey } from "@/lib/time";
+import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
 import type { Transaction } from "@/types/ledger";
 
 export function useMonthlyTransactions(
@@ -50,13 +52,14 @@ export function useMonthlyTransactions(
     let income = 0;
     let expense = 0;
     const byCategory: Record<string, number> = {};
-    transactions.forEach((tx) => {
+    transactions.flatMap(expandTransactionSplits).forEach((tx) => {
       if (tx.type === "income") {
         income += tx.amount;
         byCategory[tx.categoryId] = (byCategory[tx.categoryId] ?? 0) + tx.amount;
       } else if (tx.type === "expense") {
-        expense += tx.amount;
-        byCategory[tx.categoryId] = (byCategory[tx.categoryId] ?? 0) + tx.amount;
+        const expenseAmount = getEffectiveExpenseAmount(tx);
+        expense += expenseAmount;
+        byCategory[tx.categoryId] = (byCategory[tx.categoryId] ?? 0) + expenseAmount;
       }
     });
     return { income, expense, balance: income - expense, byCategory };
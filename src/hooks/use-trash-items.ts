@@ -0,0 +1,35 @@
+"use client";
+
+import { onSnapshot, orderBy, query } from "firebase/firestore";
+import { useEffect, useState } from "react";
+import { trashCol } from "@/lib/firebase/firestore";
+import type { TrashItem } from "@/types/ledger";
+
+export function useTrashItems(householdId: string | null) {
+  const [state, setState] = useState<{
+    householdId: string;
+    items: (TrashItem & { id: string })[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!householdId) {
+      return;
+    }
+    const q = query(trashCol(householdId), orderBy("deletedAt", "desc"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const now = Date.now();
+      // The app shell purges on load, but an item can expire while the screen is up.
+      const items = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...(doc.data() as TrashItem) }))
+        .filter((item) => (item.expiresAt?.toMillis?.() ?? Infinity) > now);
+      setState({ householdId, items });
+    });
+    return () => unsubscribe();
+  }, [householdId]);
+
+  const isCurrent = Boolean(householdId) && state?.householdId === householdId;
+  return {
+    items: isCurrent && state ? state.items : [],
+    loading: Boolean(householdId) && !isCurrent,
+  };
+}
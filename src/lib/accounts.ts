@@ -14,7 +14,8 @@ import {
 import { db } from "@/lib/firebase/client";
 import { accountGroupsCol, accountsCol, transfersCol } from "@/lib/firebase/firestore";
 import { toMonthKey } from "@/lib/time";
-import type { Account, AccountGroup } from "@/types/ledger";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type { Account, AccountGroup, TrashItem } from "@/types/ledger";
 
 type AccountInput = Omit<Account, "createdAt">;
 type AccountGroupInput = Omit<AccountGroup, "createdAt">;
@@ -82,20 +83,26 @@ export async function deleteAccount(householdId: string, accountId: string) {
 
 export async function addTransfer(params: {
   householdId: string;
+  transferId?: string;
   fromAccountId?: string | null;
   toAccountId?: string | null;
   amount: number;
   date: Date;
   memo?: string;
+  generatedFromRecurringRuleId?: string;
+  recurringOccurrenceDateKey?: string;
   createdBy: string;
 }) {
   const {
     householdId,
+    transferId,
     fromAccountId,
     toAccountId,
     amount,
     date,
     memo,
+    generatedFromRecurringRuleId,
+    recurringOccurrenceDateKey,
     createdBy,
   } = params;
 
@@ -106,28 +113,38 @@ export async function addTransfer(params: {
     throw new Error("같은 계좌로는 이체할 수 없습니다.");
   }
 
-  const transferRef = doc(transfersCol(householdId));
+  const transferRef = transferId
+    ? doc(transfersCol(householdId), transferId)
+    : doc(transfersCol(householdId));
   const fromRef = fromAccountId
     ? doc(accountsCol(householdId), fromAccountId)
     : null;
   const toRef = toAccountId ? doc(accountsCol(householdId), toAccountId) : null;
 
-  await runTransaction(db, async (tx) => {
-    if (fromRef) {
-      const fromSnap = await tx.get(fromRef);
-      if (!fromSnap.exists()) {
-        throw new Error("출금 계좌를 찾을 수 없습니다.");
+  // Returns false when a transfer with the given id already exists, so callers
+  // generating deterministic ids can retry without moving balances twice.
+  return runTransaction(db, async (tx) => {
+    if (transferId) {
+      const existingSnap = await tx.get(transferRef);
+      if (existingSnap.exists()) {
+        return false;
       }
-      const fromBalance = (fromSnap.data().balance as number) ?? 0;
-      tx.update(fromRef, { balance: fromBalance - amount });
+    }
+    const fromSnap = fromRef ? await tx.get(fromRef) : null;
+    if (fromSnap && !fromSnap.exists()) {
+      throw new Error("출금 계좌를 찾을 수 없습니다.");
+    }
+    const toSnap = toRef ? await tx.get(toRef) : null;
+    if (toSnap && !toSnap.exists()) {
+      throw new Error("입금 계좌를 찾을 수 없습니다.");
     }
 
-    if (toRef) {
-      const toSnap = await tx.get(toRef);
-      if (!toSnap.exists()) {
-        throw new Error("입금 계좌를 찾을 수 없습니다.");
-      }
-      const toBalance = (toSnap.data().balance as number) ?? 0;
+    if (fromRef && fromSnap) {
+      const fromBalance = (fromSnap.data()?.balance as number) ?? 0;
+      tx.update(fromRef, { balance: fromBalance - amount });
+    }
+    if (toRef && toSnap) {
+      const toBalance = (toSnap.data()?.balance as number) ?? 0;
       tx.update(toRef, { balance: toBalance + amount });
     }
 
@@ -139,9 +156,13 @@ export async function addTransfer(params: {
       date: Timestamp.fromDate(date),
       monthKey: toMonthKey(date),
       memo: memo ?? "",
+      ...(generatedFromRecurringRuleId
+        ? { generatedFromRecurringRuleId, recurringOccurrenceDateKey }
+        : {}),
       createdBy,
       createdAt: serverTimestamp(),
     });
+    return true;
   });
 }
 
@@ -261,8 +282,9 @@ export async function updateTransfer(params: {
 export async function deleteTransfer(params: {
   householdId: string;
   transferId: string;
+  deletedBy: string;
 }) {
-  const { householdId, transferId } = params;
+  const { householdId, transferId, deletedBy } = params;
   const transferRef = doc(transfersCol(householdId), transferId);
 
   await runTransaction(db, async (tx) => {
@@ -330,6 +352,64 @@ export async function deleteTransfer(params: {
       tx.update(ref, { balance: balance + delta });
     }
 
+    tx.set(
+      trashItemRef(householdId, "transfer", transferId),
+      buildTrashItem({
+        kind: "transfer",
+        itemId: transferId,
+        data: currentSnap.data(),
+        deletedBy,
+      })
+    );
     tx.delete(transferRef);
   });
 }
+
+// Balances were reversed when the transfer went to the trash, so restoring it
+// applies the amount to both accounts again.
+export async function restoreTransferFromTrash(householdId: string, transferId: string) {
+  const trashRef = trashItemRef(householdId, "transfer", transferId);
+  const transferRef = doc(transfersCol(householdId), transferId);
+
+  await runTransaction(db, async (tx) => {
+    const trashSnap = await tx.get(trashRef);
+    if (!trashSnap.exists()) {
+      throw new Error("휴지통에서 항목을 찾을 수 없습니다.");
+    }
+    const data = (trashSnap.data() as TrashItem).data as {
+      fromAccountId?: string | null;
+      toAccountId?: string | null;
+      amount: number;
+    };
+    const currentSnap = await tx.get(transferRef);
+    if (currentSnap.exists()) {
+      tx.delete(trashRef);
+      return;
+    }
+
+    const fromRef = data.fromAccountId
+      ? doc(accountsCol(householdId), data.fromAccountId)
+      : null;
+    const toRef = data.toAccountId ? doc(accountsCol(householdId), data.toAccountId) : null;
+    const fromSnap = fromRef ? await tx.get(fromRef) : null;
+    if (fromSnap && !fromSnap.exists()) {
+      throw new Error("출금 계좌를 찾을 수 없습니다.");
+    }
+    const toSnap = toRef ? await tx.get(toRef) : null;
+    if (toSnap && !toSnap.exists()) {
+      throw new Error("입금 계좌를 찾을 수 없습니다.");
+    }
+
+    if (fromRef && fromSnap) {
+      const fromBalance = (fromSnap.data()?.balance as number) ?? 0;
+      tx.update(fromRef, { balance: fromBalance - data.amount });
+    }
+    if (toRef && toSnap) {
+      const toBalance = (toSnap.data()?.balance as number) ?? 0;
+      tx.update(toRef, { balance: toBalance + data.amount });
+    }
+
+    tx.set(transferRef, data);
+    tx.delete(trashRef);
+  });
+}
@@ -0,0 +1,44 @@
+import { doc, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
+import { apiTokensCol } from "@/lib/firebase/firestore";
+
+export const API_TOKEN_PREFIX = "gbk_";
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Only the SHA-256 of a token is stored and used as its document id, so the
+// quick-add route can look a token up without anyone being able to read it
+// back from Firestore.
+export async function hashApiToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+export async function createApiToken(params: {
+  householdId: string;
+  uid: string;
+  name: string;
+}) {
+  const { householdId, uid, name } = params;
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("토큰 이름을 입력해주세요.");
+  }
+  const token = `${API_TOKEN_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+  const tokenId = await hashApiToken(token);
+  await setDoc(doc(apiTokensCol(), tokenId), {
+    name: trimmedName,
+    householdId,
+    uid,
+    prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    createdAt: serverTimestamp(),
+    lastUsedAt: null,
+    revokedAt: null,
+  });
+  return { tokenId, token };
+}
+
+export async function revokeApiToken(tokenId: string) {
+  return updateDoc(doc(apiTokensCol(), tokenId), { revokedAt: serverTimestamp() });
+}
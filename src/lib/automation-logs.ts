@@ -4,6 +4,7 @@ import {
   limit,
   orderBy,
   query,
+  where,
 } from "firebase/firestore";
 import { automationLogsCol } from "@/lib/firebase/firestore";
 import type { AutomationLog } from "@/types/ledger";
@@ -24,14 +25,22 @@ function toDateOrNull(value: Timestamp | null | undefined) {
 
 export async function getLatestAutomationLogs(
   householdId: string,
-  maxItems = 20
+  maxItems = 20,
+  source?: AutomationLog["source"]
 ) {
   const snapshot = await getDocs(
-    query(
-      automationLogsCol(householdId),
-      orderBy("createdAt", "desc"),
-      limit(maxItems)
-    )
+    source
+      ? query(
+          automationLogsCol(householdId),
+          where("source", "==", source),
+          orderBy("createdAt", "desc"),
+          limit(maxItems)
+        )
+      : query(
+          automationLogsCol(householdId),
+          orderBy("createdAt", "desc"),
+          limit(maxItems)
+        )
   );
 
   return snapshot.docs.map((docSnap) => {
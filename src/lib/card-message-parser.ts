@@ -0,0 +1,214 @@
+import type { PaymentMethod } from "@/types/ledger";
+
+export type CardMessageStatus = "approval" | "cancel";
+
+export type ParsedCardMessage = {
+  issuer: string;
+  status: CardMessageStatus;
+  debit: boolean;
+  amount: number;
+  merchant: string | null;
+  cardSuffix: string | null;
+  date: Date | null;
+  installmentMonths: number | null;
+};
+
+// Each issuer only needs to say how to recognise its messages and which
+// words name it inside a payment method. Layout differences such as KB
+// putting the time before the amount are handled by the shared extractors.
+export type CardMessagePattern = {
+  issuer: string;
+  test: RegExp;
+  keywords: string[];
+  debit?: boolean;
+};
+
+export const CARD_MESSAGE_PATTERNS: CardMessagePattern[] = [
+  {
+    issuer: "은행 출금",
+    test: /출금/,
+    keywords: [],
+    debit: true,
+  },
+  { issuer: "신한카드", test: /신한(?=카드|\s*\(|\d{4})/, keywords: ["신한"] },
+  { issuer: "삼성카드", test: /삼성(?=카드|\s*\(|\d{4})/, keywords: ["삼성"] },
+  { issuer: "현대카드", test: /현대카드/, keywords: ["현대"] },
+  { issuer: "KB국민카드", test: /KB국민|국민카드|KB카드/i, keywords: ["KB", "국민"] },
+  { issuer: "롯데카드", test: /롯데(?=카드|\s*\(|\d{4})/, keywords: ["롯데"] },
+  { issuer: "우리카드", test: /우리(?=카드|\s*\(|\d{4})/, keywords: ["우리카드"] },
+  { issuer: "하나카드", test: /하나(?=카드|\s*\(|\d{4})/, keywords: ["하나"] },
+  { issuer: "BC카드", test: /BC(?=카드|\s*\()|비씨카드/i, keywords: ["BC", "비씨"] },
+  { issuer: "NH농협카드", test: /NH농협카드|농협카드|NH카드/i, keywords: ["농협", "NH"] },
+];
+
+const BANK_NAME_PATTERN =
+  /(신한|KB국민|국민|우리|하나|NH농협|농협|IBK기업|기업|카카오뱅크|토스뱅크|케이뱅크|SC제일|새마을|우체국)/;
+const AMOUNT_PATTERN = /([\d,]+)\s*원/g;
+const DEBIT_AMOUNT_PATTERN = /출금\s*([\d,]+)\s*원?/;
+const DATETIME_PATTERN = /(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{2})/;
+const SUFFIX_PATTERN = /\(?\s*([\d*]{4})\s*\)?/;
+const TRAILER_PATTERN = /\s*(누적|잔액|사용가능|포인트|결제예정).*$/;
+
+function normalizeMessage(text: string) {
+  return text
+    .replace(/\[(web발신|국외발신|국제발신)\]/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseAmountText(value: string) {
+  const amount = Number(value.replace(/,/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+// Messages only carry month and day, so a date that would land more than a
+// day in the future belongs to last year (a December purchase read in January).
+function resolveMessageDate(match: RegExpMatchArray | null, now: Date) {
+  if (!match) {
+    return null;
+  }
+  const [, monthText, dayText, hourText, minuteText] = match;
+  const date = new Date(
+    now.getFullYear(),
+    Number(monthText) - 1,
+    Number(dayText),
+    Number(hourText),
+    Number(minuteText)
+  );
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  if (date.getTime() - now.getTime() > 24 * 60 * 60 * 1000) {
+    date.setFullYear(date.getFullYear() - 1);
+  }
+  return date;
+}
+
+function findCardAmount(text: string) {
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const before = text.slice(Math.max(0, (match.index ?? 0) - 4), match.index);
+    if (/누적|잔액|한도/.test(before)) {
+      continue;
+    }
+    const amount = parseAmountText(match[1]);
+    if (amount) {
+      return { amount, index: match.index ?? 0, end: (match.index ?? 0) + match[0].length };
+    }
+  }
+  return null;
+}
+
+function extractMerchant(text: string, from: number) {
+  const merchant = text
+    .slice(from)
+    .replace(TRAILER_PATTERN, "")
+    .replace(/^[\s·,()-]+|[\s·,()-]+$/g, "");
+  return merchant || null;
+}
+
+function parseDebitMessage(text: string, now: Date): ParsedCardMessage | null {
+  const amountMatch = text.match(DEBIT_AMOUNT_PATTERN);
+  const amount = amountMatch ? parseAmountText(amountMatch[1]) : null;
+  if (!amountMatch || !amount) {
+    return null;
+  }
+  const bankMatch = text.match(BANK_NAME_PATTERN);
+  const dateMatch = text.match(DATETIME_PATTERN);
+  // Banks print the balance after the amount and the counterparty last, so
+  // skip past the balance figure when there is one.
+  const afterAmount = (amountMatch.index ?? 0) + amountMatch[0].length;
+  const balanceMatch = text.slice(afterAmount).match(/잔액\s*[\d,]+\s*원?/);
+  const merchantStart = balanceMatch
+    ? afterAmount + (balanceMatch.index ?? 0) + balanceMatch[0].length
+    : afterAmount;
+  const accountMatch = text.match(/\d{2,6}-[\d*]{2,6}-[\d*]{2,8}/);
+  return {
+    issuer: bankMatch ? `${bankMatch[1]} 출금` : "은행 출금",
+    status: /취소/.test(text) ? "cancel" : "approval",
+    debit: true,
+    amount,
+    merchant: extractMerchant(text, merchantStart),
+    cardSuffix: accountMatch ? accountMatch[0].replace(/[^\d]/g, "").slice(-4) || null : null,
+    date: resolveMessageDate(dateMatch, now),
+    installmentMonths: null,
+  };
+}
+
+export function parseCardMessage(
+  rawText: string,
+  options: { now?: Date; patterns?: CardMessagePattern[] } = {}
+): ParsedCardMessage | null {
+  const { now = new Date(), patterns = CARD_MESSAGE_PATTERNS } = options;
+  const text = normalizeMessage(rawText);
+  if (!text || /거절|승인불가/.test(text)) {
+    return null;
+  }
+  const pattern = patterns.find((item) => item.test.test(text));
+  if (!pattern) {
+    return null;
+  }
+  if (pattern.debit) {
+    return parseDebitMessage(text, now);
+  }
+  const amountMatch = findCardAmount(text);
+  if (!amountMatch) {
+    return null;
+  }
+  const issuerMatch = text.match(pattern.test);
+  const header = issuerMatch
+    ? text.slice((issuerMatch.index ?? 0) + issuerMatch[0].length, amountMatch.index)
+    : "";
+  const suffixMatch = header.match(SUFFIX_PATTERN);
+  const dateMatch = text.match(DATETIME_PATTERN);
+  const installmentMatch = text.match(/(\d{1,2})\s*개월/);
+  const installmentMonths = installmentMatch ? Number(installmentMatch[1]) : null;
+
+  const tailStart = Math.max(
+    amountMatch.end,
+    dateMatch ? (dateMatch.index ?? 0) + dateMatch[0].length : 0,
+    installmentMatch ? (installmentMatch.index ?? 0) + installmentMatch[0].length : 0
+  );
+  const tail = text.slice(tailStart).replace(/^\s*\(?\s*일시불\s*\)?/, "");
+  return {
+    issuer: pattern.issuer,
+    status: /취소/.test(text) ? "cancel" : "approval",
+    debit: false,
+    amount: amountMatch.amount,
+    merchant: extractMerchant(tail, 0),
+    cardSuffix: suffixMatch ? suffixMatch[1] : null,
+    date: resolveMessageDate(dateMatch, now),
+    installmentMonths: installmentMonths && installmentMonths > 1 ? installmentMonths : null,
+  };
+}
+
+function matchesSuffix(stored: string, parsed: string) {
+  if (stored.length !== parsed.length) {
+    return false;
+  }
+  return stored
+    .split("")
+    .every((char, index) => char === "*" || parsed[index] === "*" || char === parsed[index]);
+}
+
+// A card suffix saved on the payment method is the reliable link. Without
+// one, the issuer name is only trusted when exactly one method carries it.
+export function findPaymentMethodForCardMessage<
+  T extends Pick<PaymentMethod, "name" | "cardSuffix"> & { id: string },
+>(methods: T[], parsed: ParsedCardMessage, patterns = CARD_MESSAGE_PATTERNS) {
+  if (parsed.cardSuffix) {
+    const suffix = parsed.cardSuffix;
+    const bySuffix = methods.filter(
+      (method) => method.cardSuffix && matchesSuffix(method.cardSuffix, suffix)
+    );
+    if (bySuffix.length === 1) {
+      return bySuffix[0];
+    }
+  }
+  const keywords =
+    patterns.find((pattern) => pattern.issuer === parsed.issuer)?.keywords ??
+    [parsed.issuer.replace(/\s*출금$/, "")];
+  const byName = methods.filter((method) =>
+    keywords.some((keyword) => method.name.toUpperCase().includes(keyword.toUpperCase()))
+  );
+  return byName.length === 1 ? byName[0] : null;
+}
@@ -0,0 +1,123 @@
+import type {
+  CategorizationRule,
+  CategorizationRuleCondition,
+  TransactionType,
+} from "@/types/ledger";
+
+export type CategorizationRuleWithId = CategorizationRule & { id: string };
+
+export type CategorizationRuleInput = {
+  type: TransactionType;
+  amount: number;
+  note?: string;
+  paymentMethodId?: string | null;
+  paymentMethodName?: string;
+};
+
+export type CategorizationRuleResult = {
+  categoryId?: string;
+  subject?: string;
+  paymentMethodId?: string;
+  ruleIds: string[];
+  ruleNames: string[];
+};
+
+function normalizeRuleText(value: string | undefined) {
+  return (value ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export function matchCategorizationCondition(
+  condition: CategorizationRuleCondition,
+  input: CategorizationRuleInput
+) {
+  switch (condition.field) {
+    case "note": {
+      const note = normalizeRuleText(input.note);
+      const value = normalizeRuleText(condition.value);
+      if (!value) {
+        return false;
+      }
+      if (condition.operator === "equals") {
+        return note === value;
+      }
+      if (condition.operator === "startsWith") {
+        return note.startsWith(value);
+      }
+      return note.includes(value);
+    }
+    case "amount":
+      if (condition.operator === "gte") {
+        return input.amount >= condition.value;
+      }
+      if (condition.operator === "lte") {
+        return input.amount <= condition.value;
+      }
+      return input.amount === condition.value;
+    case "paymentMethod":
+      // Imported rows may only know the card by name, so the label kept on
+      // the rule is the fallback when there is no id to compare.
+      if (input.paymentMethodId) {
+        return input.paymentMethodId === condition.value;
+      }
+      return (
+        Boolean(condition.label) &&
+        normalizeRuleText(input.paymentMethodName) === normalizeRuleText(condition.label)
+      );
+    case "type":
+      return input.type === condition.value;
+    default:
+      return false;
+  }
+}
+
+export function matchCategorizationRule(
+  rule: Pick<CategorizationRule, "enabled" | "conditions">,
+  input: CategorizationRuleInput
+) {
+  if (!rule.enabled || rule.conditions.length === 0) {
+    return false;
+  }
+  return rule.conditions.every((condition) =>
+    matchCategorizationCondition(condition, input)
+  );
+}
+
+// Rules run in order and each field is taken from the first matching rule
+// that sets it, so a specific rule above a broad one only overrides what it
+// names. A category of the wrong type for the entry is never applied.
+export function applyCategorizationRules(
+  rules: CategorizationRuleWithId[],
+  input: CategorizationRuleInput,
+  categoryTypeById?: Map<string, TransactionType>
+): CategorizationRuleResult {
+  const result: CategorizationRuleResult = { ruleIds: [], ruleNames: [] };
+  const sortedRules = [...rules].sort((a, b) => a.order - b.order);
+  sortedRules.forEach((rule) => {
+    if (!matchCategorizationRule(rule, input)) {
+      return;
+    }
+    let used = false;
+    const { categoryId, subject, paymentMethodId } = rule.actions;
+    if (
+      categoryId &&
+      !result.categoryId &&
+      (!categoryTypeById || categoryTypeById.get(categoryId) === input.type)
+    ) {
+      result.categoryId = categoryId;
+      used = true;
+    }
+    if (subject && !result.subject) {
+      result.subject = subject;
+      used = true;
+    }
+    if (paymentMethodId && !result.paymentMethodId) {
+      result.paymentMethodId = paymentMethodId;
+      used = true;
+    }
+    if (used) {
+      result.ruleIds.push(rule.id);
+      result.ruleNames.push(rule.name);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,289 @@
+import {
+  addDoc,
+  deleteDoc,
+  doc,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+  type WriteBatch,
+} from "firebase/firestore";
+import {
+  applyCategorizationRules,
+  type CategorizationRuleWithId,
+} from "@/lib/categorization-rule-matching";
+import { db } from "@/lib/firebase/client";
+import { categorizationRulesCol, transactionsCol } from "@/lib/firebase/firestore";
+import { formatKrw } from "@/lib/format";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import { commitWithMonthlyAggregates } from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { hasTransactionSplits } from "@/lib/transaction-splits";
+import type {
+  CategorizationRuleActions,
+  CategorizationRuleCondition,
+  Transaction,
+  TransactionType,
+} from "@/types/ledger";
+
+const BATCH_LIMIT = 500;
+
+const transactionTypeLabelMap = {
+  income: "수입",
+  expense: "지출",
+  transfer: "이체",
+} as const;
+
+const noteOperatorLabelMap = {
+  contains: "포함",
+  equals: "일치",
+  startsWith: "시작",
+} as const;
+
+const amountOperatorLabelMap = {
+  equals: "=",
+  gte: "≥",
+  lte: "≤",
+} as const;
+
+export function describeCategorizationCondition(
+  condition: CategorizationRuleCondition,
+  paymentMethodNameById?: Map<string, string>
+) {
+  switch (condition.field) {
+    case "note":
+      return `메모 "${condition.value}" ${noteOperatorLabelMap[condition.operator]}`;
+    case "amount":
+      return `금액 ${amountOperatorLabelMap[condition.operator]} ${formatKrw(condition.value)}원`;
+    case "paymentMethod":
+      return `결제수단 ${
+        paymentMethodNameById?.get(condition.value) ?? condition.label ?? "알 수 없음"
+      }`;
+    case "type":
+      return transactionTypeLabelMap[condition.value];
+    default:
+      return "";
+  }
+}
+
+function hasRuleAction(actions: CategorizationRuleActions) {
+  return Boolean(actions.categoryId || actions.subject || actions.paymentMethodId);
+}
+
+export async function saveCategorizationRule(params: {
+  householdId: string;
+  ruleId?: string | null;
+  name: string;
+  enabled: boolean;
+  order: number;
+  conditions: CategorizationRuleCondition[];
+  actions: CategorizationRuleActions;
+  createdBy: string;
+}) {
+  const { householdId, ruleId, name, enabled, order, conditions, actions, createdBy } =
+    params;
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("규칙 이름을 입력해주세요.");
+  }
+  if (conditions.length === 0) {
+    throw new Error("조건을 하나 이상 추가해주세요.");
+  }
+  if (!hasRuleAction(actions)) {
+    throw new Error("적용할 카테고리, 주체, 결제수단 중 하나를 선택해주세요.");
+  }
+  const cleanedActions = {
+    categoryId: actions.categoryId || null,
+    subject: actions.subject || null,
+    paymentMethodId: actions.paymentMethodId || null,
+  };
+  if (ruleId) {
+    await updateDoc(doc(categorizationRulesCol(householdId), ruleId), {
+      name: trimmedName,
+      enabled,
+      conditions,
+      actions: cleanedActions,
+      updatedAt: serverTimestamp(),
+    });
+    return ruleId;
+  }
+  const ref = await addDoc(categorizationRulesCol(householdId), {
+    name: trimmedName,
+    enabled,
+    order,
+    conditions,
+    actions: cleanedActions,
+    createdBy,
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function setCategorizationRuleEnabled(
+  householdId: string,
+  ruleId: string,
+  enabled: boolean
+) {
+  return updateDoc(doc(categorizationRulesCol(householdId), ruleId), {
+    enabled,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function reorderCategorizationRules(householdId: string, ruleIds: string[]) {
+  const batch = writeBatch(db);
+  ruleIds.forEach((ruleId, index) => {
+    batch.update(doc(categorizationRulesCol(householdId), ruleId), { order: index + 1 });
+  });
+  await batch.commit();
+}
+
+export async function deleteCategorizationRule(householdId: string, ruleId: string) {
+  return deleteDoc(doc(categorizationRulesCol(householdId), ruleId));
+}
+
+export type CategorizationReapplyChange = {
+  transactionId: string;
+  date: Date;
+  type: TransactionType;
+  amount: number;
+  note?: string;
+  before: { categoryId: string; subject: string; paymentMethod: string };
+  after: {
+    categoryId: string;
+    subject: string;
+    paymentMethod: string;
+    paymentMethodId: string | null;
+  };
+  ruleNames: string[];
+  original: Transaction;
+};
+
+// Split parents and refund records follow other entries, so re-applying a
+// rule to them would drift from their lines or their original expense.
+export function buildCategorizationReapplyPreview(params: {
+  transactions: (Transaction & { id: string })[];
+  rules: CategorizationRuleWithId[];
+  categoryTypeById: Map<string, TransactionType>;
+  paymentMethodNameById: Map<string, string>;
+}) {
+  const { transactions, rules, categoryTypeById, paymentMethodNameById } = params;
+  const changes: CategorizationReapplyChange[] = [];
+  transactions.forEach((tx) => {
+    if (hasTransactionSplits(tx) || tx.refundOf) {
+      return;
+    }
+    const result = applyCategorizationRules(
+      rules,
+      {
+        type: tx.type,
+        amount: tx.amount,
+        note: tx.note,
+        paymentMethodId: tx.paymentMethodId,
+        paymentMethodName: tx.paymentMethod,
+      },
+      categoryTypeById
+    );
+    const nextPaymentMethodName = result.paymentMethodId
+      ? paymentMethodNameById.get(result.paymentMethodId)
+      : undefined;
+    const after = {
+      categoryId: result.categoryId ?? tx.categoryId,
+      subject: result.subject ?? tx.subject,
+      paymentMethod: nextPaymentMethodName ?? tx.paymentMethod,
+      paymentMethodId: nextPaymentMethodName
+        ? (result.paymentMethodId ?? null)
+        : (tx.paymentMethodId ?? null),
+    };
+    if (
+      after.categoryId === tx.categoryId &&
+      after.subject === tx.subject &&
+      after.paymentMethodId === (tx.paymentMethodId ?? null)
+    ) {
+      return;
+    }
+    changes.push({
+      transactionId: tx.id,
+      date: tx.date.toDate(),
+      type: tx.type,
+      amount: tx.amount,
+      note: tx.note,
+      before: {
+        categoryId: tx.categoryId,
+        subject: tx.subject,
+        paymentMethod: tx.paymentMethod,
+      },
+      after,
+      ruleNames: result.ruleNames,
+      original: tx,
+    });
+  });
+  return changes.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export async function applyCategorizationChanges(params: {
+  householdId: string;
+  changes: CategorizationReapplyChange[];
+  updatedBy: string;
+  updatedByName?: string | null;
+  onProgress?: (processed: number) => void;
+}) {
+  const { householdId, changes, updatedBy, updatedByName, onProgress } = params;
+  let processed = 0;
+  for (let index = 0; index < changes.length; index += BATCH_LIMIT) {
+    const chunk = changes.slice(index, index + BATCH_LIMIT);
+    await commitWithMonthlyAggregates(
+      householdId,
+      chunk.map((change) => {
+        const delta = createMonthlyAggregateDelta();
+        addTransactionChangeToAggregateDelta(delta, change.original, {
+          ...change.original,
+          ...change.after,
+        });
+        const fieldChanges = diffTransactionFields(change.original, change.after);
+        return {
+          operations: [
+            (batch) =>
+              batch.update(doc(transactionsCol(householdId), change.transactionId), {
+                categoryId: change.after.categoryId,
+                subject: change.after.subject,
+                paymentMethod: change.after.paymentMethod,
+                paymentMethodId: change.after.paymentMethodId,
+                searchTokens: buildTransactionSearchTokens({
+                  ...change.after,
+                  note: change.note,
+                }),
+              }),
+            ...(fieldChanges.length > 0
+              ? [
+                  (batch: WriteBatch) =>
+                    batch.set(
+                      transactionChangeLogRef(householdId),
+                      buildTransactionChangeLog({
+                        transactionId: change.transactionId,
+                        summary: `자동 분류 · ${describeTransactionForLog(change.original)}`,
+                        changedBy: updatedBy,
+                        changedByName: updatedByName,
+                        changes: fieldChanges,
+                      })
+                    ),
+                ]
+              : []),
+          ],
+          delta,
+        };
+      })
+    );
+    processed += chunk.length;
+    onProgress?.(processed);
+  }
+  return processed;
+}
@@ -0,0 +1,262 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { SEOUL_TZ } from "@/lib/time";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
+import type { Transaction, TransactionType } from "@/types/ledger";
+
+export const SUGGESTION_MIN_CONFIDENCE = 0.4;
+export const SUGGESTION_AUTO_APPLY_CONFIDENCE = 0.8;
+
+const FULL_NOTE_WEIGHT = 4;
+const NOTE_TOKEN_WEIGHT = 2;
+const AMOUNT_WEIGHT = 1;
+const HOUR_WEIGHT = 0.5;
+const AMOUNT_BUCKET_RATIO = Math.log(1.5);
+const SUPPORT_CAP = 10;
+
+type SuggestionFeature = { key: string; weight: number; fromNote: boolean };
+
+type FeatureStats = {
+  categories: Map<string, number>;
+  subjects: Map<string, number>;
+  paymentMethods: Map<string, number>;
+};
+
+type SuggestionSample = {
+  features: string[];
+  categoryId: string;
+  subject: string;
+  paymentMethodId: string | null;
+};
+
+export type CategorySuggestionIndex = {
+  features: Map<string, FeatureStats>;
+  samplesByTransactionId: Map<string, SuggestionSample[]>;
+};
+
+export type LearnedSuggestion = { value: string; confidence: number };
+
+export type LearnedSuggestions = {
+  category: LearnedSuggestion | null;
+  subject: LearnedSuggestion | null;
+  paymentMethod: LearnedSuggestion | null;
+};
+
+export function tokenizeSuggestionNote(note: string | undefined) {
+  const normalized = (note ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  const tokens = normalized
+    .split(" ")
+    .filter((token) => token.length >= 2 && !/^\d+$/.test(token));
+  return { normalized, tokens: Array.from(new Set(tokens)) };
+}
+
+// Amounts are bucketed on a 1.5x scale so 4,500 and 5,000 share a bucket
+// while a coffee and a grocery run never do.
+function toAmountBucket(amount: number) {
+  return amount > 0 ? Math.floor(Math.log(amount) / AMOUNT_BUCKET_RATIO) : 0;
+}
+
+function toHourBucket(hour: number) {
+  if (hour < 6) {
+    return "dawn";
+  }
+  if (hour < 11) {
+    return "morning";
+  }
+  if (hour < 14) {
+    return "lunch";
+  }
+  if (hour < 18) {
+    return "afternoon";
+  }
+  return "evening";
+}
+
+function buildSuggestionFeatures(input: {
+  type: TransactionType;
+  note?: string;
+  amount: number;
+  hour?: number | null;
+}): SuggestionFeature[] {
+  const { normalized, tokens } = tokenizeSuggestionNote(input.note);
+  const features: SuggestionFeature[] = [];
+  if (normalized) {
+    features.push({
+      key: `${input.type}:note:${normalized}`,
+      weight: FULL_NOTE_WEIGHT,
+      fromNote: true,
+    });
+  }
+  tokens.forEach((token) => {
+    features.push({
+      key: `${input.type}:token:${token}`,
+      weight: NOTE_TOKEN_WEIGHT,
+      fromNote: true,
+    });
+  });
+  if (input.amount > 0) {
+    features.push({
+      key: `${input.type}:amount:${toAmountBucket(input.amount)}`,
+      weight: AMOUNT_WEIGHT,
+      fromNote: false,
+    });
+  }
+  if (typeof input.hour === "number") {
+    features.push({
+      key: `${input.type}:hour:${toHourBucket(input.hour)}`,
+      weight: HOUR_WEIGHT,
+      fromNote: false,
+    });
+  }
+  return features;
+}
+
+export function createCategorySuggestionIndex(): CategorySuggestionIndex {
+  return { features: new Map(), samplesByTransactionId: new Map() };
+}
+
+function adjustCount(map: Map<string, number>, key: string, delta: number) {
+  const next = (map.get(key) ?? 0) + delta;
+  if (next > 0) {
+    map.set(key, next);
+  } else {
+    map.delete(key);
+  }
+}
+
+function applySample(index: CategorySuggestionIndex, sample: SuggestionSample, delta: number) {
+  sample.features.forEach((key) => {
+    let stats = index.features.get(key);
+    if (!stats) {
+      stats = { categories: new Map(), subjects: new Map(), paymentMethods: new Map() };
+      index.features.set(key, stats);
+    }
+    adjustCount(stats.categories, sample.categoryId, delta);
+    adjustCount(stats.subjects, sample.subject, delta);
+    if (sample.paymentMethodId) {
+      adjustCount(stats.paymentMethods, sample.paymentMethodId, delta);
+    }
+    if (stats.categories.size === 0) {
+      index.features.delete(key);
+    }
+  });
+}
+
+// Refunds copy their original and installment portions repeat the first
+// one, so only the purchase itself is learned. The hour comes from when the
+// entry was written, which recurring automation does not reflect.
+function buildSuggestionSamples(tx: Transaction): SuggestionSample[] {
+  if (tx.refundOf || (tx.installment && tx.installment.index !== 1)) {
+    return [];
+  }
+  const createdAt = tx.createdAt?.toDate?.();
+  const hour =
+    createdAt && !tx.generatedFromRecurringRuleId
+      ? Number(formatInTimeZone(createdAt, SEOUL_TZ, "H"))
+      : null;
+  return expandTransactionSplits(tx)
+    .filter((line) => line.categoryId)
+    .map((line) => ({
+      features: buildSuggestionFeatures({
+        type: line.type,
+        note: line.note,
+        amount: line.amount,
+        hour,
+      }).map((feature) => feature.key),
+      categoryId: line.categoryId,
+      subject: line.subject,
+      paymentMethodId: line.paymentMethodId ?? null,
+    }));
+}
+
+export function removeFromSuggestionIndex(
+  index: CategorySuggestionIndex,
+  transactionId: string
+) {
+  const samples = index.samplesByTransactionId.get(transactionId);
+  if (!samples) {
+    return;
+  }
+  samples.forEach((sample) => applySample(index, sample, -1));
+  index.samplesByTransactionId.delete(transactionId);
+}
+
+export function addToSuggestionIndex(
+  index: CategorySuggestionIndex,
+  transactionId: string,
+  tx: Transaction
+) {
+  removeFromSuggestionIndex(index, transactionId);
+  const samples = buildSuggestionSamples(tx);
+  if (samples.length === 0) {
+    return;
+  }
+  samples.forEach((sample) => applySample(index, sample, 1));
+  index.samplesByTransactionId.set(transactionId, samples);
+}
+
+// Each feature votes with its share of past entries, weighted so the note
+// counts most. Confidence shrinks when the features have little history or
+// when only the amount and time matched, which are weak on their own.
+function scoreSuggestionField(
+  index: CategorySuggestionIndex,
+  features: SuggestionFeature[],
+  pick: (stats: FeatureStats) => Map<string, number>
+): LearnedSuggestion | null {
+  const scores = new Map<string, number>();
+  let weightSum = 0;
+  let supportSum = 0;
+  let noteMatched = false;
+  features.forEach((feature) => {
+    const stats = index.features.get(feature.key);
+    if (!stats) {
+      return;
+    }
+    const counts = pick(stats);
+    let total = 0;
+    counts.forEach((count) => {
+      total += count;
+    });
+    if (total === 0) {
+      return;
+    }
+    weightSum += feature.weight;
+    supportSum += feature.weight * Math.min(total, SUPPORT_CAP);
+    noteMatched = noteMatched || feature.fromNote;
+    counts.forEach((count, value) => {
+      scores.set(value, (scores.get(value) ?? 0) + (feature.weight * count) / total);
+    });
+  });
+  if (weightSum === 0) {
+    return null;
+  }
+  let bestValue = "";
+  let bestScore = 0;
+  for (const [value, score] of scores) {
+    if (score > bestScore) {
+      bestValue = value;
+      bestScore = score;
+    }
+  }
+  if (!bestValue) {
+    return null;
+  }
+  const support = supportSum / weightSum;
+  const confidence =
+    (bestScore / weightSum) * (support / (support + 1)) * (noteMatched ? 1 : 0.5);
+  return { value: bestValue, confidence: Math.round(confidence * 100) / 100 };
+}
+
+export function suggestFromIndex(
+  index: CategorySuggestionIndex,
+  input: { type: TransactionType; note?: string; amount: number; hour?: number | null }
+): LearnedSuggestions {
+  const features = buildSuggestionFeatures(input);
+  return {
+    category: scoreSuggestionField(index, features, (stats) => stats.categories),
+    subject: scoreSuggestionField(index, features, (stats) => stats.subjects),
+    paymentMethod: scoreSuggestionField(index, features, (stats) => stats.paymentMethods),
+  };
+}
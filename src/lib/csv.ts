@@ -0,0 +1,121 @@
+const BOM = "\uFEFF";
+const DELIMITER_CANDIDATES = [",", "\t", ";"] as const;
+
+export type CsvDelimiter = (typeof DELIMITER_CANDIDATES)[number];
+
+// Picks the candidate that splits the first non-empty line into the most
+// fields, ignoring anything inside quotes.
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.replace(BOM, "").split(/\r?\n/).find((line) => line.trim());
+  if (!firstLine) {
+    return ",";
+  }
+  let best: CsvDelimiter = ",";
+  let bestCount = 0;
+  for (const candidate of DELIMITER_CANDIDATES) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === candidate && !inQuotes) {
+        count += 1;
+      }
+    }
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// RFC 4180: fields may be quoted, quotes inside quoted fields are doubled, and
+// quoted fields may contain delimiters and line breaks. Blank lines are dropped.
+export function parseCsv(text: string, delimiter: CsvDelimiter = ",") {
+  const source = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let index = 0;
+
+  function endField() {
+    row.push(field);
+    field = "";
+  }
+
+  function endRow() {
+    endField();
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+  }
+
+  while (index < source.length) {
+    const char = source[index];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          field += '"';
+          index += 2;
+          continue;
+        }
+        inQuotes = false;
+        index += 1;
+        continue;
+      }
+      field += char;
+      index += 1;
+      continue;
+    }
+    if (char === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\r") {
+      if (source[index + 1] === "\n") {
+        index += 1;
+      }
+      endRow();
+    } else if (char === "\n") {
+      endRow();
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+function escapeCsvField(value: string | number | null | undefined, delimiter: string) {
+  const text = value === null || value === undefined ? "" : String(value);
+  if (
+    text.includes('"') ||
+    text.includes(delimiter) ||
+    text.includes("\n") ||
+    text.includes("\r")
+  ) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Prefixed with a BOM so Excel opens Korean text as UTF-8.
+export function stringifyCsv(
+  rows: (string | number | null | undefined)[][],
+  delimiter: CsvDelimiter = ","
+) {
+  return (
+    BOM +
+    rows
+      .map((row) => row.map((value) => escapeCsvField(value, delimiter)).join(delimiter))
+      .join("\r\n")
+  );
+}
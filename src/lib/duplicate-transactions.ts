@@ -0,0 +1,65 @@
+import type { TransactionType } from "@/types/ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateComparable = {
+  date: Date;
+  amount: number;
+  type: TransactionType;
+  paymentMethod: string;
+  note?: string;
+};
+
+export function normalizeDuplicateNote(note?: string | null) {
+  return (note ?? "")
+    .toLowerCase()
+    .replace(/[\s.,·\-_()[\]{}'"!?:;/\\*#@&+~|]/g, "");
+}
+
+function normalizePaymentMethodName(name: string) {
+  return name.replace(/\s+/g, "").toLowerCase();
+}
+
+function dayDistance(a: Date, b: Date) {
+  const dayA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const dayB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.abs(Math.round((dayA - dayB) / DAY_MS));
+}
+
+// Bank and card exports often shorten or decorate the merchant name, so an
+// empty note on either side or one note containing the other still counts.
+function notesMatch(a?: string, b?: string) {
+  const left = normalizeDuplicateNote(a);
+  const right = normalizeDuplicateNote(b);
+  if (!left || !right) {
+    return true;
+  }
+  return left.includes(right) || right.includes(left);
+}
+
+export function isSimilarTransaction(
+  candidate: DuplicateComparable,
+  existing: DuplicateComparable,
+  toleranceDays = 0
+) {
+  return (
+    candidate.type === existing.type &&
+    candidate.amount === existing.amount &&
+    dayDistance(candidate.date, existing.date) <= toleranceDays &&
+    normalizePaymentMethodName(candidate.paymentMethod) ===
+      normalizePaymentMethodName(existing.paymentMethod) &&
+    notesMatch(candidate.note, existing.note)
+  );
+}
+
+export function findSimilarTransactions<T extends DuplicateComparable>(
+  candidate: DuplicateComparable,
+  existing: T[],
+  toleranceDays = 0
+) {
+  return existing
+    .filter((item) => isSimilarTransaction(candidate, item, toleranceDays))
+    .sort(
+      (a, b) => dayDistance(candidate.date, a.date) - dayDistance(candidate.date, b.date)
+    );
+}
@@ -16,6 +16,9 @@ export const categoriesCol = (householdId: string) =>
 export const subjectsCol = (householdId: string) =>
   collection(db, "households", householdId, "subjects");
 
+export const tagsCol = (householdId: string) =>
+  collection(db, "households", householdId, "tags");
+
 export const paymentMethodsCol = (householdId: string) =>
   collection(db, "households", householdId, "paymentMethods");
 
@@ -43,10 +46,27 @@ export const recurringTransactionRulesCol = (householdId: string) =>
 export const notificationsCol = (householdId: string) =>
   collection(db, "households", householdId, "notifications");
 
+export const transactionChangeLogsCol = (householdId: string) =>
+  collection(db, "households", householdId, "transactionChangeLogs");
+
+export const monthlyAggregatesCol = (householdId: string) =>
+  collection(db, "households", householdId, "monthlyAggregates");
+
 export const automationLogsCol = (householdId: string) =>
   collection(db, "households", householdId, "automationLogs");
 
+export const importProfilesCol = (householdId: string) =>
+  collection(db, "households", householdId, "importProfiles");
+
+export const categorizationRulesCol = (householdId: string) =>
+  collection(db, "households", householdId, "categorizationRules");
+
 export const budgetsCol = (householdId: string) =>
   collection(db, "households", householdId, "budgets");
 
+export const trashCol = (householdId: string) =>
+  collection(db, "households", householdId, "trash");
+
 export const publicInvitesCol = () => collection(db, "publicInvites");
+
+export const apiTokensCol = () => collection(db, "apiTokens");
@@ -0,0 +1,53 @@
+import { Timestamp } from "firebase/firestore";
+
+export type EncodedTimestamp = {
+  __type: "timestamp";
+  seconds: number;
+  nanoseconds: number;
+};
+
+function isEncodedTimestamp(value: unknown): value is EncodedTimestamp {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncodedTimestamp).__type === "timestamp" &&
+    typeof (value as EncodedTimestamp).seconds === "number" &&
+    typeof (value as EncodedTimestamp).nanoseconds === "number"
+  );
+}
+
+// JSON has no timestamp type, so Firestore timestamps are tagged objects that
+// decode back to `Timestamp` without losing nanoseconds.
+export function encodeFirestoreValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return {
+      __type: "timestamp",
+      seconds: value.seconds,
+      nanoseconds: value.nanoseconds,
+    } satisfies EncodedTimestamp;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeFirestoreValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeFirestoreValue(item)])
+    );
+  }
+  return value;
+}
+
+export function decodeFirestoreValue(value: unknown): unknown {
+  if (isEncodedTimestamp(value)) {
+    return new Timestamp(value.seconds, value.nanoseconds);
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeFirestoreValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, decodeFirestoreValue(item)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,341 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  writeBatch,
+  type CollectionReference,
+  type DocumentData,
+  type DocumentReference,
+  type WriteBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import { householdDoc } from "@/lib/firebase/firestore";
+import { decodeFirestoreValue, encodeFirestoreValue } from "@/lib/firestore-json";
+import { rebuildMonthlyAggregates } from "@/lib/monthly-aggregates";
+import { formatDate } from "@/lib/time";
+import { rebuildTransactionSearchTokens } from "@/lib/transaction-search";
+
+export const HOUSEHOLD_SNAPSHOT_FORMAT = "couple-ledger-snapshot";
+export const HOUSEHOLD_SNAPSHOT_VERSION = 1;
+
+const BATCH_LIMIT = 500;
+
+// Client SDKs cannot enumerate subcollections, so the snapshot covers this
+// fixed list. `automationLogs` and `accounts/*/kis` are server-only and are
+// not readable from the app. `monthlyAggregates` is derived from transactions
+// and rebuilt after a restore instead.
+const SNAPSHOT_COLLECTIONS: { name: string; subcollections?: string[] }[] = [
+  { name: "categories" },
+  { name: "subjects" },
+  { name: "tags" },
+  { name: "paymentMethods" },
+  { name: "accountGroups" },
+  { name: "accounts", subcollections: ["trades", "holdings"] },
+  { name: "transfers" },
+  { name: "transactions" },
+  { name: "recurringTransactionRules" },
+  { name: "budgets" },
+  { name: "memos" },
+  { name: "notifications" },
+  { name: "trash" },
+  { name: "transactionChangeLogs" },
+  { name: "importProfiles" },
+  { name: "categorizationRules" },
+  { name: "invites" },
+  { name: "members" },
+];
+
+// Membership documents and change logs can only be written by their own
+// user, so restoring another member's would fail the whole batch.
+const NON_RESTORABLE_COLLECTIONS = new Set(["members", "transactionChangeLogs"]);
+
+export type SnapshotRestoreMode = "replace" | "merge";
+
+export type SnapshotDocument = {
+  id: string;
+  data: unknown;
+  subcollections?: Record<string, SnapshotDocument[]>;
+};
+
+export type HouseholdSnapshot = {
+  format: typeof HOUSEHOLD_SNAPSHOT_FORMAT;
+  version: number;
+  householdId: string;
+  createdAt: string;
+  household: unknown;
+  collections: Record<string, SnapshotDocument[]>;
+  checksum: string;
+};
+
+type SnapshotBody = Omit<HouseholdSnapshot, "checksum">;
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((value) => value.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function collectionPath(householdId: string, ...segments: string[]) {
+  return collection(db, "households", householdId, ...segments);
+}
+
+async function readCollection(
+  ref: CollectionReference,
+  subcollections: string[] = []
+): Promise<SnapshotDocument[]> {
+  const snapshot = await getDocs(ref);
+  return Promise.all(
+    snapshot.docs.map(async (docSnap) => {
+      const entry: SnapshotDocument = {
+        id: docSnap.id,
+        data: encodeFirestoreValue(docSnap.data()),
+      };
+      if (subcollections.length > 0) {
+        entry.subcollections = Object.fromEntries(
+          await Promise.all(
+            subcollections.map(async (name) => [
+              name,
+              await readCollection(collection(docSnap.ref, name)),
+            ])
+          )
+        );
+      }
+      return entry;
+    })
+  );
+}
+
+export async function createHouseholdSnapshot(householdId: string) {
+  const householdSnap = await getDoc(householdDoc(householdId));
+  const collections: Record<string, SnapshotDocument[]> = {};
+  for (const { name, subcollections } of SNAPSHOT_COLLECTIONS) {
+    collections[name] = await readCollection(
+      collectionPath(householdId, name),
+      subcollections
+    );
+  }
+  const body: SnapshotBody = {
+    format: HOUSEHOLD_SNAPSHOT_FORMAT,
+    version: HOUSEHOLD_SNAPSHOT_VERSION,
+    householdId,
+    createdAt: new Date().toISOString(),
+    household: householdSnap.exists()
+      ? encodeFirestoreValue(householdSnap.data())
+      : null,
+    collections,
+  };
+  const snapshot: HouseholdSnapshot = {
+    ...body,
+    checksum: await sha256Hex(JSON.stringify(body)),
+  };
+  return snapshot;
+}
+
+export function serializeHouseholdSnapshot(snapshot: HouseholdSnapshot) {
+  return {
+    blob: new Blob([JSON.stringify(snapshot)], { type: "application/json" }),
+    fileName: `ledger-backup-${formatDate(new Date(snapshot.createdAt), "yyyyMMdd-HHmm")}.json`,
+  };
+}
+
+function isSnapshotDocument(value: unknown): value is SnapshotDocument {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const entry = value as SnapshotDocument;
+  if (typeof entry.id !== "string" || !entry.id || entry.id.includes("/")) {
+    return false;
+  }
+  if (typeof entry.data !== "object" || entry.data === null) {
+    return false;
+  }
+  if (entry.subcollections === undefined) {
+    return true;
+  }
+  return (
+    typeof entry.subcollections === "object" &&
+    entry.subcollections !== null &&
+    Object.values(entry.subcollections).every(
+      (documents) => Array.isArray(documents) && documents.every(isSnapshotDocument)
+    )
+  );
+}
+
+export async function parseHouseholdSnapshot(text: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("백업 파일을 읽을 수 없습니다.");
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new Error("백업 파일 형식이 올바르지 않습니다.");
+  }
+  const { checksum, ...body } = parsed as HouseholdSnapshot;
+  if (body.format !== HOUSEHOLD_SNAPSHOT_FORMAT) {
+    throw new Error("가계부 백업 파일이 아닙니다.");
+  }
+  if (typeof body.version !== "number" || body.version > HOUSEHOLD_SNAPSHOT_VERSION) {
+    throw new Error("지원하지 않는 백업 버전입니다. 앱을 최신으로 업데이트해주세요.");
+  }
+  if (typeof body.collections !== "object" || body.collections === null) {
+    throw new Error("백업 파일 형식이 올바르지 않습니다.");
+  }
+  const knownCollections = new Set(SNAPSHOT_COLLECTIONS.map(({ name }) => name));
+  const invalidCollection = Object.entries(body.collections).find(
+    ([name, documents]) =>
+      !knownCollections.has(name) ||
+      !Array.isArray(documents) ||
+      !documents.every(isSnapshotDocument)
+  );
+  if (invalidCollection) {
+    throw new Error(`백업 파일의 ${invalidCollection[0]} 항목이 올바르지 않습니다.`);
+  }
+  if (typeof checksum !== "string" || checksum !== (await sha256Hex(JSON.stringify(body)))) {
+    throw new Error("백업 파일이 손상되었거나 수정되었습니다.");
+  }
+  return { ...body, checksum } as HouseholdSnapshot;
+}
+
+export function summarizeHouseholdSnapshot(snapshot: HouseholdSnapshot) {
+  return Object.entries(snapshot.collections).map(([name, documents]) => ({
+    name,
+    count: documents.length,
+  }));
+}
+
+function createBatchWriter(onCommit: (operations: number) => void) {
+  let batch: WriteBatch = writeBatch(db);
+  let pending = 0;
+
+  async function flush() {
+    if (pending === 0) {
+      return;
+    }
+    await batch.commit();
+    onCommit(pending);
+    batch = writeBatch(db);
+    pending = 0;
+  }
+
+  async function add(apply: (current: WriteBatch) => void) {
+    apply(batch);
+    pending += 1;
+    if (pending >= BATCH_LIMIT) {
+      await flush();
+    }
+  }
+
+  return {
+    set: (ref: DocumentReference, data: DocumentData) =>
+      add((current) => current.set(ref, data)),
+    delete: (ref: DocumentReference) => add((current) => current.delete(ref)),
+    flush,
+  };
+}
+
+export async function restoreHouseholdSnapshot(params: {
+  householdId: string;
+  snapshot: HouseholdSnapshot;
+  mode: SnapshotRestoreMode;
+  uid: string;
+  onProgress?: (operations: number) => void;
+}) {
+  const { householdId, snapshot, mode, uid, onProgress } = params;
+  let operations = 0;
+  let written = 0;
+  let deleted = 0;
+  let skipped = 0;
+  const writer = createBatchWriter((count) => {
+    operations += count;
+    onProgress?.(operations);
+  });
+
+  // Account groups may only be written by their creator.
+  const canWrite = (collectionName: string, data: DocumentData) =>
+    collectionName !== "accountGroups" || data.createdBy === uid;
+
+  async function deleteCollection(ref: CollectionReference, subcollections: string[] = []) {
+    const existing = await getDocs(ref);
+    for (const docSnap of existing.docs) {
+      for (const name of subcollections) {
+        await deleteCollection(collection(docSnap.ref, name));
+      }
+      await writer.delete(docSnap.ref);
+      deleted += 1;
+    }
+  }
+
+  async function restoreCollection(
+    collectionName: string,
+    ref: CollectionReference,
+    documents: SnapshotDocument[],
+    subcollections: string[] = []
+  ) {
+    if (mode === "replace") {
+      const keepIds = new Set(documents.map((document) => document.id));
+      const existing = await getDocs(ref);
+      for (const docSnap of existing.docs) {
+        if (keepIds.has(docSnap.id) || !canWrite(collectionName, docSnap.data())) {
+          continue;
+        }
+        for (const name of subcollections) {
+          await deleteCollection(collection(docSnap.ref, name));
+        }
+        await writer.delete(docSnap.ref);
+        deleted += 1;
+      }
+    }
+    for (const document of documents) {
+      const data = decodeFirestoreValue(document.data) as DocumentData;
+      if (!canWrite(collectionName, data)) {
+        skipped += 1;
+        continue;
+      }
+      const docRef = doc(ref, document.id);
+      await writer.set(docRef, data);
+      written += 1;
+      for (const name of subcollections) {
+        await restoreCollection(
+          name,
+          collection(docRef, name),
+          document.subcollections?.[name] ?? [],
+          []
+        );
+      }
+    }
+  }
+
+  if (snapshot.household && typeof snapshot.household === "object") {
+    // The member count follows the live members collection, which is not restored.
+    const household = { ...(decodeFirestoreValue(snapshot.household) as DocumentData) };
+    delete household.membersCount;
+    await setDoc(householdDoc(householdId), household, { merge: true });
+  }
+
+  for (const { name, subcollections } of SNAPSHOT_COLLECTIONS) {
+    const documents = snapshot.collections[name];
+    if (!documents) {
+      continue;
+    }
+    if (NON_RESTORABLE_COLLECTIONS.has(name)) {
+      skipped += documents.length;
+      continue;
+    }
+    await restoreCollection(
+      name,
+      collectionPath(householdId, name),
+      documents,
+      subcollections
+    );
+  }
+  await writer.flush();
+  if (snapshot.collections.transactions) {
+    await rebuildMonthlyAggregates({ householdId });
+    await rebuildTransactionSearchTokens({ householdId });
+  }
+  return { written, deleted, skipped };
+}
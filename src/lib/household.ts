@@ -9,6 +9,7 @@ import {
   increment,
   limit,
   query,
+  type Query,
   serverTimestamp,
   setDoc,
   updateDoc,
@@ -19,15 +20,21 @@ import { db } from "@/lib/firebase/client";
 import {
   budgetsCol,
   categoriesCol,
+  categorizationRulesCol,
   householdDoc,
   invitesCol,
   membersCol,
+  monthlyAggregatesCol,
   paymentMethodsCol,
   publicInvitesCol,
   transactionsCol,
   subjectsCol,
+  tagsCol,
+  trashCol,
+  transactionChangeLogsCol,
 } from "@/lib/firebase/firestore";
 import { getUserProfile } from "@/lib/firebase/user";
+import { deleteHouseholdAttachmentFiles } from "@/lib/transaction-attachments";
 
 type SpouseRole = "husband" | "wife";
 
@@ -43,7 +50,7 @@ type ResetOptions = {
   household?: boolean;
 };
 
-async function deleteCollectionDocs(colRef: ReturnType<typeof collection>) {
+async function deleteCollectionDocs(colRef: Query) {
   let snapshot = await getDocs(query(colRef, limit(500)));
   while (!snapshot.empty) {
     const batch = writeBatch(db);
@@ -64,6 +71,23 @@ export async function resetHouseholdData(
   }
   if (options.transactions || options.household) {
     await deleteCollectionDocs(transactionsCol(householdId));
+    await deleteCollectionDocs(monthlyAggregatesCol(householdId));
+    await deleteCollectionDocs(transactionChangeLogsCol(householdId));
+    await deleteHouseholdAttachmentFiles(householdId);
+  }
+  // Each reset only empties the trash of what it deleted; trashed transfers and
+  // recurring rules stay restorable unless the whole household goes.
+  if (options.household) {
+    await deleteCollectionDocs(trashCol(householdId));
+  } else {
+    if (options.transactions) {
+      await deleteCollectionDocs(
+        query(trashCol(householdId), where("kind", "==", "transaction"))
+      );
+    }
+    if (options.memos) {
+      await deleteCollectionDocs(query(trashCol(householdId), where("kind", "==", "memo")));
+    }
   }
   if (options.memos || options.household) {
     const memosCol = collection(db, "households", householdId, "memos");
@@ -71,6 +95,8 @@ export async function resetHouseholdData(
   }
   if (options.categories || options.household) {
     await deleteCollectionDocs(categoriesCol(householdId));
+    await deleteCollectionDocs(categorizationRulesCol(householdId));
+    await deleteCollectionDocs(tagsCol(householdId));
   }
   if (options.subjects || options.household) {
     await deleteCollectionDocs(subjectsCol(householdId));
@@ -112,6 +138,8 @@ export async function createHousehold(
     name,
     createdAt: serverTimestamp(),
     membersCount: 1,
+    searchTokensBuiltAt: serverTimestamp(),
+    monthlyAggregatesBuiltAt: serverTimestamp(),
     creatorDisplayName: creatorDisplayName ?? null,
     partnerDisplayName: partnerDisplayName ?? null,
   });
@@ -0,0 +1,36 @@
+import { addDoc, deleteDoc, doc, serverTimestamp, updateDoc } from "firebase/firestore";
+import { importProfilesCol } from "@/lib/firebase/firestore";
+import type { ImportField } from "@/types/ledger";
+
+export async function saveImportProfile(params: {
+  householdId: string;
+  profileId?: string | null;
+  name: string;
+  columns: Partial<Record<ImportField, string>>;
+  createdBy: string;
+}) {
+  const { householdId, profileId, name, columns, createdBy } = params;
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("프로필 이름을 입력해주세요.");
+  }
+  if (profileId) {
+    await updateDoc(doc(importProfilesCol(householdId), profileId), {
+      name: trimmedName,
+      columns,
+      updatedAt: serverTimestamp(),
+    });
+    return profileId;
+  }
+  const ref = await addDoc(importProfilesCol(householdId), {
+    name: trimmedName,
+    columns,
+    createdBy,
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function deleteImportProfile(householdId: string, profileId: string) {
+  return deleteDoc(doc(importProfilesCol(householdId), profileId));
+}
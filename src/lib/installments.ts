@@ -0,0 +1,157 @@
+import {
+  Timestamp,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { addMonths } from "date-fns";
+import { db } from "@/lib/firebase/client";
+import { transactionsCol } from "@/lib/firebase/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import { applyMonthlyAggregateDelta } from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { toMonthKey } from "@/lib/time";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type { Transaction, TransactionInstallment } from "@/types/ledger";
+
+export const INSTALLMENT_MONTH_OPTIONS = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 18, 24];
+
+function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+export type InstallmentPortion = {
+  index: number;
+  date: Date;
+  principal: number;
+  interest: number;
+  amount: number;
+};
+
+// Card issuers charge installment interest monthly on the remaining balance
+// at an annual rate, and put any rounding remainder on the first month.
+export function buildInstallmentSchedule(params: {
+  principal: number;
+  months: number;
+  interestRate?: number;
+  firstDate: Date;
+}): InstallmentPortion[] {
+  const { principal, months, firstDate } = params;
+  const monthlyRate = Math.max(0, params.interestRate ?? 0) / 100 / 12;
+  const basePrincipal = Math.floor(principal / months);
+  let remaining = principal;
+  return Array.from({ length: months }, (_, offset) => {
+    const portionPrincipal =
+      offset === 0 ? principal - basePrincipal * (months - 1) : basePrincipal;
+    const interest = Math.round(remaining * monthlyRate);
+    remaining -= portionPrincipal;
+    return {
+      index: offset + 1,
+      date: addMonths(firstDate, offset),
+      principal: portionPrincipal,
+      interest,
+      amount: portionPrincipal + interest,
+    };
+  });
+}
+
+export function summarizeInstallmentSchedule(schedule: InstallmentPortion[]) {
+  const interest = schedule.reduce((total, portion) => total + portion.interest, 0);
+  const total = schedule.reduce((total, portion) => total + portion.amount, 0);
+  return { interest, total };
+}
+
+export async function addInstallmentTransaction(params: {
+  householdId: string;
+  principal: number;
+  months: number;
+  interestRate?: number;
+  categoryId: string;
+  paymentMethod: string;
+  paymentMethodId?: string | null;
+  subject: string;
+  date: Date;
+  note?: string;
+  tags?: string[];
+  budgetApplied?: boolean;
+  createdBy: string;
+}) {
+  const { householdId, principal, months, interestRate, date, ...rest } = params;
+  const schedule = buildInstallmentSchedule({
+    principal,
+    months,
+    interestRate,
+    firstDate: date,
+  });
+  const refs = schedule.map(() => doc(transactionsCol(householdId)));
+  const parentId = refs[0].id;
+  const searchTokens = buildTransactionSearchTokens(rest);
+  const delta = createMonthlyAggregateDelta();
+  const batch = writeBatch(db);
+  schedule.forEach((portion, index) => {
+    const installment: TransactionInstallment = {
+      parentId,
+      index: portion.index,
+      months,
+      principal,
+      ...(interestRate ? { interestRate } : {}),
+    };
+    batch.set(refs[index], {
+      ...stripUndefinedValues(rest),
+      type: "expense",
+      amount: portion.amount,
+      installment,
+      date: Timestamp.fromDate(portion.date),
+      monthKey: toMonthKey(portion.date),
+      searchTokens,
+      createdAt: serverTimestamp(),
+    });
+    addTransactionChangeToAggregateDelta(delta, null, {
+      ...rest,
+      type: "expense",
+      amount: portion.amount,
+      monthKey: toMonthKey(portion.date),
+    });
+  });
+  applyMonthlyAggregateDelta(batch, householdId, delta);
+  await batch.commit();
+  return parentId;
+}
+
+export async function listInstallmentTransactions(householdId: string, parentId: string) {
+  const snapshot = await getDocs(
+    query(transactionsCol(householdId), where("installment.parentId", "==", parentId))
+  );
+  return snapshot.docs
+    .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as Transaction) }))
+    .sort((a, b) => (a.installment?.index ?? 0) - (b.installment?.index ?? 0));
+}
+
+export async function deleteInstallmentTransactions(
+  householdId: string,
+  parentId: string,
+  deletedBy: string
+) {
+  const portions = await listInstallmentTransactions(householdId, parentId);
+  const delta = createMonthlyAggregateDelta();
+  const batch = writeBatch(db);
+  portions.forEach(({ id, ...portion }) => {
+    addTransactionChangeToAggregateDelta(delta, portion, null);
+    batch.set(
+      trashItemRef(householdId, "transaction", id),
+      buildTrashItem({ kind: "transaction", itemId: id, data: portion, deletedBy })
+    );
+    batch.delete(doc(transactionsCol(householdId), id));
+  });
+  applyMonthlyAggregateDelta(batch, householdId, delta);
+  await batch.commit();
+  return portions.length;
+}
@@ -0,0 +1,399 @@
+import {
+  Timestamp,
+  collection,
+  getDocs,
+  query,
+  where,
+  type CollectionReference,
+  type DocumentData,
+  type QueryConstraint,
+} from "firebase/firestore";
+import { stringifyCsv } from "@/lib/csv";
+import { db } from "@/lib/firebase/client";
+import {
+  accountsCol,
+  budgetsCol,
+  categoriesCol,
+  paymentMethodsCol,
+  recurringTransactionRulesCol,
+  subjectsCol,
+  transactionsCol,
+  transfersCol,
+} from "@/lib/firebase/firestore";
+import { encodeFirestoreValue } from "@/lib/firestore-json";
+import { normalizeMemoEntries } from "@/lib/memos";
+import {
+  buildPaymentMethodNameMap,
+  resolveTransactionPaymentMethodName,
+} from "@/lib/payment-method-resolver";
+import { describeRecurrence, normalizeRecurrenceSpec } from "@/lib/recurring-schedule";
+import { formatDate, toMonthKey } from "@/lib/time";
+import { buildXlsxWorkbook, type XlsxWriteSheet } from "@/lib/xlsx";
+import { createZipArchive } from "@/lib/zip";
+import type {
+  Account,
+  Budget,
+  Category,
+  PaymentMethod,
+  RecurringTransactionRule,
+  Subject,
+  Transaction,
+  TransactionType,
+  Transfer,
+} from "@/types/ledger";
+
+export const LEDGER_EXPORT_FORMAT = "couple-ledger-export";
+export const LEDGER_EXPORT_VERSION = 1;
+
+export type LedgerExportDataset =
+  | "transactions"
+  | "recurringRules"
+  | "budgets"
+  | "memos"
+  | "accounts"
+  | "transfers";
+
+export type LedgerExportFileFormat = "csv" | "xlsx" | "json";
+
+export const LEDGER_EXPORT_DATASETS: { dataset: LedgerExportDataset; label: string }[] = [
+  { dataset: "transactions", label: "거래 내역" },
+  { dataset: "recurringRules", label: "자동 등록" },
+  { dataset: "budgets", label: "예산" },
+  { dataset: "memos", label: "메모" },
+  { dataset: "accounts", label: "계좌" },
+  { dataset: "transfers", label: "이체" },
+];
+
+export type LedgerExportRange = {
+  startDate: Date | null;
+  endDate: Date | null;
+};
+
+type ExportDocument<T = DocumentData> = { id: string; data: T };
+
+export type LedgerExportData = {
+  range: LedgerExportRange;
+  categories: ExportDocument<Category>[];
+  subjects: ExportDocument<Subject>[];
+  paymentMethods: ExportDocument<PaymentMethod>[];
+  accounts: ExportDocument<Account>[];
+  transactions: ExportDocument<Transaction>[];
+  recurringRules: ExportDocument<RecurringTransactionRule>[];
+  budgets: ExportDocument<Budget>[];
+  memos: ExportDocument[];
+  transfers: ExportDocument<Transfer>[];
+};
+
+const transactionTypeLabelMap: Record<TransactionType, string> = {
+  income: "수입",
+  expense: "지출",
+  transfer: "이체",
+};
+
+const accountTypeLabelMap: Record<Account["type"], string> = {
+  cash: "현금",
+  bank: "은행",
+  savings: "저축",
+  investment: "투자",
+  debt: "부채",
+};
+
+async function fetchDocuments<T>(
+  ref: CollectionReference,
+  constraints: QueryConstraint[] = []
+) {
+  const snapshot = await getDocs(query(ref, ...constraints));
+  return snapshot.docs.map((docSnap) => ({
+    id: docSnap.id,
+    data: docSnap.data() as T,
+  }));
+}
+
+function dateRangeConstraints(range: LedgerExportRange) {
+  const constraints: QueryConstraint[] = [];
+  if (range.startDate) {
+    constraints.push(where("date", ">=", Timestamp.fromDate(range.startDate)));
+  }
+  if (range.endDate) {
+    constraints.push(where("date", "<=", Timestamp.fromDate(range.endDate)));
+  }
+  return constraints;
+}
+
+function isMonthKeyInRange(monthKey: string, range: LedgerExportRange) {
+  if (!/^\d{4}-\d{2}$/.test(monthKey)) {
+    return true;
+  }
+  if (range.startDate && monthKey < toMonthKey(range.startDate)) {
+    return false;
+  }
+  if (range.endDate && monthKey > toMonthKey(range.endDate)) {
+    return false;
+  }
+  return true;
+}
+
+function isRuleInRange(rule: RecurringTransactionRule, range: LedgerExportRange) {
+  if (range.endDate && rule.startDate.toDate() > range.endDate) {
+    return false;
+  }
+  if (range.startDate && rule.endDate && rule.endDate.toDate() < range.startDate) {
+    return false;
+  }
+  return true;
+}
+
+function formatExportDate(value?: Timestamp | null) {
+  return value ? formatDate(value.toDate(), "yyyy-MM-dd") : "";
+}
+
+export async function loadLedgerExportData(params: {
+  householdId: string;
+  range: LedgerExportRange;
+  datasets: LedgerExportDataset[];
+}): Promise<LedgerExportData> {
+  const { householdId, range, datasets } = params;
+  const includes = (dataset: LedgerExportDataset) => datasets.includes(dataset);
+  const [
+    categories,
+    subjects,
+    paymentMethods,
+    accounts,
+    transactions,
+    recurringRules,
+    budgets,
+    memos,
+    transfers,
+  ] = await Promise.all([
+    fetchDocuments<Category>(categoriesCol(householdId)),
+    fetchDocuments<Subject>(subjectsCol(householdId)),
+    fetchDocuments<PaymentMethod>(paymentMethodsCol(householdId)),
+    fetchDocuments<Account>(accountsCol(householdId)),
+    includes("transactions")
+      ? fetchDocuments<Transaction>(transactionsCol(householdId), dateRangeConstraints(range))
+      : [],
+    includes("recurringRules")
+      ? fetchDocuments<RecurringTransactionRule>(recurringTransactionRulesCol(householdId))
+      : [],
+    includes("budgets") ? fetchDocuments<Budget>(budgetsCol(householdId)) : [],
+    includes("memos")
+      ? fetchDocuments<DocumentData>(collection(db, "households", householdId, "memos"))
+      : [],
+    includes("transfers")
+      ? fetchDocuments<Transfer>(transfersCol(householdId), dateRangeConstraints(range))
+      : [],
+  ]);
+  return {
+    range,
+    categories,
+    subjects,
+    paymentMethods,
+    accounts,
+    transactions: transactions.sort(
+      (a, b) => a.data.date.toMillis() - b.data.date.toMillis()
+    ),
+    recurringRules: recurringRules.filter((rule) => isRuleInRange(rule.data, range)),
+    budgets: budgets.filter((budget) => isMonthKeyInRange(budget.id, range)),
+    memos: memos.filter((memo) => isMonthKeyInRange(memo.id, range)),
+    transfers: transfers.sort((a, b) => a.data.date.toMillis() - b.data.date.toMillis()),
+  };
+}
+
+export function buildLedgerExportTables(
+  data: LedgerExportData,
+  datasets: LedgerExportDataset[]
+) {
+  const categoryNameMap = new Map(
+    data.categories.map((category) => [category.id, category.data.name])
+  );
+  const paymentMethodNameMap = buildPaymentMethodNameMap(
+    data.paymentMethods.map((method) => ({ id: method.id, name: method.data.name }))
+  );
+  const accountNameMap = new Map(
+    data.accounts.map((account) => [account.id, account.data.name])
+  );
+  const accountLabel = (accountId?: string | null) =>
+    accountId ? (accountNameMap.get(accountId) ?? "삭제된 계좌") : "외부";
+
+  const tables: Record<LedgerExportDataset, XlsxWriteSheet> = {
+    transactions: {
+      name: "거래 내역",
+      rows: [
+        ["날짜", "구분", "주체", "카테고리", "지불 방식", "메모", "금액", "할인 금액"],
+        ...data.transactions.map(({ data: transaction }) => [
+          formatExportDate(transaction.date),
+          transactionTypeLabelMap[transaction.type],
+          transaction.subject,
+          categoryNameMap.get(transaction.categoryId) ?? "미분류",
+          resolveTransactionPaymentMethodName(transaction, paymentMethodNameMap),
+          transaction.note ?? "",
+          transaction.amount,
+          transaction.discountAmount ?? null,
+        ]),
+      ],
+    },
+    recurringRules: {
+      name: "자동 등록",
+      rows: [
+        [
+          "대상",
+          "구분",
+          "주기",
+          "카테고리",
+          "지불 방식",
+          "출금 계좌",
+          "입금 계좌",
+          "메모",
+          "금액",
+          "시작일",
+          "종료일",
+          "마지막 등록일",
+        ],
+        ...data.recurringRules.map(({ data: rule }) => {
+          const isTransferRule = rule.target === "transfer";
+          return [
+            isTransferRule ? "계좌 이체" : "거래",
+            transactionTypeLabelMap[rule.type],
+            describeRecurrence(normalizeRecurrenceSpec(rule.recurrence, rule.dayOfMonth)),
+            isTransferRule ? "" : (categoryNameMap.get(rule.categoryId) ?? "미분류"),
+            isTransferRule
+              ? ""
+              : resolveTransactionPaymentMethodName(rule, paymentMethodNameMap),
+            isTransferRule ? accountLabel(rule.fromAccountId) : "",
+            isTransferRule ? accountLabel(rule.toAccountId) : "",
+            rule.note ?? "",
+            rule.amount,
+            formatExportDate(rule.startDate),
+            formatExportDate(rule.endDate),
+            rule.lastGeneratedDateKey ?? "",
+          ];
+        }),
+      ],
+    },
+    budgets: {
+      name: "예산",
+      rows: [
+        ["월", "카테고리", "금액"],
+        ...data.budgets
+          .filter((budget) => typeof budget.data.total === "number")
+          .flatMap(({ id, data: budget }) => [
+            [budget.monthKey ?? id, "전체", budget.total],
+            ...Object.entries(budget.byCategory ?? {}).map(([categoryId, amount]) => [
+              budget.monthKey ?? id,
+              categoryNameMap.get(categoryId) ?? "미분류",
+              amount,
+            ]),
+          ]),
+      ],
+    },
+    memos: {
+      name: "메모",
+      rows: [
+        ["월", "작성일", "내용", "링크"],
+        ...data.memos.flatMap(({ id, data: memo }) =>
+          normalizeMemoEntries(memo, id).map((entry) => [
+            id,
+            formatExportDate(entry.createdAt),
+            entry.text,
+            entry.linkUrl ?? "",
+          ])
+        ),
+      ],
+    },
+    accounts: {
+      name: "계좌",
+      rows: [
+        ["이름", "종류", "잔액"],
+        ...data.accounts
+          .slice()
+          .sort((a, b) => a.data.order - b.data.order)
+          .map(({ data: account }) => [
+            account.name,
+            accountTypeLabelMap[account.type] ?? account.type,
+            account.balance,
+          ]),
+      ],
+    },
+    transfers: {
+      name: "이체",
+      rows: [
+        ["날짜", "출금 계좌", "입금 계좌", "메모", "금액"],
+        ...data.transfers.map(({ data: transfer }) => [
+          formatExportDate(transfer.date),
+          accountLabel(transfer.fromAccountId),
+          accountLabel(transfer.toAccountId),
+          transfer.memo ?? "",
+          transfer.amount,
+        ]),
+      ],
+    },
+  };
+  return LEDGER_EXPORT_DATASETS.filter(({ dataset }) => datasets.includes(dataset)).map(
+    ({ dataset }) => tables[dataset]
+  );
+}
+
+function buildJsonExport(data: LedgerExportData, datasets: LedgerExportDataset[]) {
+  const encode = (documents: ExportDocument<unknown>[]) =>
+    documents.map((document) => ({
+      id: document.id,
+      data: encodeFirestoreValue(document.data),
+    }));
+  const collections: Record<string, unknown> = {
+    categories: encode(data.categories),
+    subjects: encode(data.subjects),
+    paymentMethods: encode(data.paymentMethods),
+  };
+  datasets.forEach((dataset) => {
+    collections[dataset] = encode(data[dataset]);
+  });
+  return JSON.stringify(
+    {
+      format: LEDGER_EXPORT_FORMAT,
+      version: LEDGER_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      range: {
+        startDate: data.range.startDate ? formatDate(data.range.startDate, "yyyy-MM-dd") : null,
+        endDate: data.range.endDate ? formatDate(data.range.endDate, "yyyy-MM-dd") : null,
+      },
+      collections,
+    },
+    null,
+    2
+  );
+}
+
+export function buildLedgerExportFile(params: {
+  data: LedgerExportData;
+  datasets: LedgerExportDataset[];
+  format: LedgerExportFileFormat;
+  now: Date;
+}) {
+  const { data, datasets, format, now } = params;
+  const baseName = `ledger-${formatDate(now, "yyyyMMdd-HHmm")}`;
+  if (format === "json") {
+    return {
+      blob: new Blob([buildJsonExport(data, datasets)], { type: "application/json" }),
+      fileName: `${baseName}.json`,
+    };
+  }
+  const tables = buildLedgerExportTables(data, datasets);
+  if (format === "xlsx") {
+    return { blob: buildXlsxWorkbook(tables), fileName: `${baseName}.xlsx` };
+  }
+  if (tables.length === 1) {
+    return {
+      blob: new Blob([stringifyCsv(tables[0].rows)], { type: "text/csv;charset=utf-8" }),
+      fileName: `${baseName}-${tables[0].name}.csv`,
+    };
+  }
+  return {
+    blob: createZipArchive(
+      tables.map((table) => ({
+        name: `${table.name}.csv`,
+        data: stringifyCsv(table.rows),
+      }))
+    ),
+    fileName: `${baseName}-csv.zip`,
+  };
+}
@@ -7,10 +7,14 @@ import {
   limit,
   orderBy,
   query,
+  runTransaction,
   serverTimestamp,
   setDoc,
+  writeBatch,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase/client";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type { TrashItem } from "@/types/ledger";
 
 export type MemoEntry = {
   id: string;
@@ -24,18 +28,6 @@ export type MemoEntry = {
   monthKey?: string;
 };
 
-export type MemoEntrySnapshot = {
-  id: string;
-  text: string;
-  createdAt?: Date | null;
-  createdBy?: string | null;
-  visibleFrom?: Date | null;
-  visibleUntil?: Date | null;
-  linkUrl?: string | null;
-  sourceKey?: string | null;
-  monthKey?: string;
-};
-
 function toFirestoreEntries(entries: MemoEntry[]) {
   return entries.map((entry) => ({
     id: entry.id,
@@ -49,7 +41,7 @@ function toFirestoreEntries(entries: MemoEntry[]) {
   }));
 }
 
-function normalizeEntries(data: {
+export function normalizeMemoEntries(data: {
   text?: string;
   entries?: MemoEntry[];
   updatedAt?: Timestamp;
@@ -90,19 +82,6 @@ function createEntry(text: string, uid: string) {
   } as MemoEntry;
 }
 
-function toMemoEntry(entry: MemoEntrySnapshot) {
-  return {
-    id: entry.id,
-    text: entry.text,
-    createdAt: entry.createdAt ? Timestamp.fromDate(entry.createdAt) : Timestamp.now(),
-    createdBy: entry.createdBy ?? null,
-    visibleFrom: entry.visibleFrom ? Timestamp.fromDate(entry.visibleFrom) : null,
-    visibleUntil: entry.visibleUntil ? Timestamp.fromDate(entry.visibleUntil) : null,
-    linkUrl: entry.linkUrl ?? null,
-    sourceKey: entry.sourceKey ?? null,
-  } as MemoEntry;
-}
-
 export async function getMonthlyMemoEntries(
   householdId: string,
   monthKey: string
@@ -118,7 +97,7 @@ export async function getMonthlyMemoEntries(
     updatedAt?: Timestamp;
     updatedBy?: string;
   };
-  return normalizeEntries(data, monthKey);
+  return normalizeMemoEntries(data, monthKey);
 }
 
 export async function getLatestMemoEntries(householdId: string) {
@@ -135,7 +114,7 @@ export async function getLatestMemoEntries(householdId: string) {
       updatedAt?: Timestamp;
       updatedBy?: string;
     };
-    const entries = normalizeEntries(data, docSnap.id);
+    const entries = normalizeMemoEntries(data, docSnap.id);
     allEntries.push(...entries);
   }
   return allEntries.sort((a, b) => {
@@ -158,7 +137,7 @@ export async function purgeExpiredMemoEntries(householdId: string, uid?: string)
         text?: string;
         entries?: MemoEntry[];
       };
-      const entries = normalizeEntries(data, docSnap.id);
+      const entries = normalizeMemoEntries(data, docSnap.id);
       const nextEntries = entries.filter((entry) => {
         const until = entry.visibleUntil?.toDate?.();
         if (!until) {
@@ -197,7 +176,7 @@ export async function addMonthlyMemoEntry(
   const ref = doc(db, "households", householdId, "memos", monthKey);
   const snapshot = await getDoc(ref);
   const existing = snapshot.exists()
-    ? normalizeEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] })
+    ? normalizeMemoEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] })
     : [];
   const nextEntry = createEntry(text, uid);
   nextEntry.visibleFrom = options?.visibleFrom
@@ -238,7 +217,7 @@ export async function updateMonthlyMemoEntry(
   if (!snapshot.exists()) {
     return;
   }
-  const existing = normalizeEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] });
+  const existing = normalizeMemoEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] });
   const next = existing.map((entry) =>
     entry.id === entryId
       ? {
@@ -281,9 +260,14 @@ export async function deleteMonthlyMemoEntry(
   if (!snapshot.exists()) {
     return;
   }
-  const existing = normalizeEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] });
+  const existing = normalizeMemoEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] });
+  const removed = existing.find((entry) => entry.id === entryId);
+  if (!removed) {
+    return;
+  }
   const next = existing.filter((entry) => entry.id !== entryId);
-  await setDoc(
+  const batch = writeBatch(db);
+  batch.set(
     ref,
     {
       entries: toFirestoreEntries(next),
@@ -292,32 +276,52 @@ export async function deleteMonthlyMemoEntry(
     },
     { merge: true }
   );
+  batch.set(
+    trashItemRef(householdId, "memo", entryId),
+    buildTrashItem({
+      kind: "memo",
+      itemId: entryId,
+      monthKey,
+      data: toFirestoreEntries([removed])[0],
+      deletedBy: uid,
+    })
+  );
+  await batch.commit();
 }
 
-export async function restoreMonthlyMemoEntry(
+export async function restoreMemoEntryFromTrash(
   householdId: string,
-  monthKey: string,
-  entry: MemoEntrySnapshot,
+  entryId: string,
   uid?: string
 ) {
-  const ref = doc(db, "households", householdId, "memos", monthKey);
-  const snapshot = await getDoc(ref);
-  const existing = snapshot.exists()
-    ? normalizeEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] })
-    : [];
-  if (existing.some((item) => item.id === entry.id)) {
-    return;
-  }
-  const next = [...existing, toMemoEntry(entry)];
-  await setDoc(
-    ref,
-    {
-      entries: toFirestoreEntries(next),
-      updatedBy: uid ?? entry.createdBy ?? "system",
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  const trashRef = trashItemRef(householdId, "memo", entryId);
+  await runTransaction(db, async (tx) => {
+    const trashSnap = await tx.get(trashRef);
+    if (!trashSnap.exists()) {
+      throw new Error("휴지통에서 항목을 찾을 수 없습니다.");
+    }
+    const item = trashSnap.data() as TrashItem;
+    if (!item.monthKey) {
+      throw new Error("메모의 월 정보를 찾을 수 없습니다.");
+    }
+    const ref = doc(db, "households", householdId, "memos", item.monthKey);
+    const snapshot = await tx.get(ref);
+    const existing = snapshot.exists()
+      ? normalizeMemoEntries(snapshot.data() as { text?: string; entries?: MemoEntry[] })
+      : [];
+    if (!existing.some((entry) => entry.id === entryId)) {
+      tx.set(
+        ref,
+        {
+          entries: toFirestoreEntries([...existing, item.data as MemoEntry]),
+          updatedBy: uid ?? item.deletedBy,
+          updatedAt: serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+    tx.delete(trashRef);
+  });
 }
 
 export async function setMonthlyMemo(
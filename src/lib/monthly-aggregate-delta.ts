@@ -0,0 +1,140 @@
+import { getTransactionPaymentMethodKey } from "@/lib/payment-method-resolver";
+import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
+import type {
+  MonthlyAggregateAmounts,
+  TransactionSplit,
+  TransactionType,
+} from "@/types/ledger";
+
+const AMOUNT_FIELDS = ["count", "amount", "effective", "budgetApplied"] as const;
+
+export type AggregatableTransaction = {
+  type: TransactionType;
+  amount: number;
+  discountAmount?: number;
+  refundedAmount?: number;
+  refundOf?: string | null;
+  categoryId: string;
+  subject: string;
+  paymentMethod: string;
+  paymentMethodId?: string | null;
+  note?: string;
+  splits?: TransactionSplit[];
+  budgetApplied?: boolean;
+  createdBy?: string;
+  monthKey: string;
+};
+
+type DeltaEntry = {
+  path: string[];
+  amounts: MonthlyAggregateAmounts;
+};
+
+// Month key → entry path → amounts to add. Paths are kept as arrays because
+// subject and payment names may contain dots.
+export type MonthlyAggregateDelta = Map<string, Map<string, DeltaEntry>>;
+
+export function createMonthlyAggregateDelta(): MonthlyAggregateDelta {
+  return new Map();
+}
+
+// Firestore map keys cannot be empty.
+function toAggregateKey(value?: string | null) {
+  return value?.trim() || "_";
+}
+
+function addAmounts(
+  delta: MonthlyAggregateDelta,
+  monthKey: string,
+  path: string[],
+  amounts: MonthlyAggregateAmounts
+) {
+  const month = delta.get(monthKey) ?? new Map<string, DeltaEntry>();
+  delta.set(monthKey, month);
+  const key = JSON.stringify(path);
+  const entry = month.get(key) ?? {
+    path,
+    amounts: { count: 0, amount: 0, effective: 0, budgetApplied: 0 },
+  };
+  AMOUNT_FIELDS.forEach((field) => {
+    entry.amounts[field] += amounts[field];
+  });
+  month.set(key, entry);
+}
+
+// Split entries count per line, with the parent's discount and refunds shared
+// out the same way the stats pages do. Refund records add nothing themselves:
+// they are already netted on the original through refundedAmount.
+export function addTransactionToAggregateDelta(
+  delta: MonthlyAggregateDelta,
+  transaction: AggregatableTransaction | null | undefined,
+  sign: 1 | -1
+) {
+  if (!transaction || transaction.refundOf || !transaction.monthKey) {
+    return;
+  }
+  const paymentMethodKey = getTransactionPaymentMethodKey(transaction);
+  const creatorKey = toAggregateKey(transaction.createdBy);
+  expandTransactionSplits(transaction).forEach((line) => {
+    const effective = line.type === "expense" ? getEffectiveExpenseAmount(line) : line.amount;
+    const amounts: MonthlyAggregateAmounts = {
+      count: sign,
+      amount: sign * line.amount,
+      effective: sign * effective,
+      budgetApplied: line.budgetApplied ? sign * effective : 0,
+    };
+    const categoryKey = toAggregateKey(line.categoryId);
+    [
+      ["totals", line.type],
+      ["byCategory", categoryKey, line.type],
+      ["byCategoryCreator", categoryKey, creatorKey, line.type],
+      ["bySubject", toAggregateKey(line.subject), line.type],
+      ["byPaymentMethod", paymentMethodKey, line.type],
+    ].forEach((path) => addAmounts(delta, transaction.monthKey, path, amounts));
+  });
+}
+
+export function addTransactionChangeToAggregateDelta(
+  delta: MonthlyAggregateDelta,
+  before: AggregatableTransaction | null | undefined,
+  after: AggregatableTransaction | null | undefined
+) {
+  addTransactionToAggregateDelta(delta, before, -1);
+  addTransactionToAggregateDelta(delta, after, 1);
+}
+
+export function mergeMonthlyAggregateDeltas(
+  target: MonthlyAggregateDelta,
+  source: MonthlyAggregateDelta
+) {
+  source.forEach((entries, monthKey) => {
+    entries.forEach(({ path, amounts }) => addAmounts(target, monthKey, path, amounts));
+  });
+}
+
+// Builds one nested document per month. The value mapper turns each number
+// into an increment for live updates, or keeps it as is for a rebuild.
+export function buildMonthlyAggregatePatches<T>(
+  delta: MonthlyAggregateDelta,
+  toValue: (value: number) => T
+) {
+  return Array.from(delta.entries()).flatMap(([monthKey, entries]) => {
+    const data: Record<string, unknown> = {};
+    entries.forEach(({ path, amounts }) => {
+      const fields = AMOUNT_FIELDS.filter((field) => amounts[field] !== 0);
+      if (fields.length === 0) {
+        return;
+      }
+      let target = data;
+      path.forEach((key) => {
+        target[key] = target[key] ?? {};
+        target = target[key] as Record<string, unknown>;
+      });
+      fields.forEach((field) => {
+        target[field] = toValue(amounts[field]);
+      });
+    });
+    return Object.keys(data).length > 0 ? [{ monthKey, data }] : [];
+  });
+}
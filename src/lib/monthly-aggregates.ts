@@ -0,0 +1,183 @@
+import {
+  doc,
+  documentId,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAfter,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+  type SetOptions,
+  type WriteBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import {
+  householdDoc,
+  monthlyAggregatesCol,
+  transactionsCol,
+} from "@/lib/firebase/firestore";
+import {
+  addTransactionToAggregateDelta,
+  buildMonthlyAggregatePatches,
+  createMonthlyAggregateDelta,
+  mergeMonthlyAggregateDeltas,
+  type AggregatableTransaction,
+  type MonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import type {
+  MonthlyAggregate,
+  MonthlyAggregateAmounts,
+  MonthlyAggregateByType,
+  Transaction,
+} from "@/types/ledger";
+
+const BATCH_LIMIT = 500;
+
+type AggregateWriter = {
+  set: (ref: DocumentReference, data: DocumentData, options: SetOptions) => unknown;
+};
+
+// Writes the increments next to the transaction write that caused them, in the
+// same batch or transaction, and returns how many writes that added.
+export function applyMonthlyAggregateDelta(
+  writer: AggregateWriter,
+  householdId: string,
+  delta: MonthlyAggregateDelta
+) {
+  const patches = buildMonthlyAggregatePatches(delta, (value) => increment(value));
+  patches.forEach(({ monthKey, data }) => {
+    writer.set(
+      doc(monthlyAggregatesCol(householdId), monthKey),
+      { ...data, monthKey, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  });
+  return patches.length;
+}
+
+export type AggregateWriteGroup = {
+  operations: ((batch: WriteBatch) => void)[];
+  delta?: MonthlyAggregateDelta;
+};
+
+// Each group's writes go into the same batch as the month totals they move, so
+// a failed chunk never leaves the totals out of step with the records. The
+// month writes count against the batch size like any other write.
+export async function commitWithMonthlyAggregates(
+  householdId: string,
+  groups: AggregateWriteGroup[]
+) {
+  let batch = writeBatch(db);
+  let size = 0;
+  let delta = createMonthlyAggregateDelta();
+  const flush = async () => {
+    if (size === 0) {
+      return;
+    }
+    applyMonthlyAggregateDelta(batch, householdId, delta);
+    await batch.commit();
+    batch = writeBatch(db);
+    size = 0;
+    delta = createMonthlyAggregateDelta();
+  };
+  for (const group of groups) {
+    const months = new Set([...delta.keys(), ...(group.delta?.keys() ?? [])]);
+    if (size > 0 && size + group.operations.length + months.size > BATCH_LIMIT) {
+      await flush();
+    }
+    group.operations.forEach((operation) => operation(batch));
+    size += group.operations.length;
+    if (group.delta) {
+      mergeMonthlyAggregateDeltas(delta, group.delta);
+    }
+  }
+  await flush();
+}
+
+export function getAggregateAmount(
+  byType: MonthlyAggregateByType | undefined,
+  type: keyof MonthlyAggregateByType,
+  field: keyof MonthlyAggregateAmounts
+) {
+  return byType?.[type]?.[field] ?? 0;
+}
+
+// The same month documents a rebuild would write, computed from records that
+// are already loaded.
+export function buildMonthlyAggregatesFromTransactions(
+  transactions: AggregatableTransaction[]
+): MonthlyAggregate[] {
+  const delta = createMonthlyAggregateDelta();
+  transactions.forEach((transaction) => {
+    addTransactionToAggregateDelta(delta, transaction, 1);
+  });
+  return buildMonthlyAggregatePatches(delta, (value) => value)
+    .map(({ monthKey, data }) => ({ ...data, monthKey }) as MonthlyAggregate)
+    .sort((a, b) => a.monthKey.localeCompare(b.monthKey));
+}
+
+// Recomputes every month from the stored transactions, for data written before
+// aggregates existed or after a snapshot restore replaced the transactions.
+// The totals are read first and written back as absolute values outside a
+// transaction, so a record saved by someone else while this runs can be left
+// out until the next rebuild; run it while nobody else is editing.
+export async function rebuildMonthlyAggregates(params: {
+  householdId: string;
+  onProgress?: (processed: number) => void;
+}) {
+  const { householdId, onProgress } = params;
+  const delta = createMonthlyAggregateDelta();
+  let cursor: QueryDocumentSnapshot | null = null;
+  let processed = 0;
+  while (true) {
+    const snapshot: QuerySnapshot = await getDocs(
+      query(
+        transactionsCol(householdId),
+        orderBy(documentId()),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(BATCH_LIMIT)
+      )
+    );
+    snapshot.docs.forEach((docSnap) => {
+      addTransactionToAggregateDelta(delta, docSnap.data() as Transaction, 1);
+    });
+    processed += snapshot.docs.length;
+    onProgress?.(processed);
+    if (snapshot.docs.length < BATCH_LIMIT) {
+      break;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  const patches = buildMonthlyAggregatePatches(delta, (value) => value);
+  const monthKeys = new Set(patches.map((patch) => patch.monthKey));
+  const existing = await getDocs(monthlyAggregatesCol(householdId));
+  const writes: ((batch: WriteBatch) => void)[] = [
+    ...patches.map(({ monthKey, data }) => (batch: WriteBatch) => {
+      batch.set(doc(monthlyAggregatesCol(householdId), monthKey), {
+        ...data,
+        monthKey,
+        updatedAt: serverTimestamp(),
+      });
+    }),
+    ...existing.docs
+      .filter((docSnap) => !monthKeys.has(docSnap.id))
+      .map((docSnap) => (batch: WriteBatch) => {
+        batch.delete(docSnap.ref);
+      }),
+  ];
+  for (let index = 0; index < writes.length; index += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(index, index + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+  await updateDoc(householdDoc(householdId), { monthlyAggregatesBuiltAt: serverTimestamp() });
+  return { processed, months: monthKeys.size };
+}
@@ -10,6 +10,7 @@ export async function addPaymentMethod(
     parentId?: string | null;
     imported?: boolean;
     goalMonthly?: number | null;
+    cardSuffix?: string | null;
   }
 ) {
   return addDoc(paymentMethodsCol(householdId), data);
@@ -25,6 +26,7 @@ export async function updatePaymentMethod(
     parentId?: string | null;
     imported?: boolean;
     goalMonthly?: number | null;
+    cardSuffix?: string | null;
   }
 ) {
   return updateDoc(doc(paymentMethodsCol(householdId), paymentMethodId), data);
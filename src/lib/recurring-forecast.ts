@@ -0,0 +1,112 @@
+import {
+  listUpcomingOccurrences,
+  parseDateKey,
+  startOfLocalDay,
+  toLocalDateKey,
+  toRecurringSchedule,
+} from "@/lib/recurring-schedule";
+import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import type {
+  RecurringRuleTarget,
+  RecurringTransactionRule,
+  TransactionType,
+} from "@/types/ledger";
+
+type ForecastRule = RecurringTransactionRule & { id: string };
+
+export type RecurringForecastItem = {
+  id: string;
+  ruleId: string;
+  occurrenceDateKey: string;
+  dateKey: string;
+  date: Date;
+  target: RecurringRuleTarget;
+  type: TransactionType;
+  amount: number;
+  effectiveAmount: number;
+  categoryId: string;
+  paymentMethod: string;
+  paymentMethodId?: string | null;
+  fromAccountId?: string | null;
+  toAccountId?: string | null;
+  note?: string;
+};
+
+export type RecurringForecastSummary = {
+  income: number;
+  expense: number;
+  transfer: number;
+  count: number;
+};
+
+// Today's occurrences are left out because the sync turns them into real
+// documents as soon as the app opens; anything at or before the rule's
+// `lastGeneratedDateKey` already exists as well.
+export function buildRecurringForecast(
+  rules: ForecastRule[],
+  now: Date,
+  until: Date
+) {
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const rangeEnd = startOfLocalDay(until);
+  if (rangeEnd < tomorrow) {
+    return [];
+  }
+  const items: RecurringForecastItem[] = [];
+  rules.forEach((rule) => {
+    const lastGeneratedDate = rule.lastGeneratedDateKey
+      ? parseDateKey(rule.lastGeneratedDateKey)
+      : null;
+    listUpcomingOccurrences(toRecurringSchedule(rule), tomorrow, rangeEnd)
+      .filter(
+        (occurrence) =>
+          !occurrence.skipped &&
+          (!lastGeneratedDate || occurrence.scheduledDate > lastGeneratedDate)
+      )
+      .forEach((occurrence) => {
+        const amount = occurrence.amount ?? rule.amount;
+        items.push({
+          id: `${rule.id}-${occurrence.dateKey}`,
+          ruleId: rule.id,
+          occurrenceDateKey: occurrence.dateKey,
+          dateKey: toLocalDateKey(occurrence.date),
+          date: occurrence.date,
+          target: rule.target ?? "transaction",
+          type: rule.type,
+          amount,
+          effectiveAmount:
+            rule.type === "expense"
+              ? getEffectiveExpenseAmount({
+                  type: rule.type,
+                  amount,
+                  discountAmount: rule.discountAmount,
+                })
+              : amount,
+          categoryId: rule.categoryId,
+          paymentMethod: rule.paymentMethod,
+          paymentMethodId: rule.paymentMethodId,
+          fromAccountId: rule.fromAccountId,
+          toAccountId: rule.toAccountId,
+          note: rule.note,
+        });
+      });
+  });
+  return items.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function summarizeRecurringForecast(items: RecurringForecastItem[]) {
+  return items.reduce<RecurringForecastSummary>(
+    (summary, item) => {
+      if (item.target === "transfer") {
+        summary.transfer += item.amount;
+      } else if (item.type === "income") {
+        summary.income += item.effectiveAmount;
+      } else if (item.type === "expense") {
+        summary.expense += item.effectiveAmount;
+      }
+      summary.count += 1;
+      return summary;
+    },
+    { income: 0, expense: 0, transfer: 0, count: 0 }
+  );
+}
@@ -0,0 +1,335 @@
+import { formatDate } from "@/lib/time";
+import type { RecurrenceException, RecurrenceSpec } from "@/types/ledger";
+
+type TimestampLike = { toDate: () => Date };
+
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+export type RecurringSchedule = {
+  recurrence: RecurrenceSpec;
+  startDate: Date;
+  endDate: Date | null;
+  lastGeneratedDateKey: string | null;
+  exceptions: Record<string, RecurrenceException>;
+};
+
+// `dateKey` is the originally scheduled day and identifies the occurrence;
+// `date` is where it actually lands after a move exception.
+export type RecurringOccurrence = {
+  dateKey: string;
+  scheduledDate: Date;
+  date: Date;
+  amount?: number;
+  skipped: boolean;
+};
+
+export function parseDateKey(value: string) {
+  const [yearText, monthText, dayText] = value.split("-");
+  const year = Number(yearText);
+  const month = Number(monthText);
+  const day = Number(dayText);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+}
+
+export function startOfLocalDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function toLocalDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function clampDayOfMonth(year: number, monthIndex: number, dayOfMonth: number) {
+  return Math.min(dayOfMonth, new Date(year, monthIndex + 1, 0).getDate());
+}
+
+function buildOccurrenceDate(
+  year: number,
+  monthIndex: number,
+  dayOfMonth: number
+) {
+  return new Date(
+    year,
+    monthIndex,
+    clampDayOfMonth(year, monthIndex, dayOfMonth)
+  );
+}
+
+function isWeekend(date: Date) {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+function resolveMonthlyOccurrenceDate(
+  year: number,
+  monthIndex: number,
+  recurrence: RecurrenceSpec
+) {
+  if (
+    recurrence.anchor === "lastDay" ||
+    recurrence.anchor === "lastBusinessDay"
+  ) {
+    const lastDay = new Date(year, monthIndex + 1, 0);
+    if (recurrence.anchor === "lastDay") {
+      return lastDay;
+    }
+    while (isWeekend(lastDay)) {
+      lastDay.setDate(lastDay.getDate() - 1);
+    }
+    return lastDay;
+  }
+  return buildOccurrenceDate(year, monthIndex, recurrence.dayOfMonth ?? 1);
+}
+
+export function normalizeRecurrenceSpec(
+  recurrence: Partial<RecurrenceSpec> | null | undefined,
+  fallbackDayOfMonth: number
+): RecurrenceSpec {
+  const frequency = recurrence?.frequency ?? "monthly";
+  const interval = Math.max(1, Math.floor(Number(recurrence?.interval) || 1));
+  if (frequency === "weekly") {
+    return {
+      frequency,
+      interval,
+      weekday: Math.min(6, Math.max(0, Math.floor(recurrence?.weekday ?? 0))),
+    };
+  }
+  const anchor = recurrence?.anchor ?? "dayOfMonth";
+  const spec: RecurrenceSpec = { frequency, interval, anchor };
+  if (anchor === "dayOfMonth") {
+    spec.dayOfMonth = Math.min(
+      31,
+      Math.max(1, Math.floor(recurrence?.dayOfMonth ?? fallbackDayOfMonth))
+    );
+  }
+  if (frequency === "yearly") {
+    spec.monthOfYear = Math.min(
+      12,
+      Math.max(1, Math.floor(recurrence?.monthOfYear ?? 1))
+    );
+  }
+  return spec;
+}
+
+export function describeRecurrence(recurrence: RecurrenceSpec) {
+  const interval = Math.max(1, recurrence.interval || 1);
+  if (recurrence.frequency === "weekly") {
+    const prefix = interval === 1 ? "매주" : `${interval}주마다`;
+    return `${prefix} ${WEEKDAY_LABELS[recurrence.weekday ?? 0]}요일`;
+  }
+  const dayLabel =
+    recurrence.anchor === "lastDay"
+      ? "말일"
+      : recurrence.anchor === "lastBusinessDay"
+        ? "마지막 영업일"
+        : `${recurrence.dayOfMonth ?? 1}일`;
+  if (recurrence.frequency === "yearly") {
+    const prefix = interval === 1 ? "매년" : `${interval}년마다`;
+    return `${prefix} ${recurrence.monthOfYear ?? 1}월 ${dayLabel}`;
+  }
+  const prefix = interval === 1 ? "매달" : `${interval}개월마다`;
+  return `${prefix} ${dayLabel}`;
+}
+
+export function buildGeneratedTransactionId(ruleId: string, dateKey: string) {
+  return `recurring-${ruleId}-${dateKey.replaceAll("-", "")}`;
+}
+
+export function buildRecurringTransactionNote(
+  note: string | undefined,
+  date: Date,
+  prependMonthToNote = false
+) {
+  const baseNote = note?.trim() ?? "";
+  if (!prependMonthToNote) {
+    return baseNote || undefined;
+  }
+  const monthLabel = formatDate(date, "M월");
+  if (!baseNote) {
+    return monthLabel;
+  }
+  return `${monthLabel} ${baseNote}`;
+}
+
+export function stripRecurringMonthPrefix(
+  note: string | undefined,
+  date: Date
+) {
+  const normalized = note?.trim() ?? "";
+  if (!normalized) {
+    return "";
+  }
+  const monthLabel = formatDate(date, "M월");
+  if (normalized === monthLabel) {
+    return "";
+  }
+  const prefix = `${monthLabel} `;
+  if (normalized.startsWith(prefix)) {
+    return normalized.slice(prefix.length).trimStart();
+  }
+  return normalized;
+}
+
+// `toLocalDate` lets server code shift stored instants into the household's
+// wall-clock time before the calendar math below runs on local fields.
+export function toRecurringSchedule(
+  rule: {
+    dayOfMonth: number;
+    recurrence?: RecurrenceSpec;
+    startDate: TimestampLike;
+    endDate?: TimestampLike | null;
+    lastGeneratedDateKey?: string | null;
+    exceptions?: Record<string, RecurrenceException>;
+  },
+  toLocalDate: (date: Date) => Date = (date) => date
+): RecurringSchedule {
+  return {
+    recurrence: normalizeRecurrenceSpec(rule.recurrence, rule.dayOfMonth),
+    startDate: toLocalDate(rule.startDate.toDate()),
+    endDate: rule.endDate ? toLocalDate(rule.endDate.toDate()) : null,
+    lastGeneratedDateKey: rule.lastGeneratedDateKey ?? null,
+    exceptions: rule.exceptions ?? {},
+  };
+}
+
+export function listOccurrenceDates(schedule: RecurringSchedule, until: Date) {
+  const startDate = startOfLocalDay(schedule.startDate);
+  const rangeEnd = startOfLocalDay(until);
+  const lastDate =
+    schedule.endDate && startOfLocalDay(schedule.endDate) < rangeEnd
+      ? startOfLocalDay(schedule.endDate)
+      : rangeEnd;
+  const { recurrence } = schedule;
+  const interval = Math.max(1, Math.floor(recurrence.interval || 1));
+  const dates: Date[] = [];
+
+  if (recurrence.frequency === "weekly") {
+    const weekday = recurrence.weekday ?? startDate.getDay();
+    let cursor = new Date(
+      startDate.getFullYear(),
+      startDate.getMonth(),
+      startDate.getDate() + ((weekday - startDate.getDay() + 7) % 7)
+    );
+    while (cursor <= lastDate) {
+      dates.push(cursor);
+      cursor = new Date(
+        cursor.getFullYear(),
+        cursor.getMonth(),
+        cursor.getDate() + 7 * interval
+      );
+    }
+    return dates;
+  }
+
+  const stepMonths = recurrence.frequency === "yearly" ? 12 * interval : interval;
+  let cursor =
+    recurrence.frequency === "yearly"
+      ? new Date(startDate.getFullYear(), (recurrence.monthOfYear ?? 1) - 1, 1)
+      : new Date(startDate.getFullYear(), startDate.getMonth(), 1);
+
+  while (cursor <= lastDate) {
+    const occurrenceDate = resolveMonthlyOccurrenceDate(
+      cursor.getFullYear(),
+      cursor.getMonth(),
+      recurrence
+    );
+    if (occurrenceDate >= startDate && occurrenceDate <= lastDate) {
+      dates.push(occurrenceDate);
+    }
+    cursor = new Date(cursor.getFullYear(), cursor.getMonth() + stepMonths, 1);
+  }
+
+  return dates;
+}
+
+function applyOccurrenceException(
+  scheduledDate: Date,
+  exceptions: Record<string, RecurrenceException>
+): RecurringOccurrence {
+  const dateKey = toLocalDateKey(scheduledDate);
+  const exception = exceptions[dateKey];
+  const movedDate = exception?.moveToDateKey
+    ? parseDateKey(exception.moveToDateKey)
+    : null;
+  return {
+    dateKey,
+    scheduledDate,
+    date: movedDate ?? scheduledDate,
+    amount:
+      typeof exception?.amount === "number" && exception.amount > 0
+        ? exception.amount
+        : undefined,
+    skipped: Boolean(exception?.skip),
+  };
+}
+
+// Occurrences moved earlier can land before `until` even though their
+// scheduled day is later, so the scan extends to the furthest moved key.
+function listScheduledOccurrences(schedule: RecurringSchedule, until: Date) {
+  const scanEnd = Object.entries(schedule.exceptions).reduce(
+    (latest, [dateKey, exception]) => {
+      const scheduledDate = exception.moveToDateKey ? parseDateKey(dateKey) : null;
+      return scheduledDate && scheduledDate > latest ? scheduledDate : latest;
+    },
+    startOfLocalDay(until)
+  );
+  return listOccurrenceDates(schedule, scanEnd).map((date) =>
+    applyOccurrenceException(date, schedule.exceptions)
+  );
+}
+
+export function listOccurrences(schedule: RecurringSchedule, until: Date) {
+  const rangeEnd = startOfLocalDay(until);
+  return listScheduledOccurrences(schedule, rangeEnd)
+    .filter((occurrence) => occurrence.date <= rangeEnd)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function listUpcomingOccurrences(
+  schedule: RecurringSchedule,
+  from: Date,
+  until: Date
+) {
+  const rangeStart = startOfLocalDay(from);
+  return listOccurrences(schedule, until).filter(
+    (occurrence) => occurrence.date >= rangeStart
+  );
+}
+
+// `lastGeneratedDateKey` only advances past occurrences that are settled
+// (generated or skipped). An occurrence moved later holds it back, so the
+// ones after it can be returned again on the next run; callers must create
+// by id and leave documents that already exist untouched.
+export function buildPendingOccurrences(schedule: RecurringSchedule, now: Date) {
+  const today = startOfLocalDay(now);
+  const lastGeneratedDate = schedule.lastGeneratedDateKey
+    ? parseDateKey(schedule.lastGeneratedDateKey)
+    : null;
+  const occurrences: RecurringOccurrence[] = [];
+  let lastGeneratedDateKey = schedule.lastGeneratedDateKey;
+  let settled = true;
+
+  listScheduledOccurrences(schedule, today)
+    .filter(
+      (occurrence) =>
+        !lastGeneratedDate || occurrence.scheduledDate > lastGeneratedDate
+    )
+    .forEach((occurrence) => {
+      const isDue = !occurrence.skipped && occurrence.date <= today;
+      if (isDue) {
+        occurrences.push(occurrence);
+      }
+      if (!isDue && !occurrence.skipped) {
+        settled = false;
+      } else if (settled) {
+        lastGeneratedDateKey = occurrence.dateKey;
+      }
+    });
+
+  return { occurrences, lastGeneratedDateKey };
+}
@@ -1,4 +1,5 @@
 import {
+  FieldPath,
   Timestamp,
   addDoc,
   deleteField,
@@ -7,18 +8,41 @@ import {
   getDoc,
   getDocs,
   query,
+  runTransaction,
   serverTimestamp,
   updateDoc,
   where,
-  writeBatch,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
 } from "firebase/firestore";
+import { addTransfer } from "@/lib/accounts";
 import { db } from "@/lib/firebase/client";
 import {
+  accountsCol,
   recurringTransactionRulesCol,
   transactionsCol,
 } from "@/lib/firebase/firestore";
-import { formatDate, toDateKey, toMonthKey } from "@/lib/time";
-import type { RecurringTransactionRule, TransactionType } from "@/types/ledger";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import { applyMonthlyAggregateDelta } from "@/lib/monthly-aggregates";
+import {
+  buildGeneratedTransactionId,
+  buildPendingOccurrences,
+  buildRecurringTransactionNote,
+  toRecurringSchedule,
+} from "@/lib/recurring-schedule";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { toMonthKey } from "@/lib/time";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type {
+  RecurrenceException,
+  RecurrenceSpec,
+  RecurringTransactionRule,
+  TransactionType,
+  TrashItem,
+} from "@/types/ledger";
 
 function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
   return Object.fromEntries(
@@ -26,111 +50,6 @@ function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
   ) as Partial<T>;
 }
 
-function parseDateKey(value: string) {
-  const [yearText, monthText, dayText] = value.split("-");
-  const year = Number(yearText);
-  const month = Number(monthText);
-  const day = Number(dayText);
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(year, month - 1, day);
-}
-
-function startOfLocalDay(date: Date) {
-  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
-}
-
-function clampDayOfMonth(year: number, monthIndex: number, dayOfMonth: number) {
-  return Math.min(dayOfMonth, new Date(year, monthIndex + 1, 0).getDate());
-}
-
-function buildOccurrenceDate(
-  year: number,
-  monthIndex: number,
-  dayOfMonth: number
-) {
-  return new Date(
-    year,
-    monthIndex,
-    clampDayOfMonth(year, monthIndex, dayOfMonth)
-  );
-}
-
-function buildGeneratedTransactionId(ruleId: string, dateKey: string) {
-  return `recurring-${ruleId}-${dateKey.replaceAll("-", "")}`;
-}
-
-export function buildRecurringTransactionNote(
-  note: string | undefined,
-  date: Date,
-  prependMonthToNote = false
-) {
-  const baseNote = note?.trim() ?? "";
-  if (!prependMonthToNote) {
-    return baseNote || undefined;
-  }
-  const monthLabel = formatDate(date, "M월");
-  if (!baseNote) {
-    return monthLabel;
-  }
-  return `${monthLabel} ${baseNote}`;
-}
-
-export function stripRecurringMonthPrefix(
-  note: string | undefined,
-  date: Date
-) {
-  const normalized = note?.trim() ?? "";
-  if (!normalized) {
-    return "";
-  }
-  const monthLabel = formatDate(date, "M월");
-  if (normalized === monthLabel) {
-    return "";
-  }
-  const prefix = `${monthLabel} `;
-  if (normalized.startsWith(prefix)) {
-    return normalized.slice(prefix.length).trimStart();
-  }
-  return normalized;
-}
-
-function buildPendingOccurrenceDates(
-  rule: RecurringTransactionRule,
-  now: Date
-) {
-  const today = startOfLocalDay(now);
-  const startDate = startOfLocalDay(rule.startDate.toDate());
-  const endDate = rule.endDate ? startOfLocalDay(rule.endDate.toDate()) : null;
-  const lastGeneratedDate = rule.lastGeneratedDateKey
-    ? parseDateKey(rule.lastGeneratedDateKey)
-    : null;
-  const dates: Date[] = [];
-
-  let cursor = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-  const lastMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-
-  while (cursor <= lastMonth) {
-    const occurrenceDate = buildOccurrenceDate(
-      cursor.getFullYear(),
-      cursor.getMonth(),
-      rule.dayOfMonth
-    );
-    if (
-      occurrenceDate >= startDate &&
-      occurrenceDate <= today &&
-      (!endDate || occurrenceDate <= endDate) &&
-      (!lastGeneratedDate || occurrenceDate > lastGeneratedDate)
-    ) {
-      dates.push(occurrenceDate);
-    }
-    cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
-  }
-
-  return dates;
-}
-
 export async function createRecurringTransactionRule(params: {
   householdId: string;
   type: TransactionType;
@@ -141,9 +60,11 @@ export async function createRecurringTransactionRule(params: {
   paymentMethodId?: string | null;
   subject: string;
   note?: string;
+  tags?: string[];
   prependMonthToNote?: boolean;
   budgetApplied?: boolean;
   dayOfMonth: number;
+  recurrence: RecurrenceSpec;
   startDate: Date;
   endDate?: Date;
   lastGeneratedDateKey?: string;
@@ -164,6 +85,50 @@ export async function createRecurringTransactionRule(params: {
   });
 }
 
+export async function createRecurringTransferRule(params: {
+  householdId: string;
+  fromAccountId?: string | null;
+  toAccountId?: string | null;
+  amount: number;
+  note?: string;
+  prependMonthToNote?: boolean;
+  dayOfMonth: number;
+  recurrence: RecurrenceSpec;
+  startDate: Date;
+  endDate?: Date;
+  lastGeneratedDateKey?: string;
+  createdBy: string;
+}) {
+  const {
+    householdId,
+    fromAccountId,
+    toAccountId,
+    startDate,
+    endDate,
+    ...rest
+  } = params;
+  if (!fromAccountId && !toAccountId) {
+    throw new Error("이체 계좌를 선택해주세요.");
+  }
+  if (fromAccountId && toAccountId && fromAccountId === toAccountId) {
+    throw new Error("같은 계좌로는 이체할 수 없습니다.");
+  }
+  return addDoc(recurringTransactionRulesCol(householdId), {
+    ...stripUndefinedValues(rest),
+    target: "transfer",
+    type: "transfer",
+    categoryId: "",
+    paymentMethod: "",
+    subject: "",
+    fromAccountId: fromAccountId ?? null,
+    toAccountId: toAccountId ?? null,
+    startDate: Timestamp.fromDate(startDate),
+    ...(endDate ? { endDate: Timestamp.fromDate(endDate) } : {}),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
 export async function updateRecurringTransactionRule(params: {
   householdId: string;
   ruleId: string;
@@ -175,9 +140,11 @@ export async function updateRecurringTransactionRule(params: {
   paymentMethodId?: string | null;
   subject: string;
   note?: string;
+  tags?: string[];
   prependMonthToNote?: boolean;
   budgetApplied?: boolean;
   dayOfMonth: number;
+  recurrence: RecurrenceSpec;
   startDate: Date;
   endDate?: Date;
 }) {
@@ -192,6 +159,7 @@ export async function updateRecurringTransactionRule(params: {
     doc(db, "households", householdId, "recurringTransactionRules", ruleId),
     {
       ...stripUndefinedValues(rest),
+      tags: rest.tags ?? deleteField(),
       startDate: Timestamp.fromDate(startDate),
       endDate: endDate ? Timestamp.fromDate(endDate) : deleteField(),
       updatedAt: serverTimestamp(),
@@ -208,6 +176,50 @@ export async function deleteRecurringTransactionRule(
   );
 }
 
+export async function moveRecurringTransactionRuleToTrash(params: {
+  householdId: string;
+  ruleId: string;
+  deletedBy: string;
+}) {
+  const { householdId, ruleId, deletedBy } = params;
+  const ruleRef = doc(db, "households", householdId, "recurringTransactionRules", ruleId);
+  await runTransaction(db, async (tx) => {
+    const snapshot = await tx.get(ruleRef);
+    if (!snapshot.exists()) {
+      throw new Error("자동 내역 설정을 찾을 수 없습니다.");
+    }
+    tx.set(
+      trashItemRef(householdId, "recurringRule", ruleId),
+      buildTrashItem({
+        kind: "recurringRule",
+        itemId: ruleId,
+        data: snapshot.data(),
+        deletedBy,
+      })
+    );
+    tx.delete(ruleRef);
+  });
+}
+
+export async function restoreRecurringTransactionRuleFromTrash(
+  householdId: string,
+  ruleId: string
+) {
+  const trashRef = trashItemRef(householdId, "recurringRule", ruleId);
+  const ruleRef = doc(db, "households", householdId, "recurringTransactionRules", ruleId);
+  await runTransaction(db, async (tx) => {
+    const trashSnap = await tx.get(trashRef);
+    if (!trashSnap.exists()) {
+      throw new Error("휴지통에서 항목을 찾을 수 없습니다.");
+    }
+    const currentSnap = await tx.get(ruleRef);
+    if (!currentSnap.exists()) {
+      tx.set(ruleRef, (trashSnap.data() as TrashItem).data);
+    }
+    tx.delete(trashRef);
+  });
+}
+
 export async function stopRecurringTransactionRule(
   householdId: string,
   ruleId: string,
@@ -222,6 +234,36 @@ export async function stopRecurringTransactionRule(
   );
 }
 
+export async function setRecurringOccurrenceException(params: {
+  householdId: string;
+  ruleId: string;
+  occurrenceDateKey: string;
+  exception: RecurrenceException;
+}) {
+  const { householdId, ruleId, occurrenceDateKey, exception } = params;
+  return updateDoc(
+    doc(db, "households", householdId, "recurringTransactionRules", ruleId),
+    new FieldPath("exceptions", occurrenceDateKey),
+    stripUndefinedValues({ ...exception }),
+    "updatedAt",
+    serverTimestamp()
+  );
+}
+
+export async function clearRecurringOccurrenceException(
+  householdId: string,
+  ruleId: string,
+  occurrenceDateKey: string
+) {
+  return updateDoc(
+    doc(db, "households", householdId, "recurringTransactionRules", ruleId),
+    new FieldPath("exceptions", occurrenceDateKey),
+    deleteField(),
+    "updatedAt",
+    serverTimestamp()
+  );
+}
+
 export async function getRecurringTransactionRule(
   householdId: string,
   ruleId: string
@@ -248,60 +290,157 @@ export async function findSourceTransactionIdByRecurringRuleId(
   return snapshot.docs[0]?.id ?? null;
 }
 
-export async function syncRecurringTransactionRules(
+// Date keys are zero-padded, so comparing them as strings keeps date order.
+export async function listGeneratedTransactionIdsAfter(
   householdId: string,
-  now = new Date()
+  ruleId: string,
+  occurrenceDateKey: string
 ) {
-  const snapshot = await getDocs(recurringTransactionRulesCol(householdId));
-  if (snapshot.empty) {
+  const snapshot = await getDocs(
+    query(transactionsCol(householdId), where("generatedFromRecurringRuleId", "==", ruleId))
+  );
+  return snapshot.docs
+    .filter((docSnap) => {
+      const dateKey = docSnap.get("recurringOccurrenceDateKey") as string | undefined;
+      return Boolean(dateKey && dateKey > occurrenceDateKey);
+    })
+    .map((docSnap) => docSnap.id);
+}
+
+async function syncRecurringTransactionRule(
+  householdId: string,
+  ruleDoc: QueryDocumentSnapshot,
+  now: Date
+) {
+  const rule = ruleDoc.data() as RecurringTransactionRule;
+  const { occurrences, lastGeneratedDateKey } = buildPendingOccurrences(
+    toRecurringSchedule(rule),
+    now
+  );
+  const shouldAdvance =
+    lastGeneratedDateKey !== null &&
+    lastGeneratedDateKey !== (rule.lastGeneratedDateKey ?? null);
+  if (occurrences.length === 0 && !shouldAdvance) {
     return;
   }
 
-  for (const ruleDoc of snapshot.docs) {
-    const rule = ruleDoc.data() as RecurringTransactionRule;
-    const pendingDates = buildPendingOccurrenceDates(rule, now);
-    if (pendingDates.length === 0) {
-      continue;
+  if (rule.target === "transfer") {
+    // addTransfer refuses these, so they are skipped like on the cron route.
+    if (rule.fromAccountId && rule.fromAccountId === rule.toAccountId) {
+      return;
+    }
+    const accountSnaps = await Promise.all(
+      [rule.fromAccountId, rule.toAccountId]
+        .filter((accountId): accountId is string => Boolean(accountId))
+        .map((accountId) => getDoc(doc(accountsCol(householdId), accountId)))
+    );
+    if (accountSnaps.some((snap) => !snap.exists())) {
+      return;
     }
+    for (const occurrence of occurrences) {
+      await addTransfer({
+        householdId,
+        transferId: buildGeneratedTransactionId(ruleDoc.id, occurrence.dateKey),
+        fromAccountId: rule.fromAccountId,
+        toAccountId: rule.toAccountId,
+        amount: occurrence.amount ?? rule.amount,
+        date: occurrence.date,
+        memo: buildRecurringTransactionNote(
+          rule.note,
+          occurrence.date,
+          Boolean(rule.prependMonthToNote)
+        ),
+        generatedFromRecurringRuleId: ruleDoc.id,
+        recurringOccurrenceDateKey: occurrence.dateKey,
+        createdBy: rule.createdBy,
+      });
+    }
+    if (shouldAdvance) {
+      await updateDoc(ruleDoc.ref, {
+        lastGeneratedDateKey,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    return;
+  }
 
-    const batch = writeBatch(db);
-    pendingDates.forEach((date) => {
-      const dateKey = toDateKey(date);
+  const occurrenceRefs = occurrences.map((occurrence) =>
+    doc(
+      transactionsCol(householdId),
+      buildGeneratedTransactionId(ruleDoc.id, occurrence.dateKey)
+    )
+  );
+  // Another client or the cron route may generate the same occurrences at the
+  // same time. Reading them inside the transaction means only the writer that
+  // really creates a record moves the month totals.
+  await runTransaction(db, async (tx) => {
+    const existingSnaps: DocumentSnapshot[] = [];
+    for (const occurrenceRef of occurrenceRefs) {
+      existingSnaps.push(await tx.get(occurrenceRef));
+    }
+    const delta = createMonthlyAggregateDelta();
+    occurrences.forEach((occurrence, index) => {
+      if (existingSnaps[index].exists()) {
+        return;
+      }
+      const note = buildRecurringTransactionNote(
+        rule.note,
+        occurrence.date,
+        Boolean(rule.prependMonthToNote)
+      );
       const payload = {
         ...stripUndefinedValues({
           type: rule.type,
-          amount: rule.amount,
+          amount: occurrence.amount ?? rule.amount,
           categoryId: rule.categoryId,
           paymentMethod: rule.paymentMethod,
           paymentMethodId: rule.paymentMethodId,
           subject: rule.subject,
-          note: buildRecurringTransactionNote(
-            rule.note,
-            date,
-            Boolean(rule.prependMonthToNote)
-          ),
+          note,
           budgetApplied: rule.budgetApplied ?? false,
           discountAmount: rule.discountAmount,
+          tags: rule.tags?.length ? rule.tags : undefined,
           createdBy: rule.createdBy,
           generatedFromRecurringRuleId: ruleDoc.id,
-          recurringOccurrenceDateKey: dateKey,
+          recurringOccurrenceDateKey: occurrence.dateKey,
         }),
-        date: Timestamp.fromDate(date),
-        monthKey: toMonthKey(date),
+        date: Timestamp.fromDate(occurrence.date),
+        monthKey: toMonthKey(occurrence.date),
+        searchTokens: buildTransactionSearchTokens({ ...rule, note }),
         createdAt: serverTimestamp(),
       };
-      batch.set(
-        doc(
-          transactionsCol(householdId),
-          buildGeneratedTransactionId(ruleDoc.id, dateKey)
-        ),
-        payload
-      );
-    });
-    batch.update(ruleDoc.ref, {
-      lastGeneratedDateKey: toDateKey(pendingDates[pendingDates.length - 1]),
-      updatedAt: serverTimestamp(),
+      tx.set(occurrenceRefs[index], payload);
+      addTransactionChangeToAggregateDelta(delta, null, {
+        ...rule,
+        amount: payload.amount ?? rule.amount,
+        monthKey: payload.monthKey,
+      });
     });
-    await batch.commit();
+    applyMonthlyAggregateDelta(tx, householdId, delta);
+    if (shouldAdvance) {
+      tx.update(ruleDoc.ref, {
+        lastGeneratedDateKey,
+        updatedAt: serverTimestamp(),
+      });
+    }
+  });
+}
+
+export async function syncRecurringTransactionRules(
+  householdId: string,
+  now = new Date()
+) {
+  const snapshot = await getDocs(recurringTransactionRulesCol(householdId));
+  const failedRuleIds: string[] = [];
+
+  // One broken rule should not keep the later rules from generating.
+  for (const ruleDoc of snapshot.docs) {
+    try {
+      await syncRecurringTransactionRule(householdId, ruleDoc, now);
+    } catch {
+      failedRuleIds.push(ruleDoc.id);
+    }
   }
+
+  return { failedRuleIds };
 }
@@ -0,0 +1,208 @@
+import {
+  Timestamp,
+  deleteField,
+  doc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import { transactionsCol } from "@/lib/firebase/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import { applyMonthlyAggregateDelta } from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { toMonthKey } from "@/lib/time";
+import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type { Transaction } from "@/types/ledger";
+
+// Refund records add nothing to the month totals themselves; only the
+// original's refundedAmount moves them.
+function applyRefundedAmountChange(
+  writer: Parameters<typeof applyMonthlyAggregateDelta>[0],
+  householdId: string,
+  original: Transaction,
+  change: number
+) {
+  const delta = createMonthlyAggregateDelta();
+  addTransactionChangeToAggregateDelta(delta, original, {
+    ...original,
+    refundedAmount: (original.refundedAmount ?? 0) + change,
+  });
+  applyMonthlyAggregateDelta(writer, householdId, delta);
+}
+
+type RefundableTransaction = Pick<
+  Transaction,
+  "type" | "amount" | "discountAmount" | "refundedAmount" | "refundOf"
+>;
+
+export function getRefundStatus(tx: RefundableTransaction) {
+  if (tx.type !== "expense" || tx.refundOf || !tx.refundedAmount) {
+    return null;
+  }
+  return getEffectiveExpenseAmount(tx) > 0 ? "partial" : "full";
+}
+
+// A refund keeps the original's category, subject and payment method and
+// only records its own amount and date. The original carries the running
+// total so stats net it in the original's month and category.
+export async function addRefundTransaction(params: {
+  householdId: string;
+  originalId: string;
+  amount: number;
+  date: Date;
+  note?: string;
+  createdBy: string;
+}) {
+  const { householdId, originalId, amount, date, note, createdBy } = params;
+  const originalRef = doc(transactionsCol(householdId), originalId);
+  const refundRef = doc(transactionsCol(householdId));
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(originalRef);
+    if (!snapshot.exists()) {
+      throw new Error("원래 내역을 찾을 수 없습니다.");
+    }
+    const original = snapshot.data() as Transaction;
+    if (original.type !== "expense" || original.refundOf) {
+      throw new Error("지출 내역만 환불할 수 있습니다.");
+    }
+    if (amount <= 0 || amount > getEffectiveExpenseAmount(original)) {
+      throw new Error("환불 금액이 남은 결제 금액보다 큽니다.");
+    }
+    transaction.set(refundRef, {
+      type: "expense",
+      amount,
+      categoryId: original.categoryId,
+      paymentMethod: original.paymentMethod,
+      ...(original.paymentMethodId ? { paymentMethodId: original.paymentMethodId } : {}),
+      subject: original.subject,
+      refundOf: originalId,
+      date: Timestamp.fromDate(date),
+      monthKey: toMonthKey(date),
+      ...(note ? { note } : {}),
+      searchTokens: buildTransactionSearchTokens({ ...original, splits: null, note }),
+      createdBy,
+      createdAt: serverTimestamp(),
+    });
+    transaction.update(originalRef, { refundedAmount: increment(amount) });
+    applyRefundedAmountChange(transaction, householdId, original, amount);
+  });
+  return refundRef.id;
+}
+
+export async function updateRefundTransaction(params: {
+  householdId: string;
+  refundId: string;
+  amount: number;
+  date: Date;
+  note?: string;
+  updatedBy: string;
+  updatedByName?: string | null;
+}) {
+  const { householdId, refundId, amount, date, note, updatedBy, updatedByName } = params;
+  const refundRef = doc(transactionsCol(householdId), refundId);
+  await runTransaction(db, async (transaction) => {
+    const refundSnap = await transaction.get(refundRef);
+    if (!refundSnap.exists()) {
+      throw new Error("환불 내역을 찾을 수 없습니다.");
+    }
+    const refund = refundSnap.data() as Transaction;
+    const delta = amount - refund.amount;
+    if (refund.refundOf && delta !== 0) {
+      const originalRef = doc(transactionsCol(householdId), refund.refundOf);
+      const originalSnap = await transaction.get(originalRef);
+      if (originalSnap.exists()) {
+        const original = originalSnap.data() as Transaction;
+        if (amount <= 0 || delta > getEffectiveExpenseAmount(original)) {
+          throw new Error("환불 금액이 남은 결제 금액보다 큽니다.");
+        }
+        transaction.update(originalRef, { refundedAmount: increment(delta) });
+        applyRefundedAmountChange(transaction, householdId, original, delta);
+      }
+    }
+    transaction.update(refundRef, {
+      amount,
+      date: Timestamp.fromDate(date),
+      monthKey: toMonthKey(date),
+      note: note || deleteField(),
+      searchTokens: buildTransactionSearchTokens({ ...refund, note }),
+    });
+    const changes = diffTransactionFields(refund, {
+      amount,
+      date: Timestamp.fromDate(date),
+      note: note || null,
+    });
+    if (changes.length > 0) {
+      transaction.set(
+        transactionChangeLogRef(householdId),
+        buildTransactionChangeLog({
+          transactionId: refundId,
+          summary: `환불 · ${describeTransactionForLog({ amount, note })}`,
+          changedBy: updatedBy,
+          changedByName: updatedByName,
+          changes,
+        })
+      );
+    }
+  });
+}
+
+export async function deleteRefundTransaction(
+  householdId: string,
+  refundId: string,
+  deletedBy: string
+) {
+  const refundRef = doc(transactionsCol(householdId), refundId);
+  await runTransaction(db, async (transaction) => {
+    const refundSnap = await transaction.get(refundRef);
+    if (!refundSnap.exists()) {
+      return;
+    }
+    const refund = refundSnap.data() as Transaction;
+    if (refund.refundOf) {
+      const originalRef = doc(transactionsCol(householdId), refund.refundOf);
+      const originalSnap = await transaction.get(originalRef);
+      if (originalSnap.exists()) {
+        transaction.update(originalRef, { refundedAmount: increment(-refund.amount) });
+        applyRefundedAmountChange(
+          transaction,
+          householdId,
+          originalSnap.data() as Transaction,
+          -refund.amount
+        );
+      }
+    }
+    transaction.set(
+      trashItemRef(householdId, "transaction", refundId),
+      buildTrashItem({
+        kind: "transaction",
+        itemId: refundId,
+        data: refundSnap.data(),
+        deletedBy,
+      })
+    );
+    transaction.delete(refundRef);
+  });
+}
+
+export async function listRefundTransactions(householdId: string, originalId: string) {
+  const snapshot = await getDocs(
+    query(transactionsCol(householdId), where("refundOf", "==", originalId))
+  );
+  return snapshot.docs
+    .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as Transaction) }))
+    .sort((a, b) => a.date.toMillis() - b.date.toMillis());
+}
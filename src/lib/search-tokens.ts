@@ -0,0 +1,74 @@
+import type { TransactionSplit } from "@/types/ledger";
+
+export const MAX_SEARCH_TOKENS = 300;
+
+const CATEGORY_TOKEN_PREFIX = "cat:";
+
+export type SearchTokenSource = {
+  categoryId?: string | null;
+  subject?: string | null;
+  paymentMethod?: string | null;
+  note?: string | null;
+  splits?: TransactionSplit[] | null;
+};
+
+export function normalizeSearchText(value: string) {
+  return value.normalize("NFC").toLowerCase();
+}
+
+export function splitSearchWords(value: string) {
+  return normalizeSearchText(value)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// Older shortcut entries start their note with "입력자:name", which is not
+// something anyone searches for.
+export function getSearchableNote(note?: string | null) {
+  return (note ?? "").replace(/^입력자:\S+\s*/u, "");
+}
+
+export function toCategorySearchToken(categoryId: string) {
+  return `${CATEGORY_TOKEN_PREFIX}${categoryId}`;
+}
+
+// Korean notes rarely have reliable word breaks ("스타벅스커피"), so each word
+// is indexed by its characters and character pairs. Any query word then shares
+// its first pair (or its only character) with every record containing it.
+export function buildWordSearchTokens(word: string) {
+  const chars = Array.from(word);
+  const tokens = new Set(chars);
+  for (let index = 0; index < chars.length - 1; index += 1) {
+    tokens.add(`${chars[index]}${chars[index + 1]}`);
+  }
+  return tokens;
+}
+
+export function getSearchQueryToken(word: string) {
+  const chars = Array.from(normalizeSearchText(word));
+  return chars.length > 1 ? `${chars[0]}${chars[1]}` : (chars[0] ?? "");
+}
+
+// Category names are looked up at query time and matched through the category
+// id, so renaming a category does not have to rewrite every record.
+export function buildTransactionSearchTokens(source: SearchTokenSource) {
+  const tokens = new Set<string>();
+  [source.categoryId, ...(source.splits ?? []).map((split) => split.categoryId)].forEach(
+    (categoryId) => {
+      if (categoryId) {
+        tokens.add(toCategorySearchToken(categoryId));
+      }
+    }
+  );
+  [
+    source.subject,
+    source.paymentMethod,
+    getSearchableNote(source.note),
+    ...(source.splits ?? []).flatMap((split) => [split.subject, split.note]),
+  ].forEach((text) => {
+    splitSearchWords(text ?? "").forEach((word) => {
+      buildWordSearchTokens(word).forEach((token) => tokens.add(token));
+    });
+  });
+  return Array.from(tokens).slice(0, MAX_SEARCH_TOKENS);
+}
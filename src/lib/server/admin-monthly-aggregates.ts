@@ -0,0 +1,30 @@
+import "server-only";
+
+import {
+  FieldValue,
+  type DocumentReference,
+  type Transaction,
+} from "firebase-admin/firestore";
+import {
+  buildMonthlyAggregatePatches,
+  type MonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+
+// Same increments as applyMonthlyAggregateDelta, written inside the server
+// transaction that creates the records.
+export function applyAdminMonthlyAggregateDelta(params: {
+  tx: Transaction;
+  householdRef: DocumentReference;
+  delta: MonthlyAggregateDelta;
+}) {
+  const { tx, householdRef, delta } = params;
+  buildMonthlyAggregatePatches(delta, (value) => FieldValue.increment(value)).forEach(
+    ({ monthKey, data }) => {
+      tx.set(
+        householdRef.collection("monthlyAggregates").doc(monthKey),
+        { ...data, monthKey, updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+    }
+  );
+}
@@ -0,0 +1,31 @@
+import "server-only";
+
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import type { NotificationLevel } from "@/lib/notifications";
+
+const NOTIFICATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Same document shape as addNotification so the bell and the expiry purge
+// treat server-written notifications like any other.
+export async function addAdminNotification(params: {
+  db: Firestore;
+  householdId: string;
+  title: string;
+  message: string;
+  level?: NotificationLevel;
+  type?: string;
+}) {
+  const { db, householdId, title, message, level, type } = params;
+  return db
+    .collection("households")
+    .doc(householdId)
+    .collection("notifications")
+    .add({
+      title,
+      message,
+      level: level ?? "info",
+      type: type ?? "general",
+      createdAt: FieldValue.serverTimestamp(),
+      expiresAt: new Date(Date.now() + NOTIFICATION_TTL_MS),
+    });
+}
@@ -0,0 +1,303 @@
+import "server-only";
+
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import {
+  FieldValue,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type Firestore,
+  type Timestamp,
+  type Transaction,
+} from "firebase-admin/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import {
+  buildGeneratedTransactionId,
+  buildPendingOccurrences,
+  buildRecurringTransactionNote,
+  toRecurringSchedule,
+} from "@/lib/recurring-schedule";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { applyAdminMonthlyAggregateDelta } from "@/lib/server/admin-monthly-aggregates";
+import { SEOUL_TZ, toMonthKey } from "@/lib/time";
+import type { RecurringTransactionRule } from "@/types/ledger";
+
+type AdminRecurringRuleData = Omit<
+  RecurringTransactionRule,
+  "startDate" | "endDate" | "createdAt" | "updatedAt"
+> & {
+  startDate: Timestamp;
+  endDate?: Timestamp;
+};
+
+export type RecurringGenerationResult = {
+  scannedRules: number;
+  touchedRules: number;
+  inserted: number;
+  skipped: number;
+  failedRuleIds: string[];
+};
+
+function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function toSeoulLocalDate(date: Date) {
+  return toZonedTime(date, SEOUL_TZ);
+}
+
+function applyTransferOccurrences(params: {
+  tx: Transaction;
+  householdRef: DocumentReference;
+  ruleId: string;
+  rule: AdminRecurringRuleData;
+  occurrences: {
+    date: Date;
+    dateKey: string;
+    amount: number;
+    ref: DocumentReference;
+  }[];
+  existingSnaps: DocumentSnapshot[];
+  accountSnaps: DocumentSnapshot[];
+}) {
+  const { tx, householdRef, ruleId, rule, occurrences, existingSnaps, accountSnaps } =
+    params;
+  const fromAccountId = rule.fromAccountId ?? null;
+  const toAccountId = rule.toAccountId ?? null;
+
+  let inserted = 0;
+  let skipped = 0;
+  let movedAmount = 0;
+  occurrences.forEach((occurrence, index) => {
+    if (existingSnaps[index]?.exists) {
+      skipped += 1;
+      return;
+    }
+    tx.create(occurrence.ref, {
+      fromAccountId,
+      toAccountId,
+      accountIds: [fromAccountId, toAccountId].filter(Boolean),
+      amount: occurrence.amount,
+      date: occurrence.date,
+      monthKey: toMonthKey(occurrence.date),
+      memo:
+        buildRecurringTransactionNote(
+          rule.note,
+          occurrence.date,
+          Boolean(rule.prependMonthToNote)
+        ) ?? "",
+      generatedFromRecurringRuleId: ruleId,
+      recurringOccurrenceDateKey: occurrence.dateKey,
+      createdBy: rule.createdBy,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    inserted += 1;
+    movedAmount += occurrence.amount;
+  });
+
+  if (movedAmount !== 0) {
+    accountSnaps.forEach((snap) => {
+      const balance = (snap.get("balance") as number | undefined) ?? 0;
+      const delta = snap.id === fromAccountId ? -movedAmount : movedAmount;
+      tx.update(householdRef.collection("accounts").doc(snap.id), {
+        balance: balance + delta,
+      });
+    });
+  }
+
+  return { inserted, skipped };
+}
+
+export async function listHouseholdIds(db: Firestore) {
+  const refs = await db.collection("households").listDocuments();
+  return refs.map((ref) => ref.id);
+}
+
+async function generateRuleOccurrences(params: {
+  db: Firestore;
+  householdId: string;
+  ruleId: string;
+  now: Date;
+}) {
+  const { db, householdId, ruleId, now } = params;
+  const householdRef = db.collection("households").doc(householdId);
+  const ruleRef = householdRef.collection("recurringTransactionRules").doc(ruleId);
+
+  return db.runTransaction(async (tx) => {
+    const ruleSnap = await tx.get(ruleRef);
+    if (!ruleSnap.exists) {
+      return { inserted: 0, skipped: 0 };
+    }
+    const rule = ruleSnap.data() as AdminRecurringRuleData;
+    const pending = buildPendingOccurrences(
+      toRecurringSchedule(rule, toSeoulLocalDate),
+      toSeoulLocalDate(now)
+    );
+    const shouldAdvance =
+      pending.lastGeneratedDateKey !== null &&
+      pending.lastGeneratedDateKey !== (rule.lastGeneratedDateKey ?? null);
+    if (pending.occurrences.length === 0) {
+      if (shouldAdvance) {
+        tx.update(ruleRef, {
+          lastGeneratedDateKey: pending.lastGeneratedDateKey,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      return { inserted: 0, skipped: 0 };
+    }
+
+    const isTransferRule = rule.target === "transfer";
+    const occurrences = pending.occurrences.map((occurrence) => ({
+      date: fromZonedTime(occurrence.date, SEOUL_TZ),
+      dateKey: occurrence.dateKey,
+      amount: occurrence.amount ?? rule.amount,
+      ref: householdRef
+        .collection(isTransferRule ? "transfers" : "transactions")
+        .doc(buildGeneratedTransactionId(ruleId, occurrence.dateKey)),
+    }));
+    const existingSnaps = await tx.getAll(
+      ...occurrences.map((occurrence) => occurrence.ref)
+    );
+
+    if (isTransferRule) {
+      // Same guard as addTransfer: a transfer to itself would still be recorded
+      // while the two balance writes on one account leave it off by the amount.
+      if (rule.fromAccountId && rule.fromAccountId === rule.toAccountId) {
+        return { inserted: 0, skipped: 0 };
+      }
+      const accountRefs = [rule.fromAccountId, rule.toAccountId]
+        .filter((accountId): accountId is string => Boolean(accountId))
+        .map((accountId) => householdRef.collection("accounts").doc(accountId));
+      if (accountRefs.length === 0) {
+        return { inserted: 0, skipped: 0 };
+      }
+      const accountSnaps = await tx.getAll(...accountRefs);
+      // A rule whose account was deleted cannot move a balance; leave it for the
+      // user to fix instead of failing the rest of the household's rules.
+      if (accountSnaps.some((snap) => !snap.exists)) {
+        return { inserted: 0, skipped: 0 };
+      }
+      const transferResult = applyTransferOccurrences({
+        tx,
+        householdRef,
+        ruleId,
+        rule,
+        occurrences,
+        existingSnaps,
+        accountSnaps,
+      });
+      if (shouldAdvance) {
+        tx.update(ruleRef, {
+          lastGeneratedDateKey: pending.lastGeneratedDateKey,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      return transferResult;
+    }
+
+    let inserted = 0;
+    let skipped = 0;
+    const delta = createMonthlyAggregateDelta();
+    occurrences.forEach((occurrence, index) => {
+      if (existingSnaps[index]?.exists) {
+        skipped += 1;
+        return;
+      }
+      const note = buildRecurringTransactionNote(
+        rule.note,
+        occurrence.date,
+        Boolean(rule.prependMonthToNote)
+      );
+      tx.create(occurrence.ref, {
+        ...stripUndefinedValues({
+          type: rule.type,
+          amount: occurrence.amount,
+          categoryId: rule.categoryId,
+          paymentMethod: rule.paymentMethod,
+          paymentMethodId: rule.paymentMethodId,
+          subject: rule.subject,
+          note,
+          budgetApplied: rule.budgetApplied ?? false,
+          discountAmount: rule.discountAmount,
+          tags: rule.tags?.length ? rule.tags : undefined,
+          createdBy: rule.createdBy,
+          generatedFromRecurringRuleId: ruleId,
+          recurringOccurrenceDateKey: occurrence.dateKey,
+        }),
+        date: occurrence.date,
+        monthKey: toMonthKey(occurrence.date),
+        searchTokens: buildTransactionSearchTokens({ ...rule, note }),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      addTransactionChangeToAggregateDelta(delta, null, {
+        ...rule,
+        amount: occurrence.amount,
+        note,
+        monthKey: toMonthKey(occurrence.date),
+      });
+      inserted += 1;
+    });
+    applyAdminMonthlyAggregateDelta({ tx, householdRef, delta });
+
+    if (shouldAdvance) {
+      tx.update(ruleRef, {
+        lastGeneratedDateKey: pending.lastGeneratedDateKey,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return { inserted, skipped };
+  });
+}
+
+export async function generateRecurringTransactionsForHousehold(params: {
+  db: Firestore;
+  householdId: string;
+  now?: Date;
+}) {
+  const { db, householdId, now = new Date() } = params;
+  const snapshot = await db
+    .collection("households")
+    .doc(householdId)
+    .collection("recurringTransactionRules")
+    .get();
+
+  const result: RecurringGenerationResult = {
+    scannedRules: snapshot.size,
+    touchedRules: 0,
+    inserted: 0,
+    skipped: 0,
+    failedRuleIds: [],
+  };
+
+  // One broken rule should not keep the later rules from generating.
+  for (const ruleDoc of snapshot.docs) {
+    let ruleResult: { inserted: number; skipped: number };
+    try {
+      ruleResult = await generateRuleOccurrences({
+        db,
+        householdId,
+        ruleId: ruleDoc.id,
+        now,
+      });
+    } catch (error) {
+      console.error(
+        `[recurring-transactions] generation failed for rule ${ruleDoc.id}`,
+        error
+      );
+      result.failedRuleIds.push(ruleDoc.id);
+      continue;
+    }
+    if (ruleResult.inserted > 0 || ruleResult.skipped > 0) {
+      result.touchedRules += 1;
+    }
+    result.inserted += ruleResult.inserted;
+    result.skipped += ruleResult.skipped;
+  }
+
+  return result;
+}
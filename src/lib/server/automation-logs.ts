@@ -7,8 +7,8 @@ import {
 } from "firebase-admin/firestore";
 
 type AutomationLogPayload = {
-  source: "ruliweb-market-flyers";
-  action: "collect" | "cleanup";
+  source: "ruliweb-market-flyers" | "recurring-transactions";
+  action: "collect" | "cleanup" | "generate";
   status: "success" | "noop" | "error";
   summary: string;
   details?: {
@@ -19,6 +19,9 @@ type AutomationLogPayload = {
     scannedDocuments?: number;
     touchedDocuments?: number;
     removedEntries?: number;
+    scannedRules?: number;
+    touchedRules?: number;
+    failedRuleIds?: string[];
     monthKey?: string | null;
     titles?: string[];
     error?: string | null;
@@ -0,0 +1,338 @@
+import "server-only";
+
+import { createHash } from "crypto";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import {
+  findPaymentMethodForCardMessage,
+  parseCardMessage,
+} from "@/lib/card-message-parser";
+import {
+  applyCategorizationRules,
+  type CategorizationRuleWithId,
+} from "@/lib/categorization-rule-matching";
+import { formatKrw } from "@/lib/format";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { applyAdminMonthlyAggregateDelta } from "@/lib/server/admin-monthly-aggregates";
+import { addAdminNotification } from "@/lib/server/admin-notifications";
+import { SEOUL_TZ, toMonthKey } from "@/lib/time";
+import type {
+  ApiToken,
+  CategorizationRule,
+  Category,
+  PaymentMethod,
+  Subject,
+  TransactionType,
+  UserProfile,
+} from "@/types/ledger";
+
+const FALLBACK_CATEGORY_NAME = "기타";
+const FALLBACK_SUBJECT_NAME = "우리";
+const IDEMPOTENCY_KEY_MAX_LENGTH = 200;
+
+export type ApiTokenAuth = {
+  tokenId: string;
+  uid: string;
+  householdId: string;
+};
+
+export type QuickAddInput = {
+  amount: number;
+  note: string;
+  date: Date;
+  paymentMethodName: string | null;
+  cardSuffix: string | null;
+  issuer: string | null;
+  message: string | null;
+};
+
+export type QuickAddResult = {
+  transactionId: string;
+  duplicate: boolean;
+  amount: number;
+  note: string;
+  categoryName: string;
+  subject: string;
+  paymentMethod: string;
+  ruleNames: string[];
+};
+
+function hashText(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+// Tokens are stored under the SHA-256 of their value, the same hash the
+// settings screen uses when it creates them.
+export async function authenticateApiToken(
+  db: Firestore,
+  token: string
+): Promise<ApiTokenAuth | null> {
+  if (!token) {
+    return null;
+  }
+  const tokenRef = db.collection("apiTokens").doc(hashText(token));
+  const tokenSnap = await tokenRef.get();
+  if (!tokenSnap.exists) {
+    return null;
+  }
+  const data = tokenSnap.data() as ApiToken;
+  if (data.revokedAt) {
+    return null;
+  }
+  // A member who left the household keeps their token document, so the
+  // membership is checked on every call.
+  const memberSnap = await db
+    .collection("households")
+    .doc(data.householdId)
+    .collection("members")
+    .doc(data.uid)
+    .get();
+  if (!memberSnap.exists) {
+    return null;
+  }
+  await tokenRef.update({ lastUsedAt: FieldValue.serverTimestamp() });
+  return { tokenId: tokenSnap.id, uid: data.uid, householdId: data.householdId };
+}
+
+function readText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readAmount(value: unknown) {
+  const amount =
+    typeof value === "number" ? value : Number(readText(value).replace(/[,원\s]/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount) : null;
+}
+
+// Approval messages only carry the Seoul wall-clock time, so the parser runs
+// against Seoul local time and its result is converted back to an instant.
+export function resolveQuickAddInput(
+  body: Record<string, unknown>,
+  now = new Date()
+): { input: QuickAddInput } | { error: string } {
+  const message = readText(body.message);
+  if (message) {
+    const parsed = parseCardMessage(message, { now: toZonedTime(now, SEOUL_TZ) });
+    if (!parsed) {
+      return { error: "승인 문자를 읽지 못했습니다." };
+    }
+    if (parsed.status === "cancel") {
+      return { error: "취소 문자는 자동으로 기록하지 않습니다. 앱에서 환불로 기록해주세요." };
+    }
+    if (parsed.installmentMonths) {
+      return { error: "할부 결제는 앱에서 기록해주세요." };
+    }
+    return {
+      input: {
+        amount: parsed.amount,
+        note: parsed.merchant ?? "",
+        date: parsed.date ? fromZonedTime(parsed.date, SEOUL_TZ) : now,
+        paymentMethodName: null,
+        cardSuffix: parsed.cardSuffix,
+        issuer: parsed.issuer,
+        message,
+      },
+    };
+  }
+  const amount = readAmount(body.amount);
+  if (!amount) {
+    return { error: "금액을 확인해주세요." };
+  }
+  return {
+    input: {
+      amount,
+      note: readText(body.note),
+      date: now,
+      paymentMethodName: readText(body.paymentMethod) || null,
+      cardSuffix: null,
+      issuer: null,
+      message: null,
+    },
+  };
+}
+
+export function resolveIdempotencyKey(
+  headerValue: string | null,
+  body: Record<string, unknown>,
+  input: QuickAddInput
+) {
+  const key = (headerValue ?? "").trim() || readText(body.idempotencyKey);
+  if (key) {
+    return key.slice(0, IDEMPOTENCY_KEY_MAX_LENGTH);
+  }
+  // Shortcuts that retry a message without a key still land on the same
+  // document because the message text itself is unique per approval.
+  return input.message ? `message:${hashText(input.message)}` : null;
+}
+
+function resolvePaymentMethod(
+  methods: (PaymentMethod & { id: string })[],
+  input: QuickAddInput
+) {
+  if (input.issuer) {
+    return findPaymentMethodForCardMessage(methods, {
+      issuer: input.issuer,
+      status: "approval",
+      debit: false,
+      amount: input.amount,
+      merchant: input.note || null,
+      cardSuffix: input.cardSuffix,
+      date: input.date,
+      installmentMonths: null,
+    });
+  }
+  const name = (input.paymentMethodName ?? "").toLowerCase();
+  if (!name) {
+    return null;
+  }
+  return (
+    methods.find((method) => method.name.trim().toLowerCase() === name) ??
+    methods.find((method) => method.cardSuffix && method.cardSuffix === name) ??
+    null
+  );
+}
+
+export async function quickAddTransaction(params: {
+  db: Firestore;
+  auth: ApiTokenAuth;
+  input: QuickAddInput;
+  idempotencyKey: string | null;
+}): Promise<QuickAddResult> {
+  const { db, auth, input, idempotencyKey } = params;
+  const householdRef = db.collection("households").doc(auth.householdId);
+  const [categorySnap, subjectSnap, paymentMethodSnap, ruleSnap, profileSnap] =
+    await Promise.all([
+      householdRef.collection("categories").get(),
+      householdRef.collection("subjects").get(),
+      householdRef.collection("paymentMethods").get(),
+      householdRef.collection("categorizationRules").get(),
+      db.collection("users").doc(auth.uid).get(),
+    ]);
+  const categories = categorySnap.docs.map((snap) => ({
+    id: snap.id,
+    ...(snap.data() as Category),
+  }));
+  const subjects = subjectSnap.docs
+    .map((snap) => ({ id: snap.id, ...(snap.data() as Subject) }))
+    .sort((a, b) => a.order - b.order);
+  const paymentMethods = paymentMethodSnap.docs.map((snap) => ({
+    id: snap.id,
+    ...(snap.data() as PaymentMethod),
+  }));
+  const rules: CategorizationRuleWithId[] = ruleSnap.docs.map((snap) => ({
+    id: snap.id,
+    ...(snap.data() as CategorizationRule),
+  }));
+  const profile = profileSnap.exists ? (profileSnap.data() as UserProfile) : null;
+
+  const type: TransactionType = "expense";
+  const matchedMethod = resolvePaymentMethod(paymentMethods, input);
+  const ruleResult = applyCategorizationRules(
+    rules,
+    {
+      type,
+      amount: input.amount,
+      note: input.note,
+      paymentMethodId: matchedMethod?.id ?? null,
+      paymentMethodName: matchedMethod?.name ?? input.paymentMethodName ?? undefined,
+    },
+    new Map(categories.map((category) => [category.id, category.type]))
+  );
+
+  const expenseCategories = categories
+    .filter((category) => category.type === type)
+    .sort((a, b) => a.order - b.order);
+  const category =
+    categories.find((item) => item.id === ruleResult.categoryId) ??
+    expenseCategories.find((item) => item.name === FALLBACK_CATEGORY_NAME) ??
+    expenseCategories.find((item) => !item.parentId) ??
+    null;
+  if (!category) {
+    throw new Error("지출 카테고리가 없습니다.");
+  }
+  const displayName = profile?.displayName?.trim() ?? "";
+  const subject =
+    ruleResult.subject ??
+    subjects.find((item) => displayName && item.name === displayName)?.name ??
+    subjects[0]?.name ??
+    FALLBACK_SUBJECT_NAME;
+  const paymentMethod =
+    paymentMethods.find((method) => method.id === ruleResult.paymentMethodId) ??
+    matchedMethod;
+  const paymentMethodName = paymentMethod?.name ?? input.paymentMethodName ?? "";
+
+  const transactionsRef = householdRef.collection("transactions");
+  const transactionRef = idempotencyKey
+    ? transactionsRef.doc(`quick-${hashText(`${auth.uid}:${idempotencyKey}`).slice(0, 32)}`)
+    : transactionsRef.doc();
+  const created = await db.runTransaction(async (tx) => {
+    const existing = await tx.get(transactionRef);
+    if (existing.exists) {
+      return false;
+    }
+    const fields = {
+      type,
+      amount: input.amount,
+      categoryId: category.id,
+      paymentMethod: paymentMethodName,
+      paymentMethodId: paymentMethod?.id ?? null,
+      subject,
+      note: input.note || undefined,
+      budgetApplied: false,
+      createdBy: auth.uid,
+    };
+    const delta = createMonthlyAggregateDelta();
+    addTransactionChangeToAggregateDelta(delta, null, {
+      ...fields,
+      monthKey: toMonthKey(input.date),
+    });
+    tx.create(transactionRef, {
+      ...stripUndefinedValues(fields),
+      date: input.date,
+      monthKey: toMonthKey(input.date),
+      searchTokens: buildTransactionSearchTokens({
+        categoryId: category.id,
+        subject,
+        paymentMethod: paymentMethodName,
+        note: input.note,
+      }),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    applyAdminMonthlyAggregateDelta({ tx, householdRef, delta });
+    return true;
+  });
+
+  if (created) {
+    await addAdminNotification({
+      db,
+      householdId: auth.householdId,
+      title: "단축어로 지출 기록",
+      message: `${input.note || category.name} ${formatKrw(input.amount)}원을 ${
+        category.name
+      }(으)로 기록했습니다.`,
+      level: "success",
+      type: "transaction.quick-add",
+    });
+  }
+
+  return {
+    transactionId: transactionRef.id,
+    duplicate: !created,
+    amount: input.amount,
+    note: input.note,
+    categoryName: category.name,
+    subject,
+    paymentMethod: paymentMethodName,
+    ruleNames: ruleResult.ruleNames,
+  };
+}
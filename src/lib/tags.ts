@@ -0,0 +1,325 @@
+import {
+  addDoc,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import {
+  recurringTransactionRulesCol,
+  tagsCol,
+  transactionsCol,
+} from "@/lib/firebase/firestore";
+import { getEffectiveExpenseAmount } from "@/lib/transaction-amount";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { expandTransactionSplits } from "@/lib/transaction-splits";
+import type { Tag, Transaction } from "@/types/ledger";
+
+const BATCH_LIMIT = 500;
+
+export const MAX_TAG_NAME_LENGTH = 20;
+export const MAX_TAGS_PER_TRANSACTION = 10;
+
+export type TagReportEntry = {
+  key: string;
+  label: string;
+  amount: number;
+  count: number;
+};
+
+export type TagReport = {
+  tag: string;
+  transactionCount: number;
+  expenseTotal: number;
+  incomeTotal: number;
+  firstDate: Date | null;
+  lastDate: Date | null;
+  byCategory: TagReportEntry[];
+  bySubject: TagReportEntry[];
+  byPaymentMethod: TagReportEntry[];
+};
+
+// Tags are matched by exact name, so "#제주 여행" and "제주여행" must end up
+// as the same value before they are stored.
+export function normalizeTagName(value: string) {
+  return value
+    .trim()
+    .replace(/^#+/, "")
+    .replace(/\s+/g, "")
+    .slice(0, MAX_TAG_NAME_LENGTH);
+}
+
+export function normalizeTags(values: string[] | null | undefined) {
+  const seen = new Set<string>();
+  (values ?? []).forEach((value) => {
+    const name = normalizeTagName(value);
+    if (name) {
+      seen.add(name);
+    }
+  });
+  return Array.from(seen).slice(0, MAX_TAGS_PER_TRANSACTION);
+}
+
+export async function addTag(householdId: string, data: { name: string; order: number }) {
+  const name = normalizeTagName(data.name);
+  if (!name) {
+    throw new Error("태그 이름을 입력해주세요.");
+  }
+  return addDoc(tagsCol(householdId), {
+    name,
+    order: data.order,
+    createdAt: serverTimestamp(),
+  });
+}
+
+// Entry forms accept tags that were typed in on the spot; those are added to
+// the tag list so they show up in suggestions and filters afterwards.
+export async function ensureTags(
+  householdId: string,
+  names: string[],
+  existingTags: Tag[]
+) {
+  const known = new Set(existingTags.map((tag) => tag.name));
+  const missing = normalizeTags(names).filter((name) => !known.has(name));
+  const nextOrder =
+    existingTags.reduce((max, tag) => Math.max(max, tag.order), 0) + 1;
+  await Promise.all(
+    missing.map((name, index) => addTag(householdId, { name, order: nextOrder + index }))
+  );
+}
+
+type TagRewriteActor = {
+  updatedBy: string;
+  updatedByName?: string | null;
+};
+
+// A transaction's change log goes into the same batch as its tags, so each
+// chunk holds half as many documents.
+async function rewriteTaggedDocs(params: {
+  householdId: string;
+  docs: QueryDocumentSnapshot[];
+  rewrite: (tags: string[]) => string[];
+  actor: TagRewriteActor;
+}) {
+  const { householdId, docs, rewrite, actor } = params;
+  const chunkSize = Math.floor(BATCH_LIMIT / 2);
+  let index = 0;
+  while (index < docs.length) {
+    const batch = writeBatch(db);
+    const slice = docs.slice(index, index + chunkSize);
+    slice.forEach((docSnap) => {
+      const current = (docSnap.data().tags as string[] | undefined) ?? [];
+      const next = Array.from(new Set(rewrite(current)));
+      batch.update(docSnap.ref, { tags: next.length > 0 ? next : deleteField() });
+      if (docSnap.ref.parent.id !== "transactions") {
+        return;
+      }
+      const changes = diffTransactionFields(docSnap.data() as Transaction, {
+        tags: next.length > 0 ? next : null,
+      });
+      if (changes.length > 0) {
+        batch.set(
+          transactionChangeLogRef(householdId),
+          buildTransactionChangeLog({
+            transactionId: docSnap.id,
+            summary: describeTransactionForLog(docSnap.data() as Transaction),
+            changedBy: actor.updatedBy,
+            changedByName: actor.updatedByName,
+            changes,
+          })
+        );
+      }
+    });
+    await batch.commit();
+    index += slice.length;
+  }
+}
+
+async function rewriteTagUsages(
+  householdId: string,
+  name: string,
+  rewrite: (tags: string[]) => string[],
+  actor: TagRewriteActor
+) {
+  const [transactionSnap, ruleSnap] = await Promise.all([
+    getDocs(query(transactionsCol(householdId), where("tags", "array-contains", name))),
+    getDocs(
+      query(recurringTransactionRulesCol(householdId), where("tags", "array-contains", name))
+    ),
+  ]);
+  await rewriteTaggedDocs({
+    householdId,
+    docs: [...transactionSnap.docs, ...ruleSnap.docs],
+    rewrite,
+    actor,
+  });
+  return transactionSnap.size;
+}
+
+export async function renameTag(params: {
+  householdId: string;
+  tagId: string;
+  oldName: string;
+  newName: string;
+  existingTags: (Tag & { id: string })[];
+  updatedBy: string;
+  updatedByName?: string | null;
+}) {
+  const { householdId, tagId, oldName, newName, existingTags, updatedBy, updatedByName } =
+    params;
+  const name = normalizeTagName(newName);
+  if (!name) {
+    throw new Error("태그 이름을 입력해주세요.");
+  }
+  if (name === oldName) {
+    return 0;
+  }
+  // Renaming onto an existing tag merges the two, so the old document goes
+  // away instead of leaving two tags with the same name.
+  const target = existingTags.find((tag) => tag.id !== tagId && tag.name === name);
+  if (target) {
+    await deleteDoc(doc(tagsCol(householdId), tagId));
+  } else {
+    await updateDoc(doc(tagsCol(householdId), tagId), { name });
+  }
+  return rewriteTagUsages(
+    householdId,
+    oldName,
+    (tags) => tags.map((tag) => (tag === oldName ? name : tag)),
+    { updatedBy, updatedByName }
+  );
+}
+
+export async function deleteTag(params: {
+  householdId: string;
+  tagId: string;
+  name: string;
+  updatedBy: string;
+  updatedByName?: string | null;
+}) {
+  const { householdId, tagId, name, updatedBy, updatedByName } = params;
+  const count = await rewriteTagUsages(
+    householdId,
+    name,
+    (tags) => tags.filter((tag) => tag !== name),
+    { updatedBy, updatedByName }
+  );
+  await deleteDoc(doc(tagsCol(householdId), tagId));
+  return count;
+}
+
+export async function updateTagOrder(householdId: string, tagIds: string[]) {
+  const batch = writeBatch(db);
+  tagIds.forEach((tagId, index) => {
+    batch.update(doc(tagsCol(householdId), tagId), { order: index + 1 });
+  });
+  await batch.commit();
+}
+
+export async function listTransactionsByTag(householdId: string, name: string) {
+  const snapshot = await getDocs(
+    query(transactionsCol(householdId), where("tags", "array-contains", name))
+  );
+  return snapshot.docs.map((docSnap) => ({
+    id: docSnap.id,
+    ...(docSnap.data() as Transaction),
+  }));
+}
+
+function toSortedEntries(map: Map<string, TagReportEntry>) {
+  return Array.from(map.values()).sort((a, b) => b.amount - a.amount);
+}
+
+function addToEntry(
+  map: Map<string, TagReportEntry>,
+  key: string,
+  label: string,
+  amount: number
+) {
+  const entry = map.get(key) ?? { key, label, amount: 0, count: 0 };
+  entry.amount += amount;
+  entry.count += 1;
+  map.set(key, entry);
+}
+
+// Split lines are expanded so a trip dinner shared between categories lands
+// in each of them, and refunds are netted like everywhere else in stats.
+export function buildTagReport(
+  tag: string,
+  transactions: Transaction[],
+  options: {
+    categoryNameById: Map<string, string>;
+    paymentMethodNameById: Map<string, string>;
+  }
+): TagReport {
+  const byCategory = new Map<string, TagReportEntry>();
+  const bySubject = new Map<string, TagReportEntry>();
+  const byPaymentMethod = new Map<string, TagReportEntry>();
+  let expenseTotal = 0;
+  let incomeTotal = 0;
+  let firstDate: Date | null = null;
+  let lastDate: Date | null = null;
+
+  transactions.forEach((tx) => {
+    const date = tx.date?.toDate?.();
+    if (date) {
+      if (!firstDate || date < firstDate) {
+        firstDate = date;
+      }
+      if (!lastDate || date > lastDate) {
+        lastDate = date;
+      }
+    }
+    if (tx.type === "income") {
+      incomeTotal += tx.amount;
+      return;
+    }
+    if (tx.type !== "expense") {
+      return;
+    }
+    const paymentKey = tx.paymentMethodId || tx.paymentMethod || "";
+    const paymentLabel =
+      (tx.paymentMethodId && options.paymentMethodNameById.get(tx.paymentMethodId)) ||
+      tx.paymentMethod ||
+      "미지정";
+    expandTransactionSplits(tx).forEach((line) => {
+      const amount = getEffectiveExpenseAmount(line);
+      if (amount <= 0) {
+        return;
+      }
+      expenseTotal += amount;
+      addToEntry(
+        byCategory,
+        line.categoryId,
+        options.categoryNameById.get(line.categoryId) ?? "미분류",
+        amount
+      );
+      addToEntry(bySubject, line.subject || "", line.subject || "미지정", amount);
+      addToEntry(byPaymentMethod, paymentKey, paymentLabel, amount);
+    });
+  });
+
+  return {
+    tag,
+    transactionCount: transactions.length,
+    expenseTotal,
+    incomeTotal,
+    firstDate,
+    lastDate,
+    byCategory: toSortedEntries(byCategory),
+    bySubject: toSortedEntries(bySubject),
+    byPaymentMethod: toSortedEntries(byPaymentMethod),
+  };
+}
@@ -4,6 +4,8 @@ type TransactionAmountLike = {
   type: TransactionType;
   amount: number;
   discountAmount?: number;
+  refundedAmount?: number;
+  refundOf?: string | null;
 };
 
 function toSafePositiveInt(value: unknown) {
@@ -26,11 +28,23 @@ export function getExpenseDiscountAmount(tx: TransactionAmountLike) {
   return Math.min(discount, amount);
 }
 
+// Refunds are netted on the original expense, so a refund record itself
+// never counts as spending.
+export function getRefundedAmount(tx: TransactionAmountLike) {
+  if (tx.type !== "expense" || tx.refundOf) {
+    return 0;
+  }
+  const amount = toSafePositiveInt(tx.amount);
+  const discount = getExpenseDiscountAmount(tx);
+  return Math.min(toSafePositiveInt(tx.refundedAmount), amount - discount);
+}
+
 export function getEffectiveExpenseAmount(tx: TransactionAmountLike) {
-  if (tx.type !== "expense") {
+  if (tx.type !== "expense" || tx.refundOf) {
     return 0;
   }
   const amount = toSafePositiveInt(tx.amount);
   const discount = getExpenseDiscountAmount(tx);
-  return Math.max(0, amount - discount);
+  const refunded = getRefundedAmount(tx);
+  return Math.max(0, amount - discount - refunded);
 }
@@ -0,0 +1,233 @@
+import { arrayRemove, arrayUnion, doc, updateDoc } from "firebase/firestore";
+import {
+  deleteObject,
+  getDownloadURL,
+  listAll,
+  ref,
+  uploadBytes,
+  type StorageReference,
+} from "firebase/storage";
+import { storage } from "@/lib/firebase/client";
+import { transactionsCol } from "@/lib/firebase/firestore";
+import type { TransactionAttachment, TransactionAttachmentKind } from "@/types/ledger";
+
+export const MAX_TRANSACTION_ATTACHMENTS = 10;
+
+const IMAGE_MAX_DIMENSION = 1600;
+const THUMBNAIL_MAX_DIMENSION = 320;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+const OUTPUT_CONTENT_TYPE = "image/jpeg";
+
+export const attachmentKindLabelMap: Record<TransactionAttachmentKind, string> = {
+  receipt: "영수증",
+  warranty: "보증서",
+};
+
+const attachmentUrlCache = new Map<string, Promise<string>>();
+
+function createAttachmentId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function buildAttachmentPath(
+  householdId: string,
+  transactionId: string,
+  attachmentId: string,
+  variant: "image" | "thumb"
+) {
+  return `households/${householdId}/transactions/${transactionId}/${attachmentId}${
+    variant === "thumb" ? "_thumb" : ""
+  }.jpg`;
+}
+
+// createImageBitmap honours EXIF orientation, so portrait phone photos are
+// not stored sideways once the metadata is dropped by the canvas.
+async function decodeImage(file: File) {
+  if (typeof createImageBitmap === "function") {
+    return createImageBitmap(file, { imageOrientation: "from-image" });
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function renderJpeg(
+  source: ImageBitmap | HTMLImageElement,
+  maxDimension: number,
+  quality: number
+) {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("사진을 처리하지 못했습니다.");
+  }
+  // Transparent PNG screenshots would turn black as JPEG.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  return new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve({ blob, width, height });
+        } else {
+          reject(new Error("사진을 처리하지 못했습니다."));
+        }
+      },
+      OUTPUT_CONTENT_TYPE,
+      quality
+    );
+  });
+}
+
+export async function compressAttachmentImage(file: File) {
+  if (!file.type.startsWith("image/")) {
+    throw new Error("사진 파일만 첨부할 수 있습니다.");
+  }
+  const source = await decodeImage(file);
+  try {
+    const image = await renderJpeg(source, IMAGE_MAX_DIMENSION, IMAGE_QUALITY);
+    const thumbnail = await renderJpeg(source, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+    return { image, thumbnail };
+  } finally {
+    if ("close" in source) {
+      source.close();
+    }
+  }
+}
+
+export async function uploadTransactionAttachments(params: {
+  householdId: string;
+  transactionId: string;
+  files: File[];
+  kind: TransactionAttachmentKind;
+  existingCount?: number;
+  uploadedBy: string;
+  onProgress?: (uploaded: number) => void;
+}) {
+  const {
+    householdId,
+    transactionId,
+    files,
+    kind,
+    existingCount = 0,
+    uploadedBy,
+    onProgress,
+  } = params;
+  if (existingCount + files.length > MAX_TRANSACTION_ATTACHMENTS) {
+    throw new Error(
+      `사진은 내역당 최대 ${MAX_TRANSACTION_ATTACHMENTS}장까지 첨부할 수 있습니다.`
+    );
+  }
+  const attachments: TransactionAttachment[] = [];
+  try {
+    for (const file of files) {
+      const { image, thumbnail } = await compressAttachmentImage(file);
+      const attachmentId = createAttachmentId();
+      const path = buildAttachmentPath(householdId, transactionId, attachmentId, "image");
+      const thumbnailPath = buildAttachmentPath(
+        householdId,
+        transactionId,
+        attachmentId,
+        "thumb"
+      );
+      const metadata = { contentType: OUTPUT_CONTENT_TYPE };
+      await uploadBytes(ref(storage, path), image.blob, metadata);
+      await uploadBytes(ref(storage, thumbnailPath), thumbnail.blob, metadata);
+      attachments.push({
+        id: attachmentId,
+        kind,
+        name: file.name || `${attachmentId}.jpg`,
+        path,
+        thumbnailPath,
+        contentType: OUTPUT_CONTENT_TYPE,
+        size: image.blob.size,
+        width: image.width,
+        height: image.height,
+        uploadedBy,
+      });
+      onProgress?.(attachments.length);
+    }
+    await updateDoc(doc(transactionsCol(householdId), transactionId), {
+      attachments: arrayUnion(...attachments),
+    });
+  } catch (error) {
+    // Files that made it to Storage before the failure are not referenced by
+    // any transaction yet, so they are removed rather than left behind.
+    await deleteTransactionAttachmentFiles(attachments).catch(() => undefined);
+    throw error;
+  }
+  return attachments;
+}
+
+export async function removeTransactionAttachment(params: {
+  householdId: string;
+  transactionId: string;
+  attachment: TransactionAttachment;
+}) {
+  const { householdId, transactionId, attachment } = params;
+  await updateDoc(doc(transactionsCol(householdId), transactionId), {
+    attachments: arrayRemove(attachment),
+  });
+  await deleteTransactionAttachmentFiles([attachment]);
+}
+
+async function deleteStorageObject(objectRef: StorageReference) {
+  attachmentUrlCache.delete(objectRef.fullPath);
+  try {
+    await deleteObject(objectRef);
+  } catch (error) {
+    if ((error as { code?: string })?.code !== "storage/object-not-found") {
+      throw error;
+    }
+  }
+}
+
+export async function deleteTransactionAttachmentFiles(
+  attachments: TransactionAttachment[] | undefined
+) {
+  if (!attachments?.length) {
+    return;
+  }
+  await Promise.all(
+    attachments.flatMap((attachment) => [
+      deleteStorageObject(ref(storage, attachment.path)),
+      deleteStorageObject(ref(storage, attachment.thumbnailPath)),
+    ])
+  );
+}
+
+async function deleteStorageFolder(folderRef: StorageReference): Promise<void> {
+  const result = await listAll(folderRef);
+  await Promise.all(result.items.map((item) => deleteStorageObject(item)));
+  for (const prefix of result.prefixes) {
+    await deleteStorageFolder(prefix);
+  }
+}
+
+export async function deleteHouseholdAttachmentFiles(householdId: string) {
+  await deleteStorageFolder(ref(storage, `households/${householdId}/transactions`));
+}
+
+export function getAttachmentUrl(path: string) {
+  const cached = attachmentUrlCache.get(path);
+  if (cached) {
+    return cached;
+  }
+  const pending = getDownloadURL(ref(storage, path));
+  attachmentUrlCache.set(path, pending);
+  pending.catch(() => attachmentUrlCache.delete(path));
+  return pending;
+}
@@ -0,0 +1,283 @@
+import {
+  FieldPath,
+  Timestamp,
+  deleteField,
+  doc,
+  getDoc,
+  increment,
+  serverTimestamp,
+  type DocumentReference,
+  type WriteBatch,
+} from "firebase/firestore";
+import { addDays } from "date-fns";
+import { recurringTransactionRulesCol, transactionsCol } from "@/lib/firebase/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import {
+  commitWithMonthlyAggregates,
+  type AggregateWriteGroup,
+} from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { normalizeTags } from "@/lib/tags";
+import { toMonthKey } from "@/lib/time";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type { Transaction, TransactionType } from "@/types/ledger";
+
+export type TransactionBulkAction =
+  | { kind: "category"; categoryId: string; categoryType: TransactionType }
+  | { kind: "subject"; subject: string }
+  | { kind: "paymentMethod"; paymentMethod: string; paymentMethodId: string | null }
+  | { kind: "budgetApplied"; budgetApplied: boolean }
+  | { kind: "shiftDate"; days: number }
+  | { kind: "addTags"; tags: string[] };
+
+type StoredTransaction = {
+  id: string;
+  ref: DocumentReference;
+  data: Transaction;
+};
+
+export function getBulkActionFields(action: TransactionBulkAction) {
+  switch (action.kind) {
+    case "category":
+      return ["categoryId", "searchTokens"];
+    case "subject":
+      return ["subject", "searchTokens"];
+    case "paymentMethod":
+      return ["paymentMethod", "paymentMethodId", "searchTokens"];
+    case "budgetApplied":
+      return ["budgetApplied"];
+    case "shiftDate":
+      return ["date", "monthKey"];
+    case "addTags":
+      return ["tags"];
+  }
+}
+
+async function readTransactions(
+  householdId: string,
+  transactionIds: string[]
+): Promise<StoredTransaction[]> {
+  const snapshots = await Promise.all(
+    Array.from(new Set(transactionIds)).map((transactionId) =>
+      getDoc(doc(transactionsCol(householdId), transactionId))
+    )
+  );
+  return snapshots.flatMap((snapshot) =>
+    snapshot.exists()
+      ? [{ id: snapshot.id, ref: snapshot.ref, data: snapshot.data() as Transaction }]
+      : []
+  );
+}
+
+// Split entries keep category and subject per line, and refunds follow their
+// original, so those are left alone rather than drifting out of sync.
+function buildNextValues(
+  transaction: Transaction,
+  action: TransactionBulkAction
+): Record<string, unknown> | null {
+  const hasSplits = Boolean(transaction.splits?.length);
+  switch (action.kind) {
+    case "category":
+      if (transaction.type !== action.categoryType || hasSplits || transaction.refundOf) {
+        return null;
+      }
+      return { categoryId: action.categoryId };
+    case "subject":
+      if (hasSplits || transaction.refundOf) {
+        return null;
+      }
+      return { subject: action.subject };
+    case "paymentMethod":
+      if (transaction.refundOf) {
+        return null;
+      }
+      return {
+        paymentMethod: action.paymentMethod,
+        paymentMethodId: action.paymentMethodId,
+      };
+    case "budgetApplied":
+      if (transaction.type !== "expense") {
+        return null;
+      }
+      return { budgetApplied: action.budgetApplied };
+    case "shiftDate": {
+      const date = addDays(transaction.date.toDate(), action.days);
+      return { date: Timestamp.fromDate(date), monthKey: toMonthKey(date) };
+    }
+    case "addTags": {
+      const current = transaction.tags ?? [];
+      const tags = normalizeTags([...current, ...action.tags]);
+      return tags.length === current.length ? null : { tags };
+    }
+  }
+}
+
+export async function bulkUpdateTransactions(params: {
+  householdId: string;
+  transactionIds: string[];
+  action: TransactionBulkAction;
+  updatedBy: string;
+  updatedByName?: string | null;
+}) {
+  const { householdId, transactionIds, action, updatedBy, updatedByName } = params;
+  const transactions = await readTransactions(householdId, transactionIds);
+  // Each entry's writes (the update and its change log, or the trash copy and
+  // the delete) go into the same batch, so no entry is left half-written when a
+  // later chunk fails.
+  const groups: AggregateWriteGroup[] = [];
+  transactions.forEach(({ id, ref, data }) => {
+    const nextValues = buildNextValues(data, action);
+    if (!nextValues) {
+      return;
+    }
+    const changes = diffTransactionFields(data, nextValues);
+    if (changes.length === 0) {
+      return;
+    }
+    const payload = Object.fromEntries(
+      Object.entries(nextValues).map(([field, value]) => [
+        field,
+        value === null ? deleteField() : value,
+      ])
+    );
+    if (getBulkActionFields(action).includes("searchTokens")) {
+      payload.searchTokens = buildTransactionSearchTokens({ ...data, ...nextValues });
+    }
+    const delta = createMonthlyAggregateDelta();
+    addTransactionChangeToAggregateDelta(delta, data, {
+      ...data,
+      ...nextValues,
+    } as Transaction);
+    groups.push({
+      operations: [
+        (batch) => batch.update(ref, payload),
+        (batch) =>
+          batch.set(
+            transactionChangeLogRef(householdId),
+            buildTransactionChangeLog({
+              transactionId: id,
+              summary: describeTransactionForLog(data),
+              changedBy: updatedBy,
+              changedByName: updatedByName,
+              changes,
+            })
+          ),
+      ],
+      delta,
+    });
+  });
+  await commitWithMonthlyAggregates(householdId, groups);
+  return { updated: groups.length, skipped: transactionIds.length - groups.length };
+}
+
+// A refund takes its amount back off the original, as deleteRefundTransaction
+// does. When the original goes to the trash in the same action, its trash copy
+// is adjusted instead so restoring both does not count the refund twice.
+export async function bulkMoveTransactionsToTrash(params: {
+  householdId: string;
+  transactionIds: string[];
+  deletedBy: string;
+}) {
+  const { householdId, transactionIds, deletedBy } = params;
+  const transactions = await readTransactions(householdId, transactionIds);
+  const selectedIds = new Set(transactions.map((transaction) => transaction.id));
+  const refundTotals = new Map<string, number>();
+  transactions.forEach(({ data }) => {
+    if (data.refundOf) {
+      refundTotals.set(data.refundOf, (refundTotals.get(data.refundOf) ?? 0) + data.amount);
+    }
+  });
+  const outsideOriginals = await readTransactions(
+    householdId,
+    Array.from(refundTotals.keys()).filter((originalId) => !selectedIds.has(originalId))
+  );
+  const outsideOriginalById = new Map(
+    outsideOriginals.map((original) => [original.id, original])
+  );
+  // Each refund's group moves the original's month totals by its own amount,
+  // so whichever chunk it lands in stays in step with the refundedAmount write.
+  const remainingRefunded = new Map(
+    outsideOriginals.map((original) => [original.id, original.data.refundedAmount ?? 0])
+  );
+  // A generated occurrence gets a skip exception, as the single delete does;
+  // otherwise a rule held back by a moved occurrence would create it again.
+  const ruleIds = Array.from(
+    new Set(
+      transactions.flatMap(({ data }) =>
+        data.generatedFromRecurringRuleId && data.recurringOccurrenceDateKey
+          ? [data.generatedFromRecurringRuleId]
+          : []
+      )
+    )
+  );
+  const ruleSnaps = await Promise.all(
+    ruleIds.map((ruleId) => getDoc(doc(recurringTransactionRulesCol(householdId), ruleId)))
+  );
+  const existingRuleRefs = new Map(
+    ruleSnaps.filter((snap) => snap.exists()).map((snap) => [snap.id, snap.ref])
+  );
+
+  const groups: AggregateWriteGroup[] = transactions.map(({ id, ref, data }) => {
+    const ruleRef = data.generatedFromRecurringRuleId
+      ? existingRuleRefs.get(data.generatedFromRecurringRuleId)
+      : undefined;
+    const occurrenceDateKey = data.recurringOccurrenceDateKey;
+    const refundedInAction = refundTotals.get(id) ?? 0;
+    const trashData: Transaction =
+      refundedInAction > 0
+        ? { ...data, refundedAmount: Math.max(0, (data.refundedAmount ?? 0) - refundedInAction) }
+        : data;
+    const original = data.refundOf ? outsideOriginalById.get(data.refundOf) : undefined;
+    const delta = createMonthlyAggregateDelta();
+    addTransactionChangeToAggregateDelta(delta, data, null);
+    if (original) {
+      const refundedAmount = remainingRefunded.get(original.id) ?? 0;
+      remainingRefunded.set(original.id, refundedAmount - data.amount);
+      addTransactionChangeToAggregateDelta(
+        delta,
+        { ...original.data, refundedAmount },
+        { ...original.data, refundedAmount: refundedAmount - data.amount }
+      );
+    }
+    return {
+      operations: [
+        (batch) =>
+          batch.set(
+            trashItemRef(householdId, "transaction", id),
+            buildTrashItem({ kind: "transaction", itemId: id, data: trashData, deletedBy })
+          ),
+        (batch) => batch.delete(ref),
+        ...(original
+          ? [
+              (batch: WriteBatch) =>
+                batch.update(original.ref, { refundedAmount: increment(-data.amount) }),
+            ]
+          : []),
+        ...(ruleRef && occurrenceDateKey
+          ? [
+              (batch: WriteBatch) =>
+                batch.update(
+                  ruleRef,
+                  new FieldPath("exceptions", occurrenceDateKey),
+                  { skip: true },
+                  "updatedAt",
+                  serverTimestamp()
+                ),
+            ]
+          : []),
+      ],
+      delta,
+    };
+  });
+  await commitWithMonthlyAggregates(householdId, groups);
+  return transactions.length;
+}
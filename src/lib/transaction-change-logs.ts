@@ -0,0 +1,114 @@
+import { Timestamp, doc, serverTimestamp } from "firebase/firestore";
+import { transactionChangeLogsCol } from "@/lib/firebase/firestore";
+import { formatKrw } from "@/lib/format";
+import type { Transaction, TransactionFieldChange, TransactionType } from "@/types/ledger";
+
+// Bookkeeping fields (monthKey, paymentMethodId, recurring links) follow from
+// these, so logging them would only repeat the same change.
+export const TRACKED_TRANSACTION_FIELDS = [
+  "type",
+  "amount",
+  "discountAmount",
+  "categoryId",
+  "paymentMethod",
+  "subject",
+  "date",
+  "note",
+  "tags",
+  "splits",
+  "budgetApplied",
+] as const;
+
+export type TrackedTransactionField = (typeof TRACKED_TRANSACTION_FIELDS)[number];
+
+export const transactionChangeFieldLabelMap: Record<TrackedTransactionField, string> = {
+  type: "구분",
+  amount: "금액",
+  discountAmount: "할인",
+  categoryId: "카테고리",
+  paymentMethod: "결제수단",
+  subject: "주체",
+  date: "날짜",
+  note: "메모",
+  tags: "태그",
+  splits: "분할",
+  budgetApplied: "예산 반영",
+};
+
+const typeLabelMap: Record<TransactionType, string> = {
+  expense: "지출",
+  income: "수입",
+  transfer: "이체",
+};
+
+function toComparableJson(value: unknown): string {
+  if (value instanceof Timestamp) {
+    return `ts:${value.toMillis()}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toComparableJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${toComparableJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// `next` holds only the fields an update writes; a field set to null is being
+// cleared. Missing values are stored as null since Firestore has no undefined.
+export function diffTransactionFields(
+  current: Partial<Transaction>,
+  next: Record<string, unknown>
+): TransactionFieldChange[] {
+  return TRACKED_TRANSACTION_FIELDS.filter((field) => field in next).flatMap((field) => {
+    const before = current[field] ?? null;
+    const after = next[field] ?? null;
+    return toComparableJson(before) === toComparableJson(after)
+      ? []
+      : [{ field, before, after }];
+  });
+}
+
+export function describeTransactionForLog(transaction: {
+  type?: TransactionType;
+  amount?: number;
+  note?: string | null;
+}) {
+  const note = transaction.note?.trim();
+  return [
+    transaction.type ? typeLabelMap[transaction.type] : null,
+    typeof transaction.amount === "number" ? formatKrw(transaction.amount) : null,
+    note ? (note.length > 20 ? `${note.slice(0, 20)}...` : note) : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function transactionChangeLogRef(householdId: string) {
+  return doc(transactionChangeLogsCol(householdId));
+}
+
+export function buildTransactionChangeLog(params: {
+  transactionId: string;
+  summary: string;
+  changedBy: string;
+  changedByName?: string | null;
+  changes: TransactionFieldChange[];
+}) {
+  const { transactionId, summary, changedBy, changedByName, changes } = params;
+  return {
+    transactionId,
+    summary,
+    changedBy,
+    changedByName: changedByName?.trim() || null,
+    changedAt: serverTimestamp(),
+    changes,
+  };
+}
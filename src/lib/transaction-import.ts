@@ -0,0 +1,734 @@
+import {
+  Timestamp,
+  doc,
+  serverTimestamp,
+  writeBatch,
+  type WriteBatch,
+} from "firebase/firestore";
+import {
+  applyCategorizationRules,
+  type CategorizationRuleWithId,
+} from "@/lib/categorization-rule-matching";
+import { findSimilarTransactions } from "@/lib/duplicate-transactions";
+import { db } from "@/lib/firebase/client";
+import {
+  categoriesCol,
+  paymentMethodsCol,
+  subjectsCol,
+  transactionsCol,
+} from "@/lib/firebase/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import {
+  commitWithMonthlyAggregates,
+  type AggregateWriteGroup,
+} from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
+import { toMonthKey } from "@/lib/time";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import type { ImportField, Transaction, TransactionType } from "@/types/ledger";
+
+const BATCH_LIMIT = 500;
+const IMPORT_PAYMENT_OWNER = "our";
+const HEADER_SCAN_LIMIT = 20;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "date", label: "날짜" },
+  { field: "type", label: "입금/지출" },
+  { field: "recorder", label: "입력자" },
+  { field: "subject", label: "주체" },
+  { field: "category", label: "카테고리" },
+  { field: "paymentMethod", label: "지불 방식" },
+  { field: "note", label: "메모" },
+  { field: "amount", label: "금액" },
+  { field: "withdrawal", label: "출금액" },
+  { field: "deposit", label: "입금액" },
+];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["날짜", "일자", "거래일", "거래일자", "거래일시", "이용일", "이용일자", "승인일", "승인일자", "date"],
+  type: ["입금/지출", "구분", "유형", "거래구분", "type"],
+  recorder: ["입력자", "작성자", "recorder"],
+  subject: ["주체", "사용자", "subject"],
+  category: ["카테고리", "분류", "category"],
+  paymentMethod: ["지불 방식", "결제수단", "결제 수단", "카드", "카드명", "payment"],
+  note: ["메모", "내용", "적요", "가맹점", "가맹점명", "이용가맹점", "거래내용", "note", "memo"],
+  amount: ["금액", "이용금액", "결제금액", "승인금액", "거래금액", "amount"],
+  withdrawal: ["출금", "출금액", "출금금액", "찾으신금액", "withdrawal"],
+  deposit: ["입금", "입금액", "입금금액", "맡기신금액", "deposit"],
+};
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportContext = {
+  categories: { id: string; name: string; type?: TransactionType }[];
+  subjects: { name: string }[];
+  paymentMethods: {
+    id: string;
+    name: string;
+    owner?: "husband" | "wife" | "our";
+  }[];
+  resolveSubjectName: (subject: string, recorder: string) => string;
+  rules?: CategorizationRuleWithId[];
+};
+
+export type DuplicateResolution = "skip" | "keep" | "merge";
+
+export type ImportDuplicateMatch = {
+  transactionId: string;
+  date: Date;
+  amount: number;
+  paymentMethod: string;
+  note?: string;
+  paymentMethodId?: string | null;
+  original: Transaction;
+};
+
+export type ImportPlanRow = {
+  rowNumber: number;
+  date: Date;
+  type: TransactionType;
+  amount: number;
+  categoryName: string;
+  categoryId: string | null;
+  subjectName: string;
+  paymentMethodName: string;
+  paymentMethodId: string | null;
+  note?: string;
+  ruleNames?: string[];
+  duplicateOf?: ImportDuplicateMatch;
+};
+
+export type ImportPlanIssue = {
+  rowNumber: number;
+  message: string;
+};
+
+export type ImportPlan = {
+  rows: ImportPlanRow[];
+  issues: ImportPlanIssue[];
+  newCategories: { name: string; type: TransactionType }[];
+  newSubjects: string[];
+  newPaymentMethods: string[];
+  totals: Record<TransactionType, number>;
+};
+
+export function normalizeImportText(value: string) {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function normalizeHeader(value: string) {
+  return value.replace(/\s+/g, "").toLowerCase();
+}
+
+export function parseImportDate(raw: string) {
+  const trimmed = raw.trim();
+  const compactMatch = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compactMatch) {
+    const [, yearText, monthText, dayText] = compactMatch;
+    return new Date(Number(yearText), Number(monthText) - 1, Number(dayText));
+  }
+  const normalized = trimmed.replace(/\./g, "-").replace(/\//g, "-");
+  const koMatch = normalized.match(
+    /^(\d{4})\s*년\s*(\d{1,2})\s*월\s*(\d{1,2})\s*일/
+  );
+  if (koMatch) {
+    const [, yearText, monthText, dayText] = koMatch;
+    return new Date(Number(yearText), Number(monthText) - 1, Number(dayText));
+  }
+  const isoMatch = normalized.match(/^(\d{4})-\s*(\d{1,2})-\s*(\d{1,2})/);
+  if (isoMatch) {
+    const [, yearText, monthText, dayText] = isoMatch;
+    return new Date(Number(yearText), Number(monthText) - 1, Number(dayText));
+  }
+  return new Date(raw);
+}
+
+export function parseImportAmount(raw: string) {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const negative = /^-|^\(.*\)$|-$/.test(trimmed);
+  const digits = trimmed.replace(/[^\d.]/g, "");
+  if (!digits) {
+    return null;
+  }
+  const value = Math.round(Number(digits));
+  if (Number.isNaN(value)) {
+    return null;
+  }
+  return negative ? -value : value;
+}
+
+export function mapImportType(value: string) {
+  const normalized = value.trim();
+  if (["입금", "수입", "income"].includes(normalized)) {
+    return "income" as const;
+  }
+  if (["출금", "지출", "expense"].includes(normalized)) {
+    return "expense" as const;
+  }
+  if (["이체", "transfer"].includes(normalized)) {
+    return "transfer" as const;
+  }
+  return "expense" as const;
+}
+
+export function mapImportPaymentMethod(value: string) {
+  const normalized = normalizeImportText(value);
+  if (!normalized) {
+    return "기타";
+  }
+  if (normalized === "현금") {
+    return "현금";
+  }
+  if (normalized === "체크" || normalized === "체크카드") {
+    return "체크카드";
+  }
+  if (normalized === "신용" || normalized === "신용카드") {
+    return "신용카드";
+  }
+  if (normalized === "대출") {
+    return "대출";
+  }
+  if (
+    normalized === "은행" ||
+    normalized === "계좌이체" ||
+    normalized === "이체"
+  ) {
+    return "은행";
+  }
+  return normalized;
+}
+
+export function guessColumnMapping(headers: string[]) {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const usedIndexes = new Set<number>();
+  const mapping: ImportColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const aliases = HEADER_ALIASES[field].map(normalizeHeader);
+    const index = normalizedHeaders.findIndex(
+      (header, headerIndex) =>
+        !usedIndexes.has(headerIndex) && aliases.includes(header)
+    );
+    if (index >= 0) {
+      mapping[field] = index;
+      usedIndexes.add(index);
+    }
+  });
+  return mapping;
+}
+
+// Bank and card statements usually start with a title block, so the header
+// is the early row that matches the most known column names.
+export function detectHeaderRowIndex(rows: string[][]) {
+  const aliasSet = new Set(
+    Object.values(HEADER_ALIASES).flatMap((aliases) => aliases.map(normalizeHeader))
+  );
+  let bestIndex = 0;
+  let bestScore = 0;
+  rows.slice(0, HEADER_SCAN_LIMIT).forEach((row, index) => {
+    const score = row.filter((cell) => aliasSet.has(normalizeHeader(cell))).length;
+    if (score > bestScore) {
+      bestIndex = index;
+      bestScore = score;
+    }
+  });
+  return bestScore >= 2 ? bestIndex : 0;
+}
+
+export function mappingFromProfileColumns(
+  headers: string[],
+  columns: Partial<Record<ImportField, string>>
+) {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const mapping: ImportColumnMapping = {};
+  Object.entries(columns).forEach(([field, header]) => {
+    if (!header) {
+      return;
+    }
+    const index = normalizedHeaders.indexOf(normalizeHeader(header));
+    if (index >= 0) {
+      mapping[field as ImportField] = index;
+    }
+  });
+  return mapping;
+}
+
+export function mappingToProfileColumns(
+  headers: string[],
+  mapping: ImportColumnMapping
+) {
+  const columns: Partial<Record<ImportField, string>> = {};
+  Object.entries(mapping).forEach(([field, index]) => {
+    if (typeof index === "number" && headers[index] !== undefined) {
+      columns[field as ImportField] = headers[index];
+    }
+  });
+  return columns;
+}
+
+export function validateColumnMapping(mapping: ImportColumnMapping) {
+  if (mapping.date === undefined) {
+    return "날짜 열을 선택해주세요.";
+  }
+  if (
+    mapping.amount === undefined &&
+    mapping.withdrawal === undefined &&
+    mapping.deposit === undefined
+  ) {
+    return "금액 열 또는 출금액/입금액 열을 선택해주세요.";
+  }
+  return null;
+}
+
+// Older exports wrote notes with bare commas, which leaves a row wider than
+// its header. The surplus cells are folded back into the note column.
+function alignRowToHeader(
+  row: string[],
+  headerLength: number,
+  mapping: ImportColumnMapping
+) {
+  const extra = row.length - headerLength;
+  const noteIndex = mapping.note;
+  if (extra <= 0 || noteIndex === undefined) {
+    return row;
+  }
+  return [
+    ...row.slice(0, noteIndex),
+    row.slice(noteIndex, noteIndex + extra + 1).join(","),
+    ...row.slice(noteIndex + extra + 1),
+  ];
+}
+
+function readCell(row: string[], index: number | undefined) {
+  return index === undefined ? "" : (row[index] ?? "").trim();
+}
+
+function resolveAmountAndType(
+  row: string[],
+  mapping: ImportColumnMapping
+): { amount: number; type: TransactionType } | null {
+  const typeText = readCell(row, mapping.type);
+  if (mapping.amount !== undefined) {
+    const amount = parseImportAmount(readCell(row, mapping.amount));
+    if (amount === null) {
+      return null;
+    }
+    return {
+      amount: Math.abs(amount),
+      type: typeText ? mapImportType(typeText) : amount < 0 ? "income" : "expense",
+    };
+  }
+  const withdrawal = parseImportAmount(readCell(row, mapping.withdrawal)) ?? 0;
+  const deposit = parseImportAmount(readCell(row, mapping.deposit)) ?? 0;
+  if (withdrawal !== 0) {
+    return {
+      amount: Math.abs(withdrawal),
+      type: typeText ? mapImportType(typeText) : "expense",
+    };
+  }
+  if (deposit !== 0) {
+    return {
+      amount: Math.abs(deposit),
+      type: typeText ? mapImportType(typeText) : "income",
+    };
+  }
+  return null;
+}
+
+export function buildImportPlan(params: {
+  rows: string[][];
+  headerLength: number;
+  mapping: ImportColumnMapping;
+  context: ImportContext;
+  firstRowNumber?: number;
+}): ImportPlan {
+  const { rows, headerLength, mapping, context, firstRowNumber = 2 } = params;
+  const categoryIdByName = new Map(
+    context.categories.map((category) => [category.name.trim(), category.id])
+  );
+  const subjectNames = new Set(
+    context.subjects.map((subject) => subject.name.trim())
+  );
+  const paymentMethodIdByName = new Map(
+    context.paymentMethods
+      .filter((method) => (method.owner ?? "our") === IMPORT_PAYMENT_OWNER)
+      .map((method) => [method.name.trim(), method.id])
+  );
+  const categoryById = new Map(
+    context.categories.map((category) => [category.id, category])
+  );
+  const categoryTypeById = new Map(
+    context.categories.flatMap((category) =>
+      category.type ? [[category.id, category.type] as const] : []
+    )
+  );
+  const paymentMethodNameById = new Map(
+    context.paymentMethods.map((method) => [method.id, method.name.trim()])
+  );
+  const newCategories = new Map<string, TransactionType>();
+  const newSubjects = new Set<string>();
+  const newPaymentMethods = new Set<string>();
+  const plan: ImportPlan = {
+    rows: [],
+    issues: [],
+    newCategories: [],
+    newSubjects: [],
+    newPaymentMethods: [],
+    totals: { income: 0, expense: 0, transfer: 0 },
+  };
+
+  rows.forEach((rawRow, index) => {
+    const rowNumber = firstRowNumber + index;
+    const row = alignRowToHeader(rawRow, headerLength, mapping);
+    const dateText = readCell(row, mapping.date);
+    const date = parseImportDate(dateText);
+    if (!dateText || Number.isNaN(date.getTime())) {
+      plan.issues.push({ rowNumber, message: `날짜 파싱 실패 (${dateText || "빈 값"})` });
+      return;
+    }
+    const resolved = resolveAmountAndType(row, mapping);
+    if (!resolved || resolved.amount === 0) {
+      plan.issues.push({ rowNumber, message: "금액 파싱 실패" });
+      return;
+    }
+
+    const note = normalizeImportText(readCell(row, mapping.note));
+    const rawPaymentMethodName = mapImportPaymentMethod(
+      readCell(row, mapping.paymentMethod)
+    );
+    // Rules win over the file's own category, subject and card columns,
+    // since they exist to fix what bank exports get wrong.
+    const ruleResult = context.rules
+      ? applyCategorizationRules(
+          context.rules,
+          {
+            type: resolved.type,
+            amount: resolved.amount,
+            note,
+            paymentMethodId: paymentMethodIdByName.get(rawPaymentMethodName) ?? null,
+            paymentMethodName: rawPaymentMethodName,
+          },
+          categoryTypeById
+        )
+      : null;
+    const ruleCategory = ruleResult?.categoryId
+      ? categoryById.get(ruleResult.categoryId)
+      : undefined;
+    const rulePaymentMethodName = ruleResult?.paymentMethodId
+      ? paymentMethodNameById.get(ruleResult.paymentMethodId)
+      : undefined;
+
+    const categoryName =
+      ruleCategory?.name.trim() ||
+      normalizeImportText(readCell(row, mapping.category)) ||
+      "기타";
+    const categoryId = ruleCategory?.id ?? categoryIdByName.get(categoryName) ?? null;
+    if (!categoryId && !newCategories.has(categoryName)) {
+      newCategories.set(categoryName, resolved.type);
+    }
+
+    const subjectName =
+      ruleResult?.subject ??
+      context.resolveSubjectName(
+        readCell(row, mapping.subject),
+        readCell(row, mapping.recorder)
+      );
+    if (!subjectNames.has(subjectName)) {
+      newSubjects.add(subjectName);
+    }
+
+    const paymentMethodName = rulePaymentMethodName ?? rawPaymentMethodName;
+    const paymentMethodId = rulePaymentMethodName
+      ? (ruleResult?.paymentMethodId ?? null)
+      : (paymentMethodIdByName.get(paymentMethodName) ?? null);
+    if (!paymentMethodId) {
+      newPaymentMethods.add(paymentMethodName);
+    }
+
+    plan.rows.push({
+      rowNumber,
+      date,
+      type: resolved.type,
+      amount: resolved.amount,
+      categoryName,
+      categoryId,
+      subjectName,
+      paymentMethodName,
+      paymentMethodId,
+      note: note || undefined,
+      ruleNames: ruleResult?.ruleNames.length ? ruleResult.ruleNames : undefined,
+    });
+    plan.totals[resolved.type] += resolved.amount;
+  });
+
+  plan.newCategories = Array.from(newCategories, ([name, type]) => ({ name, type }));
+  plan.newSubjects = Array.from(newSubjects);
+  plan.newPaymentMethods = Array.from(newPaymentMethods);
+  return plan;
+}
+
+export function getImportPlanDateRange(plan: ImportPlan, toleranceDays: number) {
+  if (plan.rows.length === 0) {
+    return null;
+  }
+  const times = plan.rows.map((row) => row.date.getTime());
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+  return {
+    startDate: new Date(first.getFullYear(), first.getMonth(), first.getDate() - toleranceDays),
+    endDate: new Date(
+      last.getFullYear(),
+      last.getMonth(),
+      last.getDate() + toleranceDays,
+      23,
+      59,
+      59,
+      999
+    ),
+  };
+}
+
+// Each existing transaction is claimed by at most one imported row, so two
+// identical purchases in the file are not both folded into one record.
+export function markImportDuplicates(
+  plan: ImportPlan,
+  existing: (Transaction & { id: string })[],
+  toleranceDays: number
+): ImportPlan {
+  const candidates = existing.map((transaction) => ({
+    id: transaction.id,
+    date: transaction.date.toDate(),
+    amount: transaction.amount,
+    type: transaction.type,
+    paymentMethod: transaction.paymentMethod,
+    paymentMethodId: transaction.paymentMethodId,
+    note: transaction.note,
+  }));
+  const existingById = new Map(existing.map(({ id, ...transaction }) => [id, transaction]));
+  const claimedIds = new Set<string>();
+  const rows = plan.rows.map((row) => {
+    const [match] = findSimilarTransactions(
+      {
+        date: row.date,
+        amount: row.amount,
+        type: row.type,
+        paymentMethod: row.paymentMethodName,
+        note: row.note,
+      },
+      candidates.filter((candidate) => !claimedIds.has(candidate.id)),
+      toleranceDays
+    );
+    const original = match ? existingById.get(match.id) : undefined;
+    if (!match || !original) {
+      return { ...row, duplicateOf: undefined };
+    }
+    claimedIds.add(match.id);
+    return {
+      ...row,
+      duplicateOf: {
+        transactionId: match.id,
+        date: match.date,
+        amount: match.amount,
+        paymentMethod: match.paymentMethod,
+        paymentMethodId: match.paymentMethodId,
+        note: match.note,
+        original,
+      },
+    };
+  });
+  return { ...plan, rows };
+}
+
+function mergeImportNote(existingNote: string | undefined, importedNote: string | undefined) {
+  if (!importedNote) {
+    return existingNote;
+  }
+  if (!existingNote) {
+    return importedNote;
+  }
+  if (existingNote.includes(importedNote)) {
+    return existingNote;
+  }
+  return `${existingNote} / ${importedNote}`;
+}
+
+export async function commitImportPlan(params: {
+  householdId: string;
+  plan: ImportPlan;
+  createdBy: string;
+  createdByName?: string | null;
+  startOrders: { category: number; subject: number; paymentMethod: number };
+  resolutions?: Record<number, DuplicateResolution>;
+  onProgress?: (processed: number, total: number) => void;
+}) {
+  const {
+    householdId,
+    plan,
+    createdBy,
+    createdByName,
+    startOrders,
+    resolutions = {},
+    onProgress,
+  } = params;
+  const resolveRow = (row: ImportPlanRow) =>
+    row.duplicateOf ? (resolutions[row.rowNumber] ?? "skip") : "keep";
+  const rowsToWrite = plan.rows.filter((row) => resolveRow(row) !== "skip");
+
+  // Skipped duplicates create nothing, and merged rows only take the payment
+  // method, so new entities come from the rows that are actually written.
+  const insertedRows = rowsToWrite.filter((row) => resolveRow(row) === "keep");
+  const usedCategoryNames = new Set(
+    insertedRows.filter((row) => !row.categoryId).map((row) => row.categoryName)
+  );
+  const usedSubjectNames = new Set(insertedRows.map((row) => row.subjectName));
+  const usedPaymentMethodNames = new Set(
+    rowsToWrite.filter((row) => !row.paymentMethodId).map((row) => row.paymentMethodName)
+  );
+  const newCategories = plan.newCategories.filter((category) =>
+    usedCategoryNames.has(category.name)
+  );
+  const newSubjects = plan.newSubjects.filter((name) => usedSubjectNames.has(name));
+  const newPaymentMethods = plan.newPaymentMethods.filter((name) =>
+    usedPaymentMethodNames.has(name)
+  );
+
+  const categoryIdByName = new Map<string, string>();
+  const paymentMethodIdByName = new Map<string, string>();
+  const setupWrites: ((batch: WriteBatch) => void)[] = [];
+  newCategories.forEach((category, index) => {
+    const ref = doc(categoriesCol(householdId));
+    setupWrites.push((batch) =>
+      batch.set(ref, {
+        name: category.name,
+        type: category.type,
+        order: startOrders.category + index,
+        parentId: null,
+        imported: true,
+      })
+    );
+    categoryIdByName.set(category.name, ref.id);
+  });
+  newSubjects.forEach((name, index) => {
+    setupWrites.push((batch) =>
+      batch.set(doc(subjectsCol(householdId)), {
+        name,
+        order: startOrders.subject + index,
+        imported: true,
+      })
+    );
+  });
+  newPaymentMethods.forEach((name, index) => {
+    const ref = doc(paymentMethodsCol(householdId));
+    setupWrites.push((batch) =>
+      batch.set(ref, {
+        name,
+        order: startOrders.paymentMethod + index,
+        owner: IMPORT_PAYMENT_OWNER,
+        parentId: null,
+        imported: true,
+      })
+    );
+    paymentMethodIdByName.set(name, ref.id);
+  });
+  for (let index = 0; index < setupWrites.length; index += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    setupWrites.slice(index, index + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  let inserted = 0;
+  let merged = 0;
+  for (let index = 0; index < rowsToWrite.length; index += BATCH_LIMIT) {
+    const groups: AggregateWriteGroup[] = [];
+    rowsToWrite.slice(index, index + BATCH_LIMIT).forEach((row) => {
+      const categoryId = row.categoryId ?? categoryIdByName.get(row.categoryName);
+      const paymentMethodId =
+        row.paymentMethodId ?? paymentMethodIdByName.get(row.paymentMethodName);
+      const delta = createMonthlyAggregateDelta();
+      if (row.duplicateOf && resolveRow(row) === "merge") {
+        const { original, transactionId } = row.duplicateOf;
+        const note = mergeImportNote(row.duplicateOf.note, row.note);
+        const patch = {
+          ...(note && note !== row.duplicateOf.note
+            ? {
+                note,
+                searchTokens: buildTransactionSearchTokens({ ...original, note }),
+              }
+            : {}),
+          ...(!row.duplicateOf.paymentMethodId && paymentMethodId
+            ? { paymentMethodId }
+            : {}),
+        };
+        if (Object.keys(patch).length > 0) {
+          addTransactionChangeToAggregateDelta(delta, original, { ...original, ...patch });
+          const changes = diffTransactionFields(original, patch);
+          groups.push({
+            operations: [
+              (batch) => batch.update(doc(transactionsCol(householdId), transactionId), patch),
+              ...(changes.length > 0
+                ? [
+                    (batch: WriteBatch) =>
+                      batch.set(
+                        transactionChangeLogRef(householdId),
+                        buildTransactionChangeLog({
+                          transactionId,
+                          summary: `가져오기 병합 · ${describeTransactionForLog(original)}`,
+                          changedBy: createdBy,
+                          changedByName: createdByName,
+                          changes,
+                        })
+                      ),
+                  ]
+                : []),
+            ],
+            delta,
+          });
+        }
+        merged += 1;
+        return;
+      }
+      const payload = {
+        type: row.type,
+        amount: row.amount,
+        categoryId: categoryId ?? "",
+        paymentMethod: row.paymentMethodName,
+        ...(paymentMethodId ? { paymentMethodId } : {}),
+        subject: row.subjectName,
+        ...(row.note ? { note: row.note } : {}),
+        searchTokens: buildTransactionSearchTokens({
+          categoryId,
+          subject: row.subjectName,
+          paymentMethod: row.paymentMethodName,
+          note: row.note,
+        }),
+        createdBy,
+        date: Timestamp.fromDate(row.date),
+        monthKey: toMonthKey(row.date),
+        createdAt: serverTimestamp(),
+      };
+      addTransactionChangeToAggregateDelta(delta, null, payload);
+      groups.push({
+        operations: [(batch) => batch.set(doc(transactionsCol(householdId)), payload)],
+        delta,
+      });
+      inserted += 1;
+    });
+    await commitWithMonthlyAggregates(householdId, groups);
+    onProgress?.(inserted + merged, rowsToWrite.length);
+  }
+  return {
+    inserted,
+    merged,
+    skipped: plan.rows.length - rowsToWrite.length,
+  };
+}
@@ -0,0 +1,313 @@
+import {
+  Timestamp,
+  documentId,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import { householdDoc, transactionsCol } from "@/lib/firebase/firestore";
+import {
+  buildTransactionSearchTokens,
+  getSearchQueryToken,
+  getSearchableNote,
+  normalizeSearchText,
+  splitSearchWords,
+  toCategorySearchToken,
+} from "@/lib/search-tokens";
+import { normalizeTagName } from "@/lib/tags";
+import type { Category, Transaction } from "@/types/ledger";
+
+const BATCH_LIMIT = 500;
+// array-contains-any takes at most 30 values, one of which is the text token.
+const MAX_CATEGORY_TOKENS = 29;
+
+export type TransactionSearch = {
+  terms: string[];
+  tags: string[];
+  minAmount: number | null;
+  maxAmount: number | null;
+};
+
+export type TransactionSearchPage = {
+  transactions: (Transaction & { id: string })[];
+  cursor: QueryDocumentSnapshot | null;
+  done: boolean;
+};
+
+function parseAmountValue(value: string) {
+  const match = value.replace(/,/g, "").match(/^(\d+(?:\.\d+)?)(만|천)?원?$/u);
+  if (!match) {
+    return null;
+  }
+  const unit = match[2] === "만" ? 10000 : match[2] === "천" ? 1000 : 1;
+  return Math.round(Number(match[1]) * unit);
+}
+
+// Amount words look like ">50000", "<=3만", "=12,000" or "1만~5만"; anything
+// else is a tag ("#여행") or plain text.
+export function parseTransactionSearch(input: string): TransactionSearch {
+  const search: TransactionSearch = {
+    terms: [],
+    tags: [],
+    minAmount: null,
+    maxAmount: null,
+  };
+  const raiseMin = (value: number) => {
+    search.minAmount = Math.max(search.minAmount ?? value, value);
+  };
+  const lowerMax = (value: number) => {
+    search.maxAmount = Math.min(search.maxAmount ?? value, value);
+  };
+  input
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((piece) => {
+      if (piece.startsWith("#")) {
+        const tag = normalizeTagName(piece);
+        if (tag && !search.tags.includes(tag)) {
+          search.tags.push(tag);
+        }
+        return;
+      }
+      const operatorMatch = piece.match(/^(>=|<=|>|<|=)(.+)$/);
+      const operatorValue = operatorMatch ? parseAmountValue(operatorMatch[2]) : null;
+      if (operatorMatch && operatorValue !== null) {
+        const operator = operatorMatch[1];
+        if (operator === ">" || operator === ">=" || operator === "=") {
+          raiseMin(operator === ">" ? operatorValue + 1 : operatorValue);
+        }
+        if (operator === "<" || operator === "<=" || operator === "=") {
+          lowerMax(operator === "<" ? operatorValue - 1 : operatorValue);
+        }
+        return;
+      }
+      const rangeMatch = piece.match(/^(.+?)(?:~|\.\.)(.+)$/);
+      const rangeStart = rangeMatch ? parseAmountValue(rangeMatch[1]) : null;
+      const rangeEnd = rangeMatch ? parseAmountValue(rangeMatch[2]) : null;
+      if (rangeStart !== null && rangeEnd !== null) {
+        raiseMin(Math.min(rangeStart, rangeEnd));
+        lowerMax(Math.max(rangeStart, rangeEnd));
+        return;
+      }
+      splitSearchWords(piece).forEach((term) => {
+        if (!search.terms.includes(term)) {
+          search.terms.push(term);
+        }
+      });
+    });
+  return search;
+}
+
+export function isEmptyTransactionSearch(search: TransactionSearch) {
+  return (
+    search.terms.length === 0 &&
+    search.tags.length === 0 &&
+    search.minAmount === null &&
+    search.maxAmount === null
+  );
+}
+
+// The longest word narrows the index query the most; the rest are checked on
+// the fetched records.
+function getRetrievalTerm(search: TransactionSearch) {
+  return search.terms.reduce<string | null>(
+    (longest, term) =>
+      !longest || Array.from(term).length > Array.from(longest).length ? term : longest,
+    null
+  );
+}
+
+// Every word has to appear somewhere. A word in the memo counts most, then the
+// category name, then the subject or payment method, so ties on relevance fall
+// back to the newest record.
+export function scoreTransactionSearchMatch(
+  transaction: Transaction,
+  search: TransactionSearch,
+  categoryNameById: Map<string, string>
+) {
+  if (search.minAmount !== null && transaction.amount < search.minAmount) {
+    return null;
+  }
+  if (search.maxAmount !== null && transaction.amount > search.maxAmount) {
+    return null;
+  }
+  const tags = transaction.tags ?? [];
+  if (!search.tags.every((tag) => tags.includes(tag))) {
+    return null;
+  }
+  const note = normalizeSearchText(getSearchableNote(transaction.note));
+  const noteWords = new Set(splitSearchWords(note));
+  const splits = transaction.splits ?? [];
+  const categoryNames = [transaction.categoryId, ...splits.map((split) => split.categoryId)]
+    .map((categoryId) => normalizeSearchText(categoryNameById.get(categoryId) ?? ""))
+    .filter(Boolean);
+  const otherTexts = [
+    transaction.subject,
+    transaction.paymentMethod,
+    ...splits.flatMap((split) => [split.subject, split.note ?? ""]),
+  ].map((text) => normalizeSearchText(text ?? ""));
+  let score = search.tags.length * 2;
+  for (const term of search.terms) {
+    const termScore = noteWords.has(term)
+      ? 5
+      : note.includes(term)
+        ? 4
+        : categoryNames.includes(term)
+          ? 4
+          : categoryNames.some((name) => name.includes(term))
+            ? 3
+            : otherTexts.some((text) => text.includes(term))
+              ? 2
+              : 0;
+    if (termScore === 0) {
+      return null;
+    }
+    score += termScore;
+  }
+  return score;
+}
+
+export function getMatchingCategoryIds(
+  search: TransactionSearch,
+  categories: (Category & { id: string })[]
+) {
+  const term = getRetrievalTerm(search);
+  if (!term) {
+    return [];
+  }
+  return categories
+    .filter((category) => normalizeSearchText(category.name).includes(term))
+    .map((category) => category.id)
+    .slice(0, MAX_CATEGORY_TOKENS);
+}
+
+// Tag and text searches walk the index newest first inside the date range.
+// Amount-only searches have no token to look up, so they page by amount and
+// the date range is applied to the fetched records instead. Until the tokens
+// have been built for a household, text searches walk the date range itself
+// and every record is matched on the client.
+export async function fetchTransactionSearchPage(params: {
+  householdId: string;
+  search: TransactionSearch;
+  categoryIds: string[];
+  startDate: Date | null;
+  endDate: Date | null;
+  cursor: QueryDocumentSnapshot | null;
+  pageSize: number;
+  useSearchTokens: boolean;
+}): Promise<TransactionSearchPage> {
+  const {
+    householdId,
+    search,
+    categoryIds,
+    startDate,
+    endDate,
+    cursor,
+    pageSize,
+    useSearchTokens,
+  } = params;
+  const retrievalTerm = getRetrievalTerm(search);
+  const dateConstraints: QueryConstraint[] = [
+    ...(startDate ? [where("date", ">=", Timestamp.fromDate(startDate))] : []),
+    ...(endDate ? [where("date", "<=", Timestamp.fromDate(endDate))] : []),
+    orderBy("date", "desc"),
+  ];
+  let constraints: QueryConstraint[];
+  if (search.tags.length > 0) {
+    constraints = [where("tags", "array-contains", search.tags[0]), ...dateConstraints];
+  } else if (retrievalTerm && !useSearchTokens) {
+    constraints = dateConstraints;
+  } else if (retrievalTerm) {
+    constraints = [
+      where("searchTokens", "array-contains-any", [
+        getSearchQueryToken(retrievalTerm),
+        ...categoryIds.slice(0, MAX_CATEGORY_TOKENS).map(toCategorySearchToken),
+      ]),
+      ...dateConstraints,
+    ];
+  } else if (search.minAmount !== null || search.maxAmount !== null) {
+    constraints = [
+      ...(search.minAmount !== null ? [where("amount", ">=", search.minAmount)] : []),
+      ...(search.maxAmount !== null ? [where("amount", "<=", search.maxAmount)] : []),
+      orderBy("amount", "desc"),
+    ];
+  } else {
+    return { transactions: [], cursor: null, done: true };
+  }
+  const snapshot = await getDocs(
+    query(
+      transactionsCol(householdId),
+      ...constraints,
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(pageSize)
+    )
+  );
+  return {
+    transactions: snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...(docSnap.data() as Transaction),
+    })),
+    cursor: snapshot.docs[snapshot.docs.length - 1] ?? cursor,
+    done: snapshot.docs.length < pageSize,
+  };
+}
+
+// Records written before the index existed, or restored from an old snapshot,
+// have no tokens yet; this fills them in without touching anything else and
+// then lets text searches use the index.
+export async function rebuildTransactionSearchTokens(params: {
+  householdId: string;
+  onProgress?: (processed: number) => void;
+}) {
+  const { householdId, onProgress } = params;
+  let cursor: QueryDocumentSnapshot | null = null;
+  let processed = 0;
+  let updated = 0;
+  while (true) {
+    const snapshot: QuerySnapshot = await getDocs(
+      query(
+        transactionsCol(householdId),
+        orderBy(documentId()),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(BATCH_LIMIT)
+      )
+    );
+    if (snapshot.empty) {
+      break;
+    }
+    const batch = writeBatch(db);
+    let writeCount = 0;
+    snapshot.docs.forEach((docSnap) => {
+      const data = docSnap.data() as Transaction;
+      const searchTokens = buildTransactionSearchTokens(data);
+      if ((data.searchTokens ?? []).join("\n") === searchTokens.join("\n")) {
+        return;
+      }
+      batch.update(docSnap.ref, { searchTokens });
+      writeCount += 1;
+    });
+    if (writeCount > 0) {
+      await batch.commit();
+    }
+    updated += writeCount;
+    processed += snapshot.docs.length;
+    onProgress?.(processed);
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.docs.length < BATCH_LIMIT) {
+      break;
+    }
+  }
+  await updateDoc(householdDoc(householdId), { searchTokensBuiltAt: serverTimestamp() });
+  return { processed, updated };
+}
@@ -0,0 +1,71 @@
+import {
+  getExpenseDiscountAmount,
+  getRefundedAmount,
+} from "@/lib/transaction-amount";
+import type { TransactionSplit, TransactionType } from "@/types/ledger";
+
+type SplittableTransaction = {
+  type: TransactionType;
+  amount: number;
+  discountAmount?: number;
+  refundedAmount?: number;
+  refundOf?: string | null;
+  categoryId: string;
+  subject: string;
+  note?: string;
+  splits?: TransactionSplit[];
+};
+
+export function hasTransactionSplits(tx: { splits?: TransactionSplit[] | null }) {
+  return Array.isArray(tx.splits) && tx.splits.length > 0;
+}
+
+export function sumTransactionSplits(splits: TransactionSplit[]) {
+  return splits.reduce((total, split) => total + split.amount, 0);
+}
+
+// The parent keeps the category and subject of its largest line so lists
+// that only look at the parent still show something sensible.
+export function getPrimaryTransactionSplit(splits: TransactionSplit[]) {
+  return splits.reduce<TransactionSplit | null>(
+    (primary, split) => (!primary || split.amount > primary.amount ? split : primary),
+    null
+  );
+}
+
+function shareByLine(value: number, splits: TransactionSplit[]) {
+  const total = sumTransactionSplits(splits);
+  let remaining = value;
+  return splits.map((split, index) => {
+    const share =
+      index === splits.length - 1
+        ? Math.min(remaining, split.amount)
+        : total > 0
+          ? Math.floor((value * split.amount) / total)
+          : 0;
+    remaining -= share;
+    return share;
+  });
+}
+
+// Each line becomes a copy of the parent with the line's amount, category,
+// subject and note. The parent discount and refunds are shared out by line
+// amount so the net totals still add up to the parent.
+export function expandTransactionSplits<T extends SplittableTransaction>(tx: T): T[] {
+  if (!tx.splits || tx.splits.length === 0) {
+    return [tx];
+  }
+  const splits = tx.splits;
+  const discounts = shareByLine(getExpenseDiscountAmount(tx), splits);
+  const refunds = shareByLine(getRefundedAmount(tx), splits);
+  return splits.map((split, index) => ({
+    ...tx,
+    amount: split.amount,
+    discountAmount: discounts[index] > 0 ? discounts[index] : undefined,
+    refundedAmount: refunds[index] > 0 ? refunds[index] : undefined,
+    categoryId: split.categoryId,
+    subject: split.subject,
+    note: split.note || tx.note,
+    splits: undefined,
+  }));
+}
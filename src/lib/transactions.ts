@@ -1,21 +1,41 @@
 import {
   Timestamp,
-  addDoc,
   deleteField,
-  deleteDoc,
   doc,
   getDocs,
+  increment,
   query,
+  runTransaction,
   serverTimestamp,
-  setDoc,
-  updateDoc,
   where,
   writeBatch,
+  type Transaction as FirestoreTransaction,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase/client";
 import { transactionsCol } from "@/lib/firebase/firestore";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import {
+  applyMonthlyAggregateDelta,
+  commitWithMonthlyAggregates,
+} from "@/lib/monthly-aggregates";
+import { buildTransactionSearchTokens } from "@/lib/search-tokens";
 import { toMonthKey } from "@/lib/time";
-import type { TransactionType } from "@/types/ledger";
+import {
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { buildTrashItem, trashItemRef } from "@/lib/trash";
+import type {
+  Transaction,
+  TransactionSplit,
+  TransactionType,
+  TrashItem,
+} from "@/types/ledger";
 
 function stripUndefinedValues<T extends Record<string, unknown>>(input: T) {
   return Object.fromEntries(
@@ -37,6 +57,8 @@ export async function addTransaction(params: {
   subject: string;
   date: Date;
   note?: string;
+  tags?: string[];
+  splits?: TransactionSplit[];
   budgetApplied?: boolean;
   createdBy: string;
 }) {
@@ -45,13 +67,20 @@ export async function addTransaction(params: {
     ...stripUndefinedValues(rest),
     date: Timestamp.fromDate(date),
     monthKey: toMonthKey(date),
+    searchTokens: buildTransactionSearchTokens(rest),
     createdAt: serverTimestamp(),
   };
-
-  return addDoc(transactionsCol(householdId), payload);
+  const transactionRef = doc(transactionsCol(householdId));
+  const delta = createMonthlyAggregateDelta();
+  addTransactionChangeToAggregateDelta(delta, null, { ...rest, monthKey: payload.monthKey });
+  const batch = writeBatch(db);
+  batch.set(transactionRef, payload);
+  applyMonthlyAggregateDelta(batch, householdId, delta);
+  await batch.commit();
+  return transactionRef;
 }
 
-export async function updateTransaction(params: {
+type TransactionUpdateParams = {
   householdId: string;
   transactionId: string;
   type: TransactionType;
@@ -66,20 +95,82 @@ export async function updateTransaction(params: {
   subject: string;
   date: Date;
   note?: string;
+  tags?: string[];
+  splits?: TransactionSplit[];
   budgetApplied?: boolean;
-}) {
-  const { householdId, transactionId, date, ...rest } = params;
+  updatedBy: string;
+  updatedByName?: string | null;
+};
+
+export async function updateTransaction(params: TransactionUpdateParams) {
+  await writeTransactionUpdate(params);
+}
+
+// Editing a generated entry for "this and later" rewrites its rule in the same
+// transaction, so the next generation never disagrees with the saved entry.
+export async function updateGeneratedTransactionAndRule(
+  params: TransactionUpdateParams & {
+    ruleId: string;
+    ruleNote?: string;
+    prependMonthToNote: boolean;
+  }
+) {
+  const { ruleId, ruleNote, prependMonthToNote, ...update } = params;
+  const ruleRef = doc(
+    db,
+    "households",
+    update.householdId,
+    "recurringTransactionRules",
+    ruleId
+  );
+  await writeTransactionUpdate(update, (tx) => {
+    tx.update(ruleRef, {
+      type: update.type,
+      amount: update.amount,
+      categoryId: update.categoryId,
+      paymentMethod: update.paymentMethod,
+      paymentMethodId: update.paymentMethodId ?? deleteField(),
+      subject: update.subject,
+      note: ruleNote || deleteField(),
+      tags: update.tags ?? deleteField(),
+      prependMonthToNote,
+      budgetApplied: update.budgetApplied ?? false,
+      discountAmount: update.discountAmount ?? deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+async function writeTransactionUpdate(
+  params: TransactionUpdateParams,
+  writeRelated?: (tx: FirestoreTransaction) => void
+) {
+  const { householdId, transactionId, date, updatedBy, updatedByName, ...rest } = params;
   const payload: Record<string, unknown> = {
     ...stripUndefinedValues(rest),
     date: Timestamp.fromDate(date),
     monthKey: toMonthKey(date),
+    searchTokens: buildTransactionSearchTokens(rest),
+  };
+  const nextValues: Record<string, unknown> = {
+    ...payload,
+    note: rest.note ?? null,
+    tags: rest.tags ?? null,
+    discountAmount: rest.discountAmount ?? null,
+    splits: rest.splits ?? null,
   };
   if (rest.note === undefined) {
     payload.note = deleteField();
   }
+  if (rest.tags === undefined) {
+    payload.tags = deleteField();
+  }
   if (rest.discountAmount === undefined) {
     payload.discountAmount = deleteField();
   }
+  if (rest.splits === undefined) {
+    payload.splits = deleteField();
+  }
   if (rest.paymentMethodId === undefined) {
     payload.paymentMethodId = deleteField();
   }
@@ -92,58 +183,112 @@ export async function updateTransaction(params: {
   if (rest.recurringOccurrenceDateKey === undefined) {
     payload.recurringOccurrenceDateKey = deleteField();
   }
-  return updateDoc(
-    doc(db, "households", householdId, "transactions", transactionId),
-    payload
-  );
+  const transactionRef = doc(db, "households", householdId, "transactions", transactionId);
+  // The change log is written in the same transaction, so an edit is never
+  // saved without its before/after record.
+  await runTransaction(db, async (tx) => {
+    const currentSnap = await tx.get(transactionRef);
+    if (!currentSnap.exists()) {
+      throw new Error("내역을 찾을 수 없습니다.");
+    }
+    const current = currentSnap.data() as Transaction;
+    const changes = diffTransactionFields(current, nextValues);
+    const delta = createMonthlyAggregateDelta();
+    addTransactionChangeToAggregateDelta(delta, current, {
+      ...current,
+      ...rest,
+      monthKey: toMonthKey(date),
+    });
+    tx.update(transactionRef, payload);
+    applyMonthlyAggregateDelta(tx, householdId, delta);
+    writeRelated?.(tx);
+    if (changes.length > 0) {
+      tx.set(
+        transactionChangeLogRef(householdId),
+        buildTransactionChangeLog({
+          transactionId,
+          summary: describeTransactionForLog(rest),
+          changedBy: updatedBy,
+          changedByName: updatedByName,
+          changes,
+        })
+      );
+    }
+  });
 }
 
 export async function deleteTransaction(
   householdId: string,
-  transactionId: string
+  transactionId: string,
+  deletedBy: string
 ) {
-  return deleteDoc(
-    doc(db, "households", householdId, "transactions", transactionId)
-  );
+  const transactionRef = doc(db, "households", householdId, "transactions", transactionId);
+  await runTransaction(db, async (tx) => {
+    const snapshot = await tx.get(transactionRef);
+    if (!snapshot.exists()) {
+      throw new Error("내역을 찾을 수 없습니다.");
+    }
+    const delta = createMonthlyAggregateDelta();
+    addTransactionChangeToAggregateDelta(delta, snapshot.data() as Transaction, null);
+    applyMonthlyAggregateDelta(tx, householdId, delta);
+    tx.set(
+      trashItemRef(householdId, "transaction", transactionId),
+      buildTrashItem({
+        kind: "transaction",
+        itemId: transactionId,
+        data: snapshot.data(),
+        deletedBy,
+      })
+    );
+    tx.delete(transactionRef);
+  });
 }
 
-export async function restoreTransaction(params: {
-  householdId: string;
-  transactionId: string;
-  type: TransactionType;
-  amount: number;
-  discountAmount?: number;
-  categoryId: string;
-  paymentMethod: string;
-  paymentMethodId?: string | null;
-  recurringRuleId?: string | null;
-  generatedFromRecurringRuleId?: string | null;
-  recurringOccurrenceDateKey?: string | null;
-  subject: string;
-  date: Date;
-  note?: string;
-  budgetApplied?: boolean;
-  createdBy: string;
-  createdAt?: Date | null;
-}) {
-  const { householdId, transactionId, date, createdAt, ...rest } = params;
-  const payload = {
-    ...stripUndefinedValues(rest),
-    date: Timestamp.fromDate(date),
-    monthKey: toMonthKey(date),
-    createdAt: createdAt ? Timestamp.fromDate(createdAt) : serverTimestamp(),
-  };
-  return setDoc(
-    doc(db, "households", householdId, "transactions", transactionId),
-    payload
-  );
+// Refunds are restored together with the amount they took off the original,
+// so the original has to be back before its refund can be.
+export async function restoreTransactionFromTrash(
+  householdId: string,
+  transactionId: string
+) {
+  const trashRef = trashItemRef(householdId, "transaction", transactionId);
+  const transactionRef = doc(db, "households", householdId, "transactions", transactionId);
+  await runTransaction(db, async (tx) => {
+    const trashSnap = await tx.get(trashRef);
+    if (!trashSnap.exists()) {
+      throw new Error("휴지통에서 항목을 찾을 수 없습니다.");
+    }
+    const data = (trashSnap.data() as TrashItem).data as unknown as Transaction;
+    const currentSnap = await tx.get(transactionRef);
+    if (!currentSnap.exists()) {
+      const delta = createMonthlyAggregateDelta();
+      if (data.refundOf) {
+        const originalRef = doc(db, "households", householdId, "transactions", data.refundOf);
+        const originalSnap = await tx.get(originalRef);
+        if (!originalSnap.exists()) {
+          throw new Error("원래 내역을 먼저 복원해주세요.");
+        }
+        const original = originalSnap.data() as Transaction;
+        addTransactionChangeToAggregateDelta(delta, original, {
+          ...original,
+          refundedAmount: (original.refundedAmount ?? 0) + data.amount,
+        });
+        tx.update(originalRef, { refundedAmount: increment(data.amount) });
+      }
+      addTransactionChangeToAggregateDelta(delta, null, data);
+      tx.set(transactionRef, data);
+      applyMonthlyAggregateDelta(tx, householdId, delta);
+    }
+    tx.delete(trashRef);
+  });
 }
 
 async function updateTransactionsFieldValue(
   householdId: string,
   field: "subject",
   oldValue: string,
-  newValue: string
+  newValue: string,
+  updatedBy: string,
+  updatedByName?: string | null
 ) {
   if (!oldValue || oldValue === newValue) {
     return;
@@ -154,23 +299,76 @@ async function updateTransactionsFieldValue(
   if (snapshot.empty) {
     return;
   }
-  const docs = snapshot.docs;
-  let index = 0;
-  while (index < docs.length) {
-    const batch = writeBatch(db);
-    const slice = docs.slice(index, index + 500);
-    slice.forEach((docSnap) => {
-      batch.update(docSnap.ref, { [field]: newValue });
-    });
-    await batch.commit();
-    index += slice.length;
-  }
+  await commitWithMonthlyAggregates(
+    householdId,
+    snapshot.docs.map((docSnap) => {
+      const current = docSnap.data() as Transaction;
+      const next = { ...current, [field]: newValue };
+      const delta = createMonthlyAggregateDelta();
+      addTransactionChangeToAggregateDelta(delta, current, next);
+      return {
+        operations: [
+          (batch) =>
+            batch.update(docSnap.ref, {
+              [field]: newValue,
+              searchTokens: buildTransactionSearchTokens(next),
+            }),
+          (batch) =>
+            batch.set(
+              transactionChangeLogRef(householdId),
+              buildTransactionChangeLog({
+                transactionId: docSnap.id,
+                summary: describeTransactionForLog(current),
+                changedBy: updatedBy,
+                changedByName: updatedByName,
+                changes: diffTransactionFields(current, { [field]: newValue }),
+              })
+            ),
+        ],
+        delta,
+      };
+    })
+  );
 }
 
 export async function updateTransactionsSubjectName(
   householdId: string,
   oldName: string,
-  newName: string
+  newName: string,
+  updatedBy: string,
+  updatedByName?: string | null
 ) {
-  return updateTransactionsFieldValue(householdId, "subject", oldName, newName);
+  return updateTransactionsFieldValue(
+    householdId,
+    "subject",
+    oldName,
+    newName,
+    updatedBy,
+    updatedByName
+  );
+}
+
+export async function listTransactionIdsBySubject(householdId: string, subject: string) {
+  const snapshot = await getDocs(
+    query(transactionsCol(householdId), where("subject", "==", subject))
+  );
+  return snapshot.docs.map((docSnap) => docSnap.id);
+}
+
+export async function listTransactionsInRange(
+  householdId: string,
+  startDate: Date,
+  endDate: Date
+) {
+  const snapshot = await getDocs(
+    query(
+      transactionsCol(householdId),
+      where("date", ">=", Timestamp.fromDate(startDate)),
+      where("date", "<=", Timestamp.fromDate(endDate))
+    )
+  );
+  return snapshot.docs.map((docSnap) => ({
+    id: docSnap.id,
+    ...(docSnap.data() as Transaction),
+  }));
 }
@@ -0,0 +1,124 @@
+import {
+  Timestamp,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import { trashCol } from "@/lib/firebase/firestore";
+import { deleteTransactionAttachmentFiles } from "@/lib/transaction-attachments";
+import type { TransactionAttachment, TrashItem, TrashItemKind } from "@/types/ledger";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const trashItemKindLabelMap: Record<TrashItemKind, string> = {
+  transaction: "내역",
+  memo: "메모",
+  recurringRule: "자동 내역",
+  transfer: "이체",
+};
+
+// One trash document per deleted item, so deleting the same id twice (or
+// restoring and deleting again) overwrites instead of piling up copies.
+export function getTrashItemId(kind: TrashItemKind, itemId: string) {
+  return `${kind}_${itemId}`;
+}
+
+export function trashItemRef(householdId: string, kind: TrashItemKind, itemId: string) {
+  return doc(trashCol(householdId), getTrashItemId(kind, itemId));
+}
+
+export function buildTrashItem(params: {
+  kind: TrashItemKind;
+  itemId: string;
+  data: object;
+  deletedBy: string;
+  monthKey?: string | null;
+}) {
+  const { kind, itemId, data, deletedBy, monthKey } = params;
+  return {
+    kind,
+    itemId,
+    data,
+    ...(monthKey ? { monthKey } : {}),
+    deletedBy,
+    deletedAt: serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(
+      Date.now() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ),
+  };
+}
+
+// Attachment files stay in storage while a transaction sits in the trash so a
+// restore brings the photos back; they go away with the trash entry.
+function getTrashItemAttachments(item: Pick<TrashItem, "kind" | "data">) {
+  if (item.kind !== "transaction") {
+    return [];
+  }
+  return (item.data.attachments as TransactionAttachment[] | undefined) ?? [];
+}
+
+export async function permanentlyDeleteTrashItem(
+  householdId: string,
+  item: TrashItem & { id: string }
+) {
+  await deleteDoc(doc(trashCol(householdId), item.id));
+  await deleteTransactionAttachmentFiles(getTrashItemAttachments(item)).catch(
+    () => undefined
+  );
+}
+
+export async function emptyTrash(householdId: string) {
+  let deletedCount = 0;
+
+  while (true) {
+    const snapshot = await getDocs(query(trashCol(householdId), limit(500)));
+    if (snapshot.empty) {
+      return deletedCount;
+    }
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((docSnap) => {
+      batch.delete(docSnap.ref);
+    });
+    await batch.commit();
+    await deleteTransactionAttachmentFiles(
+      snapshot.docs.flatMap((docSnap) => getTrashItemAttachments(docSnap.data() as TrashItem))
+    ).catch(() => undefined);
+    deletedCount += snapshot.size;
+  }
+}
+
+export async function purgeExpiredTrashItems(householdId: string) {
+  let deletedCount = 0;
+
+  while (true) {
+    const snapshot = await getDocs(
+      query(trashCol(householdId), where("expiresAt", "<=", new Date()), limit(500))
+    );
+
+    if (snapshot.empty) {
+      return deletedCount;
+    }
+
+    const attachments = snapshot.docs.flatMap((docSnap) =>
+      getTrashItemAttachments(docSnap.data() as TrashItem)
+    );
+
+    if (snapshot.size === 1) {
+      await deleteDoc(snapshot.docs[0].ref);
+    } else {
+      const batch = writeBatch(db);
+      snapshot.docs.forEach((docSnap) => {
+        batch.delete(docSnap.ref);
+      });
+      await batch.commit();
+    }
+    await deleteTransactionAttachmentFiles(attachments).catch(() => undefined);
+    deletedCount += snapshot.size;
+  }
+}
@@ -1,95 +1,591 @@
-import type { TransactionType } from "@/types/ledger";
-
-const UNDO_STORAGE_KEY = "couple-ledger.undo-action";
-
-type TransactionDeleteUndoPayload = {
-  transactionId: string;
-  type: TransactionType;
-  amount: number;
-  discountAmount?: number;
-  categoryId: string;
-  paymentMethod: string;
-  paymentMethodId?: string | null;
-  recurringRuleId?: string | null;
-  generatedFromRecurringRuleId?: string | null;
-  recurringOccurrenceDateKey?: string | null;
-  subject: string;
-  dateIso: string;
-  note?: string;
-  budgetApplied?: boolean;
-  createdBy: string;
-  createdAtIso?: string | null;
-};
+import {
+  deleteField,
+  doc,
+  getDoc,
+  runTransaction,
+  type DocumentData,
+  type DocumentReference,
+  type DocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import { decodeFirestoreValue, encodeFirestoreValue } from "@/lib/firestore-json";
+import {
+  addTransactionChangeToAggregateDelta,
+  createMonthlyAggregateDelta,
+  type MonthlyAggregateDelta,
+} from "@/lib/monthly-aggregate-delta";
+import {
+  applyMonthlyAggregateDelta,
+  commitWithMonthlyAggregates,
+} from "@/lib/monthly-aggregates";
+import {
+  TRACKED_TRANSACTION_FIELDS,
+  buildTransactionChangeLog,
+  describeTransactionForLog,
+  diffTransactionFields,
+  transactionChangeLogRef,
+} from "@/lib/transaction-change-logs";
+import { buildTrashItem, getTrashItemId, trashItemRef } from "@/lib/trash";
+import type { Transaction } from "@/types/ledger";
 
-type MemoDeleteUndoPayload = {
-  monthKey: string;
-  entry: {
-    id: string;
-    text: string;
-    createdAtIso?: string | null;
-    createdBy?: string | null;
-    visibleFromIso?: string | null;
-    visibleUntilIso?: string | null;
-    linkUrl?: string | null;
-    sourceKey?: string | null;
-  };
+const UNDO_STORAGE_KEY = "couple-ledger.undo-history";
+const MAX_UNDO_ENTRIES = 30;
+const BATCH_LIMIT = 500;
+const CONFLICT_MESSAGE =
+  "그사이 다른 곳에서 바뀐 내용이 있어 되돌릴 수 없습니다. 기록에서 뺐습니다.";
+
+export const UNDO_TOAST_DURATION_MS = 10000;
+
+export type UndoEntryKind =
+  | "transaction.create"
+  | "transaction.update"
+  | "transaction.delete"
+  | "transaction.bulkUpdate"
+  | "transaction.bulkDelete"
+  | "memo.delete"
+  | "subject.merge"
+  | "transfer.create"
+  | "transfer.update"
+  | "transfer.delete"
+  | "recurringRule.update"
+  | "recurringRule.delete";
+
+// Paths are relative to the household document (`transactions/abc`). A field
+// target only tracks the listed fields, which keeps wide renames small enough
+// for sessionStorage.
+export type UndoTarget = string | { path: string; fields: string[] };
+
+type UndoChange = {
+  path: string;
+  fields?: string[];
+  before: unknown;
+  after: unknown;
 };
 
-export type TransactionDeleteUndoAction = {
-  kind: "transaction.delete";
+export type UndoEntry = {
+  id: string;
   householdId: string;
-  expiresAt: number;
-  payload: TransactionDeleteUndoPayload;
+  kind: UndoEntryKind;
+  label: string;
+  createdAt: number;
+  changes: UndoChange[];
 };
 
-export type MemoDeleteUndoAction = {
-  kind: "memo.delete";
-  householdId: string;
-  expiresAt: number;
-  payload: MemoDeleteUndoPayload;
+export type UndoActor = {
+  userId: string;
+  userName?: string | null;
 };
 
-export type PendingUndoAction =
-  | TransactionDeleteUndoAction
-  | MemoDeleteUndoAction;
+export type UndoCapture = {
+  changes: Omit<UndoChange, "after">[];
+};
 
-export function savePendingUndoAction(action: PendingUndoAction) {
-  if (typeof window === "undefined") {
+type UndoHistory = {
+  undo: UndoEntry[];
+  redo: UndoEntry[];
+};
+
+type UndoWriter = {
+  set: (ref: DocumentReference, data: DocumentData) => unknown;
+  update: (ref: DocumentReference, data: DocumentData) => unknown;
+  delete: (ref: DocumentReference) => unknown;
+};
+
+const listeners = new Set<(recorded: UndoEntry | null) => void>();
+
+function createEntryId() {
+  return typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+// Callers list accounts on both sides of a transfer, which can repeat.
+function normalizeTargets(targets: UndoTarget[]) {
+  const byPath = new Map<string, { path: string; fields?: string[] }>();
+  targets.forEach((target) => {
+    const normalized = typeof target === "string" ? { path: target } : target;
+    if (!byPath.has(normalized.path)) {
+      byPath.set(normalized.path, normalized);
+    }
+  });
+  return Array.from(byPath.values());
+}
+
+function householdDocRef(householdId: string, path: string) {
+  return doc(db, "households", householdId, ...path.split("/"));
+}
+
+function readState(snapshot: DocumentSnapshot, fields?: string[]) {
+  if (!snapshot.exists()) {
+    return null;
+  }
+  const data = snapshot.data();
+  if (!fields) {
+    return encodeFirestoreValue(data);
+  }
+  return encodeFirestoreValue(
+    Object.fromEntries(fields.filter((field) => field in data).map((field) => [field, data[field]]))
+  );
+}
+
+function toStableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${toStableJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isSameState(a: unknown, b: unknown) {
+  return toStableJson(a) === toStableJson(b);
+}
+
+function writeState(
+  writer: UndoWriter,
+  ref: DocumentReference,
+  fields: string[] | undefined,
+  state: unknown
+) {
+  if (state === null) {
+    writer.delete(ref);
+    return;
+  }
+  const data = decodeFirestoreValue(state) as DocumentData;
+  if (!fields) {
+    writer.set(ref, data);
+    return;
+  }
+  writer.update(
+    ref,
+    Object.fromEntries(
+      fields.map((field) => [field, field in data ? data[field] : deleteField()])
+    )
+  );
+}
+
+// Month totals and change logs depend on the whole record, so a field target
+// is laid over the stored document to get the state it leaves behind.
+function resolveTransactionStates(
+  change: UndoChange,
+  snapshot: DocumentSnapshot,
+  state: unknown
+) {
+  const current = snapshot.exists() ? snapshot.data() : null;
+  let next: DocumentData | null = null;
+  if (state !== null) {
+    const data = decodeFirestoreValue(state) as DocumentData;
+    next = data;
+    if (change.fields) {
+      const merged: DocumentData = { ...current };
+      change.fields.forEach((field) => {
+        if (field in data) {
+          merged[field] = data[field];
+        } else {
+          delete merged[field];
+        }
+      });
+      next = merged;
+    }
+  }
+  return { current: current as Transaction | null, next: next as Transaction | null };
+}
+
+function addUndoChangeToAggregateDelta(
+  delta: MonthlyAggregateDelta,
+  change: UndoChange,
+  snapshot: DocumentSnapshot,
+  state: unknown
+) {
+  if (!change.path.startsWith("transactions/")) {
+    return;
+  }
+  const { current, next } = resolveTransactionStates(change, snapshot, state);
+  addTransactionChangeToAggregateDelta(delta, current, next);
+}
+
+// Removing and bringing back a record show up through the trash; an edit
+// that undo or redo puts back is logged like any other edit.
+function writeUndoChangeLog(params: {
+  writer: UndoWriter;
+  householdId: string;
+  change: UndoChange;
+  snapshot: DocumentSnapshot;
+  state: unknown;
+  direction: "undo" | "redo";
+  actor: UndoActor;
+}) {
+  const { writer, householdId, change, snapshot, state, direction, actor } = params;
+  if (!change.path.startsWith("transactions/")) {
+    return;
+  }
+  const { current, next } = resolveTransactionStates(change, snapshot, state);
+  if (!current || !next) {
+    return;
+  }
+  const changes = diffTransactionFields(
+    current,
+    Object.fromEntries(TRACKED_TRANSACTION_FIELDS.map((field) => [field, next[field] ?? null]))
+  );
+  if (changes.length === 0) {
     return;
   }
-  window.sessionStorage.setItem(UNDO_STORAGE_KEY, JSON.stringify(action));
+  const actionLabel = direction === "undo" ? "되돌리기" : "다시 실행";
+  writer.set(
+    transactionChangeLogRef(householdId),
+    buildTransactionChangeLog({
+      transactionId: change.path.slice("transactions/".length),
+      summary: `${actionLabel} · ${describeTransactionForLog(next)}`,
+      changedBy: actor.userId,
+      changedByName: actor.userName,
+      changes,
+    })
+  );
 }
 
-export function loadPendingUndoAction() {
+// Undoing a create removes a transaction that no trash entry covers. It goes
+// to the trash like any other delete so its attachment files leave with the
+// trash entry, and the redo that brings it back takes that copy out again.
+function writeUndoTrashState(params: {
+  writer: UndoWriter;
+  householdId: string;
+  change: UndoChange;
+  snapshot: DocumentSnapshot;
+  state: unknown;
+  coveredPaths: Set<string>;
+  actor: UndoActor;
+}) {
+  const { writer, householdId, change, snapshot, state, coveredPaths, actor } = params;
+  if (!change.path.startsWith("transactions/") || change.fields) {
+    return;
+  }
+  const transactionId = change.path.slice("transactions/".length);
+  if (coveredPaths.has(`trash/${getTrashItemId("transaction", transactionId)}`)) {
+    return;
+  }
+  const trashRef = trashItemRef(householdId, "transaction", transactionId);
+  if (state === null && snapshot.exists()) {
+    writer.set(
+      trashRef,
+      buildTrashItem({
+        kind: "transaction",
+        itemId: transactionId,
+        data: snapshot.data(),
+        deletedBy: actor.userId,
+      })
+    );
+  } else if (state !== null && !snapshot.exists()) {
+    writer.delete(trashRef);
+  }
+}
+
+function loadHistory(): UndoHistory {
   if (typeof window === "undefined") {
-    return null;
+    return { undo: [], redo: [] };
   }
   try {
     const raw = window.sessionStorage.getItem(UNDO_STORAGE_KEY);
     if (!raw) {
-      return null;
+      return { undo: [], redo: [] };
     }
-    return JSON.parse(raw) as PendingUndoAction;
+    const parsed = JSON.parse(raw) as Partial<UndoHistory>;
+    return { undo: parsed.undo ?? [], redo: parsed.redo ?? [] };
   } catch {
     window.sessionStorage.removeItem(UNDO_STORAGE_KEY);
-    return null;
+    return { undo: [], redo: [] };
   }
 }
 
-export function clearPendingUndoAction(expectedKind?: PendingUndoAction["kind"]) {
+// A large merge can outgrow the storage quota, so the oldest entries are
+// dropped until the rest fits.
+function saveHistory(history: UndoHistory, recorded: UndoEntry | null = null) {
   if (typeof window === "undefined") {
     return;
   }
-  if (!expectedKind) {
-    window.sessionStorage.removeItem(UNDO_STORAGE_KEY);
+  const next = {
+    undo: history.undo.slice(-MAX_UNDO_ENTRIES),
+    redo: history.redo.slice(-MAX_UNDO_ENTRIES),
+  };
+  while (true) {
+    try {
+      window.sessionStorage.setItem(UNDO_STORAGE_KEY, JSON.stringify(next));
+      break;
+    } catch {
+      if (next.redo.length > 0) {
+        next.redo.shift();
+      } else if (next.undo.length > 0) {
+        next.undo.shift();
+      } else {
+        window.sessionStorage.removeItem(UNDO_STORAGE_KEY);
+        break;
+      }
+    }
+  }
+  listeners.forEach((listener) => listener(recorded));
+}
+
+export function subscribeUndoHistory(listener: (recorded: UndoEntry | null) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getUndoHistory(householdId: string | null): UndoHistory {
+  if (!householdId) {
+    return { undo: [], redo: [] };
+  }
+  const history = loadHistory();
+  return {
+    undo: history.undo.filter((entry) => entry.householdId === householdId),
+    redo: history.redo.filter((entry) => entry.householdId === householdId),
+  };
+}
+
+export function clearUndoHistory(householdId: string) {
+  const history = loadHistory();
+  saveHistory({
+    undo: history.undo.filter((entry) => entry.householdId !== householdId),
+    redo: history.redo.filter((entry) => entry.householdId !== householdId),
+  });
+}
+
+async function readTargets(householdId: string, targets: { path: string; fields?: string[] }[]) {
+  return Promise.all(
+    targets.map(async (target) =>
+      readState(await getDoc(householdDocRef(householdId, target.path)), target.fields)
+    )
+  );
+}
+
+// Undo bookkeeping never blocks the write it describes: a failed read just
+// means that change cannot be undone.
+export async function captureUndoState(
+  householdId: string,
+  targets: UndoTarget[]
+): Promise<UndoCapture | null> {
+  try {
+    const normalized = normalizeTargets(targets);
+    const states = await readTargets(householdId, normalized);
+    return {
+      changes: normalized.map((target, index) => ({ ...target, before: states[index] })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function recordUndoEntry(params: {
+  householdId: string;
+  capture: UndoCapture | null;
+  kind: UndoEntryKind;
+  label: string;
+  createdTargets?: UndoTarget[];
+}) {
+  const { householdId, capture, kind, label, createdTargets = [] } = params;
+  if (capture === null && createdTargets.length === 0) {
     return;
   }
-  const current = loadPendingUndoAction();
-  if (!current || current.kind === expectedKind) {
-    window.sessionStorage.removeItem(UNDO_STORAGE_KEY);
+  try {
+    const captured = capture?.changes ?? [];
+    const capturedPaths = new Set(captured.map((change) => change.path));
+    const pending = [
+      ...captured,
+      ...normalizeTargets(createdTargets)
+        .filter((target) => !capturedPaths.has(target.path))
+        .map((target) => ({ ...target, before: null })),
+    ];
+    const afterStates = await readTargets(householdId, pending);
+    const changes = pending
+      .map((change, index) => ({ ...change, after: afterStates[index] }))
+      .filter((change) => !isSameState(change.before, change.after));
+    if (changes.length === 0) {
+      return;
+    }
+    const entry: UndoEntry = {
+      id: createEntryId(),
+      householdId,
+      kind,
+      label,
+      createdAt: Date.now(),
+      changes,
+    };
+    const history = loadHistory();
+    saveHistory(
+      {
+        undo: [...history.undo, entry],
+        redo: history.redo.filter((item) => item.householdId !== householdId),
+      },
+      entry
+    );
+  } catch {
+    // See captureUndoState.
+  }
+}
+
+// Every document has to still look the way this entry left it; otherwise a
+// partner's later edit (or a balance moved since) would be overwritten.
+async function applyChanges(
+  householdId: string,
+  changes: UndoChange[],
+  direction: "undo" | "redo",
+  actor: UndoActor
+) {
+  const expectedOf = (change: UndoChange) =>
+    direction === "undo" ? change.after : change.before;
+  const targetOf = (change: UndoChange) =>
+    direction === "undo" ? change.before : change.after;
+  const ordered = direction === "undo" ? [...changes].reverse() : changes;
+  const coveredPaths = new Set(changes.map((change) => change.path));
+
+  if (ordered.length <= BATCH_LIMIT) {
+    await runTransaction(db, async (tx) => {
+      const snapshots: DocumentSnapshot[] = [];
+      for (const change of ordered) {
+        snapshots.push(await tx.get(householdDocRef(householdId, change.path)));
+      }
+      ordered.forEach((change, index) => {
+        if (!isSameState(readState(snapshots[index], change.fields), expectedOf(change))) {
+          throw new Error(CONFLICT_MESSAGE);
+        }
+      });
+      const delta = createMonthlyAggregateDelta();
+      ordered.forEach((change, index) => {
+        addUndoChangeToAggregateDelta(delta, change, snapshots[index], targetOf(change));
+        writeState(tx, householdDocRef(householdId, change.path), change.fields, targetOf(change));
+        writeUndoTrashState({
+          writer: tx,
+          householdId,
+          change,
+          snapshot: snapshots[index],
+          state: targetOf(change),
+          coveredPaths,
+          actor,
+        });
+        writeUndoChangeLog({
+          writer: tx,
+          householdId,
+          change,
+          snapshot: snapshots[index],
+          state: targetOf(change),
+          direction,
+          actor,
+        });
+      });
+      applyMonthlyAggregateDelta(tx, householdId, delta);
+    });
+    return;
+  }
+
+  const snapshots = await Promise.all(
+    ordered.map((change) => getDoc(householdDocRef(householdId, change.path)))
+  );
+  ordered.forEach((change, index) => {
+    if (!isSameState(readState(snapshots[index], change.fields), expectedOf(change))) {
+      throw new Error(CONFLICT_MESSAGE);
+    }
+  });
+  await commitWithMonthlyAggregates(
+    householdId,
+    ordered.map((change, index) => {
+      const delta = createMonthlyAggregateDelta();
+      addUndoChangeToAggregateDelta(delta, change, snapshots[index], targetOf(change));
+      return {
+        operations: [
+          (batch) =>
+            writeState(
+              batch,
+              householdDocRef(householdId, change.path),
+              change.fields,
+              targetOf(change)
+            ),
+          (batch) =>
+            writeUndoTrashState({
+              writer: batch,
+              householdId,
+              change,
+              snapshot: snapshots[index],
+              state: targetOf(change),
+              coveredPaths,
+              actor,
+            }),
+          (batch) =>
+            writeUndoChangeLog({
+              writer: batch,
+              householdId,
+              change,
+              snapshot: snapshots[index],
+              state: targetOf(change),
+              direction,
+              actor,
+            }),
+        ],
+        delta,
+      };
+    })
+  );
+}
+
+async function step(householdId: string, direction: "undo" | "redo", actor: UndoActor) {
+  const history = loadHistory();
+  const source = direction === "undo" ? history.undo : history.redo;
+  const sourceIndex = source.findLastIndex((entry) => entry.householdId === householdId);
+  if (sourceIndex < 0) {
+    return null;
+  }
+  const entry = source[sourceIndex];
+  const remaining = source.filter((_, index) => index !== sourceIndex);
+  try {
+    await applyChanges(householdId, entry.changes, direction, actor);
+  } catch (error) {
+    if (error instanceof Error && error.message === CONFLICT_MESSAGE) {
+      saveHistory(
+        direction === "undo"
+          ? { undo: remaining, redo: history.redo }
+          : { undo: history.undo, redo: remaining }
+      );
+    }
+    throw error;
+  }
+  saveHistory(
+    direction === "undo"
+      ? { undo: remaining, redo: [...history.redo, entry] }
+      : { undo: [...history.undo, entry], redo: remaining }
+  );
+  return entry;
+}
+
+export async function undoLatest(householdId: string, actor: UndoActor) {
+  return step(householdId, "undo", actor);
+}
+
+export async function redoLatest(householdId: string, actor: UndoActor) {
+  return step(householdId, "redo", actor);
+}
+
+// Entries depend on the ones after them, so reaching an older entry means
+// stepping through everything newer first.
+export async function undoUntil(householdId: string, entryId: string, actor: UndoActor) {
+  while (true) {
+    const entry = await step(householdId, "undo", actor);
+    if (!entry || entry.id === entryId) {
+      return;
+    }
   }
 }
 
-export function isPendingUndoExpired(action: PendingUndoAction) {
-  return action.expiresAt <= Date.now();
+export async function redoUntil(householdId: string, entryId: string, actor: UndoActor) {
+  while (true) {
+    const entry = await step(householdId, "redo", actor);
+    if (!entry || entry.id === entryId) {
+      return;
+    }
+  }
 }
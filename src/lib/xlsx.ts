@@ -0,0 +1,318 @@
+import { createZipArchive, openZipArchive } from "@/lib/zip";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUILT_IN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+export type XlsxSheet = {
+  name: string;
+  rows: string[][];
+};
+
+export type XlsxWriteSheet = {
+  name: string;
+  rows: (string | number | null | undefined)[][];
+};
+
+type CellFormat = "date" | "time" | "number";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const SHEET_NAME_LIMIT = 31;
+
+function getAttribute(element: Element, localName: string) {
+  const attribute = Array.from(element.attributes).find(
+    (item) => item.localName === localName
+  );
+  return attribute?.value ?? null;
+}
+
+function getElements(parent: Document | Element, localName: string) {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
+
+function resolveWorkbookPath(target: string) {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  return `xl/${target}`;
+}
+
+// A1-style reference to zero-based row/column indexes.
+function parseCellReference(reference: string) {
+  const match = reference.match(/^([A-Z]+)(\d+)$/i);
+  if (!match) {
+    return null;
+  }
+  const column = match[1]
+    .toUpperCase()
+    .split("")
+    .reduce((total, char) => total * 26 + (char.charCodeAt(0) - 64), 0);
+  return { row: Number(match[2]) - 1, column: column - 1 };
+}
+
+function classifyFormatCode(code: string): CellFormat {
+  const cleaned = code.replace(/"[^"]*"/g, "").replace(/\[[^\]]*\]/g, "");
+  if (/[yd]/i.test(cleaned)) {
+    return "date";
+  }
+  if (/[hs]/i.test(cleaned)) {
+    return "time";
+  }
+  return "number";
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+function formatSerialDate(serial: number, format: CellFormat, date1904: boolean) {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * DAY_MS));
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+  if (format === "time") {
+    return time;
+  }
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return serial % 1 === 0 ? day : `${day} ${time}`;
+}
+
+function readSharedStrings(xml: Document | null) {
+  if (!xml) {
+    return [];
+  }
+  return getElements(xml, "si").map((item) =>
+    getElements(item, "t")
+      .filter((text) => text.parentElement?.localName !== "rPh")
+      .map((text) => text.textContent ?? "")
+      .join("")
+  );
+}
+
+function readCellFormats(xml: Document | null) {
+  if (!xml) {
+    return [];
+  }
+  const customFormats = new Map(
+    getElements(xml, "numFmt").map((item) => [
+      Number(getAttribute(item, "numFmtId")),
+      getAttribute(item, "formatCode") ?? "",
+    ])
+  );
+  const cellXfs = getElements(xml, "cellXfs")[0];
+  if (!cellXfs) {
+    return [];
+  }
+  return getElements(cellXfs, "xf").map((item): CellFormat => {
+    const formatId = Number(getAttribute(item, "numFmtId") ?? 0);
+    if (BUILT_IN_DATE_FORMAT_IDS.has(formatId)) {
+      return formatId >= 18 && formatId <= 21 ? "time" : "date";
+    }
+    const code = customFormats.get(formatId);
+    return code ? classifyFormatCode(code) : "number";
+  });
+}
+
+function readSheetRows(
+  xml: Document,
+  sharedStrings: string[],
+  cellFormats: CellFormat[],
+  date1904: boolean
+) {
+  const grid: string[][] = [];
+  getElements(xml, "row").forEach((rowElement, rowPosition) => {
+    const rowIndex = Number(getAttribute(rowElement, "r") ?? rowPosition + 1) - 1;
+    const row = grid[rowIndex] ?? [];
+    getElements(rowElement, "c").forEach((cell, cellPosition) => {
+      const reference = parseCellReference(getAttribute(cell, "r") ?? "");
+      const columnIndex = reference?.column ?? cellPosition;
+      const type = getAttribute(cell, "t");
+      const rawValue = getElements(cell, "v")[0]?.textContent ?? "";
+      let value = rawValue;
+      if (type === "s") {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = getElements(cell, "t")
+          .map((text) => text.textContent ?? "")
+          .join("");
+      } else if (type === "b") {
+        value = rawValue === "1" ? "TRUE" : "FALSE";
+      } else if (type === "e") {
+        value = "";
+      } else if (!type || type === "n") {
+        const format = cellFormats[Number(getAttribute(cell, "s") ?? 0)] ?? "number";
+        if (rawValue && format !== "number") {
+          value = formatSerialDate(Number(rawValue), format, date1904);
+        }
+      }
+      row[columnIndex] = value;
+    });
+    grid[rowIndex] = row;
+  });
+
+  // Statements often merge a date or card name down several rows; every cell
+  // in a merged range takes the top-left value so each row stands alone.
+  getElements(xml, "mergeCell").forEach((mergeCell) => {
+    const [startRef, endRef] = (getAttribute(mergeCell, "ref") ?? "").split(":");
+    const start = parseCellReference(startRef ?? "");
+    const end = parseCellReference(endRef ?? "");
+    if (!start || !end) {
+      return;
+    }
+    const value = grid[start.row]?.[start.column] ?? "";
+    for (let rowIndex = start.row; rowIndex <= end.row; rowIndex += 1) {
+      const row = grid[rowIndex] ?? [];
+      for (let columnIndex = start.column; columnIndex <= end.column; columnIndex += 1) {
+        if (!row[columnIndex]) {
+          row[columnIndex] = value;
+        }
+      }
+      grid[rowIndex] = row;
+    }
+  });
+
+  const width = grid.reduce((max, row) => Math.max(max, row?.length ?? 0), 0);
+  return grid
+    .filter((row) => row && row.some((value) => value && value.trim() !== ""))
+    .map((row) => Array.from({ length: width }, (_, index) => row[index] ?? ""));
+}
+
+export async function readXlsxWorkbook(buffer: ArrayBuffer): Promise<XlsxSheet[]> {
+  const archive = openZipArchive(buffer);
+  const parser = new DOMParser();
+  const decoder = new TextDecoder();
+
+  async function readXml(path: string) {
+    const bytes = await archive.read(path);
+    if (!bytes) {
+      return null;
+    }
+    return parser.parseFromString(decoder.decode(bytes), "application/xml");
+  }
+
+  const workbook = await readXml("xl/workbook.xml");
+  if (!workbook) {
+    throw new Error("엑셀 통합 문서를 찾을 수 없습니다.");
+  }
+  const relationships = await readXml("xl/_rels/workbook.xml.rels");
+  const targetById = new Map(
+    relationships
+      ? getElements(relationships, "Relationship").map((item) => [
+          getAttribute(item, "Id") ?? "",
+          getAttribute(item, "Target") ?? "",
+        ])
+      : []
+  );
+  const workbookProperties = getElements(workbook, "workbookPr")[0];
+  const date1904 = ["1", "true"].includes(
+    (workbookProperties && getAttribute(workbookProperties, "date1904")) ?? ""
+  );
+  const sharedStrings = readSharedStrings(await readXml("xl/sharedStrings.xml"));
+  const cellFormats = readCellFormats(await readXml("xl/styles.xml"));
+
+  const sheets: XlsxSheet[] = [];
+  for (const sheet of getElements(workbook, "sheet")) {
+    const target = targetById.get(getAttribute(sheet, "id") ?? "");
+    const sheetXml = target ? await readXml(resolveWorkbookPath(target)) : null;
+    if (!sheetXml) {
+      continue;
+    }
+    sheets.push({
+      name: getAttribute(sheet, "name") ?? `Sheet${sheets.length + 1}`,
+      rows: readSheetRows(sheetXml, sharedStrings, cellFormats, date1904),
+    });
+  }
+  return sheets;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function toColumnName(index: number) {
+  let name = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + offset) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return name;
+}
+
+function toSheetName(name: string, usedNames: Set<string>) {
+  const base = name.replace(/[\[\]:*?/\\]/g, " ").trim().slice(0, SHEET_NAME_LIMIT) || "Sheet";
+  let candidate = base;
+  let suffix = 2;
+  while (usedNames.has(candidate)) {
+    const tail = ` (${suffix})`;
+    candidate = `${base.slice(0, SHEET_NAME_LIMIT - tail.length)}${tail}`;
+    suffix += 1;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+function buildSheetXml(rows: XlsxWriteSheet["rows"]) {
+  const rowXml = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          if (value === null || value === undefined || value === "") {
+            return "";
+          }
+          const reference = `${toColumnName(columnIndex)}${rowIndex + 1}`;
+          if (typeof value === "number" && Number.isFinite(value)) {
+            return `<c r="${reference}"><v>${value}</v></c>`;
+          }
+          return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+            String(value)
+          )}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml}</sheetData></worksheet>`;
+}
+
+export function buildXlsxWorkbook(sheets: XlsxWriteSheet[]) {
+  const usedNames = new Set<string>();
+  const names = sheets.map((sheet) => toSheetName(sheet.name, usedNames));
+  const sheetEntries = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: buildSheetXml(sheet.rows),
+  }));
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("")}</Types>`;
+  const rootRelationships = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+    .map(
+      (name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join("")}</sheets></workbook>`;
+  const workbookRelationships = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join("")}</Relationships>`;
+
+  const archive = createZipArchive([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRelationships },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRelationships },
+    ...sheetEntries,
+  ]);
+  return new Blob([archive], { type: XLSX_MIME_TYPE });
+}
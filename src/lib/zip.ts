@@ -0,0 +1,167 @@
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+const ZIP_UTF8_FLAG = 0x0800;
+
+export type ZipFileInput = {
+  name: string;
+  data: Uint8Array<ArrayBuffer> | string;
+};
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let index = 0; index < 256; index += 1) {
+      let value = index;
+      for (let bit = 0; bit < 8; bit += 1) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crcTable[index] = value >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = crcTable[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function listZipEntries(view: DataView<ArrayBuffer>) {
+  let endOffset = -1;
+  for (let offset = view.byteLength - 22; offset >= 0; offset -= 1) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("압축 파일 형식이 올바르지 않습니다.");
+  }
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("압축 파일 형식이 올바르지 않습니다.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)
+    );
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(view: DataView<ArrayBuffer>, entry: ZipEntry) {
+  const headerOffset = entry.localHeaderOffset;
+  if (view.getUint32(headerOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+    throw new Error("압축 파일 형식이 올바르지 않습니다.");
+  }
+  const nameLength = view.getUint16(headerOffset + 26, true);
+  const extraLength = view.getUint16(headerOffset + 28, true);
+  const dataOffset = headerOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(
+    view.buffer.slice(
+      view.byteOffset + dataOffset,
+      view.byteOffset + dataOffset + entry.compressedSize
+    )
+  );
+  if (entry.method === ZIP_METHOD_STORED) {
+    return data;
+  }
+  if (entry.method !== ZIP_METHOD_DEFLATE) {
+    throw new Error("지원하지 않는 압축 방식입니다.");
+  }
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function openZipArchive(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  const entries = listZipEntries(view);
+  return {
+    names: Array.from(entries.keys()),
+    async read(name: string) {
+      const entry = entries.get(name);
+      return entry ? readZipEntry(view, entry) : null;
+    },
+  };
+}
+
+// Entries are written uncompressed; exports are small and this keeps the
+// writer synchronous and free of stream plumbing.
+export function createZipArchive(files: ZipFileInput[]) {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === "string" ? encoder.encode(file.data) : file.data;
+    const checksum = crc32(data);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const localView = new DataView(localHeader.buffer);
+    localView.setUint32(0, ZIP_LOCAL_FILE_HEADER, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, ZIP_UTF8_FLAG, true);
+    localView.setUint16(8, ZIP_METHOD_STORED, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localHeader.set(name, 30);
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const centralView = new DataView(centralHeader.buffer);
+    centralView.setUint32(0, ZIP_CENTRAL_DIRECTORY_ENTRY, true);
+    centralView.setUint16(4, ZIP_VERSION, true);
+    centralView.setUint16(6, ZIP_VERSION, true);
+    centralView.setUint16(8, ZIP_UTF8_FLAG, true);
+    centralView.setUint16(10, ZIP_METHOD_STORED, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    centralHeader.set(name, 46);
+
+    parts.push(localHeader, data);
+    centralDirectory.push(centralHeader);
+    offset += localHeader.length + data.length;
+  });
+
+  const centralSize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, ZIP_END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: "application/zip" });
+}
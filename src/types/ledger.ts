@@ -7,6 +7,8 @@ export interface Household {
   name: string;
   createdAt: Timestamp;
   membersCount: number;
+  searchTokensBuiltAt?: Timestamp;
+  monthlyAggregatesBuiltAt?: Timestamp;
 }
 
 export interface HouseholdMember {
@@ -34,6 +36,36 @@ export interface Category {
   personalOnly?: boolean;
 }
 
+export interface TransactionSplit {
+  amount: number;
+  categoryId: string;
+  subject: string;
+  note?: string;
+}
+
+export interface TransactionInstallment {
+  parentId: string;
+  index: number;
+  months: number;
+  principal: number;
+  interestRate?: number;
+}
+
+export type TransactionAttachmentKind = "receipt" | "warranty";
+
+export interface TransactionAttachment {
+  id: string;
+  kind: TransactionAttachmentKind;
+  name: string;
+  path: string;
+  thumbnailPath: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  uploadedBy: string;
+}
+
 export interface Transaction {
   type: TransactionType;
   amount: number;
@@ -48,12 +80,61 @@ export interface Transaction {
   date: Timestamp;
   monthKey: string;
   note?: string;
+  splits?: TransactionSplit[];
+  installment?: TransactionInstallment;
+  refundOf?: string | null;
+  refundedAmount?: number;
+  tags?: string[];
+  attachments?: TransactionAttachment[];
   budgetApplied?: boolean;
+  searchTokens?: string[];
   createdBy: string;
   createdAt: Timestamp;
 }
 
+export interface MonthlyAggregateAmounts {
+  count: number;
+  amount: number;
+  effective: number;
+  budgetApplied: number;
+}
+
+export type MonthlyAggregateByType = Partial<
+  Record<TransactionType, Partial<MonthlyAggregateAmounts>>
+>;
+
+export interface MonthlyAggregate {
+  monthKey: string;
+  totals?: MonthlyAggregateByType;
+  byCategory?: Record<string, MonthlyAggregateByType>;
+  byCategoryCreator?: Record<string, Record<string, MonthlyAggregateByType>>;
+  bySubject?: Record<string, MonthlyAggregateByType>;
+  byPaymentMethod?: Record<string, MonthlyAggregateByType>;
+  updatedAt?: Timestamp;
+}
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "yearly";
+export type RecurrenceDayAnchor = "dayOfMonth" | "lastDay" | "lastBusinessDay";
+
+export interface RecurrenceSpec {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekday?: number;
+  dayOfMonth?: number;
+  monthOfYear?: number;
+  anchor?: RecurrenceDayAnchor;
+}
+
+export interface RecurrenceException {
+  skip?: boolean;
+  moveToDateKey?: string;
+  amount?: number;
+}
+
+export type RecurringRuleTarget = "transaction" | "transfer";
+
 export interface RecurringTransactionRule {
+  target?: RecurringRuleTarget;
   type: TransactionType;
   amount: number;
   discountAmount?: number;
@@ -62,9 +143,14 @@ export interface RecurringTransactionRule {
   paymentMethodId?: string | null;
   subject: string;
   note?: string;
+  tags?: string[];
   prependMonthToNote?: boolean;
   budgetApplied?: boolean;
+  fromAccountId?: string | null;
+  toAccountId?: string | null;
   dayOfMonth: number;
+  recurrence?: RecurrenceSpec;
+  exceptions?: Record<string, RecurrenceException>;
   startDate: Timestamp;
   endDate?: Timestamp;
   lastGeneratedDateKey?: string;
@@ -79,6 +165,12 @@ export interface Subject {
   imported?: boolean;
 }
 
+export interface Tag {
+  name: string;
+  order: number;
+  createdAt?: Timestamp;
+}
+
 export interface PaymentMethod {
   name: string;
   order: number;
@@ -86,6 +178,7 @@ export interface PaymentMethod {
   parentId?: string | null;
   imported?: boolean;
   goalMonthly?: number | null;
+  cardSuffix?: string | null;
 }
 
 export interface Account {
@@ -134,6 +227,8 @@ export interface Transfer {
   date: Timestamp;
   monthKey: string;
   memo?: string;
+  generatedFromRecurringRuleId?: string;
+  recurringOccurrenceDateKey?: string;
   createdBy: string;
   createdAt: Timestamp;
 }
@@ -167,6 +262,59 @@ export interface Budget {
   createdAt: Timestamp;
 }
 
+export type ImportField =
+  | "date"
+  | "type"
+  | "recorder"
+  | "subject"
+  | "category"
+  | "paymentMethod"
+  | "note"
+  | "amount"
+  | "withdrawal"
+  | "deposit";
+
+export interface ImportProfile {
+  name: string;
+  columns: Partial<Record<ImportField, string>>;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type CategorizationRuleCondition =
+  | { field: "note"; operator: "contains" | "equals" | "startsWith"; value: string }
+  | { field: "amount"; operator: "equals" | "gte" | "lte"; value: number }
+  | { field: "paymentMethod"; operator: "equals"; value: string; label?: string }
+  | { field: "type"; operator: "equals"; value: TransactionType };
+
+export interface CategorizationRuleActions {
+  categoryId?: string | null;
+  subject?: string | null;
+  paymentMethodId?: string | null;
+}
+
+export interface CategorizationRule {
+  name: string;
+  order: number;
+  enabled: boolean;
+  conditions: CategorizationRuleCondition[];
+  actions: CategorizationRuleActions;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export interface ApiToken {
+  name: string;
+  householdId: string;
+  uid: string;
+  prefix: string;
+  createdAt: Timestamp;
+  lastUsedAt?: Timestamp | null;
+  revokedAt?: Timestamp | null;
+}
+
 export interface UserProfile {
   householdId: string;
   createdAt: Timestamp;
@@ -174,9 +322,36 @@ export interface UserProfile {
   spouseRole?: "husband" | "wife" | null;
 }
 
+export type TrashItemKind = "transaction" | "memo" | "recurringRule" | "transfer";
+
+export interface TrashItem {
+  kind: TrashItemKind;
+  itemId: string;
+  monthKey?: string | null;
+  data: Record<string, unknown>;
+  deletedBy: string;
+  deletedAt?: Timestamp;
+  expiresAt: Timestamp;
+}
+
+export interface TransactionFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TransactionChangeLog {
+  transactionId: string;
+  summary: string;
+  changedBy: string;
+  changedByName?: string | null;
+  changedAt?: Timestamp;
+  changes: TransactionFieldChange[];
+}
+
 export interface AutomationLog {
-  source: "ruliweb-market-flyers";
-  action: "collect" | "cleanup";
+  source: "ruliweb-market-flyers" | "recurring-transactions";
+  action: "collect" | "cleanup" | "generate";
   status: "success" | "noop" | "error";
   summary: string;
   details?: {
@@ -187,6 +362,9 @@ export interface AutomationLog {
     scannedDocuments?: number;
     touchedDocuments?: number;
     removedEntries?: number;
+    scannedRules?: number;
+    touchedRules?: number;
+    failedRuleIds?: string[];
     monthKey?: string | null;
     titles?: string[];
     error?: string | null;